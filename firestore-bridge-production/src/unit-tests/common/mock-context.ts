@@ -0,0 +1,35 @@
+import { FirestoreMock } from '@firebase-bridge/firestore-admin';
+import { Firestore, Settings } from 'firebase-admin/firestore';
+import { FirestoreBridgeTestContext } from 'firestore-bridge-test-suites';
+
+/**
+ * A test context backed by a fresh in-memory `FirestoreMock` database, used
+ * as the candidate side of the differential run against the emulator.
+ */
+export function mockContext(): FirestoreBridgeTestContext {
+  const ctrl = new FirestoreMock().createDatabase();
+  const clients: Firestore[] = [];
+
+  return {
+    async init(
+      collectionPath?: string,
+      settings?: Settings
+    ): Promise<Firestore> {
+      const firestore = ctrl.firestore(settings);
+      clients.push(firestore);
+
+      if (collectionPath && clients.length === 1) {
+        await firestore.recursiveDelete(firestore.collection(collectionPath));
+      }
+
+      return firestore;
+    },
+    async tearDown(): Promise<void> {
+      let firestore = clients.pop();
+      while (firestore) {
+        await firestore.terminate();
+        firestore = clients.pop();
+      }
+    },
+  };
+}
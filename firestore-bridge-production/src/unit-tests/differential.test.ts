@@ -0,0 +1,60 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  aggregationsSuite,
+  collectionOnSnapshotSuite,
+  crudSemtanticsSuite,
+  DifferentialHarness,
+  documentOnSnapshotSuite,
+  errorHandlingSuite,
+  formatDivergenceReport,
+  listDocumentsSuite,
+  preconditionSuite,
+  queryFiltersSuite,
+  queryOnSnapshotSuite,
+  queryOrderByCursorsSuite,
+  runTransactionSuite,
+  streamingReadTimeSuite,
+  writeBatchingAndBulkWriterSuite,
+} from 'firestore-bridge-test-suites';
+import { mockContext, testContext } from './common/index.js';
+
+/**
+ * Runs the suites against the emulator (the reference) and a `FirestoreMock`
+ * database (the candidate) at once, and writes the divergences found to
+ * `test-output/differential`. Divergences are reported, not failed on.
+ *
+ * Opt-in, as it repeats the emulator run: set `FIRESTORE_DIFFERENTIAL=1`.
+ */
+const describeDifferential = process.env.FIRESTORE_DIFFERENTIAL
+  ? describe
+  : describe.skip;
+
+describeDifferential('Differential run', () => {
+  const harness = new DifferentialHarness();
+  const context = (area: string) =>
+    harness.context(area, testContext(), mockContext());
+
+  crudSemtanticsSuite(context('Writes'));
+  preconditionSuite(context('Writes'));
+  writeBatchingAndBulkWriterSuite(context('Writes'));
+  queryFiltersSuite(context('Queries'));
+  queryOrderByCursorsSuite(context('Queries'));
+  aggregationsSuite(context('Queries'));
+  listDocumentsSuite(context('Queries'));
+  streamingReadTimeSuite(context('Queries'));
+  documentOnSnapshotSuite(context('Listeners'));
+  queryOnSnapshotSuite(context('Listeners'));
+  collectionOnSnapshotSuite(context('Listeners'));
+  runTransactionSuite(context('Transactions'));
+  errorHandlingSuite(context('Errors'));
+
+  afterAll(async () => {
+    const report = await harness.report();
+
+    const dir = join(__dirname, '../../test-output/differential');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'report.json'), JSON.stringify(report, null, 2));
+    writeFileSync(join(dir, 'report.md'), formatDivergenceReport(report));
+  });
+});
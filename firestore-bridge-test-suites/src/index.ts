@@ -5,16 +5,20 @@ export * from './lib/collection-on-snapshot-suite.js';
 export * from './lib/concurrency-and-visibility-suite.js';
 export * from './lib/crud-semantics-suite.js';
 export * from './lib/data-model-and-serialization-suite.js';
+export * from './lib/differential/differential-harness.js';
+export * from './lib/differential/divergence-report.js';
 export * from './lib/document-on-snapshot-suite.js';
 export * from './lib/error-handling-suite.js';
 export * from './lib/ignore-undefined-properties-suite.js';
 export * from './lib/limits-bounds-suite.js';
+export * from './lib/list-documents-suite.js';
 export * from './lib/other/doc-create-tests.js';
 export * from './lib/other/doc-data-equality-tests.js';
 export * from './lib/other/doc-data-validation-tests.js';
 export * from './lib/other/field-value-tests.js';
 export * from './lib/other/path-tests.js';
 export * from './lib/other/timestamp-precision-suite.js';
+export * from './lib/partition-query-suite.js';
 export * from './lib/preconditions-suite.js';
 export * from './lib/projections-field-masks-suite.js';
 export * from './lib/query-filters-suite.js';
@@ -1,8 +1,10 @@
 import {
   AggregateField,
   DocumentData,
+  FieldValue,
   Firestore,
 } from 'firebase-admin/firestore';
+import { runAggregationQuery } from './helpers/gapic.js';
 import { FirestoreBridgeTestContext } from './test-context.js';
 
 export function aggregationsSuite(context: FirestoreBridgeTestContext) {
@@ -128,6 +130,178 @@ export function aggregationsSuite(context: FirestoreBridgeTestContext) {
       });
     });
 
+    describe('numeric semantics', () => {
+      const NUMERIC_ID = `${COLLECTION_ID}_numeric`;
+
+      async function seed(id: string, values: unknown[]): Promise<void> {
+        const col = FirestoreDb.collection(`${NUMERIC_ID}_${id}`);
+        const batch = FirestoreDb.batch();
+        values.forEach((n, i) => batch.set(col.doc(`n${i}`), { n, i }));
+        await batch.commit();
+      }
+
+      function sumAndAverage(id: string) {
+        return FirestoreDb.collection(`${NUMERIC_ID}_${id}`)
+          .aggregate({
+            total: AggregateField.sum('n'),
+            mean: AggregateField.average('n'),
+          })
+          .get()
+          .then((snap) => snap.data());
+      }
+
+      beforeAll(async () => {
+        await seed('mixed', [1, 2.5, 'x', null, true, { n: 1 }]);
+        await seed('nan', [1, NaN, 2]);
+        await seed('infinity', [1, Infinity]);
+        await seed('opposed', [Infinity, -Infinity]);
+        await seed('overflow', [BigInt('9223372036854775807'), 1]);
+      });
+
+      it('mixes integers and doubles, ignoring non-numeric values', async () => {
+        const { total, mean } = await sumAndAverage('mixed');
+
+        expect(total).toBe(3.5);
+        expect(mean).toBe(1.75);
+      });
+
+      it('propagates NaN', async () => {
+        const { total, mean } = await sumAndAverage('nan');
+
+        expect(total).toBeNaN();
+        expect(mean).toBeNaN();
+      });
+
+      it('propagates infinities', async () => {
+        await expect(sumAndAverage('infinity')).resolves.toEqual({
+          total: Infinity,
+          mean: Infinity,
+        });
+
+        const { total, mean } = await sumAndAverage('opposed');
+        expect(total).toBeNaN();
+        expect(mean).toBeNaN();
+      });
+
+      it('overflows integer sums to double', async () => {
+        const { total } = await sumAndAverage('overflow');
+
+        expect(total).toBe(9223372036854775808);
+      });
+
+      it('aggregates after cursors and offset', async () => {
+        const snap = await FirestoreDb.collection(COLLECTION_ID)
+          .orderBy('points')
+          .startAfter(10)
+          .offset(1)
+          .aggregate({
+            totalPoints: AggregateField.sum('points'),
+            count: AggregateField.count(),
+          })
+          .get();
+
+        // After u1 (10): u3 (25), u2 (30); offset 1 leaves u2
+        expect(snap.data()).toEqual({ totalPoints: 30, count: 1 });
+      });
+
+      it('aggregates within a limit ending before a cursor', async () => {
+        const snap = await FirestoreDb.collection(COLLECTION_ID)
+          .orderBy('points', 'desc')
+          .endBefore(10)
+          .limit(5)
+          .aggregate({
+            totalPoints: AggregateField.sum('points'),
+            avgAge: AggregateField.average('details.age'),
+          })
+          .get();
+
+        // u2 (30, age 40) and u3 (25, age 30)
+        expect(snap.data()).toEqual({ totalPoints: 55, avgAge: 35 });
+      });
+    });
+
+    describe('options the SDK does not expose', () => {
+      //
+      // Raw RunAggregationQuery requests
+      //
+      const VECTORS_ID = 'items';
+      const VECTORS_PARENT = `${COLLECTION_ID}/vectors`;
+
+      beforeAll(async () => {
+        const col = FirestoreDb.collection(`${VECTORS_PARENT}/${VECTORS_ID}`);
+        await col.doc('v1').set({ n: 1, e: FieldValue.vector([1, 0]) });
+        await col.doc('v2').set({ n: 2, e: FieldValue.vector([0, 1]) });
+        await col.doc('v3').set({ n: 4, e: FieldValue.vector([1, 1]) });
+      });
+
+      it('caps count() at upTo', async () => {
+        const result = await runAggregationQuery(FirestoreDb, {
+          structuredQuery: { from: [{ collectionId: COLLECTION_ID }] },
+          aggregations: [
+            { alias: 'capped', count: { upTo: { value: 2 } } },
+            { alias: 'loose', count: { upTo: { value: 10 } } },
+          ],
+        });
+
+        expect(result).toEqual({ capped: 2, loose: 3 });
+      });
+
+      it('caps a filtered count() at upTo', async () => {
+        const result = await runAggregationQuery(FirestoreDb, {
+          structuredQuery: {
+            from: [{ collectionId: COLLECTION_ID }],
+            where: {
+              fieldFilter: {
+                field: { fieldPath: 'active' },
+                op: 'EQUAL',
+                value: { booleanValue: true },
+              },
+            },
+          },
+          aggregations: [{ alias: 'c', count: { upTo: { value: 1 } } }],
+        });
+
+        expect(result).toEqual({ c: 1 });
+      });
+
+      it('aggregates the neighbours found by findNearest', async () => {
+        const result = await runAggregationQuery(
+          FirestoreDb,
+          {
+            structuredQuery: {
+              from: [{ collectionId: VECTORS_ID }],
+              findNearest: {
+                vectorField: { fieldPath: 'e' },
+                queryVector: {
+                  mapValue: {
+                    fields: {
+                      __type__: { stringValue: '__vector__' },
+                      value: {
+                        arrayValue: {
+                          values: [{ doubleValue: 1 }, { doubleValue: 0 }],
+                        },
+                      },
+                    },
+                  },
+                },
+                distanceMeasure: 'EUCLIDEAN',
+                limit: { value: 2 },
+              },
+            },
+            aggregations: [
+              { alias: 'total', sum: { field: { fieldPath: 'n' } } },
+              { alias: 'mean', avg: { field: { fieldPath: 'n' } } },
+              { alias: 'count', count: {} },
+            ],
+          },
+          VECTORS_PARENT
+        );
+
+        // v1 (distance 0) and v3 (distance 1)
+        expect(result).toEqual({ total: 5, mean: 2.5, count: 2 });
+      });
+    });
+
     describe('Transactions', () => {
       //
       // Aggregations inside transactions via Transaction.get(AggregateQuery)
@@ -0,0 +1,337 @@
+import type {
+  DifferentialStats,
+  Divergence,
+  DivergenceDifference,
+  DivergenceKind,
+} from './divergence-report.js';
+import {
+  diffNormalized,
+  normalize,
+  normalizeError,
+  NormalizeOptions,
+  Outcome,
+  tally,
+} from './normalize.js';
+
+type Side = 'reference' | 'candidate';
+
+/**
+ * The resolved options of a differential harness.
+ *
+ * @internal
+ */
+export interface RecorderOptions extends NormalizeOptions {
+  snapshots: 'sequence' | 'final';
+  listenerGraceMillis: number;
+  onDivergence?: (divergence: Divergence) => void;
+}
+
+/**
+ * Compares the outcomes of the operations of one feature area and collects
+ * their divergences and per-side counters.
+ *
+ * @internal
+ */
+export class AreaRecorder {
+  readonly reference: DifferentialStats = emptyStats();
+  readonly candidate: DifferentialStats = emptyStats();
+  readonly divergences: Divergence[] = [];
+  private readonly _pending = new Set<Promise<void>>();
+  private readonly _listeners = new Set<ListenerComparison>();
+
+  constructor(readonly area: string, readonly options: RecorderOptions) {}
+
+  /**
+   * Compares the outcomes of an asynchronous operation.
+   *
+   * @param unordered - Whether the result is a list in no particular order.
+   */
+  compare(
+    operation: string,
+    test: string | undefined,
+    reference: Outcome,
+    candidate: Outcome,
+    unordered = false
+  ): void {
+    this.count('reference', reference);
+    this.count('candidate', candidate);
+
+    if (reference.ok && candidate.ok) {
+      this.diverge(
+        'result',
+        operation,
+        test,
+        diffNormalized(
+          this.result(reference.value, unordered),
+          this.result(candidate.value, unordered)
+        )
+      );
+    } else {
+      this.diverge(
+        'error',
+        operation,
+        test,
+        diffNormalized(this.outcome(reference), this.outcome(candidate))
+      );
+    }
+  }
+
+  /**
+   * Records a divergence, unless there are no differences.
+   */
+  diverge(
+    kind: DivergenceKind,
+    operation: string,
+    test: string | undefined,
+    differences: DivergenceDifference[]
+  ): void {
+    if (!differences.length) return;
+
+    const divergence: Divergence = {
+      area: this.area,
+      ...(test !== undefined && { test }),
+      operation,
+      kind,
+      differences,
+    };
+    this.divergences.push(divergence);
+    this.options.onDivergence?.(divergence);
+  }
+
+  /**
+   * Starts comparing the snapshots of a pair of listeners.
+   */
+  listen(operation: string, test: string | undefined): ListenerComparison {
+    const listener = new ListenerComparison(this, operation, test, () =>
+      this._listeners.delete(listener)
+    );
+    this._listeners.add(listener);
+    return listener;
+  }
+
+  /**
+   * Waits for a comparison that completes later, e.g. of a stream.
+   */
+  track(comparison: Promise<void>): void {
+    const tracked = comparison.finally(() => this._pending.delete(tracked));
+    this._pending.add(tracked);
+  }
+
+  /**
+   * Closes the listeners left open and waits for pending comparisons.
+   */
+  async settle(): Promise<void> {
+    for (const listener of [...this._listeners]) listener.close();
+    while (this._pending.size) {
+      await Promise.allSettled([...this._pending]);
+    }
+  }
+
+  /**
+   * Counts a listener's snapshot or error.
+   */
+  countEvent(side: Side, failed: boolean): void {
+    this[side][failed ? 'errors' : 'snapshots']++;
+  }
+
+  private count(side: Side, outcome: Outcome): void {
+    const stats = this[side];
+    stats.operations++;
+    if (outcome.ok) {
+      tally(outcome.value, stats);
+    } else {
+      stats.errors++;
+    }
+  }
+
+  private result(value: unknown, unordered: boolean): unknown {
+    const result = normalize(value, this.options);
+    return unordered && Array.isArray(result)
+      ? result
+          .map((r) => [JSON.stringify(r), r] as const)
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+          .map(([, r]) => r)
+      : result;
+  }
+
+  private outcome(outcome: Outcome): unknown {
+    return outcome.ok
+      ? { result: normalize(outcome.value, this.options) }
+      : { error: normalizeError(outcome.error, this.options) };
+  }
+}
+
+/**
+ * The snapshots and errors a pair of listeners received.
+ *
+ * In `'sequence'` mode, the reference's events are held back from the caller
+ * until the candidate has received as many (or for the grace period), so that
+ * the caller's next writes reach both listeners in the same state.
+ *
+ * @internal
+ */
+export class ListenerComparison {
+  private readonly _snapshots: Record<Side, unknown[]> = {
+    reference: [],
+    candidate: [],
+  };
+  private readonly _errors: Partial<Record<Side, unknown>> = {};
+  private readonly _held: { ready: () => boolean; deliver: () => void }[] = [];
+  private _holdTimer?: ReturnType<typeof setTimeout>;
+  private _caughtUp?: () => void;
+  private _unsubscribeCandidate?: () => void;
+  private _closed = false;
+
+  constructor(
+    private readonly _recorder: AreaRecorder,
+    private readonly _operation: string,
+    private readonly _test: string | undefined,
+    private readonly _onClosed: () => void
+  ) {}
+
+  /**
+   * Sets how to unsubscribe the candidate's listener, once it has caught up.
+   */
+  attach(unsubscribeCandidate: () => void): void {
+    this._unsubscribeCandidate = unsubscribeCandidate;
+  }
+
+  /**
+   * Records a snapshot; the reference's is passed on to the caller through
+   * `deliver`.
+   */
+  next(side: Side, snapshot: unknown, deliver?: () => void): void {
+    const normalized = normalize(snapshot, this._recorder.options);
+    if (this._recorder.options.snapshots === 'final') {
+      delete (normalized as { changes?: unknown }).changes;
+    }
+    const index = this._snapshots[side].push(normalized) - 1;
+    this._recorder.countEvent(side, false);
+    if (deliver) {
+      this.hold(() => index < this._snapshots.candidate.length, deliver);
+    }
+    this.progress();
+  }
+
+  /**
+   * Records an error; the reference's is passed on to the caller through
+   * `deliver`.
+   */
+  fail(side: Side, error: unknown, deliver?: () => void): void {
+    this._errors[side] = normalizeError(error, this._recorder.options);
+    this._recorder.countEvent(side, true);
+    if (deliver) this.hold(() => false, deliver);
+    this.progress();
+  }
+
+  /**
+   * Stops listening once the candidate has caught up with the reference, or
+   * after the grace period, and compares what both received.
+   */
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+    this._onClosed();
+    this._held.length = 0;
+    clearTimeout(this._holdTimer);
+
+    const caughtUp = new Promise<void>((resolve) => {
+      const timer = setTimeout(
+        resolve,
+        this._recorder.options.listenerGraceMillis
+      );
+      this._caughtUp = () => {
+        if (this.isCaughtUp()) {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+      this._caughtUp();
+    });
+
+    this._recorder.track(
+      caughtUp.then(() => {
+        this._caughtUp = undefined;
+        this._unsubscribeCandidate?.();
+        this.compare();
+      })
+    );
+  }
+
+  private hold(ready: () => boolean, deliver: () => void): void {
+    if (this._closed) return;
+    this._held.push({
+      ready: () =>
+        this._recorder.options.snapshots === 'final' ||
+        this._errors.candidate !== undefined ||
+        ready(),
+      deliver,
+    });
+  }
+
+  /**
+   * Delivers the held events that are due, oldest first; the oldest is
+   * delivered regardless once it has been held for the grace period.
+   */
+  private progress(force = false): void {
+    while (this._held.length && (force || this._held[0].ready())) {
+      force = false;
+      clearTimeout(this._holdTimer);
+      this._holdTimer = undefined;
+      this._held.shift()?.deliver();
+    }
+    if (this._held.length && !this._holdTimer) {
+      this._holdTimer = setTimeout(() => {
+        this._holdTimer = undefined;
+        this.progress(true);
+      }, this._recorder.options.listenerGraceMillis);
+    }
+    this._caughtUp?.();
+  }
+
+  private isCaughtUp(): boolean {
+    const { reference, candidate } = this._snapshots;
+    if (this._errors.candidate !== undefined) return true;
+    if (this._errors.reference !== undefined) return false;
+    if (this._recorder.options.snapshots === 'final') {
+      return (
+        JSON.stringify(reference[reference.length - 1]) ===
+        JSON.stringify(candidate[candidate.length - 1])
+      );
+    }
+    return candidate.length >= reference.length;
+  }
+
+  private compare(): void {
+    const { reference, candidate } = this._snapshots;
+    const final = this._recorder.options.snapshots === 'final';
+    const errorsDiffer =
+      JSON.stringify(this._errors.reference) !==
+      JSON.stringify(this._errors.candidate);
+    this._recorder.diverge(
+      errorsDiffer ? 'error' : 'snapshots',
+      this._operation,
+      this._test,
+      diffNormalized(
+        {
+          snapshots: final ? reference.slice(-1) : reference,
+          error: this._errors.reference,
+        },
+        {
+          snapshots: final ? candidate.slice(-1) : candidate,
+          error: this._errors.candidate,
+        }
+      )
+    );
+  }
+}
+
+function emptyStats(): DifferentialStats {
+  return {
+    operations: 0,
+    errors: 0,
+    documentsRead: 0,
+    writes: 0,
+    snapshots: 0,
+  };
+}
@@ -0,0 +1,185 @@
+import { Firestore, Settings } from 'firebase-admin/firestore';
+import { FirestoreBridgeTestContext } from '../test-context.js';
+import { AreaRecorder, RecorderOptions } from './area-recorder.js';
+import {
+  DifferentialStats,
+  Divergence,
+  DivergenceArea,
+  DivergenceReport,
+} from './divergence-report.js';
+import { Mirror } from './mirror.js';
+
+/**
+ * Options for a {@link DifferentialHarness}.
+ */
+export interface DifferentialOptions {
+  /**
+   * Whether timestamps are compared by value. Defaults to `false`: each
+   * backend assigns its own commit, update and server timestamps, so only
+   * their presence is compared.
+   */
+  compareTimestamps?: boolean;
+  /**
+   * Whether error messages are compared as well as status codes. Defaults to
+   * `false`.
+   */
+  compareErrorMessages?: boolean;
+  /**
+   * How listeners are compared:
+   *
+   * - `'sequence'` (default) – every snapshot, with its document changes.
+   * - `'final'` – only the last snapshot's documents, for backends that
+   *   coalesce changes into fewer snapshots.
+   */
+  snapshots?: 'sequence' | 'final';
+  /**
+   * How long to wait, once a listener is unsubscribed, for the candidate's
+   * listener to catch up with the reference's. Defaults to 2000 ms.
+   */
+  listenerGraceMillis?: number;
+  /** Called with each divergence as it is found. */
+  onDivergence?: (divergence: Divergence) => void;
+}
+
+const STAT_KEYS: readonly (keyof DifferentialStats)[] = [
+  'errors',
+  'documentsRead',
+  'writes',
+  'snapshots',
+];
+
+/**
+ * Runs the test suites against two backends at once — a `reference`, e.g.
+ * the Firestore emulator, and a `candidate`, e.g. a `FirestoreMock` database
+ * — and reports where the candidate diverges.
+ *
+ * Each {@link DifferentialHarness.context} pairs two test contexts. The
+ * suite receives the reference's Firestore instance, so its assertions hold
+ * against the reference as before, and every call it makes is mirrored to the
+ * candidate: results, errors, listener snapshot sequences and per-area
+ * counters are compared behind the scenes.
+ *
+ * @example
+ * ```ts
+ * const harness = new DifferentialHarness();
+ *
+ * crudSemanticsSuite(harness.context('CRUD', emulatorContext(), mockContext()));
+ * queryFiltersSuite(harness.context('Queries', emulatorContext(), mockContext()));
+ *
+ * afterAll(async () => {
+ *   console.log(formatDivergenceReport(await harness.report()));
+ * });
+ * ```
+ *
+ * @remarks
+ * - Snapshots passed to listeners, and the reads inside `runTransaction`, are
+ *   the reference's own objects; the candidate's transaction runs in lockstep
+ *   with the reference's, attempt by attempt.
+ * - Timestamps the reference assigned are passed to the candidate as the
+ *   candidate's own, e.g. in `lastUpdateTime` preconditions.
+ * - `BulkWriter` `onWriteResult` and `onWriteError` handlers run on the
+ *   reference only, so the candidate does not retry failed writes.
+ * - Timing-sensitive suites may report snapshot divergences that reflect
+ *   coalescing rather than semantics; see {@link DifferentialOptions.snapshots}.
+ */
+export class DifferentialHarness {
+  private readonly _options: RecorderOptions;
+  private readonly _areas = new Map<string, AreaRecorder>();
+
+  constructor(options: DifferentialOptions = {}) {
+    const listenerGraceMillis = options.listenerGraceMillis ?? 2000;
+    if (!(listenerGraceMillis >= 0)) {
+      throw new Error(
+        'Invalid differential options: listenerGraceMillis must be a non-negative number.'
+      );
+    }
+
+    this._options = {
+      compareTimestamps: options.compareTimestamps ?? false,
+      compareErrorMessages: options.compareErrorMessages ?? false,
+      snapshots: options.snapshots ?? 'sequence',
+      listenerGraceMillis,
+      onDivergence: options.onDivergence,
+    };
+  }
+
+  /**
+   * Creates a test context that runs a suite against both `reference` and
+   * `candidate`, reporting divergences under `area`. Contexts that share an
+   * area are reported together.
+   *
+   * @param area - The feature area, e.g. `'Transactions'`.
+   * @param reference - The context whose behaviour is expected.
+   * @param candidate - The context compared with it.
+   */
+  context(
+    area: string,
+    reference: FirestoreBridgeTestContext,
+    candidate: FirestoreBridgeTestContext
+  ): FirestoreBridgeTestContext {
+    let recorder = this._areas.get(area);
+    if (!recorder) {
+      recorder = new AreaRecorder(area, this._options);
+      this._areas.set(area, recorder);
+    }
+    const areaRecorder = recorder;
+
+    return {
+      async init(
+        collectionPath?: string,
+        settings?: Settings
+      ): Promise<Firestore> {
+        const [r, c] = await Promise.all([
+          reference.init(collectionPath, settings),
+          candidate.init(collectionPath, settings),
+        ]);
+        return new Mirror(r, c, areaRecorder).root;
+      },
+      async tearDown(): Promise<void> {
+        await areaRecorder.settle();
+        await Promise.all([reference.tearDown(), candidate.tearDown()]);
+      },
+    };
+  }
+
+  /**
+   * Waits for pending comparisons and returns the divergences found so far,
+   * grouped by feature area.
+   */
+  async report(): Promise<DivergenceReport> {
+    const recorders = [...this._areas.values()];
+    await Promise.all(recorders.map((r) => r.settle()));
+
+    const areas = recorders.map((r): DivergenceArea => {
+      const divergences = [...r.divergences];
+      const differences = STAT_KEYS.filter(
+        (key) => r.reference[key] !== r.candidate[key]
+      ).map((key) => ({
+        path: key,
+        reference: r.reference[key],
+        candidate: r.candidate[key],
+      }));
+      if (differences.length) {
+        divergences.push({
+          area: r.area,
+          operation: 'stats',
+          kind: 'stats',
+          differences,
+        });
+      }
+
+      return {
+        area: r.area,
+        reference: { ...r.reference },
+        candidate: { ...r.candidate },
+        divergences,
+      };
+    });
+
+    return {
+      operations: areas.reduce((n, a) => n + a.reference.operations, 0),
+      divergences: areas.reduce((n, a) => n + a.divergences.length, 0),
+      areas,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { formatPlural } from '../helpers/format.js';
+
+/**
+ * What diverged between the reference and the candidate run:
+ *
+ * - `'result'` – both succeeded with different results.
+ * - `'error'` – one failed, or both failed with different errors.
+ * - `'snapshots'` – a listener received different snapshot sequences.
+ * - `'stats'` – a feature area's counters differ (see {@link DifferentialStats}).
+ */
+export type DivergenceKind = 'result' | 'error' | 'snapshots' | 'stats';
+
+/**
+ * A value that differs between the two runs.
+ */
+export interface DivergenceDifference {
+  /** Where the values differ, e.g. `'docs[1].data.age'` or `'error.code'`. */
+  path: string;
+  /** The reference run's value, normalized; `undefined` if absent. */
+  reference: unknown;
+  /** The candidate run's value, normalized; `undefined` if absent. */
+  candidate: unknown;
+}
+
+/**
+ * An operation whose outcome differs between the reference and the candidate.
+ */
+export interface Divergence {
+  /** The feature area, as named by {@link DifferentialHarness.context}. */
+  area: string;
+  /** The full name of the test that ran the operation, when known. */
+  test?: string;
+  /**
+   * The operation, e.g. `'collection("users").where("age", ">", 40).get()'`,
+   * or the counter for `'stats'` divergences.
+   */
+  operation: string;
+  kind: DivergenceKind;
+  differences: DivergenceDifference[];
+}
+
+/**
+ * Counters of one side of a feature area.
+ */
+export interface DifferentialStats {
+  /** Asynchronous operations compared. */
+  operations: number;
+  /** Operations and listeners that failed. */
+  errors: number;
+  /** Documents returned by reads and queries, listeners excluded. */
+  documentsRead: number;
+  /** Writes acknowledged with a `WriteResult`. */
+  writes: number;
+  /** Snapshots delivered to listeners. */
+  snapshots: number;
+}
+
+/**
+ * The divergences of one feature area.
+ */
+export interface DivergenceArea {
+  area: string;
+  reference: DifferentialStats;
+  candidate: DifferentialStats;
+  divergences: Divergence[];
+}
+
+/**
+ * The outcome of a differential run, grouped by feature area in the order the
+ * areas were created. JSON-serializable.
+ */
+export interface DivergenceReport {
+  /** The operations compared, across areas. */
+  operations: number;
+  /** The divergences, across areas. */
+  divergences: number;
+  areas: DivergenceArea[];
+}
+
+const MAX_VALUE_LENGTH = 120;
+
+/**
+ * Formats a {@link DivergenceReport} as Markdown, e.g. for a CI log or a
+ * job summary.
+ */
+export function formatDivergenceReport(report: DivergenceReport): string {
+  const lines = [
+    `# Differential run: ${formatPlural(
+      report.operations,
+      'operation'
+    )}, ${formatPlural(report.divergences, 'divergence')}`,
+  ];
+
+  for (const area of report.areas) {
+    lines.push(
+      '',
+      `## ${area.area} (${formatPlural(
+        area.reference.operations,
+        'operation'
+      )}, ${formatPlural(area.divergences.length, 'divergence')})`
+    );
+    for (const divergence of area.divergences) {
+      const test = divergence.test ? ` — ${divergence.test}` : '';
+      lines.push(
+        '',
+        `- **${divergence.kind}** \`${divergence.operation}\`${test}`
+      );
+      for (const { path, reference, candidate } of divergence.differences) {
+        lines.push(
+          `  - \`${path || '(value)'}\`: reference ${formatValue(
+            reference
+          )}, candidate ${formatValue(candidate)}`
+        );
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(absent)';
+  const json = JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH
+    ? `\`${json.slice(0, MAX_VALUE_LENGTH - 1)}…\``
+    : `\`${json}\``;
+}
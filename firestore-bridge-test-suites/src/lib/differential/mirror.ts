@@ -0,0 +1,720 @@
+/**
+ * Mirror — runs every Admin SDK call made on one Firestore instance against a
+ * second one as well, for the differential harness.
+ *
+ * The caller sees the reference instance's objects and results (wrapped in
+ * proxies that forward each call to both instances); the candidate's outcomes
+ * are compared with the reference's behind the scenes.
+ *
+ * - Methods that return promises are compared once both sides settle, and
+ *   resolve only then, so both sides are in step between awaited operations.
+ * - Listeners are subscribed on both sides; their snapshot sequences are
+ *   compared once the caller unsubscribes.
+ * - `runTransaction` runs the caller's function against the reference only;
+ *   a candidate transaction performs each of its operations in step, and ends
+ *   as it ended.
+ * - `BulkWriter` error and result handlers are installed on the reference
+ *   only, as they may have side effects; the candidate keeps the default
+ *   retry policy.
+ */
+
+import type { Firestore, Transaction } from 'firebase-admin/firestore';
+import {
+  CollectionReference,
+  DocumentReference,
+  DocumentSnapshot,
+  QuerySnapshot,
+  Timestamp,
+  WriteResult,
+} from 'firebase-admin/firestore';
+import { pipeline, Readable, Transform } from 'stream';
+import { isPlainObject } from '../helpers/util.js';
+import type { AreaRecorder } from './area-recorder.js';
+import { className, Outcome } from './normalize.js';
+
+type Side = 'reference' | 'candidate';
+
+interface Pair {
+  reference: object;
+  candidate: object;
+  /** How the caller obtained the object, e.g. `collection("users").limit(2)`. */
+  description: string;
+}
+
+type TransactionStep =
+  | {
+      method: string;
+      args: unknown[];
+      done?: (outcome: Outcome | undefined) => void;
+    }
+  | { end: true; error?: unknown };
+
+type Method = (...args: unknown[]) => unknown;
+type UpdateFunction = (transaction: Transaction) => Promise<unknown>;
+type TransactionOptions = Parameters<Firestore['runTransaction']>[1];
+
+/** The Admin SDK classes whose instances are mirrored. */
+const MIRRORED_CLASSES: ReadonlySet<string> = new Set([
+  'Firestore',
+  'DocumentReference',
+  'CollectionReference',
+  'Query',
+  'CollectionGroup',
+  'AggregateQuery',
+  'VectorQuery',
+  'WriteBatch',
+  'BulkWriter',
+  'DocumentSnapshot',
+  'QueryDocumentSnapshot',
+  'QuerySnapshot',
+  'VectorQuerySnapshot',
+  'AggregateQuerySnapshot',
+  'DocumentChange',
+  'WriteResult',
+  'QueryPartition',
+]);
+
+/** Methods whose results are lists in no particular order. */
+const UNORDERED_METHODS: ReadonlySet<string> = new Set([
+  'listDocuments',
+  'listCollections',
+]);
+
+/**
+ * A pair of Firestore instances, one of which mirrors the other.
+ *
+ * @internal
+ */
+export class Mirror {
+  /** The mirrored reference instance, handed to the caller. */
+  readonly root: Firestore;
+  private readonly _pairs = new WeakMap<object, Pair>();
+  private readonly _proxies = new WeakMap<object, object>();
+  /** The candidate's counterparts of the timestamps the reference returned. */
+  private readonly _timestamps = new Map<string, Timestamp>();
+
+  constructor(
+    private readonly _reference: Firestore,
+    private readonly _candidate: Firestore,
+    private readonly _recorder: AreaRecorder
+  ) {
+    this.root = this.wrap(_reference, _candidate, 'db') as Firestore;
+  }
+
+  /**
+   * Pairs a reference value with its candidate counterpart: mirrored objects
+   * are wrapped in a proxy, and lists of them paired element by element. Other
+   * values are the reference's.
+   */
+  private wrap(
+    reference: unknown,
+    candidate: unknown,
+    description: string
+  ): unknown {
+    if (Array.isArray(reference)) {
+      if (!Array.isArray(candidate)) return reference;
+
+      const counterparts = new Map<string, unknown>();
+      keysOf(candidate).forEach((key, i) =>
+        counterparts.set(key, candidate[i])
+      );
+      return keysOf(reference).map((key, i) =>
+        this.wrap(reference[i], counterparts.get(key), `${description}[${i}]`)
+      );
+    }
+    if (
+      !isMirrored(reference) ||
+      !isMirrored(candidate) ||
+      className(reference) !== className(candidate)
+    ) {
+      return reference;
+    }
+
+    const existing = this._proxies.get(reference);
+    if (existing) return existing;
+
+    const pair: Pair = {
+      reference,
+      candidate,
+      description: describeObject(reference, description),
+    };
+    const proxy: object = new Proxy(reference, {
+      get: (target, prop) => this.get(pair, proxy, prop),
+    });
+    this._pairs.set(proxy, pair);
+    this._proxies.set(reference, proxy);
+
+    return proxy;
+  }
+
+  private get(pair: Pair, proxy: object, prop: string | symbol): unknown {
+    const value = Reflect.get(pair.reference, prop, pair.reference);
+    if (typeof prop === 'symbol' || prop === 'constructor') {
+      return typeof value === 'function' && prop !== 'constructor'
+        ? value.bind(pair.reference)
+        : value;
+    }
+    if (typeof value === 'function') {
+      return (...args: unknown[]) => this.call(pair, proxy, prop, args);
+    }
+    if (value !== null && typeof value === 'object') {
+      return this.wrap(
+        value,
+        Reflect.get(pair.candidate, prop, pair.candidate),
+        `${pair.description}.${prop}`
+      );
+    }
+
+    return value;
+  }
+
+  private call(
+    pair: Pair,
+    proxy: object,
+    method: string,
+    args: unknown[]
+  ): unknown {
+    switch (method) {
+      case 'onSnapshot':
+        return this.listen(pair, args);
+      case 'stream':
+        return this.stream(pair, args);
+      case 'runTransaction':
+        return this.transact(pair, args);
+      case 'onWriteError':
+      case 'onWriteResult':
+        return this.invoke(pair, 'reference', method, args);
+    }
+
+    const operation = `${pair.description}.${method}(${formatArgs(args)})`;
+    const test = currentTestName();
+    const reference = attempt(() =>
+      this.invoke(pair, 'reference', method, args)
+    );
+    const candidate = attempt(() =>
+      this.invoke(pair, 'candidate', method, args)
+    );
+
+    if (reference.ok && isPromise(reference.value)) {
+      return this.settle(
+        operation,
+        test,
+        reference.value,
+        candidate.ok ? candidate.value : Promise.reject(candidate.error),
+        UNORDERED_METHODS.has(method)
+      );
+    }
+    if (!reference.ok || !candidate.ok) {
+      // Synchronous validation is the SDK's own; only compare whether it threw
+      if (reference.ok !== candidate.ok) {
+        this._recorder.diverge('error', operation, test, [
+          {
+            path: 'error',
+            reference: reference.ok ? undefined : String(reference.error),
+            candidate: candidate.ok ? undefined : String(candidate.error),
+          },
+        ]);
+      }
+      if (!reference.ok) throw reference.error;
+      return reference.value;
+    }
+
+    return reference.value === pair.reference
+      ? proxy
+      : this.wrap(reference.value, candidate.value, operation);
+  }
+
+  private async settle(
+    operation: string,
+    test: string | undefined,
+    reference: unknown,
+    candidate: unknown,
+    unordered: boolean
+  ): Promise<unknown> {
+    const [r, c] = await Promise.all([
+      outcomeOf(reference),
+      outcomeOf(candidate),
+    ]);
+    this._recorder.compare(operation, test, r, c, unordered);
+    if (r.ok && c.ok) this.learn(r.value, c.value);
+    if (!r.ok) throw r.error;
+
+    return this.wrap(r.value, c.ok ? c.value : undefined, operation);
+  }
+
+  private listen(pair: Pair, args: unknown[]): () => void {
+    const [onNext, onError] = args as [Method, Method | undefined];
+    const listener = this._recorder.listen(
+      `${pair.description}.onSnapshot()`,
+      currentTestName()
+    );
+
+    const received: Record<Side, unknown[]> = { reference: [], candidate: [] };
+    const receive = (side: Side, snapshot: unknown) => {
+      const i = received[side].push(snapshot) - 1;
+      if (i < received.reference.length && i < received.candidate.length) {
+        this.learn(received.reference[i], received.candidate[i]);
+      }
+    };
+
+    const unsubscribe = this.invoke(pair, 'reference', 'onSnapshot', [
+      (snapshot: unknown) => {
+        receive('reference', snapshot);
+        listener.next('reference', snapshot, () => onNext(snapshot));
+      },
+      (error: unknown) =>
+        listener.fail('reference', error, () => onError?.(error)),
+    ]) as () => void;
+    listener.attach(
+      this.invoke(pair, 'candidate', 'onSnapshot', [
+        (snapshot: unknown) => {
+          receive('candidate', snapshot);
+          listener.next('candidate', snapshot);
+        },
+        (error: unknown) => listener.fail('candidate', error),
+      ]) as () => void
+    );
+
+    return () => {
+      unsubscribe();
+      listener.close();
+    };
+  }
+
+  private stream(pair: Pair, args: unknown[]): Readable {
+    const operation = `${pair.description}.stream()`;
+    const test = currentTestName();
+    const candidate = collect(() =>
+      this.invoke(pair, 'candidate', 'stream', args)
+    );
+
+    const items: unknown[] = [];
+    const tap = new Transform({
+      objectMode: true,
+      transform(chunk, _encoding, callback) {
+        items.push(chunk);
+        callback(null, chunk);
+      },
+    });
+    pipeline(
+      this.invoke(pair, 'reference', 'stream', args) as Readable,
+      tap,
+      (error) => {
+        // The caller stopped reading early: nothing to compare
+        if (error && (error as { code?: unknown }).code === PREMATURE_CLOSE) {
+          return;
+        }
+        const reference: Outcome = error
+          ? { ok: false, error }
+          : { ok: true, value: items };
+        this._recorder.track(
+          candidate.then((c) =>
+            this._recorder.compare(operation, test, reference, c)
+          )
+        );
+      }
+    );
+
+    return tap;
+  }
+
+  private async transact(pair: Pair, args: unknown[]): Promise<unknown> {
+    const [updateFunction, options] = args as [UpdateFunction, unknown];
+    const operation = `${pair.description}.runTransaction()`;
+    const test = currentTestName();
+    const reference = pair.reference as Firestore;
+    const candidate = pair.candidate as Firestore;
+
+    const steps = new TransactionSteps();
+    let c: Promise<Outcome> | undefined;
+    const r = await outcomeOf(
+      reference.runTransaction(async (transaction) => {
+        c ??= outcomeOf(
+          candidate.runTransaction(
+            (t) => this.follow(t, steps),
+            this.unwrap(options, 'candidate') as TransactionOptions
+          )
+        ).finally(() => steps.close());
+        try {
+          const result = await updateFunction(
+            this.lead(transaction, steps, operation, test)
+          );
+          steps.push({ end: true });
+          return result;
+        } catch (error) {
+          steps.push({ end: true, error });
+          throw error;
+        }
+      }, this.unwrap(options, 'reference') as TransactionOptions)
+    );
+    steps.close();
+
+    // The callback's return value is the caller's; only outcomes are compared
+    this._recorder.compare(
+      operation,
+      test,
+      r.ok ? { ok: true, value: undefined } : r,
+      c ? stripValue(await c) : { ok: true, value: undefined }
+    );
+
+    if (!r.ok) throw r.error;
+    return r.value;
+  }
+
+  /**
+   * Wraps a reference transaction so that each of its operations is passed to
+   * the candidate's transaction, and reads return once both sides have read.
+   */
+  private lead(
+    transaction: Transaction,
+    steps: TransactionSteps,
+    operation: string,
+    test: string | undefined
+  ): Transaction {
+    const proxy: Transaction = new Proxy(transaction, {
+      get: (target, prop) => {
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== 'function' || typeof prop === 'symbol') {
+          return value;
+        }
+
+        return (...args: unknown[]) => {
+          const reference = attempt(() =>
+            (value as Method).apply(
+              target,
+              this.unwrap(args, 'reference') as unknown[]
+            )
+          );
+          const candidate = steps.push({ method: prop, args });
+          if (!reference.ok) throw reference.error;
+          if (!isPromise(reference.value)) {
+            return reference.value === target ? proxy : reference.value;
+          }
+
+          return Promise.all([outcomeOf(reference.value), candidate]).then(
+            ([r, c]) => {
+              if (c) {
+                this._recorder.compare(
+                  `${operation} › ${prop}(${formatArgs(args)})`,
+                  test,
+                  r,
+                  c
+                );
+                if (r.ok && c.ok) this.learn(r.value, c.value);
+              }
+              if (!r.ok) throw r.error;
+              return r.value;
+            }
+          );
+        };
+      },
+    });
+
+    return proxy;
+  }
+
+  /**
+   * The candidate's transaction callback: performs the reference's operations
+   * as they are made, and ends as the reference's callback ended.
+   */
+  private async follow(
+    transaction: Transaction,
+    steps: TransactionSteps
+  ): Promise<void> {
+    for (;;) {
+      const step = await steps.next();
+      if ('end' in step) {
+        if ('error' in step) throw step.error;
+        return;
+      }
+
+      const method = transaction[step.method as keyof Transaction] as Method;
+      const result = attempt(() =>
+        method.apply(
+          transaction,
+          this.unwrap(step.args, 'candidate') as unknown[]
+        )
+      );
+      step.done?.(
+        result.ok && isPromise(result.value)
+          ? await outcomeOf(result.value)
+          : result
+      );
+    }
+  }
+
+  /**
+   * Learns the candidate's counterparts of the timestamps in a reference
+   * result, e.g. so that a `lastUpdateTime` precondition taken from a
+   * reference snapshot holds on the candidate as well.
+   */
+  private learn(reference: unknown, candidate: unknown, depth = 0): void {
+    if (depth > MAX_LEARN_DEPTH) return;
+    if (reference instanceof Timestamp) {
+      if (candidate instanceof Timestamp) {
+        this._timestamps.set(timestampKey(reference), candidate);
+      }
+      return;
+    }
+    if (
+      reference === null ||
+      typeof reference !== 'object' ||
+      candidate === null ||
+      typeof candidate !== 'object'
+    ) {
+      return;
+    }
+
+    const next = (r: unknown, c: unknown) => this.learn(r, c, depth + 1);
+    if (Array.isArray(reference) && Array.isArray(candidate)) {
+      reference.forEach((r, i) => next(r, candidate[i]));
+    } else if (
+      reference instanceof DocumentSnapshot &&
+      candidate instanceof DocumentSnapshot
+    ) {
+      for (const key of ['createTime', 'updateTime', 'readTime'] as const) {
+        next(reference[key], candidate[key]);
+      }
+      next(reference.data(), candidate.data());
+    } else if (
+      reference instanceof QuerySnapshot &&
+      candidate instanceof QuerySnapshot
+    ) {
+      next(reference.readTime, candidate.readTime);
+      next(reference.docs, candidate.docs);
+    } else if (
+      reference instanceof WriteResult &&
+      candidate instanceof WriteResult
+    ) {
+      next(reference.writeTime, candidate.writeTime);
+    } else if (isPlainObject(reference) && isPlainObject(candidate)) {
+      const c = candidate as Record<string, unknown>;
+      for (const [key, r] of Object.entries(reference)) next(r, c[key]);
+    }
+  }
+
+  private invoke(
+    pair: Pair,
+    side: Side,
+    method: string,
+    args: unknown[]
+  ): unknown {
+    const target = pair[side] as Record<string, Method>;
+    return target[method](...(this.unwrap(args, side) as unknown[]));
+  }
+
+  /**
+   * Replaces mirrored objects in call arguments with the given side's, and,
+   * for the candidate, references the caller obtained from the reference
+   * (e.g. from a listener's snapshot) and the timestamps the reference
+   * assigned with the candidate's equivalents.
+   */
+  private unwrap(value: unknown, side: Side): unknown {
+    if (value === null || typeof value !== 'object') return value;
+
+    const pair = this._pairs.get(value);
+    if (pair) return pair[side];
+    if (side === 'candidate') {
+      if (value instanceof Timestamp) {
+        return this._timestamps.get(timestampKey(value)) ?? value;
+      }
+      if (
+        value instanceof DocumentReference &&
+        value.firestore === this._reference
+      ) {
+        return this._candidate.doc(value.path);
+      }
+      if (
+        value instanceof CollectionReference &&
+        value.firestore === this._reference
+      ) {
+        return this._candidate.collection(value.path);
+      }
+    }
+    if (Array.isArray(value)) return value.map((v) => this.unwrap(v, side));
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.unwrap(v, side)])
+      );
+    }
+
+    return value;
+  }
+}
+
+const PREMATURE_CLOSE = 'ERR_STREAM_PREMATURE_CLOSE';
+const MAX_LEARN_DEPTH = 32;
+
+function timestampKey(timestamp: Timestamp): string {
+  return `${timestamp.seconds}.${timestamp.nanoseconds}`;
+}
+
+/**
+ * The operations of the reference's transaction attempts, in order, for the
+ * candidate's transaction to follow. Once the candidate's transaction has
+ * settled, or the reference's has, operations are no longer followed.
+ */
+class TransactionSteps {
+  private readonly _steps: TransactionStep[] = [];
+  private _waiting?: (step: TransactionStep) => void;
+  private _closed = false;
+
+  /**
+   * Adds an operation, or the end of an attempt.
+   *
+   * @returns The candidate's outcome of the operation, or `undefined` if it
+   *   was not followed.
+   */
+  push(step: TransactionStep): Promise<Outcome | undefined> {
+    if (this._closed) return Promise.resolve(undefined);
+
+    const outcome = new Promise<Outcome | undefined>((resolve) => {
+      if (!('end' in step)) step.done = resolve;
+      else resolve(undefined);
+    });
+    if (this._waiting) {
+      this._waiting(step);
+      this._waiting = undefined;
+    } else {
+      this._steps.push(step);
+    }
+    return outcome;
+  }
+
+  next(): Promise<TransactionStep> {
+    const step = this._closed ? DIVERGED : this._steps.shift();
+    return step
+      ? Promise.resolve(step)
+      : new Promise((resolve) => (this._waiting = resolve));
+  }
+
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+    for (const step of this._steps.splice(0)) {
+      if (!('end' in step)) step.done?.(undefined);
+    }
+    this._waiting?.(DIVERGED);
+    this._waiting = undefined;
+  }
+}
+
+/** Ends a candidate attempt the reference did not make. */
+const DIVERGED: TransactionStep = {
+  end: true,
+  error: new Error('The reference transaction did not make this attempt.'),
+};
+
+function stripValue(outcome: Outcome): Outcome {
+  return outcome.ok ? { ok: true, value: undefined } : outcome;
+}
+
+function isMirrored(value: unknown): value is object {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    MIRRORED_CLASSES.has(className(value) ?? '')
+  );
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as Promise<unknown> | undefined)?.then === 'function';
+}
+
+function attempt(fn: () => unknown): Outcome {
+  try {
+    return { ok: true, value: fn() };
+  } catch (error) {
+    return { ok: false, error };
+  }
+}
+
+async function outcomeOf(value: unknown): Promise<Outcome> {
+  try {
+    return { ok: true, value: await value };
+  } catch (error) {
+    return { ok: false, error };
+  }
+}
+
+/**
+ * Reads a stream to the end.
+ */
+function collect(open: () => unknown): Promise<Outcome> {
+  return new Promise((resolve) => {
+    const items: unknown[] = [];
+    try {
+      const stream = open() as Readable;
+      stream.on('data', (item) => items.push(item));
+      stream.on('error', (error) => resolve({ ok: false, error }));
+      stream.on('end', () => resolve({ ok: true, value: items }));
+    } catch (error) {
+      resolve({ ok: false, error });
+    }
+  });
+}
+
+/**
+ * Keys that pair the elements of two lists: the path of a reference,
+ * snapshot or change, numbered by occurrence, or else the index.
+ */
+function keysOf(list: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return list.map((item, i) => {
+    const path = pathOf(item);
+    if (path === undefined) return `#${i}`;
+    const n = (seen.get(path) ?? 0) + 1;
+    seen.set(path, n);
+    return `${path}#${n}`;
+  });
+}
+
+function pathOf(value: unknown): string | undefined {
+  const v = value as {
+    path?: unknown;
+    ref?: { path?: unknown };
+    doc?: { ref?: { path?: unknown } };
+  } | null;
+  const path = v?.path ?? v?.ref?.path ?? v?.doc?.ref?.path;
+  return typeof path === 'string' ? path : undefined;
+}
+
+function describeObject(value: object, fallback: string): string {
+  switch (className(value)) {
+    case 'Firestore':
+      return 'db';
+    case 'DocumentReference':
+      return `doc(${JSON.stringify((value as DocumentReference).path)})`;
+    case 'CollectionReference':
+      return `collection(${JSON.stringify(
+        (value as CollectionReference).path
+      )})`;
+    default:
+      return fallback;
+  }
+}
+
+function formatArgs(args: unknown[]): string {
+  return args.map(formatArg).join(', ');
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') return JSON.stringify(arg);
+  if (typeof arg === 'function') return 'ƒ';
+  if (arg === null || typeof arg !== 'object') return String(arg);
+  if (Array.isArray(arg)) return '[…]';
+  if (isPlainObject(arg)) return '{…}';
+
+  const name = className(arg);
+  if (name === 'DocumentReference' || name === 'CollectionReference') {
+    return describeObject(arg, '');
+  }
+  if (name === 'FieldPath') return String(arg);
+  return `<${name}>`;
+}
+
+function currentTestName(): string | undefined {
+  return typeof expect === 'undefined'
+    ? undefined
+    : expect.getState().currentTestName;
+}
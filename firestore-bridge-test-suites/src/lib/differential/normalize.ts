@@ -0,0 +1,181 @@
+/**
+ * Comparable forms of Admin SDK results for the differential harness.
+ *
+ * Results of the reference and candidate runs are reduced to JSON values so
+ * they can be compared and reported: snapshots become their paths and data,
+ * references their paths, and values that differ between backends by design
+ * (timestamps the backend assigns, read times) are erased unless asked for.
+ */
+
+import {
+  DocumentReference,
+  DocumentSnapshot,
+  FieldPath,
+  GeoPoint,
+  QuerySnapshot,
+  Timestamp,
+  WriteResult,
+} from 'firebase-admin/firestore';
+import { isPlainObject } from '../helpers/util.js';
+import type { DivergenceDifference } from './divergence-report.js';
+
+export interface NormalizeOptions {
+  compareTimestamps: boolean;
+  compareErrorMessages: boolean;
+}
+
+/** The settled outcome of an operation on one side of a differential run. */
+export type Outcome =
+  | { ok: true; value: unknown }
+  | { ok: false; error: unknown };
+
+/** Per-side counters of a differential run. */
+export interface Tally {
+  documentsRead: number;
+  writes: number;
+}
+
+const MAX_DEPTH = 32;
+
+/**
+ * Reduces a value returned by the Admin SDK to a comparable JSON value.
+ */
+export function normalize(
+  value: unknown,
+  options: NormalizeOptions,
+  depth = 0
+): unknown {
+  if (depth > MAX_DEPTH) return '<…>';
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : String(value);
+  }
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'function') return '<function>';
+  if (typeof value !== 'object') return value;
+
+  const next = (v: unknown) => normalize(v, options, depth + 1);
+
+  if (Array.isArray(value)) return value.map(next);
+  if (value instanceof Timestamp) {
+    return options.compareTimestamps
+      ? { seconds: value.seconds, nanoseconds: value.nanoseconds }
+      : '<Timestamp>';
+  }
+  if (value instanceof GeoPoint) {
+    return { latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof Uint8Array) {
+    return { $bytes: Buffer.from(value).toString('base64') };
+  }
+  if (value instanceof FieldPath) return value.toString();
+  if (value instanceof DocumentReference) return { $ref: value.path };
+  if (value instanceof WriteResult) return { writeTime: next(value.writeTime) };
+  if (value instanceof DocumentSnapshot) {
+    return {
+      path: value.ref.path,
+      exists: value.exists,
+      data: next(value.data()),
+    };
+  }
+  if (isQuerySnapshot(value)) {
+    return {
+      size: value.size,
+      docs: value.docs.map(next),
+      changes: value.docChanges().map((change) => ({
+        type: change.type,
+        path: change.doc.ref.path,
+        oldIndex: change.oldIndex,
+        newIndex: change.newIndex,
+      })),
+    };
+  }
+  if (className(value) === 'VectorValue') {
+    return { $vector: (value as { toArray(): number[] }).toArray() };
+  }
+  if (className(value) === 'CollectionReference') {
+    return { $collection: (value as { path: string }).path };
+  }
+  if (className(value) === 'AggregateQuerySnapshot') {
+    return { data: next((value as { data(): unknown }).data()) };
+  }
+
+  // Plain objects, and the public fields of other classes
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (!isPlainObject(value) && key.startsWith('_')) continue;
+    out[key] = next((value as Record<string, unknown>)[key]);
+  }
+  return out;
+}
+
+/**
+ * Reduces an error to its status code and, if asked for, its message.
+ */
+export function normalizeError(
+  error: unknown,
+  options: NormalizeOptions
+): unknown {
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  return {
+    code: code ?? null,
+    ...(options.compareErrorMessages && { message: String(message) }),
+  };
+}
+
+/**
+ * Counts the documents read and the writes acknowledged in a result.
+ */
+export function tally(value: unknown, into: Tally): void {
+  if (Array.isArray(value)) {
+    value.forEach((v) => tally(v, into));
+  } else if (value instanceof WriteResult) {
+    into.writes++;
+  } else if (value instanceof DocumentSnapshot) {
+    if (value.exists) into.documentsRead++;
+  } else if (value !== null && typeof value === 'object') {
+    if (isQuerySnapshot(value)) into.documentsRead += value.size;
+  }
+}
+
+/**
+ * Lists the paths at which two normalized values differ.
+ */
+export function diffNormalized(
+  reference: unknown,
+  candidate: unknown,
+  path = ''
+): DivergenceDifference[] {
+  if (Array.isArray(reference) && Array.isArray(candidate)) {
+    const out: DivergenceDifference[] = [];
+    for (let i = 0; i < Math.max(reference.length, candidate.length); i++) {
+      out.push(...diffNormalized(reference[i], candidate[i], `${path}[${i}]`));
+    }
+    return out;
+  }
+  if (isPlainObject(reference) && isPlainObject(candidate)) {
+    const a = reference as Record<string, unknown>;
+    const b = candidate as Record<string, unknown>;
+    const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+    return keys.flatMap((key) =>
+      diffNormalized(a[key], b[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return JSON.stringify(reference) === JSON.stringify(candidate)
+    ? []
+    : [{ path, reference, candidate }];
+}
+
+function isQuerySnapshot(value: object): value is QuerySnapshot {
+  return (
+    value instanceof QuerySnapshot || className(value) === 'VectorQuerySnapshot'
+  );
+}
+
+export function className(value: object): string | undefined {
+  return Object.getPrototypeOf(value)?.constructor?.name;
+}
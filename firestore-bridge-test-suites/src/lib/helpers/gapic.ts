@@ -0,0 +1,154 @@
+import { CollectionReference, Firestore } from 'firebase-admin/firestore';
+
+/**
+ * The paging, ordering and projection options of a GAPIC `ListDocuments` call.
+ */
+export interface ListDocumentsOptions {
+  pageSize?: number;
+  pageToken?: string;
+  orderBy?: string;
+  mask?: { fieldPaths: string[] };
+  showMissing?: boolean;
+}
+
+/**
+ * A single page returned by a GAPIC `ListDocuments` call.
+ */
+export interface ListDocumentsPageResult {
+  /** Document IDs, in response order. */
+  ids: string[];
+  /** Field names of each document, in response order (`[]` if masked out). */
+  fields: string[][];
+  /** Empty on the last page. */
+  nextPageToken: string;
+}
+
+/**
+ * A GAPIC `RunAggregationQuery` request body, without its `parent`.
+ */
+export interface AggregationQueryRequest {
+  structuredQuery: Record<string, unknown>;
+  aggregations: Record<string, unknown>[];
+}
+
+/**
+ * An aggregation result: numbers for integer and double values, `null` for
+ * null values.
+ */
+export type AggregationResult = Record<string, number | null>;
+
+interface GapicClient {
+  runAggregationQuery(request: Record<string, unknown>): NodeJS.ReadableStream;
+  listDocuments(
+    request: Record<string, unknown>,
+    options: { autoPaginate: boolean }
+  ): Promise<
+    [
+      { name: string; fields?: Record<string, unknown> | null }[],
+      unknown,
+      { nextPageToken?: string | null } | null
+    ]
+  >;
+}
+
+/**
+ * The Admin SDK internals needed to issue raw GAPIC calls: the SDK exposes no
+ * paging for `CollectionReference.listDocuments()`, no `upTo` for `count()`
+ * and no aggregations of `findNearest()` queries.
+ */
+interface FirestoreInternals {
+  readonly projectId: string;
+  initializeIfNeeded(requestTag: string): Promise<void>;
+  _clientPool: {
+    run<T>(
+      requestTag: string,
+      requiresGrpc: boolean,
+      op: (client: GapicClient) => Promise<T>
+    ): Promise<T>;
+  };
+}
+
+/**
+ * Fetches one page of `collection` with a non-auto-paginating GAPIC
+ * `ListDocuments` call on the client pool of `db`.
+ */
+export async function listDocumentsPage(
+  db: Firestore,
+  collection: CollectionReference,
+  options: ListDocumentsOptions
+): Promise<ListDocumentsPageResult> {
+  const internals = db as unknown as FirestoreInternals;
+  const tag = 'list-documents-page';
+  await internals.initializeIfNeeded(tag);
+
+  const root = `projects/${internals.projectId}/databases/${db.databaseId}/documents`;
+  const parent = collection.parent ? `${root}/${collection.parent.path}` : root;
+  const [documents, , response] = await internals._clientPool.run(
+    tag,
+    false,
+    (client) =>
+      client.listDocuments(
+        { parent, collectionId: collection.id, ...options },
+        { autoPaginate: false }
+      )
+  );
+
+  return {
+    ids: documents.map((doc) => doc.name.split('/').pop() as string),
+    fields: documents.map((doc) => Object.keys(doc.fields ?? {})),
+    nextPageToken: response?.nextPageToken ?? '',
+  };
+}
+
+/**
+ * Runs a raw GAPIC `RunAggregationQuery` under the document at `parentPath`
+ * (the root by default), so that aggregation options the SDK does not expose
+ * can be compared with the emulator's.
+ */
+export async function runAggregationQuery(
+  db: Firestore,
+  request: AggregationQueryRequest,
+  parentPath?: string
+): Promise<AggregationResult> {
+  const internals = db as unknown as FirestoreInternals;
+  const tag = 'run-aggregation-query';
+  await internals.initializeIfNeeded(tag);
+
+  const root = `projects/${internals.projectId}/databases/${db.databaseId}/documents`;
+  const parent = parentPath ? `${root}/${parentPath}` : root;
+  const fields = await internals._clientPool.run(
+    tag,
+    false,
+    (client) =>
+      new Promise<Record<string, Record<string, unknown>>>(
+        (resolve, reject) => {
+          let result: Record<string, Record<string, unknown>> = {};
+          client
+            .runAggregationQuery({
+              parent,
+              structuredAggregationQuery: request,
+            })
+            .on('data', (response: AggregationResponse) => {
+              result = response.result?.aggregateFields ?? result;
+            })
+            .on('end', () => resolve(result))
+            .on('error', reject);
+        }
+      )
+  );
+
+  return Object.fromEntries(
+    Object.entries(fields).map(([alias, value]) => [
+      alias,
+      value['integerValue'] !== undefined
+        ? Number(value['integerValue'])
+        : value['doubleValue'] !== undefined
+        ? Number(value['doubleValue'])
+        : null,
+    ])
+  );
+}
+
+interface AggregationResponse {
+  result?: { aggregateFields?: Record<string, Record<string, unknown>> };
+}
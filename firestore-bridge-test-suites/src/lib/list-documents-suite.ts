@@ -0,0 +1,145 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { listDocumentsPage } from './helpers/gapic.js';
+import { FirestoreBridgeTestContext } from './test-context.js';
+
+export function listDocumentsSuite(context: FirestoreBridgeTestContext) {
+  const COLLECTION_ID = 'List Documents — paging, ordering & masks';
+
+  describe(COLLECTION_ID, () => {
+    let FirestoreDb: Firestore;
+
+    const col = () => FirestoreDb.collection(COLLECTION_ID);
+
+    beforeAll(async () => {
+      FirestoreDb = await context.init(COLLECTION_ID);
+
+      const batch = FirestoreDb.batch();
+      batch.set(col().doc('d'), { rank: 2, name: 'Dee', tag: 'x' });
+      batch.set(col().doc('a'), { rank: 3, name: 'Ada', tag: 'x' });
+      batch.set(col().doc('c'), { rank: 1, name: 'Cy', tag: 'y' });
+      batch.set(col().doc('b'), { rank: 2, name: 'Bob', tag: 'y' });
+      batch.set(col().doc('e'), { name: 'Eve', tag: 'z' });
+      // A missing document: only a subcollection document exists under it
+      batch.set(col().doc('ghost').collection('sub').doc('s1'), { v: 1 });
+      await batch.commit();
+    });
+
+    afterAll(async () => {
+      await context.tearDown();
+    });
+
+    it('CollectionReference.listDocuments() returns existing and missing documents by name', async () => {
+      const refs = await col().listDocuments();
+      expect(refs.map((r) => r.id)).toEqual(['a', 'b', 'c', 'd', 'e', 'ghost']);
+    });
+
+    it('pages by pageSize and pageToken', async () => {
+      const ids: string[][] = [];
+      let pageToken: string | undefined;
+      do {
+        const page = await listDocumentsPage(FirestoreDb, col(), {
+          pageSize: 2,
+          pageToken,
+        });
+        expect(page.ids.length).toBeLessThanOrEqual(2);
+        ids.push(page.ids);
+        pageToken = page.nextPageToken || undefined;
+      } while (pageToken);
+
+      expect(ids.flat()).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(ids[0]).toEqual(['a', 'b']);
+      expect(ids[1]).toEqual(['c', 'd']);
+    });
+
+    it('lists every document when pageSize is unset', async () => {
+      const page = await listDocumentsPage(FirestoreDb, col(), {});
+      expect(page.ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(page.nextPageToken).toBe('');
+    });
+
+    it('includes missing documents with showMissing', async () => {
+      const page = await listDocumentsPage(FirestoreDb, col(), {
+        showMissing: true,
+        pageSize: 4,
+      });
+      const next = await listDocumentsPage(FirestoreDb, col(), {
+        showMissing: true,
+        pageSize: 4,
+        pageToken: page.nextPageToken,
+      });
+
+      expect([...page.ids, ...next.ids]).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+        'e',
+        'ghost',
+      ]);
+      expect(next.fields[next.ids.indexOf('ghost')]).toEqual([]);
+    });
+
+    it('orders by a field, omitting documents without it and breaking ties by name', async () => {
+      const asc = await listDocumentsPage(FirestoreDb, col(), {
+        orderBy: 'rank',
+      });
+      expect(asc.ids).toEqual(['c', 'b', 'd', 'a']);
+
+      const first = await listDocumentsPage(FirestoreDb, col(), {
+        orderBy: 'rank desc',
+        pageSize: 2,
+      });
+      const rest = await listDocumentsPage(FirestoreDb, col(), {
+        orderBy: 'rank desc',
+        pageSize: 2,
+        pageToken: first.nextPageToken,
+      });
+      expect([...first.ids, ...rest.ids]).toEqual(['a', 'd', 'b', 'c']);
+    });
+
+    it('orders by name descending', async () => {
+      const page = await listDocumentsPage(FirestoreDb, col(), {
+        orderBy: '__name__ desc',
+      });
+      expect(page.ids).toEqual(['e', 'd', 'c', 'b', 'a']);
+    });
+
+    it('projects fields with a mask', async () => {
+      const named = await listDocumentsPage(FirestoreDb, col(), {
+        mask: { fieldPaths: ['name'] },
+        pageSize: 1,
+      });
+      expect(named.fields).toEqual([['name']]);
+
+      const bare = await listDocumentsPage(FirestoreDb, col(), {
+        mask: { fieldPaths: [] },
+        pageSize: 1,
+      });
+      expect(bare.fields).toEqual([[]]);
+
+      const full = await listDocumentsPage(FirestoreDb, col(), {
+        pageSize: 1,
+      });
+      expect(full.fields[0].sort()).toEqual(['name', 'rank', 'tag']);
+    });
+
+    it('rejects an invalid page token', async () => {
+      await expect(
+        listDocumentsPage(FirestoreDb, col(), {
+          pageSize: 2,
+          pageToken: 'not-a-token',
+        })
+      ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    });
+
+    it('rejects orderBy combined with showMissing', async () => {
+      await expect(
+        listDocumentsPage(FirestoreDb, col(), {
+          showMissing: true,
+          orderBy: 'rank',
+        })
+      ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    });
+  });
+}
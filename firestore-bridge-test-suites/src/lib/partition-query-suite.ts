@@ -0,0 +1,70 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirestoreBridgeTestContext } from './test-context.js';
+
+export function partitionQuerySuite(context: FirestoreBridgeTestContext) {
+  const COLLECTION_ID = 'Partition Queries — getPartitions';
+
+  describe(COLLECTION_ID, () => {
+    let FirestoreDb: Firestore;
+
+    const group = () => FirestoreDb.collectionGroup(COLLECTION_ID);
+
+    const expectedPaths: string[] = [];
+
+    beforeAll(async () => {
+      FirestoreDb = await context.init(COLLECTION_ID);
+
+      const col = FirestoreDb.collection(COLLECTION_ID);
+      const batch = FirestoreDb.batch();
+      for (let i = 0; i < 12; i++) {
+        const ref = col.doc(`d${String(i).padStart(2, '0')}`);
+        batch.set(ref, { i });
+        expectedPaths.push(ref.path);
+      }
+      for (const parent of ['d03', 'd07']) {
+        for (let i = 0; i < 3; i++) {
+          const ref = col.doc(parent).collection(COLLECTION_ID).doc(`n${i}`);
+          batch.set(ref, { i });
+          expectedPaths.push(ref.path);
+        }
+      }
+      await batch.commit();
+      expectedPaths.sort();
+    });
+
+    afterAll(async () => {
+      await context.tearDown();
+    });
+
+    async function partitionPaths(desired: number): Promise<string[][]> {
+      const paths: string[][] = [];
+      for await (const partition of group().getPartitions(desired)) {
+        const snap = await partition.toQuery().get();
+        paths.push(snap.docs.map((d) => d.ref.path));
+      }
+      return paths;
+    }
+
+    it('yields a single partition covering the group when one is requested', async () => {
+      const paths = await partitionPaths(1);
+
+      expect(paths).toHaveLength(1);
+      expect([...paths[0]].sort()).toEqual(expectedPaths);
+    });
+
+    it('covers every document exactly once across partitions', async () => {
+      const paths = await partitionPaths(4);
+
+      expect(paths.length).toBeGreaterThanOrEqual(1);
+      expect(paths.length).toBeLessThanOrEqual(4);
+      expect(paths.flat().sort()).toEqual(expectedPaths);
+    });
+
+    it('yields no more partitions than there are documents', async () => {
+      const paths = await partitionPaths(100);
+
+      expect(paths.length).toBeLessThanOrEqual(expectedPaths.length);
+      expect(paths.flat().sort()).toEqual(expectedPaths);
+    });
+  });
+}
@@ -1,13 +1,31 @@
 export type {
+  DatabaseSnapshot,
   MergeGranularity,
   MetaDocument,
   MetaDocumentExists,
   MetaDocumentNotExists,
   Trigger,
   TriggerEventArg,
+  WritePrincipal,
 } from './lib/_internal/data-accessor.js';
+export * from './lib/billing.js';
+export * from './lib/change-journal.js';
+export * from './lib/concurrency.js';
 export * from './lib/controller.js';
 export * from './lib/database-direct.js';
+export * from './lib/faults.js';
+export * from './lib/indexes.js';
+export * from './lib/inspector.js';
+export * from './lib/latency.js';
+export * from './lib/retention.js';
+export * from './lib/scheduler.js';
+export * from './lib/security-rules.js';
+export * from './lib/stats.js';
+export * from './lib/storage.js';
 export * from './lib/structural-database.js';
 export * from './lib/system-time.js';
+export * from './lib/traffic.js';
+export * from './lib/ttl.js';
+export * from './lib/typed-json.js';
 export * from './lib/types.js';
+export * from './lib/write-limits.js';
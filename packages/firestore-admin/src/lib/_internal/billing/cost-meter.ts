@@ -0,0 +1,209 @@
+import {
+  BillableUsage,
+  CostBudget,
+  CostBudgetLimits,
+  CostOptions,
+  DEFAULT_FIRESTORE_PRICING,
+  FirestoreCost,
+  FirestorePricing,
+} from '../../billing.js';
+import { Mutable } from '../internal-types.js';
+
+/**
+ * A counter of a {@link BillableUsage}.
+ */
+export type BillableCounter = keyof BillableUsage;
+
+/**
+ * The stored size of a database's documents.
+ */
+export interface StorageUsage {
+  readonly storedBytes: number;
+  readonly indexEntries: number;
+}
+
+const LIMIT_KEYS: readonly (keyof CostBudgetLimits)[] = [
+  'reads',
+  'listenerReads',
+  'writes',
+  'deletes',
+  'storedBytes',
+  'operationsCost',
+];
+
+const BYTES_PER_GIB = 1024 ** 3;
+
+/**
+ * Meters the billable operations of a database and prices them, measuring
+ * the {@link CostBudget}s set against it.
+ */
+export class CostMeter {
+  private _usage = emptyUsage();
+  private readonly _budgets = new Set<Budget>();
+
+  /**
+   * @param storage - Measures the stored size of the database's documents.
+   */
+  constructor(private readonly storage: () => StorageUsage) {}
+
+  /**
+   * Adds `units` to `counter`; listener reads are also added to `reads`.
+   */
+  bill(counter: BillableCounter, units: number): void {
+    if (units <= 0) return;
+
+    this._usage[counter] += units;
+    if (counter === 'listenerReads') this._usage.reads += units;
+  }
+
+  /**
+   * Prices the usage metered so far and the current storage.
+   */
+  cost(options?: CostOptions): FirestoreCost {
+    return price(this._usage, this.storage(), resolvePricing(options));
+  }
+
+  /**
+   * Sets a budget measured from the current usage.
+   *
+   * @throws {Error} If a limit is unknown, negative or not a number.
+   */
+  budget(limits: CostBudgetLimits, options?: CostOptions): CostBudget {
+    for (const [key, limit] of Object.entries(limits)) {
+      if (!LIMIT_KEYS.includes(key as keyof CostBudgetLimits)) {
+        throw new Error(`Unknown cost budget limit "${key}".`);
+      }
+      if (typeof limit !== 'number' || !(limit >= 0)) {
+        throw new Error(
+          `Cost budget limit "${key}" must be a non-negative number.`
+        );
+      }
+    }
+
+    const budget = new Budget(this, limits, resolvePricing(options));
+    this._budgets.add(budget);
+
+    return budget;
+  }
+
+  /**
+   * Copies the current usage.
+   */
+  save(): BillableUsage {
+    return { ...this._usage };
+  }
+
+  /**
+   * Reinstates usage copied by {@link save}.
+   */
+  load(state: BillableUsage): void {
+    this._usage = { ...state };
+  }
+
+  /**
+   * Discards the usage; budgets then measure from zero.
+   */
+  clear(): void {
+    this._usage = emptyUsage();
+    this._budgets.forEach((budget) => budget.rebase(this._usage));
+  }
+
+  /** @internal */
+  measure(
+    since: BillableUsage,
+    pricing: FirestorePricing,
+    withStorage: boolean
+  ): FirestoreCost {
+    const usage = emptyUsage();
+    for (const key of Object.keys(usage) as BillableCounter[]) {
+      usage[key] = Math.max(this._usage[key] - since[key], 0);
+    }
+    const storage = withStorage
+      ? this.storage()
+      : { storedBytes: 0, indexEntries: 0 };
+
+    return price(usage, storage, pricing);
+  }
+
+  /** @internal */
+  release(budget: Budget): void {
+    this._budgets.delete(budget);
+  }
+}
+
+class Budget implements CostBudget {
+  readonly limits: CostBudgetLimits;
+  private _since: BillableUsage;
+
+  constructor(
+    private readonly meter: CostMeter,
+    limits: CostBudgetLimits,
+    private readonly pricing: FirestorePricing
+  ) {
+    this.limits = Object.freeze({ ...limits });
+    this._since = meter.save();
+  }
+
+  spent(): FirestoreCost {
+    return this.meter.measure(this._since, this.pricing, true);
+  }
+
+  exceeded(): string[] {
+    const spent = this.meter.measure(
+      this._since,
+      this.pricing,
+      this.limits.storedBytes !== undefined
+    );
+
+    return LIMIT_KEYS.filter((key) => {
+      const limit = this.limits[key];
+      return limit !== undefined && spent[key] > limit;
+    }).map((key) => `${key}: ${spent[key]} > ${this.limits[key]}`);
+  }
+
+  assert(): void {
+    const exceeded = this.exceeded();
+    if (exceeded.length) throw new Error(exceededMessage(exceeded));
+  }
+
+  dispose(): void {
+    this.meter.release(this);
+  }
+
+  /** Measures the budget from `usage`. */
+  rebase(usage: BillableUsage): void {
+    this._since = { ...usage };
+  }
+}
+
+function exceededMessage(exceeded: string[]): string {
+  return `Firestore cost budget exceeded (${exceeded.join(', ')}).`;
+}
+
+function resolvePricing(options: CostOptions | undefined): FirestorePricing {
+  return { ...DEFAULT_FIRESTORE_PRICING, ...options?.pricing };
+}
+
+function price(
+  usage: BillableUsage,
+  storage: StorageUsage,
+  pricing: FirestorePricing
+): FirestoreCost {
+  const operationsCost =
+    (usage.reads * pricing.readsPer100k +
+      usage.writes * pricing.writesPer100k +
+      usage.deletes * pricing.deletesPer100k) /
+    100_000;
+
+  return Object.freeze({
+    ...usage,
+    ...storage,
+    operationsCost,
+    storageCostPerMonth:
+      (storage.storedBytes / BYTES_PER_GIB) * pricing.storagePerGiBMonth,
+  });
+}
+
+function emptyUsage(): Mutable<BillableUsage> {
+  return { reads: 0, listenerReads: 0, writes: 0, deletes: 0 };
+}
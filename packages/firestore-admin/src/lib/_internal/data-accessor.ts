@@ -11,7 +11,44 @@ import {
   StructuralDatabase,
   StructuralDocument,
 } from '../structural-database.js';
-import { isDocSizeWithinLimit } from './functions/calc-doc-size.js';
+import type {
+  ChangeJournalOptions,
+  ChangeRecord,
+  JournalRetentionOptions,
+} from '../change-journal.js';
+import type {
+  BillableUsage,
+  CostBudget,
+  CostBudgetLimits,
+  CostOptions,
+  FirestoreCost,
+} from '../billing.js';
+import type { TransactionRecord } from '../concurrency.js';
+import type { ListenTargetRecord } from '../inspector.js';
+import type { RetentionOptions } from '../retention.js';
+import type { Scheduler, TimerHandle } from '../scheduler.js';
+import type { OperationBreakdown, StatsGroupBy } from '../stats.js';
+import type {
+  DatabaseStorage,
+  DocumentStorage,
+  DocumentStorageEntry,
+  StorageOptions,
+  StorageWarning,
+} from '../storage.js';
+import type { WriteLimitWarning } from '../write-limits.js';
+import {
+  BillableCounter,
+  CostMeter,
+  StorageUsage,
+} from './billing/cost-meter.js';
+import {
+  calcDocSize,
+  calcIndexEntries,
+  isDocSizeWithinLimit,
+  MAX_DOC_SIZE_BYTES,
+  MAX_INDEX_ENTRIES_PER_DOC,
+  SingleFieldIndexResolver,
+} from './functions/calc-doc-size.js';
 import { cloneDocumentData } from './functions/clone-document-data.js';
 import { freezeDocumentData } from './functions/freeze-document-data.js';
 import { googleError } from './functions/google-error.js';
@@ -27,7 +64,13 @@ import {
   stackPeek,
 } from './functions/util.js';
 import { DocumentFieldValue, Mutable } from './internal-types.js';
+import type { IndexRegistry } from './indexes/index-registry.js';
 import { Listeners } from './listeners.js';
+import {
+  LockHolder,
+  LockManager,
+  WOUNDED_MESSAGE,
+} from './locks/lock-manager.js';
 import {
   assertEitherRequired,
   assertInstanceOf,
@@ -46,9 +89,19 @@ import {
   PathDataProvider,
   PathType,
 } from './path.js';
+import { StatsLedger, StatsLedgerState } from './stats/stats-ledger.js';
+import { WriteLimitPass, WriteLimiter } from './write-limits/write-limiter.js';
 
 const MILLIS_PER_SECOND = 1000;
-const SIXTY_SECONDS = MILLIS_PER_SECOND * 60;
+const MILLIS_PER_MINUTE = MILLIS_PER_SECOND * 60;
+const SEVEN_DAYS = MILLIS_PER_MINUTE * 60 * 24 * 7;
+/** The read-time window of a database without {@link RetentionOptions}. */
+const DEFAULT_RETENTION: ReadRetention = Object.freeze({
+  versionMillis: MILLIS_PER_MINUTE,
+  pitrMillis: undefined,
+});
+/** The change journal size of a database without {@link JournalRetentionOptions}. */
+const DEFAULT_JOURNAL_RECORDS = 10_000;
 const Zero = Timestamp.fromMillis(0);
 
 interface OperationStats {
@@ -186,6 +239,16 @@ interface Datasource {
    */
   readonly stats: Mutable<OperationStats>;
 
+  /**
+   * Per-document operation counts, by collection and query shape.
+   */
+  readonly ledger: StatsLedger;
+
+  /**
+   * Schedules a notification of the stats watchers, once per microtask.
+   */
+  statsChanged(): void;
+
   /**
    * Retrieves path metadata from the `PathData` cache.
    *
@@ -200,11 +263,77 @@ interface Datasource {
    */
   invalidateStats(): void;
 
+  /**
+   * Records a step that reverts the mutation about to be applied. Steps are only
+   * retained while a {@link DatabaseSnapshot} is outstanding.
+   */
+  journal(undo: UndoStep): void;
+
   /**
    * A list of `MetaDocument` instances representing the document changes produced
    * during the most recent atomic commit operation.
    */
   readonly changes: MetaDocument[];
+
+  /**
+   * How far back historic reads may go; document versions beyond it are pruned.
+   */
+  retention: ReadRetention;
+
+  /**
+   * Resolves the field overrides of the database's index definitions, which
+   * determine the index entries of each document.
+   */
+  fieldOverrides: SingleFieldIndexResolver | undefined;
+}
+
+/**
+ * Resolved {@link RetentionOptions}.
+ */
+interface ReadRetention {
+  /** Every version is readable within this many milliseconds. */
+  readonly versionMillis: number;
+  /** With PITR, whole-minute versions are readable within this many milliseconds. */
+  readonly pitrMillis: number | undefined;
+}
+
+/**
+ * Reverts a single structural or document-state mutation. Returns the path of the
+ * document whose state was reverted, if any.
+ */
+type UndoStep = () => string | undefined;
+
+/**
+ * Opaque handle to a point in a database's history, returned by
+ * {@link DataAccessor.snapshot} and accepted by {@link DataAccessor.restore}.
+ *
+ * @remarks
+ * A handle stays valid until it is released, the database is reset or cleared, or
+ * a snapshot taken before it is restored.
+ */
+export interface DatabaseSnapshot {
+  /**
+   * The commit version of the database when the snapshot was taken.
+   */
+  readonly version: number;
+
+  /**
+   * Invalidates the snapshot, so that the database stops retaining the state
+   * needed to restore it. Releasing an invalid snapshot has no effect.
+   */
+  release(): void;
+}
+
+/**
+ * The internal state captured for a {@link DatabaseSnapshot}.
+ */
+interface SnapshotMark {
+  /** Journal position (counted since the last clear) when the snapshot was taken. */
+  readonly position: number;
+  readonly version: number;
+  readonly stats: OperationStats;
+  readonly ledger: StatsLedgerState;
+  readonly billing: BillableUsage;
 }
 
 interface DocumentIterator {
@@ -443,6 +572,40 @@ export interface NormalizedWriteResult {
   statuses?: WriteStatus[];
 }
 
+/**
+ * Read-only view of document state supplied to a {@link WriteAuthorizer}.
+ */
+export interface WriteAuthorizationView {
+  /** The commit time of the batch being authorized. */
+  readonly serverTime: Timestamp;
+
+  /**
+   * Returns the committed data of a document as it was **before** the batch,
+   * or `undefined` when the document does not exist.
+   */
+  before(path: string): DocumentData | undefined;
+
+  /**
+   * Returns the data a document will hold once the batch is applied, or
+   * `undefined` when it will not exist. In `WriteMode.Serial` the view reflects
+   * only the writes processed so far.
+   */
+  after(path: string): DocumentData | undefined;
+}
+
+/**
+ * Pre-commit authorization hook for {@link DataAccessor.batchWrite}.
+ *
+ * Invoked once per write after preconditions, transforms and validation have
+ * been applied to the batch buffer. Throwing a `GoogleError` rejects the write:
+ * the whole batch in `WriteMode.Atomic`, or only that write (reported through
+ * `statuses`) in `WriteMode.Serial`.
+ */
+export type WriteAuthorizer = (
+  op: NormalizedWrite,
+  view: WriteAuthorizationView
+) => void;
+
 /**
  * A map of document path → `MetaDocument` describing the changed state for that path.
  * Typically used to coalesce distinct changes by final path state for listener dispatch.
@@ -500,6 +663,32 @@ export interface TriggerEventArg {
    * Contains structural and timing metadata used by the mock to emulate Firestore.
    */
   doc: MetaDocument;
+
+  /**
+   * The principal that made the change, when it was made by the database
+   * itself rather than a request (e.g. a TTL delete, made by a `system`
+   * principal). `undefined` for writes made through the SDK or
+   * {@link DatabaseDirect}.
+   */
+  principal?: WritePrincipal;
+}
+
+/**
+ * The identity behind a change, in the shape Cloud Functions reports to
+ * `...WithAuthContext` triggers.
+ *
+ * @public
+ */
+export interface WritePrincipal {
+  /** The kind of principal; TTL deletes are made by `'system'`. */
+  authType:
+    | 'service_account'
+    | 'api_key'
+    | 'system'
+    | 'unauthenticated'
+    | 'unknown';
+  /** The principal's unique identifier, where one is disclosed. */
+  authId?: string;
 }
 
 /**
@@ -542,6 +731,10 @@ export interface DatabaseConfig {
    * Should be monotonic within a test run.
    */
   serverTime: () => Timestamp;
+  /**
+   * The clock and timers behind transaction expiry and the mock's response timing.
+   */
+  scheduler: Scheduler;
 }
 
 /**
@@ -637,6 +830,12 @@ export interface DocumentQuery<T extends DocumentData = DocumentData> {
    * Return `true` to include the document in results.
    */
   predicate: (meta: MetaDocumentExists<T>) => boolean;
+
+  /**
+   * The shape of the query on whose behalf the documents are read, used to
+   * group its reads in per-query stats (see {@link StatsGroupBy}).
+   */
+  shape?: string;
 }
 
 /**
@@ -653,7 +852,7 @@ export interface MetaDocument<T extends DocumentData = DocumentData> {
   /**
    * Monotonically increasing **per-DataAccessor** epoch identifier.
    *
-   * - **Increments only when the in-memory database is reset** (never for reads/writes/commits).
+   * - **Increments only when the in-memory database is reset or restored** (never for reads/writes/commits).
    * - Remains constant for the entire lifetime of a given database instance between resets.
    * - When combined with {@link version} (the commit sequence number), `(epoch, version)`
    *   provides a stable total ordering key across resets.
@@ -737,6 +936,13 @@ export interface MetaDocument<T extends DocumentData = DocumentData> {
    * Firestore sentinel/value types (e.g., `Timestamp`, `GeoPoint`) are preserved as instances.
    */
   cloneData(): T | undefined;
+
+  /**
+   * Returns the storage the document takes up: its serialized size and its
+   * single-field index entries under the database's field overrides, or
+   * `undefined` if the document does not exist. Computed on first call.
+   */
+  storage(): DocumentStorage | undefined;
 }
 
 /**
@@ -759,6 +965,9 @@ export interface MetaDocumentExists<T extends DocumentData = DocumentData>
 
   /** The document's data after the operation (never `undefined` for existing docs). */
   readonly data: T;
+
+  /** The storage the document takes up. */
+  storage(): DocumentStorage;
 }
 
 /**
@@ -781,6 +990,9 @@ export interface MetaDocumentNotExists<T extends DocumentData = DocumentData>
 
   /** Absent because the document does not exist. */
   readonly data?: undefined;
+
+  /** Always `undefined` for non-existent documents. */
+  storage(): undefined;
 }
 
 interface BatchWriteMeta {
@@ -811,7 +1023,7 @@ class _AsyncDataAccessor {
    * @returns A Promise resolving to the distinct collection IDs (no duplicates).
    */
   listCollectionIds(documentPath: string): Promise<string[]> {
-    return resolvePromise(this._inner.listCollectionIds(documentPath));
+    return this.resolve(this._inner.listCollectionIds(documentPath));
   }
 
   /**
@@ -826,9 +1038,7 @@ class _AsyncDataAccessor {
     collectionPath: string,
     showMissing: boolean
   ): Promise<MetaDocument[]> {
-    return resolvePromise(
-      this._inner.listDocuments(collectionPath, showMissing)
-    );
+    return this.resolve(this._inner.listDocuments(collectionPath, showMissing));
   }
 
   /**
@@ -841,7 +1051,7 @@ class _AsyncDataAccessor {
   query<T extends DocumentData = DocumentData>(
     q: DocumentQuery<T>
   ): Promise<MetaDocumentExists<T>[]> {
-    return resolvePromise(this._inner.query(q));
+    return this.resolve(this._inner.query(q));
   }
 
   /**
@@ -859,7 +1069,7 @@ class _AsyncDataAccessor {
     documentPath: string,
     readTime?: Timestamp
   ): Promise<MetaDocument<T>> {
-    return resolvePromise(this._inner.getDoc(documentPath, readTime));
+    return this.resolve(this._inner.getDoc(documentPath, readTime));
   }
 
   /**
@@ -878,7 +1088,11 @@ class _AsyncDataAccessor {
     ops: NormalizedWrite[],
     mode: WriteMode
   ): Promise<NormalizedWriteResult> {
-    return resolvePromise(this._inner.batchWrite(ops, mode));
+    return this.resolve(this._inner.batchWrite(ops, mode));
+  }
+
+  private resolve<T>(value: T): Promise<T> {
+    return resolvePromise(value, undefined, this._inner.scheduler);
   }
 }
 
@@ -900,7 +1114,7 @@ interface OpContext {
 export class DataAccessor implements PathDataProvider {
   /**
    * Monotonically increasing **per-DataAccessor** epoch identifier.
-   * Increments only when the in-memory database is reset (never for reads/writes/commits).
+   * Increments only when the in-memory database is reset or restored (never for reads/writes/commits).
    * Remains constant for the entire lifetime of a given database instance between resets.
    */
   private _epoch = 0;
@@ -911,12 +1125,39 @@ export class DataAccessor implements PathDataProvider {
    */
   private _version = 0;
   private readonly _resetListeners = new Listeners<number>();
+  private readonly _restoreListeners = new Listeners<number>();
   private readonly _statsWatchers = new Listeners<DatabaseStats>();
   private readonly _changeWatchers = new Set<ChangeWatcher>();
   private readonly _triggers = new Set<Trigger>();
   private _pathCache = new PathDataCache();
   private _stats: StructuralStats | undefined;
+  private _statsPending = false;
+  private readonly _meter = new CostMeter(() => this.storageUsage());
+  private _limiter: WriteLimiter | undefined;
   private _txs: TransactionManager;
+  /**
+   * Undo steps recorded since the oldest outstanding snapshot, in mutation order.
+   */
+  private _journal: UndoStep[] = [];
+  /**
+   * The position of the first step of {@link _journal}; steps before it were
+   * trimmed once no snapshot needed them.
+   */
+  private _journalStart = 0;
+  private readonly _snapshots = new Map<DatabaseSnapshot, SnapshotMark>();
+  /**
+   * The latest document changes committed since the last reset, in commit
+   * order; at most {@link _changeLogLimit} of them.
+   */
+  private _changeLog: ChangeRecord[] = [];
+  private _changeLogLimit = DEFAULT_JOURNAL_RECORDS;
+  private readonly _changeLogWatchers = new Listeners<
+    readonly ChangeRecord[]
+  >();
+  /**
+   * Describers of the listen targets active on the database's listen streams.
+   */
+  private readonly _listenTargets = new Set<() => ListenTargetRecord>();
   private _src: Datasource = {
     cols: new Map(),
     docs: new Map(),
@@ -929,31 +1170,69 @@ export class DataAccessor implements PathDataProvider {
       noopWrites: 0,
       noopDeletes: 0,
     },
+    ledger: new StatsLedger(),
+    statsChanged: (): void => {
+      if (this._statsPending) return;
+      this._statsPending = true;
+      queueMicrotask(() => {
+        this._statsPending = false;
+        this._statsWatchers.next(this.getStats());
+      });
+    },
     pathData: (path: string, ...guards: PathType[]): PathData => {
       return this._pathCache.assert(path, ...guards);
     },
     invalidateStats: (): void => {
       this._stats = undefined;
     },
+    journal: (undo: UndoStep): void => {
+      if (this._snapshots.size > 0) {
+        this._journal.push(undo);
+      }
+    },
+    retention: DEFAULT_RETENTION,
+    fieldOverrides: undefined,
   };
   /**
-   * Returns the current "server" time.
+   * The time of the latest commit on virtual time, in milliseconds. Virtual time
+   * stands still between advances, so later commits are spaced after it.
    */
-  readonly serverTime: () => Timestamp;
+  private _lastCommitMillis = 0;
+  private readonly _clock: () => Timestamp;
+  /**
+   * The clock and timers of the mock environment.
+   */
+  readonly scheduler: Scheduler;
   /**
    * Async façade over `DataAccessor` that enforces deterministic asynchronous I/O.
    */
   readonly async: AsyncDataAccessor = new _AsyncDataAccessor(this);
 
   constructor(config: DatabaseConfig) {
-    this.serverTime = config.serverTime;
+    this._clock = config.serverTime;
+    this.scheduler = config.scheduler;
     this._txs = new TransactionManager(this);
   }
 
+  /**
+   * Returns the current "server" time.
+   *
+   * On virtual time, this is never earlier than the latest commit: commits made at
+   * the same virtual instant are spaced a millisecond apart, since snapshot
+   * listeners only observe changes at a newer read time.
+   */
+  serverTime(): Timestamp {
+    const now = this._clock();
+
+    return now.toMillis() < this._lastCommitMillis
+      ? Timestamp.fromMillis(this._lastCommitMillis)
+      : now;
+  }
+
   /**
    * The monotonically increasing **per-DataAccessor** epoch identifier.
    *
-   * - **Increments only when the in-memory database is reset** (never for reads/writes/commits).
+   * - **Increments only when the in-memory database is reset or restored** (never for reads/writes/commits).
    * - Remains constant for the entire lifetime of a given database instance between resets.
    * - When combined with {@link version} (the commit sequence number), `(epoch, version)`
    *   provides a stable total ordering key across resets.
@@ -1002,6 +1281,17 @@ export class DataAccessor implements PathDataProvider {
     return this._resetListeners.register(callback);
   }
 
+  /**
+   * Registers a listener that fires whenever the database is rolled back to a
+   * snapshot via {@link restore}.
+   *
+   * @param callback - Invoked with the new epoch after the restore completes.
+   * @returns An unsubscribe function that removes the listener.
+   */
+  registerRestoreListener(callback: (epoch: number) => void): () => void {
+    return this._restoreListeners.register(callback);
+  }
+
   /**
    * Registers a low-level change watcher and immediately delivers a synthetic
    * "current state" snapshot followed by future change notifications.
@@ -1287,6 +1577,8 @@ export class DataAccessor implements PathDataProvider {
    * @param showMissing - When `true`, include *missing* documents that have active child collections
    *   (i.e., documents that don't exist but have nested subcollections). When `false`, only existing
    *   documents are returned.
+   * @param select - Optional narrowing of the listed documents, such as ordering and paging,
+   *   applied before reads are counted.
    * @returns An array of {@link MetaDocument} describing each document’s post-commit state at the
    *   current {@link serverTime}. For missing documents included due to `showMissing`, `exists === false`.
    *
@@ -1312,9 +1604,13 @@ export class DataAccessor implements PathDataProvider {
    * const existing = withMissing.filter(d => d.exists);
    * ```
    */
-  listDocuments(collectionPath: string, showMissing: boolean): MetaDocument[] {
+  listDocuments(
+    collectionPath: string,
+    showMissing: boolean,
+    select?: (listed: MetaDocument[]) => MetaDocument[]
+  ): MetaDocument[] {
     this._pathCache.assert(collectionPath, 'collection');
-    const result: MetaDocument[] = [];
+    let result: MetaDocument[] = [];
     const context = this.opContext();
     const col = this._src.cols.get(collectionPath);
 
@@ -1325,9 +1621,12 @@ export class DataAccessor implements PathDataProvider {
         }
       }
     }
-    // Count reads for existing docs only (no allocation)
-    const existingCount = result.reduce((n, r) => n + (r.exists ? 1 : 0), 0);
-    bumpReads(this._src, existingCount);
+    if (select) result = select(result);
+    // Count reads for existing docs only
+    bumpReads(
+      this._src,
+      result.filter((r) => r.exists)
+    );
 
     return result;
   }
@@ -1420,7 +1719,7 @@ export class DataAccessor implements PathDataProvider {
         if (wantDeep) stack.push(...docs);
       }
     }
-    bumpReads(this._src, results.length);
+    bumpReads(this._src, results, q.shape);
 
     return results;
   }
@@ -1459,7 +1758,7 @@ export class DataAccessor implements PathDataProvider {
   ): MetaDocument<T> {
     const context = this.opContext();
     const meta = MasterDocument.get<T>(context, documentPath, readTime);
-    bumpReads(this._src, meta.exists ? 1 : 0);
+    bumpReads(this._src, meta.exists ? [meta] : []);
 
     return meta;
   }
@@ -1518,6 +1817,12 @@ export class DataAccessor implements PathDataProvider {
    * @param ops - An ordered array of normalized writes (each with `path`, `type`, optional
    *   `data`, and optional `precondition`).
    * @param mode - Write behavior: `WriteMode.Atomic` or `WriteMode.Serial`.
+   * @param authorize - Optional {@link WriteAuthorizer} consulted for each write before
+   *   anything is committed.
+   * @param principal - The principal reported to triggers, for writes made by the
+   *   database itself (see {@link TriggerEventArg.principal}).
+   * @param limited - Whether the writes are held to the production write limits
+   *   set by {@link useWriteLimits}; `true` for writes requested through the SDK.
    * @returns A {@link NormalizedWriteResult} containing:
    * - `serverTime`: the commit timestamp used for all writes in this batch,
    * - `results`: an array of {@link MetaDocument} in the **same order** as `ops`,
@@ -1554,6 +1859,12 @@ export class DataAccessor implements PathDataProvider {
    * - `enqueueChanges(serverTime)` is invoked once at the end to notify watchers/triggers.
    * - The internal store version increments once per `batchWrite` call.
    *
+   * ### Write limits
+   * - When `limited`, each authorized write is checked by the {@link WriteLimiter} in use.
+   *   In `'throttle'` mode a write over a limit fails with `RESOURCE_EXHAUSTED` (the whole
+   *   batch in Atomic mode); in `'warn'` mode it is applied, and the warnings are reported
+   *   once the batch commits.
+   *
    * ### Error Semantics
    * - **Atomic**: throws a {@link GoogleError} immediately on first failure; no partial writes.
    * - **Serial**: records each failure into `statuses` and skips that op; does **not** throw
@@ -1583,10 +1894,17 @@ export class DataAccessor implements PathDataProvider {
    * // serial.statuses → [{ code: OK }, { code: INVALID_ARGUMENT, ... }, { code: NOT_FOUND, ... }]
    * ```
    */
-  batchWrite(ops: NormalizedWrite[], mode: WriteMode): NormalizedWriteResult {
+  batchWrite(
+    ops: NormalizedWrite[],
+    mode: WriteMode,
+    authorize?: WriteAuthorizer,
+    principal?: WritePrincipal,
+    limited = false
+  ): NormalizedWriteResult {
     const SerialFailToken = 'SerialFail';
     const context = this.opContext(true);
     const results: MetaDocument[] = [];
+    const limits = limited ? this.beginWriteLimits(context) : undefined;
     const statuses: (WriteStatus | undefined)[] | undefined =
       mode === WriteMode.Serial ? [] : undefined;
 
@@ -1619,9 +1937,23 @@ export class DataAccessor implements PathDataProvider {
       return meta;
     };
 
+    const view: WriteAuthorizationView = {
+      serverTime: context.serverTime,
+      before: (path) => {
+        const committed = MasterDocument.get(context, path);
+        return committed.exists ? committed.data : undefined;
+      },
+      after: (path) => {
+        const buffered = docBuffer.get(path);
+        if (!buffered) return view.before(path);
+        return buffered.exists ? buffered.data : undefined;
+      },
+    };
+
     try {
       for (const op of ops) {
         const existing = ensureMeta(op.path);
+        const original: BatchWriteMeta = { ...existing };
         let proceed = true;
 
         try {
@@ -1695,9 +2027,58 @@ export class DataAccessor implements PathDataProvider {
             break;
           }
         }
+
+        // 3. Authorize (Serial): a rejected write is reverted and reported
+        if (authorize && statuses) {
+          try {
+            authorize(op, view);
+          } catch (error) {
+            if (!(error instanceof GoogleError)) throw error;
+            Object.assign(existing, original);
+            statuses[statuses.length - 1] = {
+              code: error.code,
+              message: error.message,
+            };
+          }
+        }
+
+        // 4. Limit (Serial): a throttled write is reverted and reported
+        if (limits && statuses && !statuses[statuses.length - 1]) {
+          const throttled = limits.admit({
+            path: op.path,
+            before: original.exists ? original.data : undefined,
+            after: existing.exists ? existing.data : undefined,
+          });
+          if (throttled) {
+            Object.assign(existing, original);
+            statuses[statuses.length - 1] = {
+              code: throttled.code,
+              message: throttled.message,
+            };
+          }
+        }
+      }
+
+      // 3. Authorize (Atomic): any rejection fails the whole batch
+      if (authorize && !statuses) {
+        for (const op of ops) {
+          authorize(op, view);
+        }
+      }
+
+      // 4. Limit (Atomic): any throttled write fails the whole batch
+      if (limits && !statuses) {
+        for (const op of ops) {
+          const throttled = limits.admit({
+            path: op.path,
+            before: view.before(op.path),
+            after: view.after(op.path),
+          });
+          if (throttled) throw throttled;
+        }
       }
 
-      // 3. Apply to store
+      // 5. Apply to store
       for (const op of ops) {
         const doc = docBuffer.get(op.path);
         let writeResult: MetaDocument | undefined;
@@ -1713,9 +2094,11 @@ export class DataAccessor implements PathDataProvider {
         }
         results.push(writeResult);
       }
-      this.enqueueChanges(context.serverTime);
+      this.enqueueChanges(context.serverTime, principal);
+      limits?.commit();
     } catch (cause) {
       this._src.changes.slice(0);
+      limits?.rollback();
       if (cause instanceof GoogleError) throw cause;
 
       throw createError(Status.INTERNAL, { cause });
@@ -1823,6 +2206,177 @@ export class DataAccessor implements PathDataProvider {
     return this._statsWatchers.register(watcher);
   }
 
+  /**
+   * Breaks down the per-document operation counts by `groupBy`.
+   *
+   * @returns A frozen map of group key → counts.
+   */
+  getStatsBreakdown(
+    groupBy: StatsGroupBy
+  ): Readonly<Record<string, OperationBreakdown>> {
+    return this._src.ledger.breakdown(groupBy);
+  }
+
+  /**
+   * Records the index entries (and, unless served from the index alone, the
+   * documents) a query walked, for per-document stats.
+   *
+   * @param shape - The shape of the query.
+   * @param scanned - The documents whose index entries were walked.
+   * @param indexOnly - `true` when no documents were fetched.
+   */
+  recordScan(
+    shape: string,
+    scanned: readonly MetaDocument[],
+    indexOnly: boolean
+  ): void {
+    const ledger = this._src.ledger;
+    scanned.forEach((doc) => {
+      ledger.record(doc.path, 'indexEntriesScanned', shape);
+      if (!indexOnly) ledger.record(doc.path, 'documentsScanned', shape);
+    });
+    if (scanned.length > 0) this._src.statsChanged();
+  }
+
+  /**
+   * Records the document changes and removals delivered to a snapshot
+   * listener, for per-document stats.
+   *
+   * @param paths - The documents delivered, one entry per delivery.
+   * @param shape - The shape of the listener's query; `undefined` for document targets.
+   */
+  recordListenerUpdates(paths: readonly string[], shape?: string): void {
+    const ledger = this._src.ledger;
+    paths.forEach((path) => ledger.record(path, 'listenerUpdates', shape));
+    if (paths.length > 0) this._src.statsChanged();
+  }
+
+  /**
+   * Meters billable operations of a client request.
+   *
+   * @param counter - The counter to add to; listener reads also count as reads.
+   * @param units - The units billed.
+   */
+  bill(counter: BillableCounter, units: number): void {
+    this._meter.bill(counter, units);
+  }
+
+  /**
+   * Meters the writes and deletes of a client request.
+   *
+   * @param writes - The writes applied.
+   */
+  billWrites(writes: readonly NormalizedWrite[]): void {
+    const deletes = writes.filter((w) => w.type === 'delete').length;
+    this._meter.bill('writes', writes.length - deletes);
+    this._meter.bill('deletes', deletes);
+  }
+
+  /**
+   * Prices the billable operations metered so far and the current storage.
+   */
+  getCost(options?: CostOptions): FirestoreCost {
+    return this._meter.cost(options);
+  }
+
+  /**
+   * Sets a budget on the billable operations metered from now on.
+   *
+   * @throws {Error} If a limit is unknown, negative or not a number.
+   */
+  budget(limits: CostBudgetLimits, options?: CostOptions): CostBudget {
+    return this._meter.budget(limits, options);
+  }
+
+  /**
+   * Measures the stored size of the current documents, including their
+   * single-field index entries.
+   */
+  private storageUsage(): StorageUsage {
+    const { totalBytes, indexEntries } = this.getStorage({ top: 0 });
+
+    return { storedBytes: totalBytes, indexEntries };
+  }
+
+  /**
+   * Measures the storage taken up by the current documents.
+   *
+   * @param options - How many of the largest documents to list, and the
+   *   fraction of a per-document limit from which a document is reported.
+   * @throws {Error} If `top` or `warnAt` is malformed.
+   */
+  getStorage(options?: StorageOptions): DatabaseStorage {
+    const top = options?.top ?? 10;
+    const warnAt = options?.warnAt ?? 0.8;
+    if (!Number.isInteger(top) || top < 0) {
+      throw new Error('Storage option "top" must be a non-negative integer.');
+    }
+    if (typeof warnAt !== 'number' || !(warnAt >= 0 && warnAt <= 1)) {
+      throw new Error('Storage option "warnAt" must be between 0 and 1.');
+    }
+
+    let documentCount = 0;
+    let documentBytes = 0;
+    let indexEntries = 0;
+    let indexBytes = 0;
+    const documents: DocumentStorageEntry[] = [];
+    const warnings: StorageWarning[] = [];
+    const warn = (
+      path: string,
+      limit: StorageWarning['limit'],
+      value: number,
+      max: number,
+      unit: string
+    ): void => {
+      if (value < max * warnAt) return;
+
+      const percent = Math.floor((value / max) * 100);
+      warnings.push(
+        Object.freeze({
+          path,
+          limit,
+          value,
+          max,
+          message: `Document "${path}" has ${value} ${unit}, ${percent}% of the limit of ${max}.`,
+        })
+      );
+    };
+
+    this._src.docs.forEach((doc) => {
+      if (doc.pathData.type !== 'document' || !doc.data) return;
+
+      const path = doc.pathData.path;
+      const storage = measureDocument(this._src, path, doc.data);
+      documentCount += 1;
+      documentBytes += storage.sizeBytes;
+      indexEntries += storage.indexEntries;
+      indexBytes += storage.indexBytes;
+      if (top > 0) documents.push(Object.freeze({ path, ...storage }));
+      warn(path, 'sizeBytes', storage.sizeBytes, MAX_DOC_SIZE_BYTES, 'bytes');
+      warn(
+        path,
+        'indexEntries',
+        storage.indexEntries,
+        MAX_INDEX_ENTRIES_PER_DOC,
+        'index entries'
+      );
+    });
+
+    const largestDocuments = documents
+      .sort((a, b) => b.sizeBytes - a.sizeBytes || a.path.localeCompare(b.path))
+      .slice(0, top);
+
+    return Object.freeze({
+      documentCount,
+      documentBytes,
+      indexEntries,
+      indexBytes,
+      totalBytes: documentBytes + indexBytes,
+      largestDocuments: Object.freeze(largestDocuments),
+      warnings: Object.freeze(warnings),
+    });
+  }
+
   /**
    * Resolves a transaction handle from a flexible resolver shape.
    *
@@ -1869,6 +2423,202 @@ export class DataAccessor implements PathDataProvider {
     return this._txs.fetch(transactionId);
   }
 
+  /**
+   * Switches transaction concurrency control: pessimistic locking with the
+   * given lock manager, or optimistic when `undefined`. Transactions begun
+   * earlier keep their mode.
+   */
+  useLocks(locks: LockManager | undefined): void {
+    this._txs.locks = locks;
+  }
+
+  /**
+   * Applies the field overrides of index definitions to the index entries
+   * measured for each document, or automatic indexing when `undefined`.
+   */
+  useIndexes(indexes: IndexRegistry | undefined): void {
+    this._src.fieldOverrides = indexes
+      ? (collectionGroup, fieldPath) =>
+          indexes.fieldOverride(collectionGroup, fieldPath)
+      : undefined;
+  }
+
+  /**
+   * Holds the writes requested through the SDK to production write limits, or
+   * turns the limits off when `undefined`.
+   */
+  useWriteLimits(limiter: WriteLimiter | undefined): void {
+    this._limiter = limiter;
+  }
+
+  /**
+   * Returns the warnings reported by the write limits in use; empty when they
+   * are off.
+   */
+  writeLimitWarnings(): readonly WriteLimitWarning[] {
+    return this._limiter?.warnings() ?? Object.freeze([]);
+  }
+
+  /**
+   * Starts checking a batch against the write limits in use, if any.
+   */
+  private beginWriteLimits(context: OpContext): WriteLimitPass | undefined {
+    return this._limiter?.begin(context.serverTime, {
+      isEmpty: (collectionPath) =>
+        !context.datasource.cols.get(collectionPath)?.hasActiveDocs,
+      isIndexed: (collectionId, field) => {
+        const indexes = context.datasource.fieldOverrides?.(
+          collectionId,
+          field
+        );
+        return !indexes || indexes.some((index) => index.order);
+      },
+    });
+  }
+
+  /**
+   * Waits, in pessimistic mode, until no transaction holds a lock on `paths`,
+   * so that a non-transactional write to them may proceed.
+   *
+   * @returns `undefined` when the write may proceed immediately, otherwise a
+   *   promise that resolves once it may, or rejects with `ABORTED` on timeout.
+   */
+  lockWrites(paths: string[]): Promise<void> | undefined {
+    return paths.length
+      ? this._txs.locks?.exclusive(undefined, paths)
+      : undefined;
+  }
+
+  /**
+   * Returns the document changes committed since the last reset, in commit
+   * order, selected by `options`. Changes reverted by a restore, and those
+   * beyond the journal's retention, are dropped.
+   *
+   * @throws {Error} If `options` are malformed.
+   */
+  changes(options?: ChangeJournalOptions): ChangeRecord[] {
+    return this._changeLog.filter(journalFilter(options));
+  }
+
+  /**
+   * Streams the document changes selected by `options` to `watcher`, in commit
+   * order, on a microtask after each commit. With `sinceVersion`, changes
+   * already committed after it are replayed first, synchronously; it does not
+   * filter later changes.
+   *
+   * Unlike change watchers, journal watchers survive a reset.
+   *
+   * @returns A function that stops the stream.
+   * @throws {Error} If `options` are malformed.
+   */
+  watchChanges(
+    watcher: (record: ChangeRecord) => void,
+    options?: ChangeJournalOptions
+  ): () => void {
+    const replay = journalFilter(options);
+    if (options?.sinceVersion !== undefined) {
+      this._changeLog.filter(replay).forEach((record) => watcher(record));
+    }
+
+    // Versions restart on reset, so live changes are selected by path only
+    const accept = journalFilter({ pathPattern: options?.pathPattern });
+    return this._changeLogWatchers.register((records) => {
+      records.filter(accept).forEach((record) => watcher(record));
+    });
+  }
+
+  /**
+   * Sets how many records the change journal keeps, dropping the oldest ones
+   * beyond it; `undefined` restores the default. The setting survives a reset.
+   *
+   * @throws {Error} If `options` are malformed.
+   */
+  setJournalRetention(options: JournalRetentionOptions | undefined): void {
+    const maxRecords = options?.maxRecords ?? DEFAULT_JOURNAL_RECORDS;
+    if (
+      !(
+        maxRecords === Infinity ||
+        (Number.isInteger(maxRecords) && maxRecords >= 0)
+      )
+    ) {
+      throw new Error(
+        'Invalid journal retention options: maxRecords must be a non-negative integer or Infinity.'
+      );
+    }
+
+    this._changeLogLimit = maxRecords;
+    this.trimChangeLog();
+  }
+
+  /**
+   * Sets how far back historic reads may go; `undefined` restores the default
+   * one-minute window. The setting survives a reset.
+   *
+   * @throws {Error} If `options` are malformed.
+   */
+  setRetention(options: RetentionOptions | undefined): void {
+    this._src.retention = options
+      ? resolveRetention(options)
+      : DEFAULT_RETENTION;
+  }
+
+  /**
+   * Asserts that an explicit `readTime` of a request is within the retention
+   * window.
+   *
+   * @throws {GoogleError} {Status.FAILED_PRECONDITION} if `readTime` is older
+   *   than the window; {Status.INVALID_ARGUMENT} if it is within the PITR window
+   *   but not a whole minute.
+   */
+  assertReadTime(readTime: Timestamp): void {
+    const { versionMillis, pitrMillis } = this._src.retention;
+    const age = this.serverTime().toMillis() - readTime.toMillis();
+    if (age <= versionMillis) return;
+
+    if (pitrMillis === undefined || age > pitrMillis) {
+      throw googleError(
+        Status.FAILED_PRECONDITION,
+        'The requested snapshot version is too old.'
+      );
+    }
+    if (readTime.nanoseconds !== 0 || readTime.seconds % 60 !== 0) {
+      throw googleError(
+        Status.INVALID_ARGUMENT,
+        'readTime must be a whole minute when older than the version retention period.'
+      );
+    }
+  }
+
+  /**
+   * Returns statistics of the explicit read-write transactions begun since the
+   * last reset, in begin order.
+   */
+  transactionRecords(): readonly TransactionRecord[] {
+    return this._txs.records();
+  }
+
+  /**
+   * Registers an active listen target, described on demand so that its
+   * result count and read time are current.
+   *
+   * @returns A function that unregisters the target.
+   */
+  registerListenTarget(describe: () => ListenTargetRecord): () => void {
+    this._listenTargets.add(describe);
+
+    return () => {
+      this._listenTargets.delete(describe);
+    };
+  }
+
+  /**
+   * Describes the listen targets active on the database's listen streams, in
+   * the order they were added.
+   */
+  listenTargets(): ListenTargetRecord[] {
+    return Array.from(this._listenTargets, (describe) => describe());
+  }
+
   /**
    * Clears the database without performing a `reset`. This method:
    * - Deletes all documents and collections
@@ -1882,6 +2632,143 @@ export class DataAccessor implements PathDataProvider {
     this._src.changes.splice(0);
     this._txs.reset();
     this._stats = undefined;
+    this._journal = [];
+    this._journalStart = 0;
+    this._snapshots.clear();
+  }
+
+  /**
+   * Captures the current document tree, operation stats and commit version.
+   *
+   * @returns An opaque {@link DatabaseSnapshot} handle to pass to {@link restore}.
+   *
+   * @remarks
+   * Taking a snapshot is O(1). While at least one snapshot is outstanding, each
+   * mutation records the prior state of the node it touches (copy-on-first-write),
+   * so a restore only revisits what changed after the snapshot. Releasing the
+   * oldest outstanding snapshot discards the steps only it needed.
+   */
+  snapshot(): DatabaseSnapshot {
+    const handle: DatabaseSnapshot = Object.freeze({
+      version: this._version,
+      release: () => this.release(handle),
+    });
+    this._snapshots.set(handle, {
+      position: this._journalStart + this._journal.length,
+      version: this._version,
+      stats: { ...this._src.stats },
+      ledger: this._src.ledger.save(),
+      billing: this._meter.save(),
+    });
+
+    return handle;
+  }
+
+  /**
+   * Rolls the database back to a snapshot taken by {@link snapshot}. This method:
+   * - Reverts every document and collection mutation made since the snapshot
+   * - Restores the operation stats and commit version captured by the snapshot
+   * - Rolls back active transactions and invalidates snapshots taken after this one
+   * - Increments the epoch and notifies change watchers of the reverted documents
+   *
+   * @param snapshot - A handle returned by {@link snapshot}.
+   * @throws {Error} If the handle was not issued by this database or is no longer valid.
+   *
+   * @remarks
+   * The snapshot remains valid, so it can be restored repeatedly (e.g. before each test).
+   * Triggers are not invoked for reverted documents.
+   */
+  restore(snapshot: DatabaseSnapshot): void {
+    const mark = this._snapshots.get(snapshot);
+    if (!mark) {
+      throw new Error(
+        'The database snapshot is not valid. Snapshots are invalidated by release(), by reset() and by restoring an earlier snapshot.'
+      );
+    }
+
+    const steps = this._journal.splice(mark.position - this._journalStart);
+    const paths = new Set<string>();
+    for (let i = steps.length - 1; i >= 0; i--) {
+      const path = steps[i]();
+      if (path != undefined) paths.add(path);
+    }
+    this._snapshots.forEach((other, handle) => {
+      if (other.position > mark.position) this._snapshots.delete(handle);
+    });
+
+    this._txs.reset();
+    Object.assign(this._src.stats, mark.stats);
+    this._src.ledger.load(mark.ledger);
+    this._meter.load(mark.billing);
+    this._src.statsChanged();
+    this._stats = undefined;
+    this._epoch += 1;
+    this._version = mark.version;
+    this._changeLog = this._changeLog.filter((r) => r.version <= mark.version);
+
+    if (paths.size > 0) {
+      const context = this.opContext();
+      const changes = Array.from(paths, (path) =>
+        MasterDocument.get(context, path)
+      );
+      queueMicrotask(() => {
+        this.processChangeWatchers(context.serverTime, changes);
+      });
+    }
+    this._restoreListeners.next(this._epoch);
+  }
+
+  /**
+   * Invalidates a snapshot taken by {@link snapshot} and trims the undo journal to
+   * the oldest snapshot still outstanding. Releasing an invalid snapshot has no
+   * effect.
+   *
+   * @param snapshot - A handle returned by {@link snapshot}.
+   */
+  release(snapshot: DatabaseSnapshot): void {
+    if (!this._snapshots.delete(snapshot)) return;
+
+    let oldest = this._journalStart + this._journal.length;
+    this._snapshots.forEach((mark) => {
+      oldest = Math.min(oldest, mark.position);
+    });
+    this._journal.splice(0, oldest - this._journalStart);
+    this._journalStart = oldest;
+  }
+
+  /**
+   * Populates this newly created database with a copy of `source`. This method:
+   * - Copies every document, including its historic versions, and the change journal
+   * - Continues the epoch, commit version and commit clock of `source`
+   * - Copies the read-time and journal retention settings and, optionally, the registered triggers
+   *
+   * Document data and historic versions are immutable, so they are shared with
+   * `source` rather than cloned; writes to either database replace them without
+   * affecting the other. Operation stats, transactions, snapshots and change
+   * watchers are not copied.
+   *
+   * @param source - The database to copy.
+   * @param triggers - `true` to register the triggers of `source` with this database too.
+   * @throws {Error} If this database already has documents.
+   */
+  forkFrom(source: DataAccessor, triggers = false): void {
+    if (this._src.docs.size > 0) {
+      throw new Error('A database can only be forked into an empty database.');
+    }
+
+    source._src.docs.forEach((doc) => {
+      MasterDocument.copy(this._src, doc);
+    });
+    this._epoch = source._epoch;
+    this._version = source._version;
+    this._lastCommitMillis = source._lastCommitMillis;
+    this._changeLog = source._changeLog.slice();
+    this._changeLogLimit = source._changeLogLimit;
+    this._src.retention = source._src.retention;
+    this._stats = undefined;
+    if (triggers) {
+      source._triggers.forEach((trigger) => this._triggers.add(trigger));
+    }
   }
 
   /**
@@ -1890,11 +2777,14 @@ export class DataAccessor implements PathDataProvider {
    * - Flushes all pending changes without invoking watcher callbacks
    * - Sets all database stats properties to `0`
    * - Resets the internal change version nonce (assigned to `MetaDocument` instances) to `0`
+   * - Discards the transaction records and the change journal
    */
   reset(): void {
     this.clear();
+    this._txs.clearRecords();
     this._epoch += 1;
     this._version = 0;
+    this._changeLog = [];
     this._changeWatchers.clear();
     this._triggers.clear();
     this._pathCache.flush();
@@ -1905,6 +2795,10 @@ export class DataAccessor implements PathDataProvider {
     stats.noopReads = 0;
     stats.noopDeletes = 0;
     stats.noopWrites = 0;
+    this._src.ledger.clear();
+    this._meter.clear();
+    this._limiter?.clear();
+    this._src.statsChanged();
     this._resetListeners.next(this._epoch);
   }
 
@@ -1918,9 +2812,13 @@ export class DataAccessor implements PathDataProvider {
    * `processChanges()` within a microtask, ensuring asynchronous and deterministic
    * listener notification timing consistent with Firestore semantics.
    */
-  private enqueueChanges(serverTime: Timestamp): void {
+  private enqueueChanges(
+    serverTime: Timestamp,
+    principal: WritePrincipal | undefined
+  ): void {
     const changes = this._src.changes.splice(0);
     if (changes.length > 0) {
+      this.logChanges(serverTime, changes);
       // Ensure that we're using only triggers assigned when the commit occured.
       // This wouldn't be a problem in a production environment, but could be in a test
       // environment given that unit-tests may perform writes to setup the test and subsequently
@@ -1928,11 +2826,53 @@ export class DataAccessor implements PathDataProvider {
       const triggers = Array.from(this._triggers.values());
 
       queueMicrotask(() => {
-        this.processChanges(serverTime, changes, triggers);
+        this.processChanges(serverTime, changes, triggers, principal);
       });
     }
   }
 
+  /**
+   * Appends the net change per document of the current commit to the change
+   * log, and schedules delivery to journal watchers.
+   */
+  private logChanges(serverTime: Timestamp, changes: MetaDocument[]): void {
+    // Coalesce per path: before from the first change, after from the last
+    const spans = new Map<string, [MetaDocument, MetaDocument]>();
+    for (const change of changes) {
+      const first = spans.get(change.path)?.[0] ?? change;
+      spans.delete(change.path);
+      spans.set(change.path, [first, change]);
+    }
+
+    const records: ChangeRecord[] = [];
+    spans.forEach(([first, last], path) => {
+      const existed = first.previous?.exists === true;
+      if (!existed && !last.exists) return;
+      records.push(
+        Object.freeze({
+          epoch: this._epoch,
+          version: this._version,
+          serverTime,
+          path,
+          kind: !existed ? 'create' : last.exists ? 'update' : 'delete',
+          before: existed ? first.previous?.data : undefined,
+          after: last.exists ? last.data : undefined,
+        })
+      );
+    });
+    if (records.length === 0) return;
+
+    for (const record of records) this._changeLog.push(record);
+    this.trimChangeLog();
+    queueMicrotask(() => this._changeLogWatchers.next(records));
+  }
+
+  /** Drops the oldest change records beyond the journal's retention. */
+  private trimChangeLog(): void {
+    const excess = this._changeLog.length - this._changeLogLimit;
+    if (excess > 0) this._changeLog.splice(0, excess);
+  }
+
   /**
    * Processes document changes and notifies matching snapshot watchers.
    *
@@ -1942,18 +2882,20 @@ export class DataAccessor implements PathDataProvider {
    *
    * @param changes - The list of MetaDocument instances representing applied document changes.
    *                  Each MetaDocument may represent a create, update, or delete event.
+   * @param principal - The principal reported to triggers, if any.
    */
   private processChanges(
     serverTime: Timestamp,
     changes: MetaDocument[],
-    triggers: Trigger[]
+    triggers: Trigger[],
+    principal: WritePrincipal | undefined
   ): void {
     this.processChangeWatchers(serverTime, changes);
     // Defer trigger dispatch to a timed macrotask (≥ MIN_LATENCY). For commit N we finish scheduling
     // all snapshot emissions first; triggers then run and any writes they perform become commit N+1.
     // This preserves "nth-generation" ordering: listeners always observe N before N+1 (mirrors prod/emulator timing).
-    resolvePromise().then(() => {
-      this.processTriggers(triggers, changes);
+    resolvePromise(undefined, undefined, this.scheduler).then(() => {
+      this.processTriggers(triggers, changes, principal);
     });
   }
 
@@ -2009,6 +2951,7 @@ export class DataAccessor implements PathDataProvider {
    *
    * @param triggers - The candidate triggers to evaluate.
    * @param changes - The raw, ordered list of meta-doc changes produced by the commit.
+   * @param principal - The principal that made the commit, if known.
    *
    * @remarks
    * - If multiple operations target the **same document path** within the batch,
@@ -2019,7 +2962,11 @@ export class DataAccessor implements PathDataProvider {
    *   current stack, and (b) isolate subscriber exceptions from the writer.
    * - The `params` map is populated from `{param}` segments of the matched route.
    */
-  private processTriggers(triggers: Trigger[], changes: MetaDocument[]): void {
+  private processTriggers(
+    triggers: Trigger[],
+    changes: MetaDocument[],
+    principal: WritePrincipal | undefined
+  ): void {
     if (triggers.length === 0) return;
 
     // Keep only the last operation per path, preserving original ordering of those last ops
@@ -2039,6 +2986,7 @@ export class DataAccessor implements PathDataProvider {
           doc,
           params: {},
         };
+        if (principal) arg.principal = principal;
         for (const part of parts) {
           if (part.type === 'param') {
             arg.params[(part as ParamPathPart).name] = part.value;
@@ -2103,11 +3051,19 @@ export class DataAccessor implements PathDataProvider {
    */
   private opContext(incVersion = false): OpContext {
     const version = incVersion ? ++this._version : this._version;
+    let serverTime = this.serverTime();
+    if (incVersion && this.scheduler.virtual) {
+      const millis = serverTime.toMillis();
+      if (millis <= this._lastCommitMillis) {
+        serverTime = Timestamp.fromMillis(this._lastCommitMillis + 1);
+      }
+      this._lastCommitMillis = serverTime.toMillis();
+    }
 
     return {
       epoch: this._epoch,
       version,
-      serverTime: this.serverTime(),
+      serverTime,
       datasource: this._src,
     };
   }
@@ -2150,15 +3106,26 @@ class InternalCollection implements DocumentIterator {
 
     let col = datasource.cols.get(doc.pathData.parentPath);
     if (col == undefined) {
-      col = new InternalCollection(datasource, doc.pathData.parent());
-      datasource.cols.set(col.pathData.path, col);
-      MasterDocument.addCollection(col);
+      const created = new InternalCollection(datasource, doc.pathData.parent());
+      datasource.cols.set(created.pathData.path, created);
+      MasterDocument.addCollection(created);
+      datasource.journal(() => {
+        datasource.cols.delete(created.pathData.path);
+        MasterDocument.removeCollection(created);
+        return undefined;
+      });
+      col = created;
     }
     col._docs.set(doc.pathData.path, doc);
 
     return col;
   }
 
+  static removeDoc(datasource: Datasource, doc: MasterDocument): void {
+    datasource.docs.delete(doc.pathData.path);
+    doc.parent?._docs.delete(doc.pathData.path);
+  }
+
   getDocumentIterator(): IterableIterator<MasterDocument> {
     return this._docs.values();
   }
@@ -2228,12 +3195,10 @@ class MasterDocument extends InternalDocument {
   private _data: DocumentData | undefined;
   private _collections = new Set<InternalCollection>();
   /**
-   * Historic document data.
+   * Historic document data, oldest first.
    * Used to support read-only transactions with a `readTime` property specified.
-   * Note that we do not flush stale `HistoricDocument` snapspots because client-code
-   * has dynamic control of the "current" system time via the `serverTime` function passed
-   * to the `DataAccessor` constructor, and is consequently able to shift the snapshot scope
-   * window at any time.
+   * Versions that fall out of the retention window are pruned on the next write
+   * to the document, so moving the system time back does not bring them back.
    */
   private _history: HistoricDocument[] = [];
 
@@ -2247,6 +3212,10 @@ class MasterDocument extends InternalDocument {
     super();
     datasource.docs.set(pathData.path, this);
     this.parent = InternalCollection.addDoc(datasource, this);
+    datasource.journal(() => {
+      InternalCollection.removeDoc(datasource, this);
+      return undefined;
+    });
   }
 
   get hasActiveLeafDocs(): boolean {
@@ -2325,7 +3294,8 @@ class MasterDocument extends InternalDocument {
     const meta = writeMetaDoc<T>(context, master, data);
 
     if (meta.hasChanges) {
-      master.pushHistory();
+      master.journalState(datasource);
+      master.pushHistory(context);
       if (!master.exists) {
         // structure changed: new active doc
         master._createTime = serverTime;
@@ -2337,6 +3307,7 @@ class MasterDocument extends InternalDocument {
       master._exists = true;
       master._version = context.version;
       incStat(datasource, 'writes');
+      datasource.ledger.record(path, 'writes');
       datasource.changes.push(meta);
     } else {
       incStat(datasource, 'noopWrites');
@@ -2360,7 +3331,8 @@ class MasterDocument extends InternalDocument {
       );
     }
     // structure changed: an active doc was removed
-    const prev = master.pushHistory();
+    master.journalState(datasource);
+    const prev = master.pushHistory(context);
     master._updateTime = context.serverTime;
     master._data = undefined;
     master._exists = false;
@@ -2368,6 +3340,7 @@ class MasterDocument extends InternalDocument {
     master.parent?.decrementActiveDocs();
     datasource.invalidateStats();
     incStat(datasource, 'deletes');
+    datasource.ledger.record(path, 'deletes');
 
     const meta = notExistsMetaDoc<T>(
       context,
@@ -2380,10 +3353,31 @@ class MasterDocument extends InternalDocument {
     return meta;
   }
 
+  /**
+   * Copies the state of `source`, a document of another database, into `datasource`.
+   * The data and historic versions are shared; only the version list is copied.
+   */
+  static copy(datasource: Datasource, source: MasterDocument): void {
+    const master = MasterDocument.ensure(datasource, source.pathData.path);
+    master._version = source._version;
+    master._createTime = source._createTime;
+    master._updateTime = source._updateTime;
+    master._data = source._data;
+    master._history = source._history.slice();
+    if (source._exists && !master._exists) {
+      master.parent?.incrementActiveDocs();
+    }
+    master._exists = source._exists;
+  }
+
   static addCollection(collection: InternalCollection): void {
     collection.parent._collections.add(collection);
   }
 
+  static removeCollection(collection: InternalCollection): void {
+    collection.parent._collections.delete(collection);
+  }
+
   incrementLeafCount(): void {
     this._leafDocCount += 1;
     this.parent?.incrementLeafCount();
@@ -2402,8 +3396,12 @@ class MasterDocument extends InternalDocument {
     if (readTimeMillis >= this.updateTime.toMillis())
       return readMetaDoc(context, this, this);
 
-    // Enforce the Firestore maximum historic read-time of 60 seconds
-    if (context.serverTime.toMillis() - readTimeMillis > SIXTY_SECONDS)
+    // Versions outside the retention window are gone
+    const { versionMillis, pitrMillis } = context.datasource.retention;
+    if (
+      context.serverTime.toMillis() - readTimeMillis >
+      (pitrMillis ?? versionMillis)
+    )
       return notExistsMetaDoc(context, this.pathData, this);
 
     for (let i = this._history.length - 1; i >= 0; i--) {
@@ -2421,15 +3419,72 @@ class MasterDocument extends InternalDocument {
     }
   }
 
-  private pushHistory(): InternalDocument {
+  /**
+   * Journals the current state so that a snapshot restore can revert the
+   * mutation that follows, including any active-document count change.
+   */
+  private journalState(datasource: Datasource): void {
+    const version = this._version;
+    const createTime = this._createTime;
+    const updateTime = this._updateTime;
+    const exists = this._exists;
+    const data = this._data;
+    // Pruning replaces the array, so the one captured here is left intact
+    const history = this._history;
+    const historyLength = history.length;
+
+    datasource.journal(() => {
+      if (this._exists !== exists) {
+        if (exists) {
+          this.parent?.incrementActiveDocs();
+        } else {
+          this.parent?.decrementActiveDocs();
+        }
+      }
+      this._version = version;
+      this._createTime = createTime;
+      this._updateTime = updateTime;
+      this._exists = exists;
+      this._data = data;
+      history.length = historyLength;
+      this._history = history;
+
+      return this.pathData.path;
+    });
+  }
+
+  private pushHistory(context: OpContext): InternalDocument {
     const prev = stackPeek(this._history);
     if (prev?.version === this.version) return prev;
 
+    this.pruneHistory(context);
     const h = new HistoricDocument(this);
     this._history.push(h);
 
     return h;
   }
+
+  /**
+   * Drops the historic versions superseded before the retention window began;
+   * no read time within the window can select them.
+   */
+  private pruneHistory(context: OpContext): void {
+    const { versionMillis, pitrMillis } = context.datasource.retention;
+    const cutoff =
+      context.serverTime.toMillis() - (pitrMillis ?? versionMillis);
+    const history = this._history;
+
+    let drop = 0;
+    while (
+      drop < history.length &&
+      (history[drop + 1] ?? this).updateTime.toMillis() <= cutoff
+    ) {
+      drop++;
+    }
+    if (drop > 0) {
+      this._history = history.slice(drop);
+    }
+  }
 }
 /**
  * Historic document data.
@@ -2522,6 +3577,7 @@ function readMetaDoc<T extends DocumentData>(
     version: version.version,
     hasChanges: false,
     cloneData,
+    storage: storageOf(context.datasource, master.pathData.path, data),
   };
 
   return Object.freeze(result);
@@ -2566,6 +3622,7 @@ function writeMetaDoc<T extends DocumentData>(
     version: context.version,
     hasChanges: !deepDocumentDataEqual(data, master.data),
     cloneData,
+    storage: storageOf(context.datasource, master.pathData.path, data),
   };
 
   if (result.hasChanges) {
@@ -2579,6 +3636,111 @@ function writeMetaDoc<T extends DocumentData>(
 
   return Object.freeze(result);
 }
+
+/**
+ * Returns a {@link MetaDocument.storage} implementation for a document's data,
+ * measuring it on first call.
+ */
+function storageOf(
+  datasource: Datasource,
+  path: string,
+  data: DocumentData | undefined
+): () => DocumentStorage | undefined {
+  let storage: DocumentStorage | undefined;
+
+  return () =>
+    data === undefined
+      ? undefined
+      : (storage ??= measureDocument(datasource, path, data));
+}
+
+/**
+ * Measures the serialized size and single-field index entries of a document.
+ */
+function measureDocument(
+  datasource: Datasource,
+  path: string,
+  data: DocumentData
+): DocumentStorage {
+  const index = calcIndexEntries(path, data, datasource.fieldOverrides);
+
+  return Object.freeze({
+    sizeBytes: calcDocSize(path, data),
+    indexEntries: index.entries,
+    indexBytes: index.bytes,
+  });
+}
+
+/**
+ * Validates and resolves {@link RetentionOptions}.
+ *
+ * @throws {Error} If a window is not a non-negative number, or a PITR window is
+ *   given without PITR or is shorter than the version window.
+ */
+function resolveRetention(options: RetentionOptions): ReadRetention {
+  const versionMillis = options.versionRetentionMillis ?? MILLIS_PER_MINUTE;
+  const pitr = options.pointInTimeRecovery ?? false;
+  const pitrMillis = options.pitrRetentionMillis;
+  const isMillis = (value: unknown) =>
+    typeof value === 'number' && value >= 0 && Number.isFinite(value);
+
+  if (!isMillis(versionMillis)) {
+    throw new Error(
+      'Invalid retention options: versionRetentionMillis must be a non-negative number.'
+    );
+  }
+  if (typeof pitr !== 'boolean') {
+    throw new Error(
+      'Invalid retention options: pointInTimeRecovery must be a boolean.'
+    );
+  }
+  if (pitrMillis !== undefined) {
+    if (!pitr) {
+      throw new Error(
+        'Invalid retention options: pitrRetentionMillis requires pointInTimeRecovery.'
+      );
+    }
+    if (!isMillis(pitrMillis) || pitrMillis < versionMillis) {
+      throw new Error(
+        'Invalid retention options: pitrRetentionMillis must be a number no less than versionRetentionMillis.'
+      );
+    }
+  }
+
+  return Object.freeze({
+    versionMillis,
+    pitrMillis: pitr
+      ? pitrMillis ?? Math.max(SEVEN_DAYS, versionMillis)
+      : undefined,
+  });
+}
+
+/**
+ * Returns a predicate selecting the change records that match `options`.
+ *
+ * @throws {Error} If `options` are malformed.
+ */
+function journalFilter(
+  options: ChangeJournalOptions | undefined
+): (record: ChangeRecord) => boolean {
+  const since = options?.sinceVersion;
+  const pattern = options?.pathPattern;
+  if (since !== undefined && !(typeof since === 'number' && since >= 0)) {
+    throw new Error(
+      'Invalid change journal options: sinceVersion must be a non-negative number.'
+    );
+  }
+  if (pattern !== undefined && (typeof pattern !== 'string' || !pattern)) {
+    throw new Error(
+      'Invalid change journal options: pathPattern must be a non-empty string.'
+    );
+  }
+
+  return (record) =>
+    record.version > (since ?? -1) &&
+    (pattern === undefined || !!matchFirestorePath(pattern, record.path));
+}
+
 /**
  * Constructs a `MetaDocumentNotExists<T>` representing a non-existent document snapshot.
  *
@@ -2620,6 +3782,7 @@ function notExistsMetaDoc<T extends DocumentData>(
     updateTime: master?.updateTime ?? Zero,
     version: master?.version ?? 0,
     cloneData,
+    storage: () => undefined,
   };
   if (result.hasChanges) {
     (result as Mutable<MetaDocument<T>>).previous =
@@ -2855,16 +4018,23 @@ function timestampsEqual(
   return x.seconds === y.seconds && x.nanoseconds === y.nanoseconds;
 }
 
-function bumpReads(datasource: Datasource, count: number): void {
-  if (count > 0) {
-    datasource.stats.reads += count;
+function bumpReads(
+  datasource: Datasource,
+  docs: readonly MetaDocument[],
+  shape?: string
+): void {
+  if (docs.length > 0) {
+    datasource.stats.reads += docs.length;
+    docs.forEach((doc) => datasource.ledger.record(doc.path, 'reads', shape));
   } else {
     datasource.stats.noopReads += 1; // minimum-1 rule for empty read ops
   }
+  datasource.statsChanged();
 }
 
 function incStat(datasource: Datasource, field: keyof OperationStats): void {
   datasource.stats[field] += 1;
+  datasource.statsChanged();
 }
 
 //#region TransactionManager
@@ -2893,6 +4063,9 @@ export interface ITransactionOptions {
 export interface ITransactionWrites {
   writes: NormalizedWrite[];
   mode: WriteMode;
+  authorize?: WriteAuthorizer;
+  /** Whether the writes are held to the production write limits. */
+  limited?: boolean;
 }
 
 /**
@@ -2908,23 +4081,41 @@ export enum TransactionStatus {
   Aborted,
 }
 
-export class InternalTransaction {
+/**
+ * Settings shared by the attempts of one logical transaction.
+ */
+interface TransactionLineage {
+  /** Wound-wait priority, inherited by retries so that they eventually win. */
+  priority: number;
+  /** Statistics for the transaction; `undefined` for implicit commit transactions. */
+  record: Mutable<TransactionRecord> | undefined;
+}
+
+export class InternalTransaction implements LockHolder {
   private _status = TransactionStatus.Active;
+  private _wounded = false;
+  private _expired = false;
   private _readTime: Timestamp | undefined;
   private _created: number;
   private _touched: number;
   private readonly _accessor: DataAccessor;
   private readonly _map: Map<TransactionId, InternalTransaction>;
   private readonly _readSet: Set<string>;
+  private readonly _locks: LockManager | undefined;
+  private readonly _onSettled: () => void;
 
   readonly id: Buffer;
   readonly sId: string;
+  readonly lineage: TransactionLineage;
   constructor(
     accessor: DataAccessor,
     map: Map<TransactionId, InternalTransaction>,
     readonly type: TransactionType,
     readTime: Timestamp | undefined,
-    readonly retryKey: string | undefined
+    readonly retryKey: string | undefined,
+    lineage: TransactionLineage,
+    locks: LockManager | undefined,
+    onSettled: () => void
   ) {
     this._accessor = accessor;
     this._map = map;
@@ -2932,15 +4123,30 @@ export class InternalTransaction {
     // 256-bit ID;
     this.id = getRandomValues(Buffer.alloc(32));
     this.sId = toBase64Id(this.id);
-    this._created = accessor.serverTime().toMillis();
+    this._created = accessor.scheduler.now();
     this._touched = this._created;
     this._readSet = new Set();
+    this.lineage = lineage;
+    // Read-only transactions never lock
+    this._locks = type === 'readWrite' ? locks : undefined;
+    this._onSettled = onSettled;
   }
 
   get status(): TransactionStatus {
     return this._status;
   }
 
+  get priority(): number {
+    return this.lineage.priority;
+  }
+
+  /**
+   * Whether the transaction can still be used: neither completed nor wounded.
+   */
+  get active(): boolean {
+    return this._status === TransactionStatus.Active && !this._wounded;
+  }
+
   get readTime(): Timestamp | undefined {
     return this._readTime;
   }
@@ -2968,6 +4174,7 @@ export class InternalTransaction {
         'Cannot write in a read-only transaction.'
       );
     }
+    this.assertNotWounded();
     // Snapshot isolation: any change to a previously-read doc after readTime aborts.
     if (
       (writes?.writes.length ?? 0) > 0 &&
@@ -2994,7 +4201,13 @@ export class InternalTransaction {
     try {
       let result: NormalizedWriteResult;
       if (writes) {
-        result = this._accessor.batchWrite(writes.writes, writes.mode);
+        result = this._accessor.batchWrite(
+          writes.writes,
+          writes.mode,
+          writes.authorize,
+          undefined,
+          writes.limited
+        );
       } else {
         result = { results: [], serverTime: this._accessor.serverTime() };
       }
@@ -3012,18 +4225,72 @@ export class InternalTransaction {
   }
 
   registerRead(doc: MetaDocument): void {
+    this.assertNotWounded();
     this._readSet.add(doc.path);
+    this._locks?.share(this, doc.path);
   }
 
-  isTimedOut(now: number): boolean {
-    return (
-      now - this._touched >= MAX_TX_IDLE_MILLIS ||
-      now - this._created >= MAX_TX_AGE_MILLIS
+  /**
+   * Takes the exclusive locks required to write `paths` in pessimistic mode.
+   *
+   * @returns `undefined` when the commit may proceed immediately, otherwise a
+   *   promise that resolves once it may, or rejects with `ABORTED`.
+   */
+  lockWrites(paths: string[]): Promise<void> | undefined {
+    if (!this._locks || paths.length === 0) return undefined;
+
+    this.assertNotWounded();
+    const pending = this._locks.exclusive(this, paths);
+    if (pending && this.lineage.record) this.lineage.record.lockWaits++;
+
+    return pending;
+  }
+
+  /**
+   * Aborts the transaction on behalf of an older one that needs its locks.
+   * Subsequent reads and the commit fail with `ABORTED`.
+   */
+  wound(): void {
+    this._wounded = true;
+    const record = this.lineage.record;
+    if (record) {
+      record.wounded++;
+      record.status = 'aborted';
+    }
+  }
+
+  /**
+   * Whether the transaction was rolled back for exceeding its idle or age limit.
+   */
+  get expired(): boolean {
+    return this._expired;
+  }
+
+  /**
+   * The scheduler time at which the transaction expires unless it is used.
+   */
+  get deadline(): number {
+    return Math.min(
+      this._touched + MAX_TX_IDLE_MILLIS,
+      this._created + MAX_TX_AGE_MILLIS
     );
   }
 
+  isTimedOut(now: number): boolean {
+    return now >= this.deadline;
+  }
+
   touch(): void {
-    this._touched = this._accessor.serverTime().toMillis();
+    this._touched = this._accessor.scheduler.now();
+  }
+
+  /**
+   * Rolls back a transaction that exceeded its idle or age limit.
+   */
+  expire(): void {
+    this._expired = true;
+    if (this.lineage.record) this.lineage.record.expired++;
+    if (this._status === TransactionStatus.Active) this.rollback();
   }
 
   private complete(commit: boolean): void {
@@ -3038,11 +4305,23 @@ export class InternalTransaction {
     );
   }
 
+  private assertNotWounded(): void {
+    if (this._wounded) {
+      throw googleError(Status.ABORTED, WOUNDED_MESSAGE);
+    }
+  }
+
   private setStatus(status: TransactionStatus): void {
     this._status = status;
     if (status === TransactionStatus.Committed) {
       this._map.delete(this.sId);
     }
+    this._locks?.release(this);
+    if (this.lineage.record) {
+      this.lineage.record.status =
+        status === TransactionStatus.Committed ? 'committed' : 'aborted';
+    }
+    this._onSettled();
   }
 }
 
@@ -3054,11 +4333,41 @@ export interface ResolveTransactionShape {
 class TransactionManager {
   private _accessor: DataAccessor;
   private _transactions = new Map<TransactionId, InternalTransaction>();
+  private _locks: LockManager | undefined;
+  private _sequence = 0;
+  private _records: Mutable<TransactionRecord>[] = [];
+  /** Pending expiry of idle or aged transactions. */
+  private _sweep: TimerHandle | undefined;
+  /** The number of active transactions, which the sweep waits on. */
+  private _active = 0;
 
   constructor(accessor: DataAccessor) {
     this._accessor = accessor;
   }
 
+  /**
+   * The lock manager of pessimistic mode; `undefined` in optimistic mode.
+   */
+  get locks(): LockManager | undefined {
+    return this._locks;
+  }
+
+  set locks(locks: LockManager | undefined) {
+    this._locks?.clear();
+    this._locks = locks;
+  }
+
+  /**
+   * Statistics of the explicit read-write transactions begun since the last reset.
+   */
+  records(): readonly TransactionRecord[] {
+    return Object.freeze(this._records.map((r) => Object.freeze({ ...r })));
+  }
+
+  clearRecords(): void {
+    this._records = [];
+  }
+
   resolve(
     resolver: ResolveTransactionShape | undefined
   ): InternalTransaction | undefined {
@@ -3080,11 +4389,13 @@ class TransactionManager {
 
     let readTime: Timestamp | undefined;
     let retryKey: string | undefined;
+    let base: InternalTransaction | undefined;
 
     if (type === 'readOnly') {
       // Read-only transactions may pin a readTime.
       if (options?.readOnly?.readTime) {
         readTime = options.readOnly.readTime;
+        this._accessor.assertReadTime(readTime);
       }
     } else {
       // READ-WRITE: optional retry of a prior aborted attempt.
@@ -3096,7 +4407,7 @@ class TransactionManager {
         // - must still be known (i.e., recent; not flushed)
         // - must be a READ-WRITE attempt
         // - must have ABORTED (not committed)
-        const base = this._transactions.get(retryKey);
+        base = this._transactions.get(retryKey);
         if (
           !base ||
           base.type !== 'readWrite' ||
@@ -3112,14 +4423,42 @@ class TransactionManager {
       }
     }
 
+    let lineage: TransactionLineage;
+    if (base) {
+      lineage = base.lineage;
+      if (lineage.record) {
+        lineage.record.retries++;
+        lineage.record.status = 'active';
+      }
+    } else {
+      lineage = { priority: ++this._sequence, record: undefined };
+    }
+
     const tx = new InternalTransaction(
       this._accessor,
       this._transactions,
       type,
       readTime,
-      retryKey
+      retryKey,
+      lineage,
+      this._locks,
+      () => this.settled()
     );
     this._transactions.set(tx.sId, tx);
+    this._active++;
+    this.scheduleSweep(MAX_TX_IDLE_MILLIS);
+    // Commits without a transaction begin one implicitly; those are not recorded
+    if (!base && options && type === 'readWrite') {
+      lineage.record = {
+        id: tx.sId,
+        retries: 0,
+        status: 'active',
+        wounded: 0,
+        lockWaits: 0,
+        expired: 0,
+      };
+      this._records.push(lineage.record);
+    }
 
     return tx;
   }
@@ -3130,21 +4469,63 @@ class TransactionManager {
     if (tx == undefined) {
       throw googleError(Status.INVALID_ARGUMENT, 'Unknown transaction.');
     }
+    if (
+      tx.status === TransactionStatus.Active &&
+      tx.isTimedOut(this._accessor.scheduler.now())
+    ) {
+      tx.expire();
+    }
+    if (tx.expired) {
+      throw googleError(
+        Status.INVALID_ARGUMENT,
+        'The referenced transaction has expired or is no longer valid.'
+      );
+    }
 
     tx.touch();
 
     return tx;
   }
 
-  flush(): void {
-    const now = Date.now();
-    this.finalizeAll(
-      Array.from(this._transactions.values()).filter((tx) => tx.isTimedOut(now))
-    );
-  }
-
   reset(): void {
     this.finalizeAll(Array.from(this._transactions.values()));
+    this._locks?.clear();
+  }
+
+  /**
+   * Cancels the sweep once no transaction is active, so that it does not hold
+   * up {@link Scheduler.runAllPending}.
+   */
+  private settled(): void {
+    if (--this._active === 0) {
+      this._accessor.scheduler.clearTimeout(this._sweep);
+      this._sweep = undefined;
+    }
+  }
+
+  /**
+   * Schedules the expiry of idle or aged transactions `ms` from now, unless a
+   * sweep is already pending.
+   */
+  private scheduleSweep(ms: number): void {
+    if (this._sweep) return;
+
+    this._sweep = this._accessor.scheduler
+      .setTimeout(() => {
+        this._sweep = undefined;
+        const now = this._accessor.scheduler.now();
+        let next = Infinity;
+        for (const tx of this._transactions.values()) {
+          if (tx.status !== TransactionStatus.Active) continue;
+          if (tx.isTimedOut(now)) {
+            tx.expire();
+          } else {
+            next = Math.min(next, tx.deadline);
+          }
+        }
+        if (next < Infinity) this.scheduleSweep(next - now);
+      }, ms)
+      .unref();
   }
 
   private finalizeAll(txs: InternalTransaction[]): void {
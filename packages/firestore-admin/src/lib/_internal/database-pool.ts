@@ -1,6 +1,12 @@
 import { Status } from 'google-gax';
+import type { Scheduler } from '../scheduler.js';
 import { DataAccessor, DatabaseConfig } from './data-accessor.js';
+import { FaultInjector } from './faults/fault-injector.js';
 import { googleError } from './functions/google-error.js';
+import { IndexRegistry } from './indexes/index-registry.js';
+import { LatencyModel } from './latency/latency-model.js';
+import { Ruleset } from './security-rules/ruleset.js';
+import { TtlSweeper } from './ttl/ttl-sweeper.js';
 
 /**
  * Represents a single pooled in-memory Firestore database instance.
@@ -17,6 +23,36 @@ export class PooledDatabase<THost = unknown> {
    */
   readonly host: THost;
 
+  /**
+   * The Security Rules enforced for client-identity requests, or `undefined` when
+   * no ruleset has been loaded (in which case client-identity requests are denied).
+   */
+  rules: Ruleset | undefined;
+
+  /**
+   * The index definitions queries are checked against, or `undefined` when
+   * index enforcement is off (every valid query runs as a full scan).
+   */
+  indexes: IndexRegistry | undefined;
+
+  /**
+   * The faults injected into GAPIC calls against this database, or `undefined`
+   * when fault injection is off.
+   */
+  faults: FaultInjector | undefined;
+
+  /**
+   * The latency model for GAPIC responses from this database, or `undefined`
+   * for the mock's built-in timing.
+   */
+  latency: LatencyModel | undefined;
+
+  /**
+   * Deletes expired documents per this database's TTL policies, or
+   * `undefined` when no policies are set.
+   */
+  ttl: TtlSweeper | undefined;
+
   /**
    * Constructs a new pooled database instance.
    *
@@ -59,6 +95,13 @@ export class DatabasePool<THost = unknown> {
    */
   constructor(private readonly _config: DatabaseConfig) {}
 
+  /**
+   * The clock and timers shared by all databases in the pool.
+   */
+  get scheduler(): Scheduler {
+    return this._config.scheduler;
+  }
+
   /**
    * Checks if a database exists for the given project and database IDs.
    *
@@ -0,0 +1,493 @@
+import type { google } from '@gcf/firestore-protos';
+import { DEFAULT_DATABASE_ID } from '../firestore/constants.js';
+import { ProtoReader, ProtoTag, ProtoWriter, WireType } from '../proto-wire.js';
+
+type Value = google.firestore.v1.IValue;
+type Fields = Record<string, Value>;
+
+/**
+ * A document decoded from (or to be encoded as) a Datastore `EntityProto`.
+ */
+export interface ExportedDocument {
+  /** Internal document path, e.g. `users/alice`. */
+  path: string;
+  fields: Fields;
+}
+
+/**
+ * The database whose documents and references are being encoded.
+ */
+export interface EntityTarget {
+  projectId: string;
+  databaseId: string;
+}
+
+// Property.meaning values used by Firestore's Datastore representation
+const MEANING_GD_WHEN = 7;
+const MEANING_GEORSS_POINT = 9;
+const MEANING_BLOB = 14;
+const MEANING_BYTESTRING = 16;
+const MEANING_ENTITY_PROTO = 19;
+const MEANING_EMPTY_LIST = 24;
+
+const MICROS_PER_SECOND = 1_000_000n;
+
+/**
+ * Encodes a document as a serialized `storage_onestore_v3.EntityProto`, the record
+ * format of Firestore export `output-N` files.
+ *
+ * - The key path alternates collection ids (`type`) and document ids (`name`).
+ * - Maps are embedded entities, arrays are repeated (`multiple`) properties and
+ *   timestamps are microseconds since the epoch, as stored by Firestore.
+ */
+export function encodeDocumentEntity(
+  target: EntityTarget,
+  doc: ExportedDocument
+): Uint8Array {
+  const segments = doc.path.split('/');
+
+  return encodeEntity(
+    doc.fields,
+    (key) => writeKey(key, target, segments),
+    (group) => writePath(group, segments.slice(0, 2), 1, 2, 4)
+  );
+}
+
+/**
+ * Decodes a serialized `EntityProto` produced by a Firestore export.
+ *
+ * @throws {Error} If the record is malformed or its key is not a document path.
+ */
+export function decodeDocumentEntity(record: Uint8Array): ExportedDocument {
+  const reader = new ProtoReader(record);
+  let path: string | undefined;
+  const properties: DecodedProperty[] = [];
+
+  while (!reader.done) {
+    const tag = reader.tag();
+    if (tag.field === 13 && tag.wireType === WireType.LengthDelimited) {
+      path = readKeyPath(reader.message());
+    } else if (
+      (tag.field === 14 || tag.field === 15) &&
+      tag.wireType === WireType.LengthDelimited
+    ) {
+      properties.push(readProperty(reader.message()));
+    } else {
+      reader.skip(tag);
+    }
+  }
+
+  const segments = path?.split('/') ?? [];
+  if (!path || segments.length % 2 !== 0) {
+    throw new Error(`Entity key is not a document path: ${path ?? '(none)'}`);
+  }
+
+  return { path, fields: collectFields(properties) };
+}
+
+function encodeEntity(
+  fields: Fields,
+  buildKey: (w: ProtoWriter) => void,
+  buildEntityGroup: (w: ProtoWriter) => void
+): Uint8Array {
+  const w = new ProtoWriter().message(13, buildKey);
+  for (const [name, value] of Object.entries(fields)) {
+    writeProperty(w, name, value);
+  }
+
+  return w.message(16, buildEntityGroup).finish();
+}
+
+function encodeEmbeddedEntity(fields: Fields): Uint8Array {
+  // `key` and `entity_group` are required fields; an embedded entity has an empty key
+  return encodeEntity(
+    fields,
+    (key) => key.string(13, '').message(14, () => undefined),
+    () => undefined
+  );
+}
+
+function writeKey(
+  w: ProtoWriter,
+  target: EntityTarget,
+  segments: string[]
+): void {
+  w.string(13, target.projectId);
+  w.message(14, (path) => writePath(path, segments, 1, 2, 4));
+  if (target.databaseId !== DEFAULT_DATABASE_ID) {
+    w.string(23, target.databaseId);
+  }
+}
+
+/**
+ * Writes `(collection, document)` pairs as path element groups.
+ */
+function writePath(
+  w: ProtoWriter,
+  segments: string[],
+  groupField: number,
+  typeField: number,
+  nameField: number
+): void {
+  for (let i = 0; i + 1 < segments.length; i += 2) {
+    w.group(groupField, (element) => {
+      element.string(typeField, segments[i]);
+      element.string(nameField, segments[i + 1]);
+    });
+  }
+}
+
+function writeProperty(w: ProtoWriter, name: string, value: Value): void {
+  if (value.arrayValue) {
+    const values = value.arrayValue.values ?? [];
+    if (values.length === 0) {
+      writePropertyValue(w, name, MEANING_EMPTY_LIST, false, () => undefined);
+    }
+    for (const element of values) {
+      if (element.arrayValue) {
+        throw new Error(`Nested arrays cannot be exported: ${name}`);
+      }
+      writeScalarProperty(w, name, element, true);
+    }
+    return;
+  }
+
+  writeScalarProperty(w, name, value, false);
+}
+
+function writeScalarProperty(
+  w: ProtoWriter,
+  name: string,
+  value: Value,
+  multiple: boolean
+): void {
+  let meaning = 0;
+  let write: (v: ProtoWriter) => void;
+
+  if (value.nullValue != undefined) {
+    write = () => undefined;
+  } else if (value.booleanValue != undefined) {
+    const b = value.booleanValue;
+    write = (v) => v.bool(2, b);
+  } else if (value.integerValue != undefined) {
+    const n = BigInt(String(value.integerValue));
+    write = (v) => v.int64(1, n);
+  } else if (value.doubleValue != undefined) {
+    const d = Number(value.doubleValue);
+    write = (v) => v.double(4, d);
+  } else if (value.timestampValue != undefined) {
+    meaning = MEANING_GD_WHEN;
+    const micros = toMicros(value.timestampValue);
+    write = (v) => v.int64(1, micros);
+  } else if (value.stringValue != undefined) {
+    const s = value.stringValue;
+    write = (v) => v.string(3, s);
+  } else if (value.bytesValue != undefined) {
+    meaning = MEANING_BYTESTRING;
+    const bytes = toBytes(value.bytesValue);
+    write = (v) => v.bytes(3, bytes);
+  } else if (value.referenceValue != undefined) {
+    const ref = parseResourceName(value.referenceValue);
+    write = (v) =>
+      v.group(12, (r) => {
+        r.string(13, ref.projectId);
+        writePath(r, ref.segments, 14, 15, 17);
+        if (ref.databaseId !== DEFAULT_DATABASE_ID) {
+          r.string(23, ref.databaseId);
+        }
+      });
+  } else if (value.geoPointValue != undefined) {
+    meaning = MEANING_GEORSS_POINT;
+    const { latitude, longitude } = value.geoPointValue;
+    write = (v) =>
+      v.group(5, (p) => {
+        p.double(6, Number(latitude ?? 0));
+        p.double(7, Number(longitude ?? 0));
+      });
+  } else if (value.mapValue != undefined) {
+    meaning = MEANING_ENTITY_PROTO;
+    const entity = encodeEmbeddedEntity(value.mapValue.fields ?? {});
+    write = (v) => v.bytes(3, entity);
+  } else {
+    throw new Error(`Unsupported value type for field: ${name}`);
+  }
+
+  writePropertyValue(w, name, meaning, multiple, write);
+}
+
+function writePropertyValue(
+  w: ProtoWriter,
+  name: string,
+  meaning: number,
+  multiple: boolean,
+  write: (v: ProtoWriter) => void
+): void {
+  w.message(14, (p) => {
+    if (meaning) p.int64(1, meaning);
+    p.string(3, name);
+    p.bool(4, multiple);
+    p.message(5, write);
+  });
+}
+
+interface DecodedProperty {
+  name: string;
+  meaning: number;
+  multiple: boolean;
+  value: Value;
+}
+
+function readProperty(reader: ProtoReader): DecodedProperty {
+  let name = '';
+  let meaning = 0;
+  let multiple = false;
+  let valueReader: ProtoReader | undefined;
+
+  while (!reader.done) {
+    const tag = reader.tag();
+    switch (tag.field) {
+      case 1:
+        meaning = Number(reader.varint());
+        break;
+      case 3:
+        name = reader.string();
+        break;
+      case 4:
+        multiple = reader.bool();
+        break;
+      case 5:
+        valueReader = reader.message();
+        break;
+      default:
+        reader.skip(tag);
+    }
+  }
+
+  const value =
+    meaning === MEANING_EMPTY_LIST
+      ? { arrayValue: { values: [] } }
+      : readPropertyValue(valueReader, meaning);
+
+  return { name, meaning, multiple, value };
+}
+
+function readPropertyValue(
+  reader: ProtoReader | undefined,
+  meaning: number
+): Value {
+  let value: Value = { nullValue: 'NULL_VALUE' };
+  if (!reader) return value;
+
+  while (!reader.done) {
+    const tag = reader.tag();
+    switch (tag.field) {
+      case 1: {
+        const n = reader.int64();
+        value =
+          meaning === MEANING_GD_WHEN
+            ? { timestampValue: fromMicros(n) }
+            : { integerValue: n.toString() };
+        break;
+      }
+      case 2:
+        value = { booleanValue: reader.bool() };
+        break;
+      case 3: {
+        const bytes = reader.bytes();
+        if (meaning === MEANING_ENTITY_PROTO) {
+          value = { mapValue: { fields: readEmbeddedFields(bytes) } };
+        } else if (meaning === MEANING_BYTESTRING || meaning === MEANING_BLOB) {
+          value = { bytesValue: Buffer.from(bytes) };
+        } else {
+          value = { stringValue: new TextDecoder().decode(bytes) };
+        }
+        break;
+      }
+      case 4:
+        value = { doubleValue: reader.double() };
+        break;
+      case 5:
+        value = { geoPointValue: readPoint(reader, tag) };
+        break;
+      case 12:
+        value = { referenceValue: readReference(reader, tag) };
+        break;
+      default:
+        reader.skip(tag);
+    }
+  }
+
+  return value;
+}
+
+function readEmbeddedFields(bytes: Uint8Array): Fields {
+  const reader = new ProtoReader(bytes);
+  const properties: DecodedProperty[] = [];
+  while (!reader.done) {
+    const tag = reader.tag();
+    if (
+      (tag.field === 14 || tag.field === 15) &&
+      tag.wireType === WireType.LengthDelimited
+    ) {
+      properties.push(readProperty(reader.message()));
+    } else {
+      reader.skip(tag);
+    }
+  }
+
+  return collectFields(properties);
+}
+
+/**
+ * Folds repeated (`multiple`) properties back into array values.
+ */
+function collectFields(properties: DecodedProperty[]): Fields {
+  const fields: Fields = {};
+  for (const p of properties) {
+    if (!p.multiple) {
+      fields[p.name] = p.value;
+      continue;
+    }
+    const existing = fields[p.name];
+    if (existing?.arrayValue) {
+      existing.arrayValue.values?.push(p.value);
+    } else {
+      fields[p.name] = { arrayValue: { values: [p.value] } };
+    }
+  }
+
+  return fields;
+}
+
+function readPoint(reader: ProtoReader, tag: ProtoTag): google.type.ILatLng {
+  const point: google.type.ILatLng = { latitude: 0, longitude: 0 };
+  reader.group(tag.field, (inner) => {
+    if (inner.field === 6) point.latitude = reader.double();
+    else if (inner.field === 7) point.longitude = reader.double();
+    else reader.skip(inner);
+  });
+
+  return point;
+}
+
+function readReference(reader: ProtoReader, tag: ProtoTag): string {
+  let app = '';
+  let databaseId = DEFAULT_DATABASE_ID;
+  const segments: string[] = [];
+
+  reader.group(tag.field, (inner) => {
+    switch (inner.field) {
+      case 13:
+        app = reader.string();
+        break;
+      case 14:
+        reader.group(14, (element) =>
+          readPathElement(reader, element, segments, 15, 16, 17)
+        );
+        break;
+      case 23:
+        databaseId = reader.string() || DEFAULT_DATABASE_ID;
+        break;
+      default:
+        reader.skip(inner);
+    }
+  });
+
+  return `projects/${stripAppPartition(
+    app
+  )}/databases/${databaseId}/documents/${segments.join('/')}`;
+}
+
+function readKeyPath(reader: ProtoReader): string {
+  const segments: string[] = [];
+  while (!reader.done) {
+    const tag = reader.tag();
+    if (tag.field === 14 && tag.wireType === WireType.LengthDelimited) {
+      const path = reader.message();
+      while (!path.done) {
+        const element = path.tag();
+        if (element.field === 1 && element.wireType === WireType.StartGroup) {
+          path.group(1, (inner) =>
+            readPathElement(path, inner, segments, 2, 3, 4)
+          );
+        } else {
+          path.skip(element);
+        }
+      }
+    } else {
+      reader.skip(tag);
+    }
+  }
+
+  return segments.join('/');
+}
+
+function readPathElement(
+  reader: ProtoReader,
+  tag: ProtoTag,
+  segments: string[],
+  typeField: number,
+  idField: number,
+  nameField: number
+): void {
+  switch (tag.field) {
+    case typeField:
+      segments.push(reader.string());
+      break;
+    case idField:
+      // Numeric Datastore ids surface in Firestore as `__id<n>__`
+      segments.push(`__id${reader.int64()}__`);
+      break;
+    case nameField:
+      segments.push(reader.string());
+      break;
+    default:
+      reader.skip(tag);
+  }
+}
+
+/**
+ * Removes a legacy App Engine partition prefix (e.g. `s~my-project`).
+ */
+function stripAppPartition(app: string): string {
+  return app.replace(/^[a-z]~/, '');
+}
+
+function parseResourceName(name: string): {
+  projectId: string;
+  databaseId: string;
+  segments: string[];
+} {
+  const match = /^projects\/([^/]+)\/databases\/([^/]+)\/documents\/(.+)$/.exec(
+    name
+  );
+  if (!match) throw new Error(`Invalid reference value: ${name}`);
+
+  return {
+    projectId: match[1],
+    databaseId: match[2],
+    segments: match[3].split('/'),
+  };
+}
+
+function toMicros(ts: google.protobuf.ITimestamp): bigint {
+  const seconds = BigInt(String(ts.seconds ?? 0));
+  const nanos = BigInt(ts.nanos ?? 0);
+
+  return seconds * MICROS_PER_SECOND + nanos / 1000n;
+}
+
+function fromMicros(micros: bigint): google.protobuf.ITimestamp {
+  let seconds = micros / MICROS_PER_SECOND;
+  let remainder = micros % MICROS_PER_SECOND;
+  if (remainder < 0n) {
+    seconds -= 1n;
+    remainder += MICROS_PER_SECOND;
+  }
+
+  return { seconds: Number(seconds), nanos: Number(remainder) * 1000 };
+}
+
+function toBytes(value: Uint8Array | string): Uint8Array {
+  return typeof value === 'string' ? Buffer.from(value, 'base64') : value;
+}
@@ -0,0 +1,163 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { basename, dirname, join } from 'path';
+import { readLogRecords, writeLogRecords } from './leveldb-log.js';
+import { ProtoWriter } from '../proto-wire.js';
+
+/** Top-level manifest written by `firebase emulators:export`. */
+const EMULATOR_METADATA_FILE = 'firebase-export-metadata.json';
+const FIRESTORE_EXPORT_DIR = 'firestore_export';
+const OVERALL_METADATA_SUFFIX = '.overall_export_metadata';
+const KIND_DIR = 'all_namespaces/all_kinds';
+const KIND_METADATA_FILE = 'all_namespaces_all_kinds.export_metadata';
+const OUTPUT_FILE = /^output-\d+$/;
+/** Version recorded in `firebase-export-metadata.json`. */
+const EXPORT_TOOL_VERSION = '1.0.0';
+
+interface EmulatorExportMetadata {
+  version?: string;
+  firestore?: {
+    version?: string;
+    path?: string;
+    metadata_file?: string;
+  };
+}
+
+/**
+ * Reads the entity records of a Firestore export.
+ *
+ * `path` may be any of:
+ * - a Firebase Emulator export directory (containing `firebase-export-metadata.json`);
+ * - a managed (`gcloud firestore export`) export directory, i.e. the folder holding
+ *   the `*.overall_export_metadata` file; or
+ * - the `*.overall_export_metadata` file itself.
+ *
+ * Every `output-N` file beneath the export is read, so exports filtered by
+ * collection id (`kind_<id>` folders) are supported. The metadata files are used
+ * only to locate the export.
+ *
+ * @throws {Error} If `path` does not hold a Firestore export or a file is corrupt.
+ */
+export function readExportRecords(path: string): Uint8Array[] {
+  const root = resolveExportRoot(path);
+  const records: Uint8Array[] = [];
+
+  for (const file of findOutputFiles(root)) {
+    try {
+      records.push(...readLogRecords(readFileSync(file)));
+    } catch (cause) {
+      throw new Error(
+        `Invalid Firestore export: ${file}: ${(cause as Error).message}`,
+        { cause }
+      );
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Writes entity records as a Firebase Emulator export rooted at `directory`,
+ * which can be loaded with `firebase emulators:start --import <directory>`. The
+ * nested `firestore_export` folder is also a managed-export layout, so its
+ * `firestore_export.overall_export_metadata` can be used as an import input URL.
+ *
+ * Existing files with the same names are overwritten.
+ */
+export function writeExportRecords(
+  directory: string,
+  records: Iterable<Uint8Array>
+): void {
+  const root = join(directory, FIRESTORE_EXPORT_DIR);
+  const kindDir = join(root, KIND_DIR);
+  const overallFile = `${FIRESTORE_EXPORT_DIR}${OVERALL_METADATA_SUFFIX}`;
+  mkdirSync(kindDir, { recursive: true });
+
+  const manifest: EmulatorExportMetadata = {
+    version: EXPORT_TOOL_VERSION,
+    firestore: {
+      version: EXPORT_TOOL_VERSION,
+      path: FIRESTORE_EXPORT_DIR,
+      metadata_file: `${FIRESTORE_EXPORT_DIR}/${overallFile}`,
+    },
+  };
+  writeFileSync(
+    join(directory, EMULATOR_METADATA_FILE),
+    JSON.stringify(manifest, null, 2)
+  );
+
+  // Overall metadata → kind metadata → output files
+  const kindMetadata = `${KIND_DIR}/${KIND_METADATA_FILE}`;
+  writeFileSync(
+    join(root, overallFile),
+    new ProtoWriter().message(1, (m) => m.string(1, kindMetadata)).finish()
+  );
+  writeFileSync(
+    join(kindDir, KIND_METADATA_FILE),
+    new ProtoWriter().string(1, 'output-0').finish()
+  );
+  writeFileSync(join(kindDir, 'output-0'), writeLogRecords(records));
+}
+
+function resolveExportRoot(path: string): string {
+  if (!existsSync(path)) {
+    throw new Error(`Invalid Firestore export: ${path} does not exist.`);
+  }
+  if (statSync(path).isFile()) {
+    if (!path.endsWith(OVERALL_METADATA_SUFFIX)) {
+      throw new Error(
+        `Invalid Firestore export: ${path} is not an overall_export_metadata file.`
+      );
+    }
+    return dirname(path);
+  }
+
+  const manifestPath = join(path, EMULATOR_METADATA_FILE);
+  if (existsSync(manifestPath)) {
+    const manifest = JSON.parse(
+      readFileSync(manifestPath, 'utf8')
+    ) as EmulatorExportMetadata;
+    const firestore = manifest.firestore;
+    if (!firestore?.path && !firestore?.metadata_file) {
+      throw new Error(
+        `Invalid Firestore export: ${path} does not contain Firestore data.`
+      );
+    }
+    return firestore.metadata_file
+      ? dirname(join(path, firestore.metadata_file))
+      : join(path, firestore.path as string);
+  }
+
+  if (
+    !readdirSync(path).some((name) => name.endsWith(OVERALL_METADATA_SUFFIX))
+  ) {
+    throw new Error(
+      `Invalid Firestore export: no ${OVERALL_METADATA_SUFFIX} file in ${path}.`
+    );
+  }
+
+  return path;
+}
+
+function findOutputFiles(root: string): string[] {
+  const files: string[] = [];
+  const visit = (dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(full);
+      } else if (OUTPUT_FILE.test(basename(full))) {
+        files.push(full);
+      }
+    }
+  };
+  visit(root);
+
+  return files.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
@@ -0,0 +1,155 @@
+/**
+ * Reader and writer for the LevelDB log format used by the `output-N` files of
+ * Firestore managed exports and Firebase Emulator exports.
+ *
+ * A log is a sequence of 32 KiB blocks. Each record fragment carries a 7-byte
+ * header: a masked CRC-32C of the type byte and payload (4 bytes, little-endian),
+ * the payload length (2 bytes, little-endian) and the fragment type. Records that
+ * do not fit in the remainder of a block are split into FIRST/MIDDLE/LAST
+ * fragments, and block trailers too short for a header are zero-filled.
+ */
+
+const BLOCK_SIZE = 32768;
+const HEADER_SIZE = 7;
+
+const enum RecordType {
+  Full = 1,
+  First = 2,
+  Middle = 3,
+  Last = 4,
+}
+
+/**
+ * Frames `records` as a LevelDB log.
+ */
+export function writeLogRecords(records: Iterable<Uint8Array>): Buffer {
+  const chunks: Buffer[] = [];
+  let blockOffset = 0;
+
+  for (const record of records) {
+    let offset = 0;
+    let first = true;
+    do {
+      const leftover = BLOCK_SIZE - blockOffset;
+      if (leftover < HEADER_SIZE) {
+        if (leftover > 0) chunks.push(Buffer.alloc(leftover));
+        blockOffset = 0;
+      }
+
+      const available = BLOCK_SIZE - blockOffset - HEADER_SIZE;
+      const length = Math.min(available, record.length - offset);
+      const last = offset + length === record.length;
+      const type = first
+        ? last
+          ? RecordType.Full
+          : RecordType.First
+        : last
+        ? RecordType.Last
+        : RecordType.Middle;
+
+      const fragment = record.subarray(offset, offset + length);
+      const header = Buffer.alloc(HEADER_SIZE);
+      header.writeUInt32LE(maskedCrc(type, fragment), 0);
+      header.writeUInt16LE(length, 4);
+      header.writeUInt8(type, 6);
+      chunks.push(header, Buffer.from(fragment));
+
+      offset += length;
+      blockOffset += HEADER_SIZE + length;
+      first = false;
+    } while (offset < record.length);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Reassembles the records of a LevelDB log.
+ *
+ * @throws {Error} If a fragment is truncated, fails its checksum or is out of sequence.
+ */
+export function readLogRecords(log: Uint8Array): Uint8Array[] {
+  const records: Uint8Array[] = [];
+  let pending: Uint8Array[] | undefined;
+  let pos = 0;
+
+  while (pos < log.length) {
+    const blockRemaining = BLOCK_SIZE - (pos % BLOCK_SIZE);
+    if (blockRemaining < HEADER_SIZE) {
+      pos += blockRemaining;
+      continue;
+    }
+    if (pos + HEADER_SIZE > log.length) break;
+
+    const view = Buffer.from(log.buffer, log.byteOffset + pos, HEADER_SIZE);
+    const crc = view.readUInt32LE(0);
+    const length = view.readUInt16LE(4);
+    const type = view.readUInt8(6);
+    if (type === 0 && length === 0) {
+      // Zero padding written by a preallocating writer
+      pos += blockRemaining;
+      continue;
+    }
+
+    const start = pos + HEADER_SIZE;
+    if (start + length > log.length) {
+      throw new Error(`Truncated log record at offset ${pos}.`);
+    }
+    const fragment = log.subarray(start, start + length);
+    if (maskedCrc(type, fragment) !== crc) {
+      throw new Error(`Log record checksum mismatch at offset ${pos}.`);
+    }
+
+    switch (type) {
+      case RecordType.Full:
+        if (pending) throw new Error(`Unexpected FULL record at ${pos}.`);
+        records.push(fragment);
+        break;
+      case RecordType.First:
+        if (pending) throw new Error(`Unexpected FIRST record at ${pos}.`);
+        pending = [fragment];
+        break;
+      case RecordType.Middle:
+      case RecordType.Last:
+        if (!pending) throw new Error(`Orphaned record fragment at ${pos}.`);
+        pending.push(fragment);
+        if (type === RecordType.Last) {
+          records.push(Buffer.concat(pending));
+          pending = undefined;
+        }
+        break;
+      default:
+        throw new Error(`Unknown log record type ${type} at offset ${pos}.`);
+    }
+    pos = start + length;
+  }
+
+  if (pending) throw new Error('Log ends inside a fragmented record.');
+
+  return records;
+}
+
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32c(crc: number, bytes: Uint8Array): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC32C_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+function maskedCrc(type: number, fragment: Uint8Array): number {
+  const crc = crc32c(crc32c(0, Uint8Array.of(type)), fragment);
+  return (((crc >>> 15) | (crc << 17)) + 0xa282ead8) >>> 0;
+}
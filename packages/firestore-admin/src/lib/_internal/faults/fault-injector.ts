@@ -0,0 +1,201 @@
+import { GoogleError, Status } from 'google-gax';
+import type {
+  FaultEffect,
+  FaultInjectionOptions,
+  FaultRpc,
+  FaultRule,
+  FiredFault,
+} from '../../faults.js';
+import { googleError } from '../functions/google-error.js';
+import { seededRandom } from '../functions/seeded-random.js';
+import { matchFirestorePath } from '../path.js';
+
+const STREAMING_RPCS: ReadonlySet<FaultRpc> = new Set<FaultRpc>([
+  'batchGetDocuments',
+  'runQuery',
+  'runAggregationQuery',
+  'listen',
+  'partitionQueryStream',
+  'executePipeline',
+]);
+
+/**
+ * An RPC invocation as seen by the {@link FaultInjector}.
+ */
+export interface FaultCall {
+  rpc: FaultRpc;
+  /** Internal document/collection paths touched by the call. */
+  paths: string[];
+  /** Whether the call runs in (or begins) a transaction. */
+  transaction: boolean;
+}
+
+/**
+ * A fault selected for a call, with the error the call must fail with.
+ */
+export interface InjectedFault {
+  effect: FaultEffect;
+  error: GoogleError;
+}
+
+interface RuleState {
+  readonly rule: FaultRule;
+  readonly rpcs: ReadonlySet<FaultRpc> | undefined;
+  matched: number;
+  fired: number;
+}
+
+/**
+ * Decides, per RPC call, whether a fault configured on a database fires, and
+ * records every fault that does.
+ */
+export class FaultInjector {
+  private readonly _rules: RuleState[];
+  private readonly _random: () => number;
+  private readonly _calls = new Map<FaultRpc, number>();
+  private readonly _fired: FiredFault[] = [];
+
+  private constructor(options: FaultInjectionOptions) {
+    this._rules = options.rules.map((rule) => ({
+      rule,
+      rpcs: rule.rpc
+        ? new Set(Array.isArray(rule.rpc) ? rule.rpc : [rule.rpc])
+        : undefined,
+      matched: 0,
+      fired: 0,
+    }));
+    this._random = seededRandom(options.seed ?? 0);
+  }
+
+  /**
+   * Validates `options` and creates an injector for them.
+   *
+   * @throws {Error} If a rule is malformed.
+   */
+  static create(options: FaultInjectionOptions): FaultInjector {
+    if (!Array.isArray(options?.rules)) {
+      throw new Error('Fault injection options must include a rules array.');
+    }
+    options.rules.forEach(assertValidRule);
+
+    return new FaultInjector(options);
+  }
+
+  /**
+   * Registers a call and returns the fault to inject into it, if any.
+   */
+  check(call: FaultCall): InjectedFault | undefined {
+    const sequence = (this._calls.get(call.rpc) ?? 0) + 1;
+    this._calls.set(call.rpc, sequence);
+
+    for (let i = 0; i < this._rules.length; i++) {
+      const state = this._rules[i];
+      if (!this.matches(state, call)) continue;
+
+      state.matched++;
+      const { rule } = state;
+      if (rule.nth !== undefined && state.matched !== rule.nth) continue;
+      if (state.fired >= (rule.times ?? Infinity)) continue;
+      if (
+        rule.probability !== undefined &&
+        this._random() >= rule.probability
+      ) {
+        continue;
+      }
+
+      state.fired++;
+      const effect = rule.effect;
+      const code =
+        effect.type === 'drop'
+          ? effect.code ?? Status.DEADLINE_EXCEEDED
+          : effect.code;
+      this._fired.push(
+        Object.freeze({
+          rule: i,
+          ...(rule.name !== undefined ? { name: rule.name } : {}),
+          rpc: call.rpc,
+          call: sequence,
+          paths: Object.freeze([...call.paths]),
+          effect: effect.type,
+          code,
+        })
+      );
+
+      return {
+        effect,
+        error: googleError(
+          code,
+          effect.message ??
+            `Injected ${effect.type} fault on ${call.rpc} (rule ${
+              rule.name ?? i
+            }).`
+        ),
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The faults fired so far, in firing order.
+   */
+  fired(): readonly FiredFault[] {
+    return Object.freeze([...this._fired]);
+  }
+
+  private matches(state: RuleState, call: FaultCall): boolean {
+    const { rule } = state;
+    if (state.rpcs && !state.rpcs.has(call.rpc)) return false;
+    if (rule.effect.type === 'stream-error' && !STREAMING_RPCS.has(call.rpc)) {
+      return false;
+    }
+    if (
+      rule.transaction !== undefined &&
+      rule.transaction !== call.transaction
+    ) {
+      return false;
+    }
+    if (rule.path !== undefined) {
+      const pattern = rule.path;
+      return call.paths.some((p) => matchFirestorePath(pattern, p));
+    }
+
+    return true;
+  }
+}
+
+function assertValidRule(rule: FaultRule, index: number): void {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid fault rule ${index}: ${reason}`);
+  };
+  const effect = rule?.effect;
+  if (!effect) fail('an effect is required.');
+  if (!['error', 'drop', 'stream-error'].includes(effect.type)) {
+    fail(`unknown effect type "${effect.type}".`);
+  }
+  if (effect.type !== 'drop' && !Number.isInteger(effect.code)) {
+    fail('the effect requires a status code.');
+  }
+  if (
+    effect.type === 'stream-error' &&
+    effect.afterResponses !== undefined &&
+    !(Number.isInteger(effect.afterResponses) && effect.afterResponses >= 0)
+  ) {
+    fail('afterResponses must be a non-negative integer.');
+  }
+  if (rule.nth !== undefined && !(Number.isInteger(rule.nth) && rule.nth > 0)) {
+    fail('nth must be a positive integer.');
+  }
+  if (
+    rule.times !== undefined &&
+    !(Number.isInteger(rule.times) && rule.times >= 0)
+  ) {
+    fail('times must be a non-negative integer.');
+  }
+  if (
+    rule.probability !== undefined &&
+    !(rule.probability >= 0 && rule.probability <= 1)
+  ) {
+    fail('probability must be between 0 and 1.');
+  }
+}
@@ -22,6 +22,7 @@ import type { google } from '@gcf/firestore-protos';
 
 import { CallOptions } from 'google-gax';
 import { Duplex } from 'stream';
+import type { IExecutePipelineRequest } from '../mock-gapic-client/pipelines/pipeline-protos.js';
 
 /**
  * A map in the format of the Proto API
@@ -75,9 +76,17 @@ export interface GapicClient {
     options?: CallOptions
   ): Promise<[string[], unknown, unknown]>;
   listen(options?: CallOptions): Duplex;
+  partitionQuery(
+    request: google.firestore.v1.IPartitionQueryRequest,
+    options?: CallOptions
+  ): Promise<[google.firestore.v1.ICursor[], unknown, unknown]>;
   partitionQueryStream(
     request?: google.firestore.v1.IPartitionQueryRequest,
     options?: CallOptions
   ): Duplex;
+  executePipeline(
+    request?: IExecutePipelineRequest,
+    options?: CallOptions
+  ): Duplex;
   close(): Promise<void>;
 }
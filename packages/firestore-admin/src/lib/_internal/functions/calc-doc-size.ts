@@ -4,6 +4,7 @@ import {
   GeoPoint,
   Timestamp,
 } from 'firebase-admin/firestore';
+import type { FieldOverrideIndexDefinition } from '../../indexes.js';
 import { isVectorLikeShallow, vectorDims } from './util.js';
 
 /** Firestore per-document serialized size limit (bytes). 1 MiB = 1,048,576 bytes. */
@@ -62,6 +63,110 @@ export function calcDocSize(docName: string, docData: DocumentData): number {
   return nameBytes + bodyBytes;
 }
 
+/**
+ * Firestore per-document limit on index entries, counting single-field and
+ * composite index entries.
+ */
+export const MAX_INDEX_ENTRIES_PER_DOC = 40_000;
+
+/**
+ * The single-field index entries stored for a document.
+ */
+export interface IndexEntryUsage {
+  /** Number of index entries. */
+  entries: number;
+  /** Total size of the index entries, in bytes. */
+  bytes: number;
+}
+
+/**
+ * Resolves the field override of a field in a collection group: the indexes
+ * that replace its automatic ones (empty for an exemption), or `undefined`
+ * when the field has no override.
+ */
+export type SingleFieldIndexResolver = (
+  collectionGroup: string,
+  fieldPath: string
+) => readonly FieldOverrideIndexDefinition[] | undefined;
+
+/**
+ * Calculates the single-field index entries Firestore stores for a document.
+ *
+ * Under automatic indexing, each non-array, non-map field — including nested
+ * map subfields — has an ascending and a descending entry; each array field
+ * has one `array-contains` entry per element. Maps are indexed through their
+ * subfields only. A field override replaces the automatic indexes of its field
+ * and, for a map, of its subfields: a non-array field then has one entry per
+ * ordered index and an array field one entry per element per `CONTAINS` index.
+ *
+ * Formula (per entry):
+ *   documentNameSize(docName)
+ *   + stringSize(collectionId)   // the collection holding the document
+ *   + stringSize(fieldPath)      // dotted path of the field
+ *   + valueSize(indexed value)
+ *   + 32                         // entry overhead
+ *
+ * @param docName - Document path relative to `/documents`, e.g. "users/alice".
+ * @param docData - Document contents.
+ * @param overrides - Resolves field overrides (exemptions); automatic indexing
+ *   throughout when omitted.
+ */
+export function calcIndexEntries(
+  docName: string,
+  docData: DocumentData,
+  overrides?: SingleFieldIndexResolver
+): IndexEntryUsage {
+  const segs = docName.split('/').filter(Boolean);
+  const collectionId = segs[segs.length - 2] ?? '';
+  const base = documentNameSize(docName) + stringSize(collectionId) + 32;
+  const usage: IndexEntryUsage = { entries: 0, bytes: 0 };
+
+  const visit = (
+    map: Record<string, unknown>,
+    prefix: string,
+    inherited: readonly FieldOverrideIndexDefinition[] | undefined
+  ): void => {
+    for (const [key, val] of Object.entries(map)) {
+      if (val === undefined) continue;
+      const fieldPath = prefix ? `${prefix}.${key}` : key;
+      const indexes = overrides?.(collectionId, fieldPath) ?? inherited;
+      const entryBase = base + stringSize(fieldPath);
+
+      if (isMapValue(val)) {
+        visit(val, fieldPath, indexes);
+      } else if (Array.isArray(val)) {
+        const contains = indexes
+          ? indexes.filter((i) => i.arrayConfig).length
+          : 1;
+        for (const el of val) {
+          usage.entries += contains;
+          usage.bytes += contains * (entryBase + valueSize(el));
+        }
+      } else {
+        const ordered = indexes ? indexes.filter((i) => i.order).length : 2;
+        usage.entries += ordered;
+        usage.bytes += ordered * (entryBase + valueSize(val));
+      }
+    }
+  };
+  visit(docData, '', undefined);
+
+  return usage;
+}
+
+function isMapValue(v: unknown): v is Record<string, unknown> {
+  return (
+    typeof v === 'object' &&
+    v !== null &&
+    !Array.isArray(v) &&
+    !(v instanceof Timestamp) &&
+    !(v instanceof GeoPoint) &&
+    !isDocRef(v) &&
+    !isByteLike(v) &&
+    !isVectorLikeShallow(v)
+  );
+}
+
 function documentNameSize(path: string): number {
   // Σ(stringSize(segment)) + 16
   const segs = path.split('/').filter(Boolean);
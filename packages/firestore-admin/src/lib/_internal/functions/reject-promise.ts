@@ -1,9 +1,25 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Scheduler } from '../../scheduler.js';
+
 /**
- * Returns a `Promise` that rejects asynchronously using `queueMicrotask`.
+ * Returns a `Promise` that rejects asynchronously using `queueMicrotask`, or after
+ * `delay` milliseconds when a positive `delay` is given, on the `scheduler`'s clock
+ * when one is given.
  */
-export function rejectPromise<T>(reason: any): Promise<T> {
+export function rejectPromise<T>(
+  reason: any,
+  delay?: number,
+  scheduler?: Scheduler
+): Promise<T> {
   return new Promise<T>((_resolve, reject) => {
-    queueMicrotask(() => reject(reason));
+    if (delay !== undefined && delay > 0) {
+      if (scheduler) {
+        scheduler.setTimeout(() => reject(reason), delay);
+      } else {
+        setTimeout(() => reject(reason), delay);
+      }
+    } else {
+      queueMicrotask(() => reject(reason));
+    }
   });
 }
@@ -1,24 +1,39 @@
+import type { Scheduler } from '../../scheduler.js';
+
 /**
- * The minimum latency to apply. Note that `queueMicrotask()` does not guarantee sufficient
+ * The default latency to apply. Note that `queueMicrotask()` does not guarantee sufficient
  * latency to recreate certain transactional conflicts that might otherwise occur in the
  * production/emulator Firestore environments.
  */
-const MIN_LATENCY = 3;
+const DEFAULT_LATENCY = 3;
 
 /**
- * Returns a `Promise` that resolves asynchronously with latency.
- */
-export function resolvePromise(): Promise<void>;
-/**
- * Returns a `Promise` that resolves `value` asynchronously with latency.
+ * Returns a `Promise` that resolves `value` asynchronously after `delay` milliseconds
+ * (3 by default). A `delay` of `0` resolves on a microtask rather than a timer.
+ *
+ * When a `scheduler` is given, the timer runs on its clock, where the default latency
+ * takes no virtual time.
  */
-export function resolvePromise<T>(value: T, delay?: number): Promise<T>;
+export function resolvePromise<T>(
+  value: T,
+  delay?: number,
+  scheduler?: Scheduler
+): Promise<T>;
 export function resolvePromise(
   value?: unknown,
-  delay?: number
+  delay?: number,
+  scheduler?: Scheduler
 ): Promise<unknown> {
-  delay = Math.max(delay ?? MIN_LATENCY, MIN_LATENCY);
   return new Promise((resolve) => {
-    setTimeout(() => resolve(value), delay);
+    if (delay !== undefined && delay <= 0) {
+      queueMicrotask(() => resolve(value));
+    } else if (scheduler) {
+      scheduler.setTimeout(
+        () => resolve(value),
+        delay ?? scheduler.pace(DEFAULT_LATENCY)
+      );
+    } else {
+      setTimeout(() => resolve(value), delay ?? DEFAULT_LATENCY);
+    }
   });
 }
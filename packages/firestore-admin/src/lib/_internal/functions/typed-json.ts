@@ -0,0 +1,260 @@
+import {
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  Firestore,
+  GeoPoint,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import type {
+  StructuralDatabase,
+  StructuralDocument,
+} from '../../structural-database.js';
+import type {
+  StructuralDatabaseJSON,
+  StructuralDocumentJSON,
+  TypedJSONObject,
+  TypedJSONValue,
+} from '../../typed-json.js';
+import {
+  isByteArrayLike,
+  isPlainObject,
+  isVectorLikeShallow,
+  toBuffer,
+} from './util.js';
+
+const RFC3339 =
+  /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Encodes document data as a {@link TypedJSONObject}.
+ *
+ * @throws {Error} If the data holds a value that cannot be stored in Firestore.
+ */
+export function encodeTypedJSON(data: DocumentData): TypedJSONObject {
+  return encodeMap(data, '');
+}
+
+/**
+ * Decodes a {@link TypedJSONObject} into document data. `$ref` values become
+ * references created by `firestore`.
+ *
+ * @throws {Error} If `json` is not valid typed JSON.
+ */
+export function decodeTypedJSON(
+  json: TypedJSONObject,
+  firestore: () => Firestore
+): DocumentData {
+  if (!isPlainObject(json)) {
+    throw new Error('Invalid typed JSON: document data must be an object.');
+  }
+  return decodeMap(json, '', firestore);
+}
+
+/**
+ * Encodes every document of a structural database.
+ */
+export function encodeStructuralDatabase(
+  db: StructuralDatabase
+): StructuralDatabaseJSON {
+  return mapTree(db, (doc) => {
+    const out: StructuralDocumentJSON = {};
+    if (doc.data) out.data = encodeTypedJSON(doc.data);
+    if (doc.collections) {
+      out.collections = encodeStructuralDatabase(doc.collections);
+    }
+    return out;
+  });
+}
+
+/**
+ * Decodes every document of a typed-JSON structural database.
+ *
+ * @throws {Error} If a document holds invalid typed JSON.
+ */
+export function decodeStructuralDatabase(
+  json: StructuralDatabaseJSON,
+  firestore: () => Firestore
+): StructuralDatabase {
+  return mapTree(json, (doc) => {
+    const out: StructuralDocument = {};
+    if (doc.data) out.data = decodeTypedJSON(doc.data, firestore);
+    if (doc.collections) {
+      out.collections = decodeStructuralDatabase(doc.collections, firestore);
+    }
+    return out;
+  });
+}
+
+function mapTree<S, T>(
+  group: Record<string, Record<string, S>>,
+  mapDoc: (doc: S) => T
+): Record<string, Record<string, T>> {
+  const out: Record<string, Record<string, T>> = {};
+  for (const [collectionId, docs] of Object.entries(group)) {
+    const col: Record<string, T> = {};
+    for (const [docId, doc] of Object.entries(docs)) {
+      col[docId] = mapDoc(doc);
+    }
+    out[collectionId] = col;
+  }
+  return out;
+}
+
+function encodeValue(value: unknown, field: string): TypedJSONValue {
+  if (value === null) return null;
+
+  switch (typeof value) {
+    case 'boolean':
+    case 'string':
+      return value;
+    case 'number':
+      if (!Number.isFinite(value) || Object.is(value, -0)) {
+        return { $double: Object.is(value, -0) ? '-0' : String(value) };
+      }
+      return value;
+    case 'bigint':
+      return { $bigint: value.toString() };
+  }
+
+  if (value instanceof Timestamp) return { $timestamp: formatTimestamp(value) };
+  if (value instanceof GeoPoint) {
+    return {
+      $geopoint: { latitude: value.latitude, longitude: value.longitude },
+    };
+  }
+  if (value instanceof DocumentReference) return { $ref: value.path };
+  if (isByteArrayLike(value)) {
+    return { $bytes: toBuffer(value).toString('base64') };
+  }
+  if (isVectorLikeShallow(value)) return { $vector: value.toArray() };
+  if (Array.isArray(value)) {
+    return value.map((v, i) => encodeValue(v, `${field}[${i}]`));
+  }
+  if (isPlainObject(value)) {
+    const map = encodeMap(value, field);
+    const keys = Object.keys(map);
+    return keys.length === 1 && keys[0].startsWith('$') ? { $map: map } : map;
+  }
+
+  throw new Error(
+    `Cannot encode ${describe(value)} at "${field}" as typed JSON.`
+  );
+}
+
+function encodeMap(data: DocumentData, parent: string): TypedJSONObject {
+  const out: TypedJSONObject = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    out[key] = encodeValue(value, parent ? `${parent}.${key}` : key);
+  }
+  return out;
+}
+
+function decodeValue(
+  json: TypedJSONValue,
+  field: string,
+  firestore: () => Firestore
+): unknown {
+  if (json === null || typeof json !== 'object') return json;
+  if (Array.isArray(json)) {
+    return json.map((v, i) => decodeValue(v, `${field}[${i}]`, firestore));
+  }
+
+  const keys = Object.keys(json);
+  if (keys.length !== 1 || !keys[0].startsWith('$')) {
+    return decodeMap(json, field, firestore);
+  }
+
+  const tag = keys[0];
+  const arg = json[tag];
+  const invalid = () =>
+    new Error(`Invalid typed JSON: malformed ${tag} value at "${field}".`);
+
+  switch (tag) {
+    case '$map':
+      if (!isPlainObject(arg)) throw invalid();
+      return decodeMap(arg as TypedJSONObject, field, firestore);
+    case '$timestamp': {
+      const ts = typeof arg === 'string' ? parseTimestamp(arg) : undefined;
+      if (!ts) throw invalid();
+      return ts;
+    }
+    case '$geopoint': {
+      const point = arg as { latitude?: unknown; longitude?: unknown };
+      if (
+        !isPlainObject(point) ||
+        typeof point.latitude !== 'number' ||
+        typeof point.longitude !== 'number'
+      ) {
+        throw invalid();
+      }
+      return new GeoPoint(point.latitude, point.longitude);
+    }
+    case '$ref':
+      if (typeof arg !== 'string') throw invalid();
+      return firestore().doc(arg);
+    case '$bytes':
+      if (typeof arg !== 'string') throw invalid();
+      return Buffer.from(arg, 'base64');
+    case '$vector':
+      if (!Array.isArray(arg) || arg.some((v) => typeof v !== 'number')) {
+        throw invalid();
+      }
+      return FieldValue.vector(arg as number[]);
+    case '$bigint':
+      if (typeof arg !== 'string' || !/^-?\d+$/.test(arg)) throw invalid();
+      return BigInt(arg);
+    case '$double':
+      switch (arg) {
+        case 'NaN':
+          return NaN;
+        case 'Infinity':
+          return Infinity;
+        case '-Infinity':
+          return -Infinity;
+        case '-0':
+          return -0;
+      }
+      throw invalid();
+    default:
+      throw new Error(`Invalid typed JSON: unknown tag ${tag} at "${field}".`);
+  }
+}
+
+function decodeMap(
+  json: TypedJSONObject,
+  parent: string,
+  firestore: () => Firestore
+): DocumentData {
+  const out: DocumentData = {};
+  for (const [key, value] of Object.entries(json)) {
+    out[key] = decodeValue(value, parent ? `${parent}.${key}` : key, firestore);
+  }
+  return out;
+}
+
+function formatTimestamp(ts: Timestamp): string {
+  const base = new Date(ts.seconds * 1000).toISOString().slice(0, 19);
+  if (ts.nanoseconds === 0) return `${base}Z`;
+
+  // Trim to the shortest of 3, 6 or 9 fractional digits, as proto3 JSON does
+  let fraction = String(ts.nanoseconds).padStart(9, '0');
+  while (fraction.endsWith('000')) fraction = fraction.slice(0, -3);
+  return `${base}.${fraction}Z`;
+}
+
+function parseTimestamp(text: string): Timestamp | undefined {
+  const match = RFC3339.exec(text);
+  if (!match) return undefined;
+
+  const millis = Date.parse(`${match[1]}${match[3]}`);
+  if (Number.isNaN(millis)) return undefined;
+  const nanos = Number((match[2] ?? '').padEnd(9, '0'));
+  return new Timestamp(millis / 1000, nanos);
+}
+
+function describe(value: unknown): string {
+  const ctor = (value as object)?.constructor?.name;
+  return ctor && ctor !== 'Object' ? `a ${ctor}` : `a ${typeof value}`;
+}
@@ -0,0 +1,170 @@
+import { DEFAULT_DATABASE_ID } from '../firestore/constants.js';
+import { ProtoWriter } from '../proto-wire.js';
+import type {
+  IndexFieldDefinition,
+  IndexOrder,
+  IndexQueryScope,
+} from '../../indexes.js';
+
+/**
+ * Identifies the database an index belongs to.
+ */
+export interface IndexTarget {
+  projectId: string;
+  databaseId: string;
+  collectionGroup: string;
+}
+
+/**
+ * Builds the `FAILED_PRECONDITION` message production returns for a query that
+ * needs a composite index, including the console `create_composite` link.
+ *
+ * @param target - Database and collection group of the index.
+ * @param scope - Query scope of the index.
+ * @param fields - Index fields, including the trailing `__name__`.
+ */
+export function compositeIndexMessage(
+  target: IndexTarget,
+  scope: IndexQueryScope,
+  fields: IndexFieldDefinition[]
+): string {
+  const index = new ProtoWriter();
+  writeIndex(index, indexName(target), scope, fields);
+
+  return (
+    'The query requires an index. You can create it here: ' +
+    `${consoleIndexesUrl(target)}?create_composite=${toBase64(index)}`
+  );
+}
+
+/**
+ * Builds the message production returns for a query that needs a single-field
+ * index which is not maintained (collection-group scope, or exempted by a
+ * field override), including the console `create_exemption` link.
+ */
+export function singleFieldIndexMessage(
+  target: IndexTarget,
+  scope: IndexQueryScope,
+  field: IndexFieldDefinition
+): string {
+  const kind = field.arrayConfig
+    ? 'ARRAY_CONTAINS'
+    : field.order === 'DESCENDING'
+    ? 'DESC'
+    : 'ASC';
+  const name = `${indexName(target).replace(/\/indexes\/_$/, '')}/fields/${
+    field.fieldPath
+  }`;
+  const exemption = new ProtoWriter()
+    .string(1, name)
+    .message(2, (config) =>
+      config.message(1, (index) => writeIndex(index, undefined, scope, [field]))
+    );
+
+  return (
+    `The query requires a ${scope}_${kind} index for collection ` +
+    `${target.collectionGroup} and field ${field.fieldPath}. ` +
+    `You can create it here: ${consoleIndexesUrl(
+      target
+    )}?create_exemption=${toBase64(exemption)}`
+  );
+}
+
+/**
+ * Builds the message production returns for a `findNearest` query without a
+ * matching vector index, including the `gcloud` command that creates it.
+ *
+ * @param fields - Index fields; the vector field is last.
+ */
+export function vectorIndexMessage(
+  target: IndexTarget,
+  scope: IndexQueryScope,
+  fields: IndexFieldDefinition[]
+): string {
+  const args = [
+    'gcloud firestore indexes composite create',
+    `--project=${target.projectId}`,
+  ];
+  if (target.databaseId !== DEFAULT_DATABASE_ID) {
+    args.push(`--database=${target.databaseId}`);
+  }
+  args.push(
+    `--collection-group=${target.collectionGroup}`,
+    `--query-scope=${scope}`
+  );
+  for (const field of fields) {
+    if (field.vectorConfig) {
+      args.push(
+        `--field-config=vector-config='{"dimension":"${field.vectorConfig.dimension}","flat": "{}"}',field-path=${field.fieldPath}`
+      );
+    } else if (field.arrayConfig) {
+      args.push(
+        `--field-config=array-config=contains,field-path=${field.fieldPath}`
+      );
+    } else {
+      args.push(
+        `--field-config=order=${(
+          field.order ?? 'ASCENDING'
+        ).toLowerCase()},field-path=${field.fieldPath}`
+      );
+    }
+  }
+
+  return (
+    'Missing vector index configuration. Please create the required index ' +
+    `with the following gcloud command: ${args.join(' ')}`
+  );
+}
+
+function consoleIndexesUrl(target: IndexTarget): string {
+  const database =
+    target.databaseId === DEFAULT_DATABASE_ID
+      ? ''
+      : `databases/${target.databaseId}/`;
+
+  return `https://console.firebase.google.com/v1/r/project/${target.projectId}/firestore/${database}indexes`;
+}
+
+function indexName(target: IndexTarget): string {
+  return `projects/${target.projectId}/databases/${target.databaseId}/collectionGroups/${target.collectionGroup}/indexes/_`;
+}
+
+// ---------------------------------------------------------------------------
+// Minimal protobuf encoding of google.firestore.admin.v1.Index / Field
+// ---------------------------------------------------------------------------
+
+const QUERY_SCOPE: Record<IndexQueryScope, number> = {
+  COLLECTION: 1,
+  COLLECTION_GROUP: 2,
+};
+const ORDER: Record<IndexOrder, number> = { ASCENDING: 1, DESCENDING: 2 };
+const ARRAY_CONTAINS = 1;
+
+function writeIndex(
+  writer: ProtoWriter,
+  name: string | undefined,
+  scope: IndexQueryScope,
+  fields: IndexFieldDefinition[]
+): void {
+  if (name) writer.string(1, name);
+  writer.int64(2, QUERY_SCOPE[scope]);
+  for (const field of fields) {
+    writer.message(3, (entry) => {
+      entry.string(1, field.fieldPath);
+      if (field.vectorConfig) {
+        const { dimension } = field.vectorConfig;
+        entry.message(4, (vector) =>
+          vector.int64(1, dimension).message(2, () => undefined)
+        );
+      } else if (field.arrayConfig) {
+        entry.int64(3, ARRAY_CONTAINS);
+      } else {
+        entry.int64(2, ORDER[field.order ?? 'ASCENDING']);
+      }
+    });
+  }
+}
+
+function toBase64(writer: ProtoWriter): string {
+  return Buffer.from(writer.finish()).toString('base64');
+}
@@ -0,0 +1,101 @@
+import type { google } from '@gcf/firestore-protos';
+import type { IndexOrder, IndexQueryScope } from '../../indexes.js';
+import { NAME_SENTINEL } from '../mock-gapic-client/utils/types.js';
+import {
+  deriveIndexRequirements,
+  EqualityField,
+  IndexRequirement,
+} from './index-requirements.js';
+
+/**
+ * An index a query plan reads, in the shape Query Explain reports it under
+ * `planSummary.indexesUsed`.
+ */
+export interface PlannedIndex {
+  /** `'Collection'` or `'Collection group'`. */
+  query_scope: string;
+  /** The indexed fields, e.g. `'(city ASC, population DESC, __name__ DESC)'`. */
+  properties: string;
+}
+
+/**
+ * Lists the indexes production would read to serve a structured query.
+ *
+ * Mirrors the planning rules of the index registry: equality-only queries
+ * merge the single-field indexes of their fields, a single ordered field
+ * uses its single-field index, and anything else reads the composite index
+ * of its equalities followed by its ordering. `OR` queries list the indexes
+ * of every conjunction once.
+ *
+ * @param query - A structured query that has already passed validation.
+ */
+export function planIndexes(
+  query: google.firestore.v1.IStructuredQuery
+): PlannedIndex[] {
+  const requirements = deriveIndexRequirements(query);
+  if (requirements.length === 0) {
+    // Kindless queries scan the documents by name
+    const byName = query.orderBy?.find(
+      (o) => o.field?.fieldPath === NAME_SENTINEL
+    );
+    return [
+      {
+        query_scope: scopeLabel(
+          query.from?.[0]?.allDescendants ? 'COLLECTION_GROUP' : 'COLLECTION'
+        ),
+        properties: `(${NAME_SENTINEL} ${orderLabel(
+          byName?.direction === 'DESCENDING' ? 'DESCENDING' : 'ASCENDING'
+        )})`,
+      },
+    ];
+  }
+
+  const planned = new Map<string, PlannedIndex>();
+  for (const req of requirements) {
+    for (const fields of indexFields(req)) {
+      const properties = `(${fields.join(', ')})`;
+      const index = { query_scope: scopeLabel(req.queryScope), properties };
+      planned.set(`${req.queryScope}|${properties}`, index);
+    }
+  }
+
+  return [...planned.values()];
+}
+
+/**
+ * The fields of each index serving one requirement, as `"<path> <kind>"`.
+ */
+function indexFields(req: IndexRequirement): string[][] {
+  const name = `${NAME_SENTINEL} ${orderLabel(req.nameOrder)}`;
+  const equalities = req.equalities.map(equalityLabel);
+  const orders = req.orders.map((o) => `${o.fieldPath} ${orderLabel(o.order)}`);
+
+  if (req.vector) {
+    return [
+      [
+        ...equalities,
+        ...orders,
+        `${req.vector.fieldPath} VECTOR<${req.vector.dimension}>`,
+      ],
+    ];
+  }
+  if (orders.length === 0) {
+    return equalities.length === 0
+      ? [[name]]
+      : equalities.map((field) => [field, name]);
+  }
+
+  return [[...equalities, ...orders, name]];
+}
+
+function equalityLabel(e: EqualityField): string {
+  return `${e.fieldPath} ${e.kind === 'contains' ? 'CONTAINS' : 'ASC'}`;
+}
+
+function orderLabel(order: IndexOrder): string {
+  return order === 'DESCENDING' ? 'DESC' : 'ASC';
+}
+
+function scopeLabel(scope: IndexQueryScope): string {
+  return scope === 'COLLECTION_GROUP' ? 'Collection group' : 'Collection';
+}
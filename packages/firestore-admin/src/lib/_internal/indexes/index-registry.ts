@@ -0,0 +1,446 @@
+import type { google } from '@gcf/firestore-protos';
+import { Status } from 'google-gax';
+import type {
+  FieldOverrideDefinition,
+  FieldOverrideIndexDefinition,
+  FirestoreIndexesConfig,
+  FirestoreIndexOptions,
+  IndexDefinition,
+  IndexEnforcementMode,
+  IndexFieldDefinition,
+  IndexOrder,
+} from '../../indexes.js';
+import { googleError } from '../functions/google-error.js';
+import { NAME_SENTINEL } from '../mock-gapic-client/utils/types.js';
+import {
+  compositeIndexMessage,
+  singleFieldIndexMessage,
+  vectorIndexMessage,
+} from './index-links.js';
+import {
+  deriveIndexRequirements,
+  EqualityField,
+  IndexRequirement,
+  OrderedField,
+} from './index-requirements.js';
+
+/**
+ * The index a query was found to be missing.
+ */
+type MissingIndex =
+  | { kind: 'composite'; fields: IndexFieldDefinition[] }
+  | { kind: 'vector'; fields: IndexFieldDefinition[] }
+  | { kind: 'single'; field: IndexFieldDefinition };
+
+/** The automatic single-field indexes maintained for every field. */
+const DEFAULT_SINGLE_FIELD: readonly FieldOverrideIndexDefinition[] = [
+  { order: 'ASCENDING', queryScope: 'COLLECTION' },
+  { order: 'DESCENDING', queryScope: 'COLLECTION' },
+  { arrayConfig: 'CONTAINS', queryScope: 'COLLECTION' },
+];
+
+/**
+ * Index definitions for a single database, with the logic to decide whether a
+ * query can be served and a record of the indexes queries were missing.
+ *
+ * Serving follows production planning:
+ * - Equality-only queries are served by merging single-field indexes.
+ * - A query ordering on a single field with no equality filters uses that
+ *   field's single-field index.
+ * - Anything else needs composite indexes whose trailing fields match the
+ *   query's ordering; equality fields may be split across several indexes
+ *   sharing that ordering (index merging).
+ * - Single-field indexes are maintained for collection scope only, unless a
+ *   field override says otherwise.
+ * - `findNearest` needs a vector index whose prefix covers the pre-filters.
+ */
+export class IndexRegistry {
+  private readonly _indexes: IndexDefinition[];
+  private readonly _overrides = new Map<string, FieldOverrideDefinition>();
+  private readonly _missingIndexes = new Map<string, IndexDefinition>();
+  private readonly _missingOverrides = new Map<
+    string,
+    FieldOverrideDefinition
+  >();
+
+  private constructor(
+    readonly mode: IndexEnforcementMode,
+    config: FirestoreIndexesConfig
+  ) {
+    this._indexes = config.indexes ?? [];
+    for (const override of config.fieldOverrides ?? []) {
+      this._overrides.set(
+        overrideKey(override.collectionGroup, override.fieldPath),
+        override
+      );
+    }
+  }
+
+  /**
+   * Creates a registry from controller options.
+   *
+   * @throws {Error} If `definitions` is not valid `firestore.indexes.json` content.
+   */
+  static create(options: FirestoreIndexOptions): IndexRegistry {
+    return new IndexRegistry(
+      options.mode,
+      parseIndexesConfig(options.definitions ?? {})
+    );
+  }
+
+  /**
+   * Verifies that a query can be served by the defined indexes. Missing
+   * indexes are recorded; in `'enforce'` mode the first one is also raised.
+   *
+   * @param projectId - Project of the database, used in the error link.
+   * @param databaseId - Database id, used in the error link.
+   * @param query - A validated structured query.
+   * @throws {GoogleError} {@link Status.FAILED_PRECONDITION} in `'enforce'`
+   *   mode when an index is missing.
+   */
+  check(
+    projectId: string,
+    databaseId: string,
+    query: google.firestore.v1.IStructuredQuery
+  ): void {
+    for (const req of deriveIndexRequirements(query)) {
+      const missing = this.findMissing(req);
+      if (!missing) continue;
+
+      this.record(req, missing);
+      if (this.mode !== 'enforce') continue;
+
+      const target = {
+        projectId,
+        databaseId,
+        collectionGroup: req.collectionGroup,
+      };
+      switch (missing.kind) {
+        case 'composite':
+          throw googleError(
+            Status.FAILED_PRECONDITION,
+            compositeIndexMessage(target, req.queryScope, [
+              ...missing.fields,
+              { fieldPath: NAME_SENTINEL, order: req.nameOrder },
+            ])
+          );
+        case 'vector':
+          throw googleError(
+            Status.FAILED_PRECONDITION,
+            vectorIndexMessage(target, req.queryScope, missing.fields)
+          );
+        case 'single':
+          throw googleError(
+            Status.FAILED_PRECONDITION,
+            singleFieldIndexMessage(target, req.queryScope, missing.field)
+          );
+      }
+    }
+  }
+
+  /**
+   * Returns the index definitions that checked queries were missing, in
+   * `firestore.indexes.json` form. Field overrides include the automatic
+   * indexes they would otherwise replace.
+   */
+  missing(): FirestoreIndexesConfig {
+    return structuredClone({
+      indexes: [...this._missingIndexes.values()],
+      fieldOverrides: [...this._missingOverrides.values()],
+    });
+  }
+
+  /**
+   * Returns the single-field indexes a field override configures for a field
+   * (empty for an exemption), or `undefined` when the field has automatic
+   * indexes.
+   */
+  fieldOverride(
+    collectionGroup: string,
+    fieldPath: string
+  ): readonly FieldOverrideIndexDefinition[] | undefined {
+    return this._overrides.get(overrideKey(collectionGroup, fieldPath))
+      ?.indexes;
+  }
+
+  private findMissing(req: IndexRequirement): MissingIndex | undefined {
+    const { equalities, orders, vector } = req;
+
+    if (vector) {
+      const fields: IndexFieldDefinition[] = [
+        ...equalities.map(toIndexField),
+        ...orders,
+        {
+          fieldPath: vector.fieldPath,
+          vectorConfig: { dimension: vector.dimension, flat: {} },
+        },
+      ];
+      return this.hasVectorIndex(req) ? undefined : { kind: 'vector', fields };
+    }
+
+    if (orders.length === 0) {
+      const unserved = equalities.filter(
+        (e) =>
+          !this.hasSingleField(
+            req,
+            e.fieldPath,
+            e.kind === 'contains' ? 'CONTAINS' : undefined
+          )
+      );
+      if (
+        unserved.length === 0 ||
+        this.isCovered(req, equalities, [], unserved)
+      ) {
+        return undefined;
+      }
+      return equalities.length === 1
+        ? { kind: 'single', field: toIndexField(equalities[0]) }
+        : { kind: 'composite', fields: equalities.map(toIndexField) };
+    }
+
+    if (equalities.length === 0 && orders.length === 1) {
+      const [only] = orders;
+      return this.hasSingleField(req, only.fieldPath, only.order) ||
+        this.isCovered(req, [], orders)
+        ? undefined
+        : { kind: 'single', field: { ...only } };
+    }
+
+    return this.isCovered(req, equalities, orders)
+      ? undefined
+      : {
+          kind: 'composite',
+          fields: [...equalities.map(toIndexField), ...orders],
+        };
+  }
+
+  /**
+   * Whether composite indexes ending in `orders`, with prefixes drawn from
+   * `equalities`, jointly cover every field in `required`.
+   */
+  private isCovered(
+    req: IndexRequirement,
+    equalities: EqualityField[],
+    orders: OrderedField[],
+    required = equalities
+  ): boolean {
+    const covered = new Set<EqualityField>();
+    let matched = false;
+
+    for (const fields of this.compositeFields(req)) {
+      if (fields.length < orders.length) continue;
+      const split = fields.length - orders.length;
+      const suffix = fields.slice(split);
+      if (
+        !suffix.every(
+          (f, i) =>
+            !f.arrayConfig &&
+            f.fieldPath === orders[i].fieldPath &&
+            (f.order ?? 'ASCENDING') === orders[i].order
+        )
+      ) {
+        continue;
+      }
+
+      const prefix = fields
+        .slice(0, split)
+        .map((f) =>
+          equalities.find(
+            (e) =>
+              e.fieldPath === f.fieldPath &&
+              (e.kind === 'contains' ? !!f.arrayConfig : !f.arrayConfig)
+          )
+        );
+      if (prefix.some((e) => e === undefined)) continue;
+      if (prefix.length === 0 && equalities.length > 0) continue;
+
+      matched = true;
+      prefix.forEach((e) => covered.add(e as EqualityField));
+    }
+
+    return matched && required.every((e) => covered.has(e));
+  }
+
+  private hasVectorIndex(req: IndexRequirement): boolean {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const vector = req.vector!;
+    return this.compositeFields(req).some((fields) => {
+      const last = fields[fields.length - 1];
+      if (
+        !last?.vectorConfig ||
+        last.fieldPath !== vector.fieldPath ||
+        last.vectorConfig.dimension !== vector.dimension
+      ) {
+        return false;
+      }
+      const rest = fields.slice(0, -1);
+      const orderCount = req.orders.length;
+      const prefix = rest.slice(0, rest.length - orderCount);
+      const suffix = rest.slice(rest.length - orderCount);
+
+      return (
+        prefix.length === req.equalities.length &&
+        req.equalities.every((e) =>
+          prefix.some(
+            (f) =>
+              f.fieldPath === e.fieldPath &&
+              (e.kind === 'contains' ? !!f.arrayConfig : !f.arrayConfig)
+          )
+        ) &&
+        suffix.every(
+          (f, i) =>
+            f.fieldPath === req.orders[i].fieldPath &&
+            (f.order ?? 'ASCENDING') === req.orders[i].order
+        )
+      );
+    });
+  }
+
+  /**
+   * Fields of the composite indexes applicable to a requirement, without a
+   * trailing `__name__` entry.
+   */
+  private compositeFields(req: IndexRequirement): IndexFieldDefinition[][] {
+    return this._indexes
+      .filter(
+        (idx) =>
+          idx.collectionGroup === req.collectionGroup &&
+          (idx.queryScope ?? 'COLLECTION') === req.queryScope
+      )
+      .map((idx) => {
+        const fields = idx.fields;
+        return fields[fields.length - 1]?.fieldPath === NAME_SENTINEL
+          ? fields.slice(0, -1)
+          : fields;
+      });
+  }
+
+  /**
+   * Whether a single-field index of the given kind exists. An `undefined`
+   * order accepts either direction.
+   */
+  private hasSingleField(
+    req: IndexRequirement,
+    fieldPath: string,
+    kind: IndexOrder | 'CONTAINS' | undefined
+  ): boolean {
+    const indexes =
+      this._overrides.get(overrideKey(req.collectionGroup, fieldPath))
+        ?.indexes ?? DEFAULT_SINGLE_FIELD;
+
+    return indexes.some(
+      (i) =>
+        (i.queryScope ?? 'COLLECTION') === req.queryScope &&
+        (kind === 'CONTAINS'
+          ? i.arrayConfig === 'CONTAINS'
+          : !!i.order && (kind === undefined || i.order === kind))
+    );
+  }
+
+  private record(req: IndexRequirement, missing: MissingIndex): void {
+    if (missing.kind === 'single') {
+      const key = overrideKey(req.collectionGroup, missing.field.fieldPath);
+      const override = this._missingOverrides.get(key) ?? {
+        collectionGroup: req.collectionGroup,
+        fieldPath: missing.field.fieldPath,
+        indexes: [
+          ...(this._overrides.get(key)?.indexes ?? DEFAULT_SINGLE_FIELD),
+        ].map((i) => ({ ...i })),
+      };
+      const entry: FieldOverrideIndexDefinition = missing.field.arrayConfig
+        ? { arrayConfig: 'CONTAINS', queryScope: req.queryScope }
+        : {
+            order: missing.field.order ?? 'ASCENDING',
+            queryScope: req.queryScope,
+          };
+      if (
+        !override.indexes.some(
+          (i) =>
+            (i.queryScope ?? 'COLLECTION') === entry.queryScope &&
+            i.order === entry.order &&
+            i.arrayConfig === entry.arrayConfig
+        )
+      ) {
+        override.indexes.push(entry);
+      }
+      this._missingOverrides.set(key, override);
+      return;
+    }
+
+    const index: IndexDefinition = {
+      collectionGroup: req.collectionGroup,
+      queryScope: req.queryScope,
+      fields: missing.fields.map((f) => ({ ...f })),
+    };
+    this._missingIndexes.set(JSON.stringify(index), index);
+  }
+}
+
+function toIndexField(e: EqualityField): IndexFieldDefinition {
+  return e.kind === 'contains'
+    ? { fieldPath: e.fieldPath, arrayConfig: 'CONTAINS' }
+    : { fieldPath: e.fieldPath, order: 'ASCENDING' };
+}
+
+function overrideKey(collectionGroup: string, fieldPath: string): string {
+  return `${collectionGroup}\u0000${fieldPath}`;
+}
+
+/**
+ * Parses and shape-checks `firestore.indexes.json` content.
+ *
+ * @throws {Error} If the content is not valid JSON or not a valid index config.
+ */
+function parseIndexesConfig(
+  definitions: FirestoreIndexesConfig | string
+): FirestoreIndexesConfig {
+  let config: unknown = definitions;
+  if (typeof definitions === 'string') {
+    try {
+      config = JSON.parse(definitions);
+    } catch (e) {
+      throw new Error(
+        `Invalid index definitions: ${(e as Error).message ?? String(e)}`
+      );
+    }
+  }
+
+  const fail = (detail: string): never => {
+    throw new Error(`Invalid index definitions: ${detail}`);
+  };
+  const { indexes, fieldOverrides } = (config ?? {}) as FirestoreIndexesConfig;
+  if (typeof config !== 'object' || config === null) {
+    fail('expected an object.');
+  }
+  if (indexes !== undefined && !Array.isArray(indexes)) {
+    fail('"indexes" must be an array.');
+  }
+  if (fieldOverrides !== undefined && !Array.isArray(fieldOverrides)) {
+    fail('"fieldOverrides" must be an array.');
+  }
+  indexes?.forEach((idx, i) => {
+    if (typeof idx?.collectionGroup !== 'string') {
+      fail(`indexes[${i}].collectionGroup must be a string.`);
+    }
+    if (!Array.isArray(idx.fields) || idx.fields.length === 0) {
+      fail(`indexes[${i}].fields must be a non-empty array.`);
+    }
+    idx.fields.forEach((f, j) => {
+      if (typeof f?.fieldPath !== 'string') {
+        fail(`indexes[${i}].fields[${j}].fieldPath must be a string.`);
+      }
+    });
+  });
+  fieldOverrides?.forEach((o, i) => {
+    if (
+      typeof o?.collectionGroup !== 'string' ||
+      typeof o.fieldPath !== 'string'
+    ) {
+      fail(
+        `fieldOverrides[${i}] must declare a collectionGroup and fieldPath.`
+      );
+    }
+  });
+
+  return config as FirestoreIndexesConfig;
+}
@@ -0,0 +1,198 @@
+import type { google } from '@gcf/firestore-protos';
+import type { IndexOrder, IndexQueryScope } from '../../indexes.js';
+import { NAME_SENTINEL } from '../mock-gapic-client/utils/types.js';
+
+/**
+ * A field constrained by equality. `'value'` covers `==`, `IN`, `IS_NULL` and
+ * `IS_NAN`; `'contains'` covers `ARRAY_CONTAINS` and `ARRAY_CONTAINS_ANY`.
+ */
+export interface EqualityField {
+  fieldPath: string;
+  kind: 'value' | 'contains';
+}
+
+/**
+ * A field the index must deliver in order (explicit `orderBy` plus implicit
+ * inequality ordering), excluding the trailing `__name__`.
+ */
+export interface OrderedField {
+  fieldPath: string;
+  order: IndexOrder;
+}
+
+/**
+ * The index shape one conjunction of a query needs in order to be served.
+ */
+export interface IndexRequirement {
+  collectionGroup: string;
+  queryScope: IndexQueryScope;
+  equalities: EqualityField[];
+  orders: OrderedField[];
+  /** Direction of the implicit trailing `__name__` ordering. */
+  nameOrder: IndexOrder;
+  /** Present for `findNearest` queries. */
+  vector?: { fieldPath: string; dimension: number };
+}
+
+type Filter = google.firestore.v1.StructuredQuery.IFilter;
+
+interface Atom {
+  fieldPath: string;
+  kind: 'value' | 'contains' | 'inequality';
+}
+
+/**
+ * Derives the index requirements of a structured query.
+ *
+ * Disjunctions are expanded to disjunctive normal form and each conjunction
+ * yields its own requirement, mirroring how production plans `OR` queries.
+ *
+ * @param query - A structured query that has already passed validation.
+ * @returns One requirement per conjunction, or an empty array when the query
+ *   has no collection id.
+ */
+export function deriveIndexRequirements(
+  query: google.firestore.v1.IStructuredQuery
+): IndexRequirement[] {
+  const from = query.from?.[0];
+  const collectionGroup = from?.collectionId;
+  if (!collectionGroup) return [];
+
+  const queryScope: IndexQueryScope = from.allDescendants
+    ? 'COLLECTION_GROUP'
+    : 'COLLECTION';
+  const conjunctions = toDnf(query.where);
+
+  const inequalityFields = [
+    ...new Set(
+      conjunctions
+        .flat()
+        .filter((a) => a.kind === 'inequality')
+        .map((a) => a.fieldPath)
+    ),
+  ].sort();
+  const { orders, nameOrder } = effectiveOrders(
+    query.orderBy ?? [],
+    inequalityFields
+  );
+  const vector = query.findNearest
+    ? {
+        fieldPath: query.findNearest.vectorField?.fieldPath ?? '',
+        dimension: vectorDimension(query.findNearest.queryVector),
+      }
+    : undefined;
+
+  return conjunctions.map((atoms) => {
+    const ordered = new Set(orders.map((o) => o.fieldPath));
+    const equalities = new Map<string, EqualityField>();
+    for (const atom of atoms) {
+      if (atom.kind === 'inequality' || atom.fieldPath === NAME_SENTINEL) {
+        continue;
+      }
+      if (atom.kind === 'value' && ordered.has(atom.fieldPath)) continue;
+      const key = `${atom.kind}:${atom.fieldPath}`;
+      equalities.set(key, { fieldPath: atom.fieldPath, kind: atom.kind });
+    }
+
+    return {
+      collectionGroup,
+      queryScope,
+      equalities: [...equalities.values()].sort((a, b) =>
+        a.fieldPath < b.fieldPath ? -1 : a.fieldPath > b.fieldPath ? 1 : 0
+      ),
+      orders,
+      nameOrder,
+      vector,
+    };
+  });
+}
+
+function toDnf(filter: Filter | null | undefined): Atom[][] {
+  if (!filter) return [[]];
+
+  if (filter.compositeFilter) {
+    const children = (filter.compositeFilter.filters ?? []).map(toDnf);
+    if (filter.compositeFilter.op === 'OR') return children.flat();
+
+    return children.reduce<Atom[][]>(
+      (acc, child) => acc.flatMap((left) => child.map((r) => [...left, ...r])),
+      [[]]
+    );
+  }
+
+  if (filter.fieldFilter) {
+    const fieldPath = filter.fieldFilter.field?.fieldPath ?? '';
+    switch (filter.fieldFilter.op) {
+      case 'EQUAL':
+      case 'IN':
+        return [[{ fieldPath, kind: 'value' }]];
+      case 'ARRAY_CONTAINS':
+      case 'ARRAY_CONTAINS_ANY':
+        return [[{ fieldPath, kind: 'contains' }]];
+      default:
+        return [[{ fieldPath, kind: 'inequality' }]];
+    }
+  }
+
+  if (filter.unaryFilter) {
+    const fieldPath = filter.unaryFilter.field?.fieldPath ?? '';
+    const op = filter.unaryFilter.op;
+    return [
+      [
+        {
+          fieldPath,
+          kind: op === 'IS_NAN' || op === 'IS_NULL' ? 'value' : 'inequality',
+        },
+      ],
+    ];
+  }
+
+  return [[]];
+}
+
+/**
+ * Applies the server's implicit ordering rules (missing inequality fields
+ * appended in lexicographic order, direction inheritance) and splits off the
+ * trailing `__name__`.
+ */
+function effectiveOrders(
+  orderBy: google.firestore.v1.StructuredQuery.IOrder[],
+  inequalityFields: string[]
+): { orders: OrderedField[]; nameOrder: IndexOrder } {
+  const paths = orderBy.map((o) => ({
+    fieldPath: o.field?.fieldPath ?? '',
+    direction: o.direction,
+  }));
+  const present = new Set(paths.map((p) => p.fieldPath));
+  for (const f of inequalityFields) {
+    if (!present.has(f)) paths.push({ fieldPath: f, direction: undefined });
+  }
+
+  let current: IndexOrder = 'ASCENDING';
+  const orders: OrderedField[] = [];
+  for (const p of paths) {
+    if (p.direction === 'ASCENDING' || p.direction === 'DESCENDING') {
+      current = p.direction;
+    }
+    orders.push({ fieldPath: p.fieldPath, order: current });
+  }
+
+  let nameOrder = current;
+  if (orders[orders.length - 1]?.fieldPath === NAME_SENTINEL) {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    nameOrder = orders.pop()!.order;
+  }
+
+  return { orders, nameOrder };
+}
+
+function vectorDimension(
+  value: google.firestore.v1.IValue | null | undefined
+): number {
+  const fields = value?.mapValue?.fields;
+  return (
+    fields?.['value']?.arrayValue?.values?.length ??
+    value?.arrayValue?.values?.length ??
+    0
+  );
+}
@@ -0,0 +1,313 @@
+/**
+ * The inspector's single page: a database browser and editor, plus live views
+ * of the change journal, stats, listen targets and transactions, all read
+ * through the inspector's JSON API.
+ *
+ * Self-contained (no external scripts or styles), so it works offline.
+ */
+export const INSPECTOR_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Firestore Mock Inspector</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.4 system-ui, sans-serif; color: #202124; background: #f8f9fa; }
+  header { display: flex; gap: 12px; align-items: center; padding: 8px 16px; background: #1a73e8; color: #fff; }
+  header h1 { font-size: 15px; margin: 0 auto 0 0; }
+  header select, header button { font: inherit; }
+  nav { display: flex; gap: 4px; padding: 8px 16px 0; border-bottom: 1px solid #dadce0; background: #fff; }
+  nav button { border: none; background: none; padding: 6px 12px; cursor: pointer; font: inherit; border-bottom: 2px solid transparent; }
+  nav button.active { border-bottom-color: #1a73e8; color: #1a73e8; }
+  main { padding: 12px 16px; }
+  .hidden { display: none !important; }
+  .path { display: flex; gap: 8px; margin-bottom: 8px; }
+  .path input { flex: 1; font: 13px monospace; padding: 4px 6px; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr 2fr; gap: 8px; min-height: 60vh; }
+  .column { background: #fff; border: 1px solid #dadce0; border-radius: 4px; overflow: auto; max-height: 75vh; }
+  .column h2 { font-size: 12px; margin: 0; padding: 6px 8px; border-bottom: 1px solid #dadce0; background: #f1f3f4; display: flex; gap: 8px; align-items: center; }
+  .column h2 span { margin-right: auto; font-family: monospace; }
+  .column ul { list-style: none; margin: 0; padding: 0; }
+  .column li { padding: 4px 8px; cursor: pointer; font-family: monospace; }
+  .column li:hover { background: #e8f0fe; }
+  .column li.selected { background: #d2e3fc; }
+  .column li.missing { font-style: italic; color: #80868b; }
+  .editor { padding: 8px; }
+  .editor textarea { width: 100%; min-height: 40vh; font: 12px monospace; }
+  .meta { color: #5f6368; font-size: 12px; margin-bottom: 6px; }
+  .error { color: #d93025; white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { border: 1px solid #dadce0; padding: 4px 6px; text-align: left; vertical-align: top; font-size: 12px; }
+  td code { white-space: pre-wrap; word-break: break-all; }
+  pre { background: #fff; border: 1px solid #dadce0; padding: 8px; overflow: auto; }
+  .live { font-size: 12px; opacity: 0.8; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Firestore Mock Inspector</h1>
+  <span class="live" id="live">connecting…</span>
+  <select id="database" title="Database"></select>
+  <button id="resume" title="Close the inspector and resume the paused test">Resume test</button>
+</header>
+<nav>
+  <button data-tab="data" class="active">Data</button>
+  <button data-tab="changes">Changes</button>
+  <button data-tab="stats">Stats</button>
+  <button data-tab="listeners">Listeners</button>
+  <button data-tab="transactions">Transactions</button>
+</nav>
+<main>
+  <section id="tab-data">
+    <form class="path" id="goto">
+      <input id="path" placeholder="Collection or document path, e.g. users/ada" autocomplete="off">
+      <button type="submit">Go</button>
+    </form>
+    <div class="columns">
+      <div class="column"><h2><span id="parent-title">(root)</span></h2><ul id="collections"></ul></div>
+      <div class="column"><h2><span id="collection-title">–</span><button id="add" disabled>Add document</button></h2><ul id="documents"></ul></div>
+      <div class="column"><h2><span id="document-title">–</span></h2>
+        <div class="editor hidden" id="editor">
+          <div class="meta" id="document-meta"></div>
+          <textarea id="document-data" spellcheck="false"></textarea>
+          <div><button id="save">Save</button> <button id="delete">Delete</button></div>
+          <div class="error" id="document-error"></div>
+          <h3>Subcollections</h3>
+          <ul id="subcollections"></ul>
+        </div>
+      </div>
+    </div>
+  </section>
+  <section id="tab-changes" class="hidden">
+    <table><thead><tr><th>Version</th><th>Time</th><th>Kind</th><th>Path</th><th>Before</th><th>After</th></tr></thead><tbody id="changes"></tbody></table>
+  </section>
+  <section id="tab-stats" class="hidden"><pre id="stats"></pre></section>
+  <section id="tab-listeners" class="hidden">
+    <table><thead><tr><th>Target</th><th>Type</th><th>Listens to</th><th>Client</th><th>Documents</th><th>Read time</th></tr></thead><tbody id="listeners"></tbody></table>
+  </section>
+  <section id="tab-transactions" class="hidden">
+    <table><thead><tr><th>ID</th><th>Status</th><th>Retries</th><th>Wounded</th><th>Lock waits</th><th>Expired</th></tr></thead><tbody id="transactions"></tbody></table>
+  </section>
+</main>
+<script>
+(function () {
+  'use strict';
+  var $ = function (id) { return document.getElementById(id); };
+  var state = { db: null, tab: 'data', parent: '', collection: null, document: null, version: undefined, events: null };
+
+  function api(path, init) {
+    return fetch('/api/' + path, init).then(function (res) {
+      return res.json().then(function (body) {
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        return body;
+      });
+    });
+  }
+  function dbPath(resource, params) {
+    var query = new URLSearchParams(params || {}).toString();
+    return 'databases/' + encodeURIComponent(state.db.projectId) + '/' +
+      encodeURIComponent(state.db.databaseId) + '/' + resource + (query ? '?' + query : '');
+  }
+  function el(tag, text, className) {
+    var node = document.createElement(tag);
+    if (text !== undefined) node.textContent = text;
+    if (className) node.className = className;
+    return node;
+  }
+  function row(cells) {
+    var tr = el('tr');
+    cells.forEach(function (cell) {
+      var td = el('td');
+      if (cell && typeof cell === 'object') td.appendChild(el('code', JSON.stringify(cell)));
+      else td.textContent = cell === undefined ? '' : String(cell);
+      tr.appendChild(td);
+    });
+    return tr;
+  }
+  function fill(list, items) {
+    list.replaceChildren.apply(list, items);
+  }
+  function isDocumentPath(path) {
+    return path.split('/').filter(Boolean).length % 2 === 0;
+  }
+  function parentOf(path) {
+    return path.split('/').slice(0, -1).join('/');
+  }
+
+  // Data
+  function showCollections() {
+    $('parent-title').textContent = state.parent || '(root)';
+    return api(dbPath('collections', { document: state.parent })).then(function (body) {
+      fill($('collections'), body.collections.map(function (id) {
+        var path = state.parent ? state.parent + '/' + id : id;
+        var li = el('li', id, path === state.collection ? 'selected' : '');
+        li.onclick = function () { openCollection(path); };
+        return li;
+      }));
+    });
+  }
+  function showDocuments() {
+    $('collection-title').textContent = state.collection || '–';
+    $('add').disabled = !state.collection;
+    if (!state.collection) { fill($('documents'), []); return Promise.resolve(); }
+    return api(dbPath('documents', { collection: state.collection })).then(function (docs) {
+      fill($('documents'), docs.map(function (doc) {
+        var cls = (doc.exists ? '' : 'missing ') + (doc.path === state.document ? 'selected' : '');
+        var li = el('li', doc.id, cls);
+        li.onclick = function () { openDocument(doc.path); };
+        return li;
+      }));
+    });
+  }
+  function showDocument() {
+    $('document-title').textContent = state.document || '–';
+    $('editor').classList.toggle('hidden', !state.document);
+    $('document-error').textContent = '';
+    if (!state.document) return Promise.resolve();
+    return api(dbPath('document', { path: state.document })).then(function (doc) {
+      $('document-meta').textContent = doc.exists
+        ? 'Created ' + doc.createTime + ' · updated ' + doc.updateTime
+        : 'Missing document — save to create it';
+      $('document-data').value = JSON.stringify(doc.data || {}, null, 2);
+      fill($('subcollections'), doc.collections.map(function (id) {
+        var li = el('li', id);
+        var path = state.document + '/' + id;
+        li.onclick = function () { openCollection(path); };
+        return li;
+      }));
+    });
+  }
+  function showData() {
+    $('path').value = state.document || state.collection || '';
+    return Promise.all([showCollections(), showDocuments(), showDocument()]).catch(report);
+  }
+  function openCollection(path) {
+    state.parent = parentOf(path);
+    state.collection = path;
+    state.document = null;
+    showData();
+  }
+  function openDocument(path) {
+    state.collection = parentOf(path);
+    state.parent = parentOf(state.collection);
+    state.document = path;
+    showData();
+  }
+  function report(error) {
+    $('document-error').textContent = error.message;
+    $('editor').classList.remove('hidden');
+  }
+
+  $('goto').onsubmit = function (event) {
+    event.preventDefault();
+    var path = $('path').value.trim().replace(/^\\/+|\\/+$/g, '');
+    if (!path) { state.parent = ''; state.collection = null; state.document = null; showData(); }
+    else if (isDocumentPath(path)) openDocument(path);
+    else openCollection(path);
+  };
+  $('add').onclick = function () {
+    var id = prompt('Document ID');
+    if (id) openDocument(state.collection + '/' + id);
+  };
+  $('save').onclick = function () {
+    var data;
+    try { data = JSON.parse($('document-data').value); } catch (e) { report(e); return; }
+    api(dbPath('document', { path: state.document }), {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ data: data })
+    }).then(showData, report);
+  };
+  $('delete').onclick = function () {
+    if (!confirm('Delete ' + state.document + '?')) return;
+    api(dbPath('document', { path: state.document }), { method: 'DELETE' }).then(showData, report);
+  };
+
+  // Changes, stats, listeners and transactions
+  function addChanges(records) {
+    var body = $('changes');
+    records.forEach(function (r) {
+      state.version = r.version;
+      body.insertBefore(row([r.version, r.serverTime, r.kind, r.path, r.before, r.after]), body.firstChild);
+    });
+  }
+  function showListeners() {
+    return api(dbPath('listeners')).then(function (targets) {
+      fill($('listeners'), targets.map(function (t) {
+        return row([t.targetId, t.type, t.query || (t.documents || []).join(', '), t.client ? 'yes' : 'no', t.documentCount, t.readTime]);
+      }));
+    });
+  }
+  function showTransactions() {
+    return api(dbPath('transactions')).then(function (records) {
+      fill($('transactions'), records.slice().reverse().map(function (t) {
+        return row([t.id, t.status, t.retries, t.wounded, t.lockWaits, t.expired]);
+      }));
+    });
+  }
+  function refresh() {
+    if (!state.db) return;
+    if (state.tab === 'listeners') showListeners();
+    if (state.tab === 'transactions') showTransactions();
+  }
+  setInterval(refresh, 1000);
+
+  function connect() {
+    if (state.events) state.events.close();
+    $('changes').replaceChildren();
+    state.version = undefined;
+    api(dbPath('changes')).then(addChanges);
+    var events = state.events = new EventSource('/api/' + dbPath('events'));
+    events.onopen = function () { $('live').textContent = 'live'; };
+    events.onerror = function () { $('live').textContent = 'disconnected'; };
+    events.addEventListener('stats', function (event) {
+      $('stats').textContent = JSON.stringify(JSON.parse(event.data), null, 2);
+    });
+    events.addEventListener('change', function (event) {
+      addChanges([JSON.parse(event.data)]);
+    });
+    events.addEventListener('lifecycle', function (event) {
+      var arg = JSON.parse(event.data);
+      if (arg.type !== 'delete') $('changes').replaceChildren();
+      if (state.tab === 'data') showData();
+    });
+  }
+  function selectDatabase(db) {
+    state.db = db;
+    state.parent = '';
+    state.collection = null;
+    state.document = null;
+    connect();
+    showData();
+  }
+
+  document.querySelectorAll('nav button').forEach(function (button) {
+    button.onclick = function () {
+      state.tab = button.getAttribute('data-tab');
+      document.querySelectorAll('nav button').forEach(function (b) { b.classList.toggle('active', b === button); });
+      document.querySelectorAll('main > section').forEach(function (s) { s.classList.toggle('hidden', s.id !== 'tab-' + state.tab); });
+      if (state.tab === 'data') showData();
+      refresh();
+    };
+  });
+  $('resume').onclick = function () {
+    api('close', { method: 'POST' }).then(function () {
+      if (state.events) state.events.close();
+      $('live').textContent = 'closed';
+    });
+  };
+
+  api('databases').then(function (databases) {
+    var select = $('database');
+    fill(select, databases.map(function (db) {
+      return el('option', db.projectId + ' / ' + db.databaseId);
+    }));
+    select.onchange = function () { selectDatabase(databases[select.selectedIndex]); };
+    if (databases.length) selectDatabase(databases[0]);
+    else $('live').textContent = 'no databases';
+  });
+})();
+</script>
+</body>
+</html>
+`;
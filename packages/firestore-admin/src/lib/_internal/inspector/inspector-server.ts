@@ -0,0 +1,432 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { ChangeRecord } from '../../change-journal.js';
+import type { FirestoreController } from '../../controller.js';
+import type { InspectorOptions, MockInspector } from '../../inspector.js';
+import type { TypedJSONObject } from '../../typed-json.js';
+import type { MetaDocument } from '../data-accessor.js';
+import { decodeTypedJSON, encodeTypedJSON } from '../functions/typed-json.js';
+import { isPlainObject } from '../functions/util.js';
+import { INSPECTOR_PAGE } from './inspector-page.js';
+
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+/**
+ * A request the inspector cannot serve, answered with `status`.
+ */
+class InspectorRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Starts an inspector server over the databases of a mock environment.
+ *
+ * @param databases Lists the environment's databases.
+ * @param options Where to listen.
+ * @throws {Error} If an option is malformed, or the port cannot be bound.
+ */
+export async function startInspector(
+  databases: () => FirestoreController[],
+  options?: InspectorOptions
+): Promise<MockInspector> {
+  const port = options?.port ?? 0;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(
+      'Invalid inspector options: port must be an integer from 0 to 65535.'
+    );
+  }
+  const host = options?.host ?? DEFAULT_HOST;
+
+  const inspector = new InspectorServer(databases);
+  await inspector.listen(port, host);
+
+  return inspector;
+}
+
+/**
+ * Serves the inspector page and the JSON API it reads and edits the databases
+ * through:
+ *
+ * - `GET /api/databases` – the environment's databases.
+ * - `GET /api/databases/{project}/{database}/collections?document=` – the
+ *   collection IDs under a document (`''` for the root).
+ * - `GET …/documents?collection=` – the documents of a collection, missing
+ *   documents with subcollections included.
+ * - `GET | PUT | DELETE …/document?path=` – a document, in typed JSON;
+ *   `PUT` takes `{ data }`.
+ * - `GET …/changes?sinceVersion=`, `…/stats`, `…/listeners`,
+ *   `…/transactions` – the change journal, stats, listen targets and
+ *   transaction records.
+ * - `GET …/events` – server-sent `stats`, `change` and `lifecycle` events.
+ * - `POST /api/close` – closes the inspector.
+ */
+class InspectorServer implements MockInspector {
+  private readonly _server: Server;
+  private readonly _events = new Set<ServerResponse>();
+  private readonly _firestores = new Map<FirestoreController, Firestore>();
+  private _url = '';
+  private _closing: Promise<void> | undefined;
+  private _resolveClosed!: () => void;
+
+  readonly closed = new Promise<void>((resolve) => {
+    this._resolveClosed = resolve;
+  });
+
+  constructor(private readonly _databases: () => FirestoreController[]) {
+    this._server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.fail(res, error));
+    });
+  }
+
+  get url(): string {
+    return this._url;
+  }
+
+  listen(port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._server.once('error', reject);
+      this._server.listen(port, host, () => {
+        this._server.off('error', reject);
+        const address = this._server.address() as AddressInfo;
+        const hostname = address.family === 'IPv6' ? `[${host}]` : host;
+        this._url = `http://${hostname}:${address.port}/`;
+        resolve();
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    if (!this._closing) {
+      this._closing = this.shutdown();
+    }
+    return this._closing;
+  }
+
+  private async shutdown(): Promise<void> {
+    this._events.forEach((res) => res.end());
+    this._events.clear();
+    const closing = new Promise<void>((resolve) =>
+      this._server.close(() => resolve())
+    );
+    this._server.closeAllConnections();
+    await closing;
+    const firestores = Array.from(this._firestores.values());
+    this._firestores.clear();
+    await Promise.all(firestores.map((firestore) => firestore.terminate()));
+    this._resolveClosed();
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', this._url);
+    const method = req.method ?? 'GET';
+    if (method !== 'GET' && req.headers.origin !== undefined) {
+      // Pages of other sites may not change the databases
+      if (`${req.headers.origin}/` !== this._url) {
+        throw new InspectorRequestError(403, 'Cross-origin request refused.');
+      }
+    }
+
+    const segments = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map((s) => decodeURIComponent(s));
+    if (segments.length === 0 && method === 'GET') {
+      res.writeHead(200, {
+        'content-type': 'text/html; charset=utf-8',
+        'cache-control': 'no-store',
+      });
+      res.end(INSPECTOR_PAGE);
+      return;
+    }
+    if (segments[0] !== 'api') {
+      throw new InspectorRequestError(404, `Not found: ${url.pathname}`);
+    }
+
+    const [, scope, projectId, databaseId, resource] = segments;
+    if (scope === 'close' && segments.length === 2) {
+      assertMethod(method, 'POST');
+      this.send(res, 200, { closed: true });
+      res.on('finish', () => void this.close());
+      return;
+    }
+    if (scope !== 'databases' || segments.length === 3) {
+      throw new InspectorRequestError(404, `Not found: ${url.pathname}`);
+    }
+    if (segments.length === 2) {
+      assertMethod(method, 'GET');
+      this.send(res, 200, this.listDatabases());
+      return;
+    }
+    if (segments.length !== 5) {
+      throw new InspectorRequestError(404, `Not found: ${url.pathname}`);
+    }
+
+    const ctrl = this.getDatabase(projectId, databaseId);
+    const params = url.searchParams;
+    switch (resource) {
+      case 'collections':
+        assertMethod(method, 'GET');
+        this.send(res, 200, {
+          collections: ctrl.database
+            .listCollectionIds(params.get('document') ?? '')
+            .sort(),
+        });
+        return;
+      case 'documents':
+        assertMethod(method, 'GET');
+        this.send(
+          res,
+          200,
+          ctrl.database
+            .listDocuments(requireParam(params, 'collection'), true)
+            .map((doc) => ({ id: doc.id, path: doc.path, exists: doc.exists }))
+        );
+        return;
+      case 'document':
+        await this.handleDocument(ctrl, method, req, res, params);
+        return;
+      case 'changes':
+        assertMethod(method, 'GET');
+        this.send(
+          res,
+          200,
+          ctrl.database
+            .changes({ sinceVersion: optionalInteger(params, 'sinceVersion') })
+            .map(encodeChange)
+        );
+        return;
+      case 'stats':
+        assertMethod(method, 'GET');
+        this.send(res, 200, ctrl.getStats());
+        return;
+      case 'listeners':
+        assertMethod(method, 'GET');
+        this.send(res, 200, ctrl.listenTargets());
+        return;
+      case 'transactions':
+        assertMethod(method, 'GET');
+        this.send(res, 200, ctrl.transactionRecords());
+        return;
+      case 'events':
+        assertMethod(method, 'GET');
+        this.openEvents(ctrl, res);
+        return;
+      default:
+        throw new InspectorRequestError(404, `Not found: ${url.pathname}`);
+    }
+  }
+
+  private async handleDocument(
+    ctrl: FirestoreController,
+    method: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams
+  ): Promise<void> {
+    const path = requireParam(params, 'path');
+    switch (method) {
+      case 'GET':
+        this.send(res, 200, {
+          ...encodeDocument(ctrl.database.getDocument(path)),
+          collections: ctrl.database.listCollectionIds(path).sort(),
+        });
+        return;
+      case 'PUT': {
+        const body = await readJSON(req);
+        if (!isPlainObject(body) || !isPlainObject(body.data)) {
+          throw new InspectorRequestError(
+            400,
+            'The request body must be an object with a "data" object.'
+          );
+        }
+        const data = decodeTypedJSON(body.data as TypedJSONObject, () =>
+          this.firestoreOf(ctrl)
+        );
+        this.send(
+          res,
+          200,
+          encodeDocument(ctrl.database.setDocument(path, data))
+        );
+        return;
+      }
+      case 'DELETE':
+        this.send(res, 200, encodeDocument(ctrl.database.deleteDocument(path)));
+        return;
+      default:
+        throw new InspectorRequestError(405, `Method ${method} not allowed.`);
+    }
+  }
+
+  private openEvents(ctrl: FirestoreController, res: ServerResponse): void {
+    res.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-store',
+      connection: 'keep-alive',
+    });
+    this._events.add(res);
+
+    const emit = (event: string, data: unknown): void => {
+      res.write(`event: ${event}\ndata: ${stringify(data)}\n\n`);
+    };
+    const subscriptions = [
+      ctrl.watchStats((stats) => emit('stats', stats)),
+      ctrl.database.watchChanges((record) =>
+        emit('change', encodeChange(record))
+      ),
+      ctrl.watchLifecycle(({ type, epoch }) => {
+        emit('lifecycle', { type, epoch });
+        if (type === 'delete') res.end();
+      }),
+    ];
+    res.on('close', () => {
+      this._events.delete(res);
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+    });
+  }
+
+  private listDatabases(): unknown[] {
+    return this._databases()
+      .filter((ctrl) => ctrl.exists())
+      .map((ctrl) => ({
+        projectId: ctrl.projectId,
+        databaseId: ctrl.databaseId,
+        location: ctrl.location,
+        epoch: ctrl.epoch(),
+        version: ctrl.version(),
+      }));
+  }
+
+  private getDatabase(
+    projectId: string,
+    databaseId: string
+  ): FirestoreController {
+    const ctrl = this._databases().find(
+      (c) =>
+        c.projectId === projectId && c.databaseId === databaseId && c.exists()
+    );
+    if (!ctrl) {
+      throw new InspectorRequestError(
+        404,
+        `Database ${projectId}/${databaseId} not found.`
+      );
+    }
+    return ctrl;
+  }
+
+  /**
+   * A Firestore instance of the database, for the references of edited
+   * documents; terminated when the inspector closes.
+   */
+  private firestoreOf(ctrl: FirestoreController): Firestore {
+    let firestore = this._firestores.get(ctrl);
+    if (!firestore) {
+      firestore = ctrl.firestore();
+      this._firestores.set(ctrl, firestore);
+    }
+    return firestore;
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {
+      'content-type': 'application/json; charset=utf-8',
+      'cache-control': 'no-store',
+    });
+    res.end(stringify(body));
+  }
+
+  private fail(res: ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    // Other errors come from applying the request, e.g. an invalid path or value
+    const status = error instanceof InspectorRequestError ? error.status : 400;
+    const message = error instanceof Error ? error.message : String(error);
+    this.send(res, status, { error: message });
+  }
+}
+
+function assertMethod(method: string, expected: string): void {
+  if (method !== expected) {
+    throw new InspectorRequestError(405, `Method ${method} not allowed.`);
+  }
+}
+
+function requireParam(params: URLSearchParams, name: string): string {
+  const value = params.get(name);
+  if (!value) {
+    throw new InspectorRequestError(400, `Missing query parameter "${name}".`);
+  }
+  return value;
+}
+
+function optionalInteger(
+  params: URLSearchParams,
+  name: string
+): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n)) {
+    throw new InspectorRequestError(
+      400,
+      `Query parameter "${name}" must be an integer.`
+    );
+  }
+  return n;
+}
+
+async function readJSON(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new InspectorRequestError(413, 'The request body is too large.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new InspectorRequestError(400, 'The request body is not valid JSON.');
+  }
+}
+
+function encodeDocument(doc: MetaDocument): Record<string, unknown> {
+  return {
+    path: doc.path,
+    exists: doc.exists,
+    createTime: doc.createTime,
+    updateTime: doc.exists ? doc.updateTime : undefined,
+    data: doc.data ? encodeTypedJSON(doc.data) : undefined,
+  };
+}
+
+function encodeChange(record: ChangeRecord): unknown {
+  return {
+    epoch: record.epoch,
+    version: record.version,
+    serverTime: record.serverTime,
+    path: record.path,
+    kind: record.kind,
+    before: record.before ? encodeTypedJSON(record.before) : undefined,
+    after: record.after ? encodeTypedJSON(record.after) : undefined,
+  };
+}
+
+/**
+ * Serializes a response body, writing timestamps as ISO 8601 strings.
+ */
+function stringify(body: unknown): string {
+  return JSON.stringify(body, (_key, value: unknown) =>
+    value instanceof Timestamp ? value.toDate().toISOString() : value
+  );
+}
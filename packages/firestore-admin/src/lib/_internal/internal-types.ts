@@ -1,3 +1,5 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type DocumentFieldValue = any;
 
@@ -10,3 +12,12 @@ export const DEFAULT_PROJECT_ID = 'default-project';
 export const DEFAULT_LOCATION = 'nam5';
 
 export const DEFAULT_NAMESPACE = '(default)';
+
+/**
+ * The end-user identity bound to a client-identity `Firestore` instance.
+ * Requests issued through such an instance are subject to Security Rules.
+ */
+export interface ClientIdentity {
+  /** The caller's decoded ID token, or `null` for an unauthenticated client. */
+  readonly auth: DecodedIdToken | null;
+}
@@ -0,0 +1,96 @@
+import type { FaultRpc } from '../../faults.js';
+import type { LatencyOptions, LatencySpec } from '../../latency.js';
+import { seededRandom } from '../functions/seeded-random.js';
+
+/**
+ * Samples per-RPC response latencies for a database from its
+ * {@link LatencyOptions}.
+ */
+export class LatencyModel {
+  private readonly _random: () => number;
+
+  private constructor(private readonly _options: LatencyOptions) {
+    this._random = seededRandom(_options.seed ?? 0);
+  }
+
+  /**
+   * Validates `options` and creates a model for them.
+   *
+   * @throws {Error} If a latency is malformed.
+   */
+  static create(options: LatencyOptions): LatencyModel {
+    if (options?.default !== undefined) {
+      assertValidSpec(options.default, 'default');
+    }
+    for (const [rpc, spec] of Object.entries(options?.rpcs ?? {})) {
+      assertValidSpec(spec, rpc);
+    }
+
+    return new LatencyModel({
+      ...options,
+      rpcs: { ...options?.rpcs },
+    });
+  }
+
+  /**
+   * Draws the latency, in milliseconds, of the next response to `rpc`. Calls
+   * that are not RPCs (e.g. `getProjectId`) use the default latency.
+   */
+  delay(rpc?: FaultRpc): number {
+    const spec =
+      (rpc && this._options.rpcs?.[rpc]) ?? this._options.default ?? 0;
+    if (typeof spec === 'number') return spec;
+
+    switch (spec.type) {
+      case 'fixed':
+        return spec.ms;
+      case 'range':
+        return spec.min + this._random() * (spec.max - spec.min);
+      case 'normal': {
+        // Box–Muller; 1 - u keeps the logarithm's argument in (0, 1]
+        const u = 1 - this._random();
+        const v = this._random();
+        const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+        const ms = spec.mean + z * spec.stddev;
+        return Math.min(Math.max(ms, spec.min ?? 0), spec.max ?? Infinity);
+      }
+    }
+  }
+}
+
+function assertValidSpec(spec: LatencySpec, key: string): void {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid latency for ${key}: ${reason}`);
+  };
+  const isDelay = (ms: unknown): boolean =>
+    typeof ms === 'number' && ms >= 0 && Number.isFinite(ms);
+
+  if (typeof spec === 'number') {
+    if (!isDelay(spec)) fail('must be a non-negative number of milliseconds.');
+    return;
+  }
+  switch (spec?.type) {
+    case 'fixed':
+      if (!isDelay(spec.ms)) fail('ms must be a non-negative number.');
+      return;
+    case 'range':
+      if (!isDelay(spec.min) || !isDelay(spec.max) || spec.min > spec.max) {
+        fail('min and max must be non-negative numbers with min <= max.');
+      }
+      return;
+    case 'normal':
+      if (!isDelay(spec.mean) || !isDelay(spec.stddev)) {
+        fail('mean and stddev must be non-negative numbers.');
+      }
+      if (
+        (spec.min !== undefined && !isDelay(spec.min)) ||
+        (spec.max !== undefined && !isDelay(spec.max)) ||
+        (spec.min ?? 0) > (spec.max ?? Infinity)
+      ) {
+        fail('min and max must be non-negative numbers with min <= max.');
+      }
+      return;
+    default:
+      fail(`unknown latency type "${(spec as { type?: unknown })?.type}".`);
+  }
+}
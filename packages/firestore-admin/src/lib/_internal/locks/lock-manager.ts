@@ -0,0 +1,227 @@
+import { Status } from 'google-gax';
+import type { ConcurrencyOptions } from '../../concurrency.js';
+import type { Scheduler, TimerHandle } from '../../scheduler.js';
+import { googleError } from '../functions/google-error.js';
+
+const DEFAULT_LOCK_TIMEOUT_MILLIS = 10_000;
+
+/**
+ * The error message of operations in a transaction wounded by an older one.
+ */
+export const WOUNDED_MESSAGE =
+  'Aborted due to cross-transaction contention. This occurs when multiple transactions attempt to access the same data, requiring Firestore to abort at least one in order to enforce serializability.';
+
+/**
+ * A transaction as seen by the {@link LockManager}.
+ */
+export interface LockHolder {
+  /** Wound-wait priority; lower values are older and win contention. */
+  readonly priority: number;
+  /** `false` once the holder has committed, rolled back or been wounded. */
+  readonly active: boolean;
+  /** Marks the holder as aborted by an older transaction. */
+  wound(): void;
+}
+
+interface Waiter {
+  owner: LockHolder | undefined;
+  paths: string[];
+  resolve: () => void;
+  reject: (reason: Error) => void;
+  timer: TimerHandle;
+}
+
+/**
+ * Document locks for pessimistic read-write transactions.
+ *
+ * Shared (read) locks are granted immediately. Exclusive (write) locks are
+ * taken atomically for all paths of a commit, at the moment it is applied, so
+ * they are never observed as held; a writer instead waits until no other
+ * transaction holds a shared lock on its paths. Contention follows wound-wait:
+ * an older writer wounds younger holders, and waits for older ones.
+ */
+export class LockManager {
+  private readonly _holders = new Map<string, Set<LockHolder>>();
+  private readonly _held = new Map<LockHolder, Set<string>>();
+  private readonly _waiters = new Set<Waiter>();
+  /** Set when locks were dropped, which may unblock waiting writers. */
+  private _released = false;
+
+  /**
+   * @param _timeoutMillis How long a writer waits before failing with `ABORTED`.
+   * @param _scheduler Clock on which waits time out.
+   */
+  constructor(
+    private readonly _timeoutMillis: number,
+    private readonly _scheduler: Scheduler
+  ) {}
+
+  /**
+   * Validates `options`, returning a lock manager for pessimistic mode, or
+   * `undefined` for optimistic mode.
+   *
+   * @throws {Error} If the options are malformed.
+   */
+  static fromOptions(
+    options: ConcurrencyOptions,
+    scheduler: Scheduler
+  ): LockManager | undefined {
+    if (options?.mode !== 'optimistic' && options?.mode !== 'pessimistic') {
+      throw new Error(
+        `Invalid concurrency options: unknown mode "${options?.mode}".`
+      );
+    }
+    const timeout = options.lockTimeoutMillis ?? DEFAULT_LOCK_TIMEOUT_MILLIS;
+    if (!(typeof timeout === 'number' && timeout > 0)) {
+      throw new Error(
+        'Invalid concurrency options: lockTimeoutMillis must be a positive number.'
+      );
+    }
+
+    return options.mode === 'pessimistic'
+      ? new LockManager(timeout, scheduler)
+      : undefined;
+  }
+
+  /**
+   * Grants `holder` a shared lock on `path`.
+   */
+  share(holder: LockHolder, path: string): void {
+    let holders = this._holders.get(path);
+    if (!holders) {
+      holders = new Set();
+      this._holders.set(path, holders);
+    }
+    holders.add(holder);
+
+    let paths = this._held.get(holder);
+    if (!paths) {
+      paths = new Set();
+      this._held.set(holder, paths);
+    }
+    paths.add(path);
+  }
+
+  /**
+   * Acquires exclusive locks on `paths`, wounding younger holders.
+   *
+   * @param owner The committing transaction, or `undefined` for a
+   *   non-transactional write, which never wounds.
+   * @returns `undefined` when the locks are free, otherwise a promise that
+   *   resolves once they are, or rejects with `ABORTED` if the owner is wounded
+   *   or the wait times out.
+   */
+  exclusive(
+    owner: LockHolder | undefined,
+    paths: string[]
+  ): Promise<void> | undefined {
+    const granted = this.grant(owner, paths);
+    this.wake();
+    if (granted) return undefined;
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        owner,
+        paths,
+        resolve,
+        reject,
+        timer: this._scheduler.setTimeout(() => {
+          this._waiters.delete(waiter);
+          reject(
+            googleError(
+              Status.ABORTED,
+              'Too much contention on these documents. Please try again.'
+            )
+          );
+        }, this._timeoutMillis),
+      };
+      this._waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Releases every lock held by `holder` and wakes writers waiting on them.
+   */
+  release(holder: LockHolder): void {
+    this._released = this.drop(holder) || this._released;
+    this.wake();
+  }
+
+  /**
+   * Releases all locks and fails all waiting writers.
+   */
+  clear(): void {
+    this._holders.clear();
+    this._held.clear();
+    this._released = false;
+    for (const waiter of this._waiters) {
+      this.abort(waiter, 'The database was reset.');
+    }
+  }
+
+  private grant(owner: LockHolder | undefined, paths: string[]): boolean {
+    let granted = true;
+    for (const path of paths) {
+      for (const holder of Array.from(this._holders.get(path) ?? [])) {
+        if (holder === owner) continue;
+        if (owner && owner.priority < holder.priority) {
+          this.wound(holder);
+        } else {
+          granted = false;
+        }
+      }
+    }
+
+    return granted;
+  }
+
+  private wound(holder: LockHolder): void {
+    holder.wound();
+    this._released = this.drop(holder) || this._released;
+    for (const waiter of this._waiters) {
+      if (waiter.owner === holder) {
+        this.abort(waiter, WOUNDED_MESSAGE);
+      }
+    }
+  }
+
+  /**
+   * Grants waiting writers whose locks have been released, oldest request
+   * first, until no further progress is made.
+   */
+  private wake(): void {
+    while (this._released) {
+      this._released = false;
+      for (const waiter of Array.from(this._waiters)) {
+        if (!this._waiters.has(waiter)) continue;
+        if (waiter.owner && !waiter.owner.active) {
+          this.abort(waiter, WOUNDED_MESSAGE);
+        } else if (this.grant(waiter.owner, waiter.paths)) {
+          this._scheduler.clearTimeout(waiter.timer);
+          this._waiters.delete(waiter);
+          waiter.resolve();
+        }
+      }
+    }
+  }
+
+  private drop(holder: LockHolder): boolean {
+    const paths = this._held.get(holder);
+    if (!paths) return false;
+
+    this._held.delete(holder);
+    for (const path of paths) {
+      const holders = this._holders.get(path);
+      holders?.delete(holder);
+      if (holders?.size === 0) this._holders.delete(path);
+    }
+
+    return true;
+  }
+
+  private abort(waiter: Waiter, message: string): void {
+    this._scheduler.clearTimeout(waiter.timer);
+    this._waiters.delete(waiter);
+    waiter.reject(googleError(Status.ABORTED, message));
+  }
+}
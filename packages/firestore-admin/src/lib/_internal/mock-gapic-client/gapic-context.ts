@@ -1,14 +1,19 @@
 import { google } from '@gcf/firestore-protos';
 import { Firestore } from 'firebase-admin/firestore';
 import { Status } from 'google-gax';
+import type { Scheduler } from '../../scheduler.js';
 import { DataAccessor, MetaDocument } from '../data-accessor.js';
 import { DatabasePool } from '../database-pool.js';
+import { FaultInjector } from '../faults/fault-injector.js';
 import { DEFAULT_DATABASE_ID } from '../firestore/constants.js';
 import { getSerializer, Serializer } from '../firestore/serializer.js';
 import { ToProto, WithFirestoreSettings } from '../firestore/typecast.js';
 import { googleError } from '../functions/google-error.js';
-import { DEFAULT_PROJECT_ID } from '../internal-types.js';
+import { IndexRegistry } from '../indexes/index-registry.js';
+import { LatencyModel } from '../latency/latency-model.js';
+import { ClientIdentity, DEFAULT_PROJECT_ID } from '../internal-types.js';
 import { pathType } from '../path.js';
+import { Ruleset } from '../security-rules/ruleset.js';
 import { assertValidProjectId } from './utils/assert.js';
 import { parseFieldPath } from '../functions/util.js';
 
@@ -38,10 +43,16 @@ export class GapicContext {
    *
    * @param firestore - The Admin SDK `Firestore` whose settings define project/database.
    * @param _pool - Backing {@link DatabasePool} from which `DataAccessor` instances are resolved.
+   * @param identity - End-user identity for client-identity instances; `undefined` for
+   *   privileged (Admin SDK) access, which bypasses Security Rules.
    *
    * @throws {GoogleError} If the `projectId` is invalid (via {@link assertValidProjectId}).
    */
-  constructor(firestore: Firestore, private readonly _pool: DatabasePool) {
+  constructor(
+    firestore: Firestore,
+    private readonly _pool: DatabasePool,
+    readonly identity?: ClientIdentity
+  ) {
     this.projectId = assertValidProjectId(
       (firestore as unknown as WithFirestoreSettings)._settings?.projectId ??
         DEFAULT_PROJECT_ID
@@ -70,6 +81,43 @@ export class GapicContext {
     return this._pool.getWithAssert(this.projectId, this.databaseId).accessor;
   }
 
+  /**
+   * Retrieves the Security Rules loaded for the bound project/database, if any.
+   */
+  getRuleset(): Ruleset | undefined {
+    return this._pool.getWithAssert(this.projectId, this.databaseId).rules;
+  }
+
+  /**
+   * Retrieves the index registry of the bound project/database, if index
+   * enforcement is enabled.
+   */
+  getIndexRegistry(): IndexRegistry | undefined {
+    return this._pool.getWithAssert(this.projectId, this.databaseId).indexes;
+  }
+
+  /**
+   * Retrieves the fault injector of the bound project/database, if fault
+   * injection is enabled.
+   */
+  getFaultInjector(): FaultInjector | undefined {
+    return this._pool.get(this.projectId, this.databaseId)?.faults;
+  }
+
+  /**
+   * Retrieves the latency model of the bound project/database, if one is set.
+   */
+  getLatencyModel(): LatencyModel | undefined {
+    return this._pool.get(this.projectId, this.databaseId)?.latency;
+  }
+
+  /**
+   * Retrieves the clock and timers of the mock environment.
+   */
+  getScheduler(): Scheduler {
+    return this._pool.scheduler;
+  }
+
   /**
    * Converts an Admin-style internal path to a GAPIC resource name.
    *
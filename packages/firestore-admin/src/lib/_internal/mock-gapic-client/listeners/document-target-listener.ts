@@ -1,9 +1,11 @@
 import type { google } from '@gcf/firestore-protos';
 import { Status } from 'google-gax';
+import type { ListenTargetRecord } from '../../../inspector.js';
 import { DataChangeEventArg } from '../../data-accessor.js';
 import { googleError } from '../../functions/google-error.js';
 import { dedupeArray } from '../../functions/util.js';
 import { GapicContext } from '../gapic-context.js';
+import { authorizeGet } from '../utils/security-guard.js';
 import { TargetListener } from './target-listener.js';
 import { TargetWriter } from './target-writer.js';
 
@@ -46,6 +48,36 @@ export class DocumentTargetListener extends TargetListener {
     }
   }
 
+  protected override describe(
+    context: GapicContext
+  ): Pick<ListenTargetRecord, 'type' | 'documents'> {
+    return {
+      type: 'documents',
+      documents: this._docPaths.map((p) =>
+        context.toInternalPath(p, 'document')
+      ),
+    };
+  }
+
+  /**
+   * Evaluates `get` access to every addressed document at the current time.
+   *
+   * @param context Gapic context carrying the caller identity.
+   */
+  override authorize(context: GapicContext): void {
+    if (!context.identity) return;
+
+    const accessor = context.getAccessor();
+    const readTime = accessor.serverTime();
+    authorizeGet(
+      context,
+      this._docPaths.map((p) =>
+        accessor.getDoc(context.toInternalPath(p, 'document'), readTime)
+      ),
+      readTime
+    );
+  }
+
   /**
    * Applies a change batch to this document target.
    *
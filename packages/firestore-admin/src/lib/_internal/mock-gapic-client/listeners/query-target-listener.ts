@@ -1,4 +1,5 @@
 import type { google } from '@gcf/firestore-protos';
+import type { ListenTargetRecord } from '../../../inspector.js';
 import { DataChangeEventArg } from '../../data-accessor.js';
 import { GapicContext } from '../gapic-context.js';
 import { QueryBuilder } from '../utils/query-builder.js';
@@ -48,6 +49,23 @@ export class QueryTargetListener extends TargetListener {
     this._builder = QueryBuilder.fromQuery(context, request);
   }
 
+  override get shape(): string {
+    return this._builder.shape;
+  }
+
+  protected override describe(): Pick<ListenTargetRecord, 'type' | 'query'> {
+    return { type: 'query', query: this.shape };
+  }
+
+  /**
+   * Evaluates `list` access against the query's constraints.
+   *
+   * @param context Gapic context carrying the caller identity.
+   */
+  override authorize(context: GapicContext): void {
+    this._builder.authorize(context, context.getAccessor().serverTime());
+  }
+
   /**
    * Processes a change batch by re-evaluating the query at `arg.serverTime`
    * and reconciling the target snapshot to the resulting document set.
@@ -65,6 +83,11 @@ export class QueryTargetListener extends TargetListener {
    */
   override onChange(context: GapicContext, arg: DataChangeEventArg): void {
     const docs = this._builder.run(context, arg.serverTime);
-    this.applyDelta(arg.serverTime, docs);
+    const changes = arg.changes();
+    this.applyDelta(
+      arg.serverTime,
+      docs,
+      (path) => changes[path]?.exists === false
+    );
   }
 }
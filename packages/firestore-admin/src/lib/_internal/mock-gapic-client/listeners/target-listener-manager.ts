@@ -1,6 +1,7 @@
 import type { google } from '@gcf/firestore-protos';
 import { Timestamp } from 'firebase-admin/firestore';
 import { Status } from 'google-gax';
+import type { TimerHandle } from '../../../scheduler.js';
 import { DataChangeEventArg } from '../../data-accessor.js';
 import { googleError } from '../../functions/google-error.js';
 import { GapicContext } from '../gapic-context.js';
@@ -37,6 +38,8 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
   private readonly _writer: TargetWriter;
   /** Active targets keyed by `targetId`. */
   private readonly _listeners = new Map<number, TargetListener>();
+  /** Unregisters active targets from the database's listen target registry. */
+  private readonly _unregister = new Map<number, () => void>();
   /**
    * Snapshot of last observed consistency version per target. When a target's
    * internal `consistencyVersion` advances beyond the stored value, it is not
@@ -44,7 +47,7 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
    */
   private readonly _consistency = new Map<number, number>();
   /** Pending debounce handle for global consistency checks. */
-  private _checkHandle: NodeJS.Timeout | undefined;
+  private _checkHandle: TimerHandle | undefined;
   /**
    * The last `readTime` emitted via a global `NO_CHANGE` TargetChange
    * (with empty `targetIds`). Indicates the most recent "all targets consistent"
@@ -71,7 +74,7 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
    * internal state for target management.
    */
   constructor(readonly context: GapicContext) {
-    super();
+    super(context.getScheduler());
     this._writer = new TargetWriter(context, this.duplex);
     this._resetSub = this.context.getAccessor().registerResetListener(() => {
       this.init();
@@ -82,15 +85,19 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
   /**
    * Closes the stream and releases all listeners and scheduled tasks.
    *
-   * - Unsubscribes from reset and change watchers.
+   * - Unsubscribes from reset and change watchers, and unregisters its targets.
+   * - Discards listen responses still waiting out their latency.
    * - Cancels any pending consistency check.
    * - Delegates to {@link StreamEndpoint.close} for duplex teardown.
    */
   override close(): Promise<void> {
     this._resetSub();
     this._changeSub?.();
+    this._unregister.forEach((unregister) => unregister());
+    this._unregister.clear();
+    this._writer.close();
     if (this._checkHandle) {
-      clearTimeout(this._checkHandle);
+      this.scheduler.clearTimeout(this._checkHandle);
       this._checkHandle = undefined;
     }
 
@@ -103,16 +110,17 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
    * `TargetChange{ NO_CHANGE, targetIds: [] }` with that `readTime`.
    *
    * Implementation details:
-   * - Debounced with a small delay to coalesce rapid batches.
+   * - Debounced with a small delay to coalesce rapid batches; the delay takes
+   *   no virtual time.
    * - Consistency is determined by comparing each listener’s current
    *   `consistencyVersion` with the last recorded version in `_consistency`.
    * - The emitted `readTime` is the max of all listeners’ `lastReadTime`.
    */
   markForConsistencyCheck(): void {
     const DELAY_MS = 5;
-    clearTimeout(this._checkHandle);
+    this.scheduler.clearTimeout(this._checkHandle);
 
-    this._checkHandle = setTimeout(() => {
+    this._checkHandle = this.scheduler.setTimeout(() => {
       this._checkHandle = undefined;
       let consistent = true;
       const prevReadTime = this._lastGlobalReadTime.toMillis();
@@ -134,7 +142,7 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
         this._writer.targetNoChange(ts);
         this._lastGlobalReadTime = ts;
       }
-    }, DELAY_MS);
+    }, this.scheduler.pace(DELAY_MS));
   }
 
   /**
@@ -223,7 +231,14 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
           target.query as google.firestore.v1.Target.IQueryTarget
         );
       }
+      listener.authorize(this.context);
       this._listeners.set(targetId, listener);
+      this._unregister.set(
+        targetId,
+        this.context
+          .getAccessor()
+          .registerListenTarget(() => listener.record(this.context))
+      );
       this._consistency.set(targetId, 0);
       this._writer.targetAdd(targetId);
       this.initListener(listener);
@@ -288,6 +303,8 @@ export class TargetListenerManager extends StreamEndpoint<google.firestore.v1.IL
       );
     }
     this._listeners.delete(targetId);
+    this._unregister.get(targetId)?.();
+    this._unregister.delete(targetId);
     this._consistency.delete(targetId);
     this._writer.targetRemove(targetId);
   }
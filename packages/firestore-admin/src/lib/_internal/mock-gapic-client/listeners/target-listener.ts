@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase-admin/firestore';
+import type { ListenTargetRecord } from '../../../inspector.js';
 import {
   DataChangeEventArg,
   MetaDocument,
@@ -8,10 +9,9 @@ import { GapicContext } from '../gapic-context.js';
 import { TargetWriter } from './target-writer.js';
 
 type DocumentPath = string;
-type DocumentVersion = number;
+type DocumentVersion = Pick<MetaDocument, 'epoch' | 'version' | 'updateTime'>;
 /**
- * Sentinel version used for documents that are not present in the local snapshot.
- * When a document is first seen with any positive version, it replaces this value.
+ * Initial consistency version of a target that has not yet observed a change batch.
  */
 const NotExistVersion = 0;
 
@@ -32,10 +32,12 @@ const NotExistVersion = 0;
  *   monotonic `consistencyVersion` and emits `TargetChange{CURRENT}` via the writer.
  * - The internal snapshot is a map of document path to *last observed* version. It is only
  *   updated when a newer version arrives, ensuring idempotence across out-of-order signals.
+ *   Across an epoch change (reset or snapshot restore) versions are not comparable, so a
+ *   document counts as changed when its `updateTime` differs.
  */
 export abstract class TargetListener {
   /**
-   * Target-local snapshot: document path → last observed version.
+   * Target-local snapshot: document path → last observed version (with its epoch).
    * Used to compute diffs per change batch.
    */
   private _snapshot: Map<DocumentPath, DocumentVersion> = new Map();
@@ -52,6 +54,16 @@ export abstract class TargetListener {
    * Can be used by callers to detect target consistency progress.
    */
   private _consistencyVersion = NotExistVersion;
+  /**
+   * Paths of the document changes and removals emitted for the current batch,
+   * recorded as listener updates in per-document stats.
+   */
+  private _delivered: string[] = [];
+  /**
+   * Reads billed for the current batch: one per document added or changed, or
+   * removed from a query's results by an update.
+   */
+  private _billed = 0;
 
   /**
    * @param targetId The GAPIC listen target id.
@@ -77,6 +89,14 @@ export abstract class TargetListener {
     return this._readTime;
   }
 
+  /**
+   * The shape of the target's query, grouping its listener updates in
+   * per-query stats; `undefined` for targets that are not queries.
+   */
+  get shape(): string | undefined {
+    return undefined;
+  }
+
   /**
    * Processes a batch of datastore changes for this target.
    *
@@ -100,6 +120,17 @@ export abstract class TargetListener {
     this._wasChanged = isInitial;
     this._readTime = arg.serverTime;
     this.onChange(context, arg);
+    const accessor = context.getAccessor();
+    if (this._delivered.length) {
+      accessor.recordListenerUpdates(this._delivered, this.shape);
+      this._delivered = [];
+    }
+    // Initial results bill at least one read, like a query
+    accessor.bill(
+      'listenerReads',
+      isInitial ? Math.max(this._billed, 1) : this._billed
+    );
+    this._billed = 0;
     if (this._wasChanged) {
       this._consistencyVersion += 1;
       this.writer.targetCurrent(this.targetId, arg.serverTime);
@@ -121,6 +152,39 @@ export abstract class TargetListener {
     arg: DataChangeEventArg
   ): void;
 
+  /**
+   * Describes the target for {@link FirestoreController.listenTargets}.
+   *
+   * @param context Gapic context carrying the caller identity.
+   */
+  record(context: GapicContext): ListenTargetRecord {
+    return {
+      targetId: this.targetId,
+      ...this.describe(context),
+      client: !!context.identity,
+      documentCount: this._snapshot.size,
+      readTime: this._readTime,
+    };
+  }
+
+  /**
+   * Subclass hook naming what the target listens to.
+   *
+   * @param context Gapic context (path utils).
+   */
+  protected abstract describe(
+    context: GapicContext
+  ): Pick<ListenTargetRecord, 'type' | 'documents' | 'query'>;
+
+  /**
+   * Authorizes the target for a client-identity stream before it is added,
+   * evaluating Security Rules against the target's current state.
+   *
+   * @param context Gapic context carrying the caller identity.
+   * @throws {GoogleError} {@link Status.PERMISSION_DENIED} when denied.
+   */
+  abstract authorize(context: GapicContext): void;
+
   /**
    * Hook invoked when the target is unsubscribed.
    * Subclasses should override to perform any needed cleanup (e.g., index detach).
@@ -142,18 +206,25 @@ export abstract class TargetListener {
    * @param change The meta-document change (exists or not).
    */
   protected registerDocumentChange(change: MetaDocument): void {
-    const prevVersion = this._snapshot.get(change.path) ?? NotExistVersion;
+    const prev = this._snapshot.get(change.path);
     if (change.exists) {
-      if (change.version > prevVersion) {
-        this._snapshot.set(change.path, change.version);
+      const isNewer = isNewerVersion(change, prev);
+      if (isNewer || prev?.epoch !== change.epoch) {
+        const { epoch, version, updateTime } = change;
+        this._snapshot.set(change.path, { epoch, version, updateTime });
+      }
+      if (isNewer) {
         this.writer.documentChange(change as MetaDocumentExists, [
           this.targetId,
         ]);
+        this._delivered.push(change.path);
+        this._billed += 1;
         this._wasChanged = true;
       }
     } else {
       this._snapshot.delete(change.path);
       this.writer.documentDelete(change.path, change.serverTime);
+      this._delivered.push(change.path);
       this._wasChanged = true;
     }
   }
@@ -177,14 +248,19 @@ export abstract class TargetListener {
    *
    * @param readTime The read time associated with this reconciliation.
    * @param changes The full set of documents that currently match the target.
+   * @param deleted Whether a document no longer matches because it was deleted;
+   *   such removals are not billed.
    */
   protected applyDelta(
     readTime: Timestamp,
-    changes: MetaDocumentExists[]
+    changes: MetaDocumentExists[],
+    deleted: (path: string) => boolean = () => false
   ): void {
     const del = (path: string): void => {
       this._snapshot.delete(path);
       this.writer.documentDelete(path, readTime);
+      this._delivered.push(path);
+      if (!deleted(path)) this._billed += 1;
       this._wasChanged = true;
     };
 
@@ -210,3 +286,18 @@ export abstract class TargetListener {
     }
   }
 }
+
+/**
+ * Returns `true` if `change` supersedes the last observed version `prev`.
+ */
+function isNewerVersion(
+  change: DocumentVersion,
+  prev: DocumentVersion | undefined
+): boolean {
+  if (!prev) return true;
+  if (change.epoch !== prev.epoch) {
+    return !change.updateTime.isEqual(prev.updateTime);
+  }
+
+  return change.version > prev.version;
+}
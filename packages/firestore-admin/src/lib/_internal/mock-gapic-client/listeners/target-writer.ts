@@ -2,6 +2,7 @@ import type { google } from '@gcf/firestore-protos';
 import { Timestamp } from 'firebase-admin/firestore';
 import { Duplex } from 'stream';
 import { MetaDocumentExists } from '../../data-accessor.js';
+import { resolvePromise } from '../../functions/resolve-promise.js';
 import { toProtoTimestamp } from '../../functions/util.js';
 import { GapicContext } from '../gapic-context.js';
 
@@ -18,6 +19,15 @@ import { GapicContext } from '../gapic-context.js';
  *   that **all active targets** on the stream are consistent at the attached `readTime`.
  */
 export class TargetWriter {
+  /** Responses pushed in the current task, when a latency model is set. */
+  private _batch: google.firestore.v1.IListenResponse[] | undefined;
+  /** Delivery of the batches already scheduled, in order. */
+  private _delivery = Promise.resolve();
+  /** Epoch millis at which the last scheduled batch is due. */
+  private _lastDue = 0;
+  /** Set once the stream closes; undelivered batches are then discarded. */
+  private _closed = false;
+
   /**
    * @param context - GAPIC context for serialization and path conversion.
    * @param duplex - Stream to push {@link google.firestore.v1.IListenResponse} values onto.
@@ -27,6 +37,14 @@ export class TargetWriter {
     private readonly duplex: Duplex
   ) {}
 
+  /**
+   * Discards responses still waiting out their latency. Invoked when the
+   * stream closes, so nothing is pushed after end-of-stream.
+   */
+  close(): void {
+    this._closed = true;
+  }
+
   /**
    * Emits a `TargetChange{ ADD }` for a specific target.
    *
@@ -129,12 +147,38 @@ export class TargetWriter {
    * Pushes an {@link google.firestore.v1.IListenResponse} asynchronously to the stream.
    *
    * Uses `queueMicrotask()` to preserve event-loop ordering and emulate async server behavior.
+   * With a latency model, responses pushed in the same task form a batch that is
+   * delivered after the `listen` latency, and never ahead of an earlier batch.
    *
    * @param response - The listen response to push.
    */
   private pushResponse(response: google.firestore.v1.IListenResponse): void {
-    queueMicrotask(() => {
-      this.duplex.push(response);
-    });
+    const latency = this.context.getLatencyModel();
+    if (!latency) {
+      queueMicrotask(() => {
+        this.duplex.push(response);
+      });
+      return;
+    }
+
+    if (!this._batch) {
+      const batch: google.firestore.v1.IListenResponse[] = [];
+      const scheduler = this.context.getScheduler();
+      const due = Math.max(
+        scheduler.now() + latency.delay('listen'),
+        this._lastDue
+      );
+      this._batch = batch;
+      this._lastDue = due;
+      queueMicrotask(() => {
+        this._batch = undefined;
+      });
+      this._delivery = this._delivery
+        .then(() => resolvePromise(undefined, due - scheduler.now(), scheduler))
+        .then(() => {
+          if (!this._closed) batch.forEach((r) => this.duplex.push(r));
+        });
+    }
+    this._batch.push(response);
   }
 }
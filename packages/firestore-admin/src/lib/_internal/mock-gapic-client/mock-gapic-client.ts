@@ -3,19 +3,34 @@ import type { google } from '@gcf/firestore-protos';
 import { Firestore } from 'firebase-admin/firestore';
 import { CallOptions, Status } from 'google-gax';
 import { Duplex } from 'stream';
+import type { FaultRpc } from '../../faults.js';
 import { InternalTransaction, WriteMode } from '../data-accessor.js';
 import { DatabasePool } from '../database-pool.js';
+import { InjectedFault } from '../faults/fault-injector.js';
 import { GapicClient } from '../firestore/types.js';
 import { googleError } from '../functions/google-error.js';
 import { rejectPromise } from '../functions/reject-promise.js';
 import { resolvePromise } from '../functions/resolve-promise.js';
 import { toProtoTimestamp } from '../functions/util.js';
+import { ClientIdentity } from '../internal-types.js';
 import { GapicContext } from './gapic-context.js';
 import { TargetListenerManager } from './listeners/target-listener-manager.js';
-import { NoOpStreamEndpoint, StreamCollection } from './stream-endpoint.js';
-import { assertRequestArgument } from './utils/assert.js';
+import {
+  NoOpStreamEndpoint,
+  StreamCollection,
+  StreamEndpoint,
+} from './stream-endpoint.js';
 import { transformWrites } from './utils/convert.js';
+import { PipelineExecutor } from './pipelines/pipeline-executor.js';
+import type { IExecutePipelineRequest } from './pipelines/pipeline-protos.js';
+import { listDocumentsPage } from './utils/list-documents.js';
+import { partitionQueryPage } from './utils/partition-query.js';
 import { QueryBuilder } from './utils/query-builder.js';
+import {
+  assertPrivileged,
+  authorizeList,
+  createWriteAuthorizer,
+} from './utils/security-guard.js';
 import { TransactionHelper } from './utils/transaction-helper.js';
 
 export class MockGapicClient implements GapicClient {
@@ -24,8 +39,18 @@ export class MockGapicClient implements GapicClient {
   private readonly _transactionManager: TransactionHelper;
   private readonly _streams = new StreamCollection();
 
-  constructor(firestore: Firestore, pool: DatabasePool) {
-    this.context = new GapicContext(firestore, pool);
+  /**
+   * @param firestore - The Admin SDK `Firestore` instance this client serves.
+   * @param pool - Backing database pool.
+   * @param identity - End-user identity for client-identity instances; requests are
+   *   then subject to the database's Security Rules.
+   */
+  constructor(
+    firestore: Firestore,
+    pool: DatabasePool,
+    identity?: ClientIdentity
+  ) {
+    this.context = new GapicContext(firestore, pool, identity);
     this._transactionManager = new TransactionHelper(this.context);
   }
 
@@ -35,7 +60,11 @@ export class MockGapicClient implements GapicClient {
   getProjectId(): Promise<string> {
     this.assertNotClosed();
 
-    return resolvePromise(this.context.projectId);
+    return resolvePromise(
+      this.context.projectId,
+      this.context.getLatencyModel()?.delay(),
+      this.context.getScheduler()
+    );
   }
 
   /**
@@ -49,7 +78,9 @@ export class MockGapicClient implements GapicClient {
     [google.firestore.v1.IBeginTransactionResponse, unknown, unknown]
   > {
     this.assertNotClosed();
-    try {
+    const fault = this.injectFault('beginTransaction', [], true);
+
+    return this.unary('beginTransaction', fault, () => {
       const options = request.options;
       if (!options) {
         throw googleError(
@@ -60,10 +91,8 @@ export class MockGapicClient implements GapicClient {
 
       const response = this._transactionManager.begin(options);
 
-      return resolvePromise([response, undefined, undefined]);
-    } catch (e) {
-      return rejectPromise(e);
-    }
+      return [response, undefined, undefined];
+    });
   }
 
   /**
@@ -75,16 +104,22 @@ export class MockGapicClient implements GapicClient {
     _options?: CallOptions
   ): Promise<[google.firestore.v1.ICommitResponse, unknown, unknown]> {
     this.assertNotClosed();
-    try {
+    const fault = this.injectFault(
+      'commit',
+      this.writePaths(request.writes),
+      !!request.transaction
+    );
+
+    return this.unary('commit', fault, () => {
       const response = this._transactionManager.commit(
         WriteMode.Atomic,
         request
       );
 
-      return resolvePromise([response, undefined, undefined]);
-    } catch (e) {
-      return rejectPromise(e);
-    }
+      return response instanceof Promise
+        ? response.then((r) => [r, undefined, undefined])
+        : [response, undefined, undefined];
+    });
   }
 
   /**
@@ -96,22 +131,31 @@ export class MockGapicClient implements GapicClient {
     _options?: CallOptions
   ): Promise<[google.firestore.v1.IBatchWriteResponse, unknown, unknown]> {
     this.assertNotClosed();
-    try {
-      const { writeResults, statuses } = applyWritesAndBuildResponse({
-        context: this.context,
-        writes: request.writes ?? [],
-        mode: WriteMode.Serial,
-      });
+    const fault = this.injectFault(
+      'batchWrite',
+      this.writePaths(request.writes)
+    );
+
+    return this.unary('batchWrite', fault, () => {
+      const apply = (): [
+        google.firestore.v1.IBatchWriteResponse,
+        unknown,
+        unknown
+      ] => {
+        const { writeResults, statuses } = applyWritesAndBuildResponse({
+          context: this.context,
+          writes: request.writes ?? [],
+          mode: WriteMode.Serial,
+        });
 
-      const response: google.firestore.v1.IBatchWriteResponse = {
-        writeResults,
-        status: statuses,
+        return [{ writeResults, status: statuses }, undefined, undefined];
       };
+      const locked = this.context
+        .getAccessor()
+        .lockWrites(this.writePaths(request.writes));
 
-      return resolvePromise([response, undefined, undefined]);
-    } catch (e) {
-      return rejectPromise(e);
-    }
+      return locked ? locked.then(apply) : apply();
+    });
   }
 
   /**
@@ -124,7 +168,9 @@ export class MockGapicClient implements GapicClient {
     _options?: CallOptions
   ): Promise<[google.protobuf.IEmpty, unknown, unknown]> {
     this.assertNotClosed();
-    try {
+    const fault = this.injectFault('rollback', [], true);
+
+    return this.unary('rollback', fault, () => {
       if (!request.transaction) {
         throw googleError(Status.INVALID_ARGUMENT, 'Missing transaction ID.');
       }
@@ -132,14 +178,12 @@ export class MockGapicClient implements GapicClient {
       const tx = this._transactionManager.fetch(request.transaction);
       tx.rollback();
 
-      return resolvePromise<[google.protobuf.IEmpty, unknown, unknown]>([
+      return [
         {}, // google.protobuf.Empty
         undefined,
         undefined,
-      ]);
-    } catch (e) {
-      return rejectPromise(e);
-    }
+      ];
+    });
   }
 
   /**
@@ -151,24 +195,33 @@ export class MockGapicClient implements GapicClient {
     _options?: CallOptions
   ): Duplex {
     this.assertNotClosed();
-    const stream = new NoOpStreamEndpoint();
+    const stream = new NoOpStreamEndpoint(this.context.getScheduler());
     this._streams.register(stream);
-
-    stream.runMicrotask(() => {
-      if (!request?.documents?.length) {
-        throw googleError(
-          Status.INVALID_ARGUMENT,
-          'Missing "documents" in BatchGetDocumentsRequest.'
-        );
-      }
-
-      const results = this._transactionManager.batchRead(request);
-      results.forEach((r) => {
-        stream.duplex.push(r);
-      });
-    }, true);
-
-    return stream.duplex;
+    const fault = this.injectFault(
+      'batchGetDocuments',
+      this.resourcePaths(request?.documents ?? []),
+      !!(request?.transaction || request?.newTransaction)
+    );
+
+    return this.openStream('batchGetDocuments', stream, fault, (delay) =>
+      stream.runAfter(
+        delay,
+        () => {
+          if (!request?.documents?.length) {
+            throw googleError(
+              Status.INVALID_ARGUMENT,
+              'Missing "documents" in BatchGetDocumentsRequest.'
+            );
+          }
+
+          const results = this._transactionManager.batchRead(request);
+          results.forEach((r) => {
+            stream.duplex.push(r);
+          });
+        },
+        true
+      )
+    );
   }
 
   /**
@@ -179,17 +232,23 @@ export class MockGapicClient implements GapicClient {
     _options?: CallOptions
   ): Duplex {
     this.assertNotClosed();
-    const stream = new NoOpStreamEndpoint();
+    const stream = new NoOpStreamEndpoint(this.context.getScheduler());
     this._streams.register(stream);
-
-    stream.run(() => {
-      QueryBuilder.fromQuery(this.context, request).executeRequest(
-        this._transactionManager,
-        stream
-      );
-    });
-
-    return stream.duplex;
+    const fault = this.injectFault(
+      'runQuery',
+      this.queryPaths(request?.parent, request?.structuredQuery),
+      !!(request?.transaction || request?.newTransaction)
+    );
+
+    return this.openStream('runQuery', stream, fault, (delay) =>
+      stream.run(() => {
+        QueryBuilder.fromQuery(this.context, request).executeRequest(
+          this._transactionManager,
+          stream,
+          delay
+        );
+      })
+    );
   }
 
   /**
@@ -205,57 +264,80 @@ export class MockGapicClient implements GapicClient {
   ): Duplex {
     this.assertNotClosed();
     this.assertNotClosed();
-    const stream = new NoOpStreamEndpoint();
+    const stream = new NoOpStreamEndpoint(this.context.getScheduler());
     this._streams.register(stream);
-
-    stream.run(() => {
-      QueryBuilder.fromAggregationQuery(this.context, request).executeRequest(
-        this._transactionManager,
-        stream
-      );
-    });
-
-    return stream.duplex;
+    const fault = this.injectFault(
+      'runAggregationQuery',
+      this.queryPaths(
+        request?.parent,
+        request?.structuredAggregationQuery?.structuredQuery
+      ),
+      !!(request?.transaction || request?.newTransaction)
+    );
+
+    return this.openStream('runAggregationQuery', stream, fault, (delay) =>
+      stream.run(() => {
+        QueryBuilder.fromAggregationQuery(this.context, request).executeRequest(
+          this._transactionManager,
+          stream,
+          delay
+        );
+      })
+    );
   }
 
   /**
    * Invoked via
    * - `CollectionReference.listDocuments()`
    * - `WriteBatch._commit`
+   *
+   * Like a GAPIC paged call, resolves to every remaining document unless
+   * `options.autoPaginate` is `false`; then it resolves to a single page of at
+   * most `pageSize` documents, the request for the next page (or `null`) and
+   * the raw response.
    */
   listDocuments(
     request: google.firestore.v1.IListDocumentsRequest,
-    _options?: CallOptions
+    options?: CallOptions
   ): Promise<[google.firestore.v1.IDocument[], unknown, unknown]> {
     this.assertNotClosed();
-
-    try {
-      const path = this.context.collectionPath(
-        assertRequestArgument('parent', request.parent),
-        assertRequestArgument('collectionId', request.collectionId)
+    const fault = this.injectFault(
+      'listDocuments',
+      this.queryPaths(request.parent, {
+        from: [{ collectionId: request.collectionId }],
+      })
+    );
+
+    return this.unary('listDocuments', fault, () => {
+      const paginate = options?.autoPaginate === false;
+      const { docs, nextPageToken } = listDocumentsPage(
+        this.context,
+        request,
+        paginate
       );
-
-      if (request.orderBy || request.pageToken || request.mask) {
-        // Early validation to expose unsupported features in tests
-        throw googleError(
-          Status.UNIMPLEMENTED,
-          'Query modifiers not supported in mock.'
-        );
-      }
       const accessor = this.context.getAccessor();
+      authorizeList(
+        this.context,
+        {
+          parent: this.context.toInternalPath(request.parent, 'document'),
+          collectionId: request.collectionId ?? undefined,
+        },
+        accessor.serverTime()
+      );
+      accessor.bill('reads', Math.max(docs.length, 1));
 
-      return accessor.async
-        .listDocuments(path, request.showMissing === true)
-        .then((result) => {
-          return [
-            result.map((metaDoc) => this.context.serializeDoc(metaDoc)),
-            undefined,
-            undefined,
-          ];
-        });
-    } catch (e) {
-      return rejectPromise(e);
-    }
+      const mask = request.mask ? request.mask.fieldPaths ?? [] : undefined;
+      const documents = docs.map((metaDoc) =>
+        this.context.serializeDoc(metaDoc, mask)
+      );
+      if (!paginate) return [documents, undefined, undefined];
+
+      return [
+        documents,
+        nextPageToken ? { ...request, pageToken: nextPageToken } : null,
+        { documents, nextPageToken },
+      ];
+    });
   }
 
   /**
@@ -268,17 +350,19 @@ export class MockGapicClient implements GapicClient {
     _options?: CallOptions
   ): Promise<[string[], unknown, unknown]> {
     this.assertNotClosed();
+    const fault = this.injectFault(
+      'listCollectionIds',
+      this.resourcePaths([request.parent])
+    );
 
-    try {
+    return this.unary('listCollectionIds', fault, () => {
       const path = this.context.toInternalPath(request.parent, 'document');
-      const accessor = this.context.getAccessor();
+      assertPrivileged(this.context);
+      const result = this.context.getAccessor().listCollectionIds(path);
+      this.context.getAccessor().bill('reads', 1);
 
-      return accessor.async
-        .listCollectionIds(path)
-        .then((result) => [result, undefined, undefined]);
-    } catch (e) {
-      return rejectPromise(e);
-    }
+      return [result, undefined, undefined];
+    });
   }
 
   /**
@@ -290,39 +374,133 @@ export class MockGapicClient implements GapicClient {
     const manager = new TargetListenerManager(this.context);
     this._streams.register(manager);
 
-    return manager.duplex;
+    return this.openStream(
+      'listen',
+      manager,
+      this.injectFault('listen'),
+      () => {
+        // Targets are added by the client's writes
+      }
+    );
+  }
+
+  /**
+   * Like a GAPIC paged call, resolves to every remaining partition point unless
+   * `options.autoPaginate` is `false`; then it resolves to a single page of at
+   * most `pageSize` points, the request for the next page (or `null`) and the
+   * raw response.
+   *
+   * Not used by the Admin SDK, which streams partitions; see
+   * {@link partitionQueryStream}.
+   */
+  partitionQuery(
+    request: google.firestore.v1.IPartitionQueryRequest,
+    options?: CallOptions
+  ): Promise<[google.firestore.v1.ICursor[], unknown, unknown]> {
+    this.assertNotClosed();
+    const fault = this.injectFault(
+      'partitionQuery',
+      this.queryPaths(request.parent, request.structuredQuery)
+    );
+
+    return this.unary('partitionQuery', fault, () => {
+      assertPrivileged(this.context);
+      const paginate = options?.autoPaginate === false;
+      const { partitions, nextPageToken } = partitionQueryPage(
+        this.context,
+        request,
+        paginate
+      );
+      if (!paginate) return [partitions, undefined, undefined];
+
+      return [
+        partitions,
+        nextPageToken ? { ...request, pageToken: nextPageToken } : null,
+        { partitions, nextPageToken },
+      ];
+    });
   }
 
   /**
    * Invoked via
    * - `CollectionGroup.getPartitions()`
    *
-   * Stub implementation for `partitionQueryStream`, which is used to return
-   * query cursors for parallelized query execution (e.g. partitioned exports).
-   *
-   * This mock does not currently support query partitioning logic.
-   * Returns an empty stream for compatibility with tests that call
-   * `Query.getPartitions()` but do not rely on its results.
-   *
-   * Implementing true partitioning logic can be deferred unless required
-   * for testing large-scale query batching or export pipelines.
+   * Streams the partition points of a collection group query, one `Cursor`
+   * per response, resuming after `pageToken` when set. As with GAPIC's
+   * auto-paginating streams, every remaining point is sent regardless of
+   * `pageSize`.
    */
   partitionQueryStream(
-    _request?: google.firestore.v1.IPartitionQueryRequest,
+    request?: google.firestore.v1.IPartitionQueryRequest,
     _options?: CallOptions
   ): Duplex {
     this.assertNotClosed();
-    const stream = new (class AutoCloseStream extends NoOpStreamEndpoint {
-      override onRead(): void {
-        this.close();
-      }
-    })();
+    const stream = new NoOpStreamEndpoint(this.context.getScheduler());
+    this._streams.register(stream);
+    const fault = this.injectFault(
+      'partitionQueryStream',
+      this.queryPaths(request?.parent, request?.structuredQuery)
+    );
+
+    return this.openStream('partitionQueryStream', stream, fault, (delay) =>
+      stream.runAfter(
+        delay,
+        () => {
+          assertPrivileged(this.context);
+          const { partitions } = partitionQueryPage(
+            this.context,
+            request ?? {},
+            false
+          );
+          partitions.forEach((cursor) => {
+            stream.duplex.push(cursor);
+          });
+        },
+        true
+      )
+    );
+  }
 
-    return stream.duplex;
+  /**
+   * Not reachable through the installed Admin SDK, which predates Firestore
+   * pipelines; invoked with a raw `ExecutePipelineRequest`.
+   *
+   * Runs the pipeline and responds with a single `ExecutePipelineResponse`
+   * holding every result.
+   */
+  executePipeline(
+    request?: IExecutePipelineRequest,
+    _options?: CallOptions
+  ): Duplex {
+    this.assertNotClosed();
+    const stream = new NoOpStreamEndpoint(this.context.getScheduler());
+    this._streams.register(stream);
+    const fault = this.injectFault(
+      'executePipeline',
+      this.pipelinePaths(request),
+      !!(request?.transaction || request?.newTransaction)
+    );
+
+    return this.openStream('executePipeline', stream, fault, (delay) =>
+      stream.run(() => {
+        assertPrivileged(this.context);
+        PipelineExecutor.fromRequest(this.context, request).executeRequest(
+          this._transactionManager,
+          stream,
+          delay
+        );
+      })
+    );
   }
 
   close(): Promise<void> {
-    if (this._terminated) return resolvePromise<void>(undefined);
+    if (this._terminated) {
+      return resolvePromise<void>(
+        undefined,
+        undefined,
+        this.context.getScheduler()
+      );
+    }
 
     // We do not reset the database or transaction manager here, as the Firestore instance
     // may pool multiple client instances.
@@ -330,6 +508,151 @@ export class MockGapicClient implements GapicClient {
     return this._streams.destroy();
   }
 
+  /**
+   * Registers a call with the database's fault injector, returning the fault
+   * to inject into it, if any.
+   */
+  private injectFault(
+    rpc: FaultRpc,
+    paths: string[] = [],
+    transaction = false
+  ): InjectedFault | undefined {
+    return this.context.getFaultInjector()?.check({ rpc, paths, transaction });
+  }
+
+  /**
+   * Runs a unary call and settles it after the database's latency for `rpc`,
+   * applying an injected fault: `'error'` fails the call without running it,
+   * while `'drop'` runs it and then discards its outcome. An operation that
+   * must wait (e.g. for locks) returns a promise; latency is added once it settles.
+   */
+  private unary<T>(
+    rpc: FaultRpc,
+    fault: InjectedFault | undefined,
+    op: () => T | Promise<T>
+  ): Promise<T> {
+    const delay = this.context.getLatencyModel()?.delay(rpc);
+    const scheduler = this.context.getScheduler();
+    const fail = (e: unknown): Promise<T> => rejectPromise(e, delay, scheduler);
+    if (fault?.effect.type === 'error') {
+      return fail(fault.error);
+    }
+
+    const settle = (result: T): Promise<T> =>
+      fault ? fail(fault.error) : resolvePromise(result, delay, scheduler);
+    let result: T | Promise<T>;
+    try {
+      result = op();
+    } catch (e) {
+      return fail(e);
+    }
+
+    return result instanceof Promise
+      ? result.then(settle, fail)
+      : settle(result);
+  }
+
+  /**
+   * Starts a streaming call, applying an injected fault: `'error'` aborts the
+   * stream without starting it; the other effects fail it part-way.
+   *
+   * `start` receives the database's latency for the call, or `undefined` for
+   * the built-in timing. With a latency model, the stream ends as soon as the
+   * server is done.
+   */
+  private openStream(
+    rpc: FaultRpc,
+    endpoint: StreamEndpoint<unknown>,
+    fault: InjectedFault | undefined,
+    start: (delay: number | undefined) => void
+  ): Duplex {
+    const latency = this.context.getLatencyModel();
+    const delay = latency?.delay(rpc);
+    if (latency) endpoint.closeDelay = 0;
+
+    const effect = fault?.effect;
+    if (fault && effect?.type === 'error') {
+      endpoint.runAfter(delay, () => {
+        throw fault.error;
+      });
+      return endpoint.duplex;
+    }
+    if (fault && effect) {
+      endpoint.failAfter(
+        fault.error,
+        effect.type === 'stream-error' ? effect.afterResponses ?? 0 : 0,
+        effect.type === 'drop'
+      );
+    }
+    start(delay);
+
+    return endpoint.duplex;
+  }
+
+  /** Internal paths of the documents written by `writes`. */
+  private writePaths(
+    writes: google.firestore.v1.IWrite[] | null | undefined
+  ): string[] {
+    return this.resourcePaths(
+      (writes ?? []).map(
+        (w) => w.update?.name ?? w.delete ?? w.transform?.document
+      )
+    );
+  }
+
+  /** Internal path of the collection a query (or listing) targets. */
+  private queryPaths(
+    parent: string | null | undefined,
+    query: google.firestore.v1.IStructuredQuery | null | undefined
+  ): string[] {
+    const collectionId = query?.from?.[0]?.collectionId;
+    const [path] = this.resourcePaths([parent]);
+    if (path === undefined || !collectionId) return [];
+
+    return [path ? `${path}/${collectionId}` : collectionId];
+  }
+
+  /**
+   * Internal paths a pipeline's source stage reads: its collection, or its
+   * documents.
+   */
+  private pipelinePaths(
+    request: IExecutePipelineRequest | undefined
+  ): string[] {
+    const [source] = request?.structuredPipeline?.pipeline?.stages ?? [];
+    const paths = (source?.args ?? [])
+      .map((arg) => arg.referenceValue)
+      .filter((path): path is string => !!path?.startsWith('/'))
+      .map((path) => path.slice(1));
+
+    switch (source?.name) {
+      case 'collection':
+        return paths.slice(0, 1);
+      case 'documents':
+        return paths;
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Converts resource names to internal paths for fault matching. Malformed
+   * names are skipped; they are rejected by the call itself.
+   */
+  private resourcePaths(names: (string | null | undefined)[]): string[] {
+    const root = this.context.gapicRoot;
+    const paths: string[] = [];
+    for (const name of names) {
+      if (name === root) {
+        paths.push('');
+      } else if (name?.startsWith(`${root}/`)) {
+        paths.push(name.slice(root.length + 1));
+      }
+    }
+
+    return paths;
+  }
+
   private assertNotClosed(): void {
     if (this._terminated) {
       throw googleError(
@@ -364,7 +687,15 @@ function applyWritesAndBuildResponse({
   const writeResults: google.firestore.v1.IWriteResult[] = [];
   const result = accessor.batchWrite(
     transformed.map((t) => t.normalized),
-    mode
+    mode,
+    createWriteAuthorizer(context, transformed.length),
+    undefined,
+    true
+  );
+  accessor.billWrites(
+    transformed
+      .map((t) => t.normalized)
+      .filter((_, i) => !result.statuses?.[i]?.code)
   );
   const serverTime = toProtoTimestamp(result.serverTime);
   for (let i = 0; i < result.results.length; i++) {
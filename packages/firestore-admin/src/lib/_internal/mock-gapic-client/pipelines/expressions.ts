@@ -0,0 +1,378 @@
+import type { google } from '@gcf/firestore-protos';
+import { DocumentData } from 'firebase-admin/firestore';
+import { GoogleError, Status } from 'google-gax';
+import type { MetaDocumentExists } from '../../data-accessor.js';
+import { googleError } from '../../functions/google-error.js';
+import {
+  getVectorValue,
+  parseFieldPath,
+  VectorLike,
+} from '../../functions/util.js';
+import { GapicContext } from '../gapic-context.js';
+import {
+  compareValues,
+  evalDataType,
+  getComparable,
+} from '../utils/compare-values.js';
+import { getDeepValue } from '../utils/deep-value.js';
+import { Operators } from '../utils/operators.js';
+import { scoreVectors } from '../utils/query-builder.js';
+import { EvalDataType, NAME_SENTINEL } from '../utils/types.js';
+import type { IPipelineFunction, IPipelineValue } from './pipeline-protos.js';
+
+/**
+ * A row flowing between pipeline stages.
+ */
+export interface PipelineRow {
+  /**
+   * The document the row was read from; dropped once a stage (e.g.
+   * `aggregate`) turns rows into results that are no longer documents.
+   */
+  doc?: MetaDocumentExists;
+  /** The row's fields, as decoded JS values. */
+  data: DocumentData;
+}
+
+/**
+ * Evaluates pipeline expressions against rows.
+ *
+ * Values are decoded JS values, as the query engine sees them, so comparison
+ * functions share {@link Operators} and {@link compareValues} with structured
+ * queries. `undefined` stands for an absent value: a missing field, or a
+ * function applied to arguments of the wrong type.
+ */
+export class PipelineExpressions {
+  constructor(private readonly context: GapicContext) {}
+
+  /**
+   * Evaluates `value` against `row`.
+   *
+   * @returns The decoded result, or `undefined` when it is absent.
+   */
+  evaluate(value: IPipelineValue, row: PipelineRow): unknown {
+    if (value.fieldReferenceValue != null) {
+      return this.field(value.fieldReferenceValue, row);
+    }
+    if (value.functionValue) {
+      const fn = value.functionValue;
+      const impl = SCALAR_FUNCTIONS.get(fn.name ?? '');
+      if (!impl) throw unsupportedFunction(fn.name);
+      return impl({
+        args: fn.args ?? [],
+        evaluate: (arg) => this.evaluate(arg, row),
+      });
+    }
+    if (value.arrayValue) {
+      return (value.arrayValue.values ?? []).map((v) => this.evaluate(v, row));
+    }
+    if (value.mapValue && !isVectorLiteral(value)) {
+      const result: DocumentData = {};
+      for (const [key, v] of Object.entries(value.mapValue.fields ?? {})) {
+        const field = this.evaluate(v, row);
+        if (field !== undefined) result[key] = field;
+      }
+      return result;
+    }
+
+    return this.context.serializer.decodeValue(
+      value as google.firestore.v1.IValue
+    );
+  }
+
+  /**
+   * Evaluates an accumulator (e.g. `sum(price)`) over the rows of a group.
+   *
+   * @throws {GoogleError} {Status.INVALID_ARGUMENT} when `value` is not an
+   *   accumulator function.
+   */
+  accumulate(value: IPipelineValue, rows: PipelineRow[]): unknown {
+    const fn = value.functionValue;
+    const impl = fn ? ACCUMULATORS.get(fn.name ?? '') : undefined;
+    if (!fn || !impl) {
+      throw googleError(
+        Status.INVALID_ARGUMENT,
+        `Expected an accumulator function, got ${describe(value)}.`
+      );
+    }
+    const [arg] = fn.args ?? [];
+
+    return impl(
+      rows.map((row) => (arg ? this.evaluate(arg, row) : null)),
+      !arg
+    );
+  }
+
+  private field(path: string, row: PipelineRow): unknown {
+    if (path === NAME_SENTINEL) {
+      return row.doc
+        ? getComparable(this.context, row.doc, NAME_SENTINEL)
+        : undefined;
+    }
+
+    return getDeepValue(row.data, parseFieldPath(path));
+  }
+}
+
+/**
+ * Checks that every function an expression calls is implemented, so that an
+ * unsupported pipeline fails even when no rows reach it.
+ *
+ * @param value The expression.
+ * @param accumulator Whether `value` is an accumulator of an `aggregate`
+ *   stage; its arguments are ordinary expressions.
+ * @throws {GoogleError} {Status.UNIMPLEMENTED} for an unknown function.
+ * @throws {GoogleError} {Status.INVALID_ARGUMENT} for an accumulator used
+ *   as an expression, or vice versa.
+ */
+export function validateExpression(
+  value: IPipelineValue,
+  accumulator = false
+): void {
+  const fn = value.functionValue;
+  if (accumulator) {
+    if (!fn || !ACCUMULATORS.has(fn.name ?? '')) {
+      throw googleError(
+        Status.INVALID_ARGUMENT,
+        `Expected an accumulator function, got ${describe(value)}.`
+      );
+    }
+  } else if (fn) {
+    if (ACCUMULATORS.has(fn.name ?? '')) {
+      throw googleError(
+        Status.INVALID_ARGUMENT,
+        `Accumulator "${fn.name}" can only be used in an aggregate stage.`
+      );
+    }
+    if (!SCALAR_FUNCTIONS.has(fn.name ?? ''))
+      throw unsupportedFunction(fn.name);
+  }
+
+  const children = fn
+    ? fn.args ?? []
+    : value.arrayValue?.values ?? Object.values(value.mapValue?.fields ?? {});
+  children.forEach((child) => validateExpression(child));
+}
+
+/**
+ * A scalar function call against one row.
+ */
+interface Call {
+  /** The unevaluated arguments. */
+  args: IPipelineValue[];
+  /** Evaluates an argument against the row. */
+  evaluate(arg: IPipelineValue): unknown;
+}
+
+type ScalarFunction = (call: Call) => unknown;
+
+/**
+ * Folds the argument of each row of a group; `star` is set for argument-less
+ * calls such as `count()`, whose values are all `null`.
+ */
+type Accumulator = (values: unknown[], star: boolean) => unknown;
+
+function evaluateAll(call: Call): unknown[] {
+  return call.args.map((arg) => call.evaluate(arg));
+}
+
+/** Lifts a binary predicate over two evaluated arguments. */
+function binary(op: (a: unknown, b: unknown) => unknown): ScalarFunction {
+  return (call) => {
+    const [a, b] = evaluateAll(call);
+    return op(a, b);
+  };
+}
+
+/** Lifts a numeric operation; absent unless every argument is a number. */
+function numeric(op: (...values: number[]) => number | undefined) {
+  return (call: Call): unknown => {
+    const values = evaluateAll(call);
+    return values.every((v) => typeof v === 'number')
+      ? op(...(values as number[]))
+      : undefined;
+  };
+}
+
+/** Lifts a string operation; absent unless every argument is a string. */
+function textual(op: (...values: string[]) => unknown) {
+  return (call: Call): unknown => {
+    const values = evaluateAll(call);
+    return values.every((v) => typeof v === 'string')
+      ? op(...(values as string[]))
+      : undefined;
+  };
+}
+
+/** Lifts a vector distance; absent unless both vectors have one dimension. */
+function distance(
+  measure: google.firestore.v1.StructuredQuery.FindNearest.DistanceMeasure
+): ScalarFunction {
+  return (call) => {
+    const [a, b] = evaluateAll(call).map(toVector);
+    if (!a || !b || a.length !== b.length) return undefined;
+    return scoreVectors(a, b, measure).report;
+  };
+}
+
+const SCALAR_FUNCTIONS = new Map(
+  Object.entries<ScalarFunction>({
+    // Comparison
+    equal: binary((a, b) => Operators.equal(a, b)),
+    not_equal: binary((a, b) => Operators.notEqual(a, b)),
+    less_than: binary((a, b) => Operators.lessThan(a, b)),
+    less_than_or_equal: binary((a, b) => Operators.lessThanOrEqual(a, b)),
+    greater_than: binary((a, b) => Operators.greaterThan(a, b)),
+    greater_than_or_equal: binary((a, b) => Operators.greaterThanOrEqual(a, b)),
+    equal_any: binary((a, list) => Operators.in(a, list)),
+    not_equal_any: binary((a, list) => Operators.notIn(a, list)),
+
+    // Logic; `and`/`or` short-circuit like the backend
+    and: (call) => call.args.every((arg) => call.evaluate(arg) === true),
+    or: (call) => call.args.some((arg) => call.evaluate(arg) === true),
+    xor: (call) => evaluateAll(call).filter((v) => v === true).length % 2 === 1,
+    not: (call) => {
+      const v = call.evaluate(call.args[0]);
+      return typeof v === 'boolean' ? !v : undefined;
+    },
+    conditional: (call) =>
+      call.evaluate(call.args[0]) === true
+        ? call.evaluate(call.args[1])
+        : call.evaluate(call.args[2]),
+    exists: (call) => call.evaluate(call.args[0]) !== undefined,
+    is_absent: (call) => call.evaluate(call.args[0]) === undefined,
+    is_null: (call) => call.evaluate(call.args[0]) === null,
+    is_not_null: (call) => {
+      const v = call.evaluate(call.args[0]);
+      return v !== undefined && v !== null;
+    },
+    is_nan: (call) =>
+      evalDataType(call.evaluate(call.args[0])) === EvalDataType.NumberNaN,
+    is_not_nan: (call) =>
+      evalDataType(call.evaluate(call.args[0])) === EvalDataType.Number,
+
+    // Arrays and maps
+    array: (call) => evaluateAll(call),
+    array_length: (call) => {
+      const v = call.evaluate(call.args[0]);
+      return Array.isArray(v) ? v.length : undefined;
+    },
+    array_contains: binary((arr, v) => Operators.arrayContains(arr, v)),
+    array_contains_any: binary((arr, list) =>
+      Operators.arrayContainsAny(arr, list)
+    ),
+    array_contains_all: binary((arr, list) =>
+      Array.isArray(list)
+        ? list.every((v) => Operators.arrayContains(arr, v))
+        : undefined
+    ),
+    map: (call) => {
+      const values = evaluateAll(call);
+      const result: DocumentData = {};
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        if (typeof values[i] !== 'string') return undefined;
+        if (values[i + 1] !== undefined) {
+          result[values[i] as string] = values[i + 1];
+        }
+      }
+      return result;
+    },
+    map_get: binary((map, key) =>
+      evalDataType(map) === EvalDataType.Map && typeof key === 'string'
+        ? (map as DocumentData)[key]
+        : undefined
+    ),
+
+    // Arithmetic
+    add: numeric((...v) => v.reduce((s, x) => s + x, 0)),
+    subtract: numeric((a, b) => a - b),
+    multiply: numeric((...v) => v.reduce((s, x) => s * x, 1)),
+    divide: numeric((a, b) =>
+      b === 0 && Number.isInteger(a) && Number.isInteger(b) ? undefined : a / b
+    ),
+    mod: numeric((a, b) => (b === 0 ? undefined : a % b)),
+    abs: numeric((a) => Math.abs(a)),
+
+    // Strings
+    string_concat: textual((...v) => v.join('')),
+    char_length: textual((s) => [...s].length),
+    byte_length: textual((s) => Buffer.byteLength(s, 'utf8')),
+    to_lower: textual((s) => s.toLowerCase()),
+    to_upper: textual((s) => s.toUpperCase()),
+    trim: textual((s) => s.trim()),
+    starts_with: textual((s, prefix) => s.startsWith(prefix)),
+    ends_with: textual((s, suffix) => s.endsWith(suffix)),
+    string_contains: textual((s, part) => s.includes(part)),
+
+    // Vectors
+    cosine_distance: distance('COSINE'),
+    euclidean_distance: distance('EUCLIDEAN'),
+    dot_product: distance('DOT_PRODUCT'),
+    vector_length: (call) => toVector(call.evaluate(call.args[0]))?.length,
+  })
+);
+
+/** Numeric values of a group, skipping absent, `null` and other kinds. */
+function numbers(values: unknown[]): number[] {
+  return values.filter((v): v is number => typeof v === 'number');
+}
+
+/** Present, non-null values of a group. */
+function present(values: unknown[]): unknown[] {
+  return values.filter((v) => v !== undefined && v !== null);
+}
+
+function distinctCount(values: unknown[]): number {
+  const sorted = present(values).sort(compareValues);
+  return sorted.filter((v, i) => i === 0 || compareValues(sorted[i - 1], v))
+    .length;
+}
+
+const ACCUMULATORS = new Map(
+  Object.entries<Accumulator>({
+    count: (values, star) => (star ? values.length : present(values).length),
+    count_if: (values) => values.filter((v) => v === true).length,
+    count_distinct: distinctCount,
+    sum: (values) => {
+      const nums = numbers(values);
+      return nums.length ? nums.reduce((s, x) => s + x, 0) : null;
+    },
+    average: (values) => {
+      const nums = numbers(values);
+      return nums.length ? nums.reduce((s, x) => s + x, 0) / nums.length : null;
+    },
+    minimum: (values) => {
+      const all = present(values);
+      return all.length
+        ? all.reduce((m, v) => (compareValues(v, m) < 0 ? v : m))
+        : null;
+    },
+    maximum: (values) => {
+      const all = present(values);
+      return all.length
+        ? all.reduce((m, v) => (compareValues(v, m) > 0 ? v : m))
+        : null;
+    },
+  })
+);
+
+function toVector(v: unknown): number[] | undefined {
+  if (evalDataType(v) !== EvalDataType.Vector) return undefined;
+  return getVectorValue(v as VectorLike);
+}
+
+function isVectorLiteral(value: IPipelineValue): boolean {
+  return value.mapValue?.fields?.['__type__']?.stringValue === '__vector__';
+}
+
+function describe(value: IPipelineValue): string {
+  return value.functionValue
+    ? `function "${value.functionValue.name}"`
+    : 'a non-function value';
+}
+
+function unsupportedFunction(name: IPipelineFunction['name']): GoogleError {
+  return googleError(
+    Status.UNIMPLEMENTED,
+    `Pipeline function "${name}" is not supported.`
+  );
+}
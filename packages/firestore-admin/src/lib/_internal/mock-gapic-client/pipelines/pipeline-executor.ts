@@ -0,0 +1,552 @@
+import type { google } from '@gcf/firestore-protos';
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { GoogleError, Status } from 'google-gax';
+import {
+  InternalTransaction,
+  MetaDocumentExists,
+} from '../../data-accessor.js';
+import { TimestampFromProto } from '../../firestore/typecast.js';
+import { cloneDocumentData } from '../../functions/clone-document-data.js';
+import { googleError } from '../../functions/google-error.js';
+import { resolvePromise } from '../../functions/resolve-promise.js';
+import {
+  getVectorValue,
+  parseFieldPath,
+  toProtoTimestamp,
+  VectorLike,
+} from '../../functions/util.js';
+import { GapicContext } from '../gapic-context.js';
+import { StreamEndpoint } from '../stream-endpoint.js';
+import { assertRequestArgument } from '../utils/assert.js';
+import { compareValues, getComparable } from '../utils/compare-values.js';
+import { getDeepValue, setDeepValue } from '../utils/deep-value.js';
+import { scoreVectors } from '../utils/query-builder.js';
+import { validateCommonQueryRequest } from '../utils/query-validation.js';
+import { TransactionHelper } from '../utils/transaction-helper.js';
+import { validateTransactionOptions } from '../utils/transaction-validation.js';
+import { NAME_SENTINEL } from '../utils/types.js';
+import {
+  PipelineExpressions,
+  PipelineRow,
+  validateExpression,
+} from './expressions.js';
+import type {
+  IExecutePipelineRequest,
+  IExecutePipelineResponse,
+  IPipelineStage,
+  IPipelineValue,
+} from './pipeline-protos.js';
+
+/**
+ * Reads the documents a pipeline starts from.
+ */
+type SourceStage = (readTime: Timestamp) => MetaDocumentExists[];
+
+/**
+ * Transforms the rows produced by the previous stage.
+ */
+type RowStage = (rows: PipelineRow[]) => PipelineRow[];
+
+/**
+ * Executes GAPIC `ExecutePipelineRequest`s against the in-memory database.
+ *
+ * The request is parsed and validated up front: the first stage must be a
+ * source (`collection`, `collection_group`, `database` or `documents`), and
+ * every later stage and function must be one the executor implements, so an
+ * unsupported pipeline fails with `UNIMPLEMENTED` rather than returning
+ * partial results.
+ *
+ * Rows are evaluated by {@link PipelineExpressions}, which shares value
+ * ordering and operator semantics with structured queries. Unlike queries,
+ * pipelines need no indexes, and results are emitted in the order the stages
+ * leave them.
+ */
+export class PipelineExecutor {
+  private readonly expressions: PipelineExpressions;
+  private readonly source: SourceStage;
+  private readonly stages: RowStage[];
+  private readonly readTime: Timestamp | undefined;
+
+  private constructor(
+    private readonly context: GapicContext,
+    private readonly request: IExecutePipelineRequest
+  ) {
+    this.expressions = new PipelineExpressions(context);
+    this.readTime = request.readTime
+      ? (Timestamp as unknown as TimestampFromProto).fromProto(request.readTime)
+      : undefined;
+
+    const stages = assertRequestArgument(
+      'structuredPipeline.pipeline.stages',
+      request.structuredPipeline?.pipeline?.stages
+    );
+    const [source, ...rest] = stages;
+    this.source = this.sourceStage(source);
+    this.stages = rest.map((stage) => this.rowStage(stage));
+  }
+
+  /**
+   * Parses and validates an `ExecutePipelineRequest`.
+   *
+   * @throws {GoogleError} {Status.INVALID_ARGUMENT} for a malformed request,
+   *   pipeline or stage.
+   * @throws {GoogleError} {Status.UNIMPLEMENTED} for a stage or function the
+   *   executor does not implement.
+   */
+  static fromRequest(
+    context: GapicContext,
+    request?: IExecutePipelineRequest
+  ): PipelineExecutor {
+    if (!request) {
+      throw googleError(Status.INVALID_ARGUMENT, 'Missing request payload.');
+    }
+    validateCommonQueryRequest({
+      readTime: request.readTime,
+      transaction: request.transaction,
+      newTransaction: request.newTransaction,
+    });
+    validateTransactionOptions(request.newTransaction);
+
+    return new PipelineExecutor(context, request);
+  }
+
+  /**
+   * Runs the pipeline and pushes its single `ExecutePipelineResponse` onto
+   * `stream`, then closes it.
+   *
+   * The documents read by the source stage are registered on the request's
+   * transaction, if any.
+   *
+   * @param tm Transaction helper of the calling client.
+   * @param stream Stream endpoint to respond on.
+   * @param delay Latency before the response.
+   */
+  executeRequest(
+    tm: TransactionHelper,
+    stream: StreamEndpoint<unknown>,
+    delay?: number
+  ): void {
+    const executor = async () => {
+      const accessor = this.context.getAccessor();
+      if (this.readTime) accessor.assertReadTime(this.readTime);
+
+      const tx = tm.resolve(this.request);
+      const readTime =
+        this.readTime ?? InternalTransaction.ensureReadTime(accessor, tx);
+
+      const docs = this.source(readTime);
+      if (tx) {
+        docs.forEach((doc) => {
+          tx.registerRead(doc);
+        });
+      }
+      const rows = await resolvePromise(
+        this.transform(docs),
+        delay,
+        this.context.getScheduler()
+      );
+
+      const response: IExecutePipelineResponse = {
+        results: rows.map((row) => this.encodeRow(row)),
+        executionTime: toProtoTimestamp(readTime),
+      };
+      if (tx) response.transaction = tm.toGapicId(tx);
+      stream.duplex.push(response);
+    };
+
+    stream.runPromise(executor, true);
+  }
+
+  /**
+   * Applies the stages after the source to the documents it read.
+   */
+  private transform(docs: MetaDocumentExists[]): PipelineRow[] {
+    return this.stages.reduce<PipelineRow[]>(
+      (rows, stage) => stage(rows),
+      docs.map((doc) => ({ doc, data: doc.data }))
+    );
+  }
+
+  private encodeRow(row: PipelineRow): google.firestore.v1.IDocument {
+    if (row.doc) {
+      return this.context.serializeDoc({ ...row.doc, data: row.data });
+    }
+
+    return {
+      fields: this.context.serializer.encodeFields(
+        row.data
+      ) as google.firestore.v1.IDocument['fields'],
+    };
+  }
+
+  private sourceStage(stage: IPipelineStage | undefined): SourceStage {
+    const name = stage?.name ?? '';
+    const args = stage?.args ?? [];
+    const accessor = this.context.getAccessor();
+
+    switch (name) {
+      case 'collection': {
+        const segments = this.pathArg(args[0], name).split('/');
+        if (segments.length % 2 === 0) {
+          throw invalidStage(name, 'expects a collection path.');
+        }
+        const collectionId = segments.pop() as string;
+        return (readTime) =>
+          this.byName(
+            accessor.query({
+              parent: segments.join('/'),
+              collectionId,
+              allDescendants: false,
+              readTime,
+              predicate: () => true,
+            })
+          );
+      }
+
+      case 'collection_group': {
+        const parent = this.pathArg(args[0], name);
+        const collectionId = args[1]?.stringValue;
+        if (!collectionId) {
+          throw invalidStage(name, 'expects a collection ID.');
+        }
+        return (readTime) =>
+          this.byName(
+            accessor.query({
+              parent,
+              collectionId,
+              allDescendants: true,
+              readTime,
+              predicate: () => true,
+            })
+          );
+      }
+
+      case 'database':
+        return (readTime) =>
+          this.byName(
+            accessor.query({
+              parent: '',
+              allDescendants: true,
+              readTime,
+              predicate: () => true,
+            })
+          );
+
+      case 'documents': {
+        const paths = args.map((arg) => this.pathArg(arg, name));
+        return (readTime) =>
+          paths
+            .map((path) => accessor.getDoc(path, readTime))
+            .filter((doc): doc is MetaDocumentExists => doc.exists);
+      }
+
+      default:
+        throw googleError(
+          Status.INVALID_ARGUMENT,
+          'A pipeline must start with a collection, collection_group, database or documents stage.'
+        );
+    }
+  }
+
+  private rowStage(stage: IPipelineStage): RowStage {
+    const name = stage.name ?? '';
+    const args = stage.args ?? [];
+    const options = stage.options ?? {};
+    const ex = this.expressions;
+
+    switch (name) {
+      case 'where': {
+        const condition = this.expressionArg(args[0], name);
+        return (rows) =>
+          rows.filter((row) => ex.evaluate(condition, row) === true);
+      }
+
+      case 'limit':
+      case 'offset': {
+        const n = integerArg(args[0], name);
+        return (rows) => (name === 'limit' ? rows.slice(0, n) : rows.slice(n));
+      }
+
+      case 'sort': {
+        const orderings = args.map((arg) => {
+          const fields = mapArg(arg, name);
+          const direction = fields['direction']?.stringValue ?? 'ascending';
+          if (direction !== 'ascending' && direction !== 'descending') {
+            throw invalidStage(
+              name,
+              `has an invalid direction "${direction}".`
+            );
+          }
+          return {
+            expression: this.expressionArg(fields['expression'], name),
+            sign: direction === 'descending' ? -1 : 1,
+          };
+        });
+        return (rows) => {
+          const keyed = rows.map((row) => ({
+            row,
+            keys: orderings.map((o) => ex.evaluate(o.expression, row)),
+          }));
+          keyed.sort((a, b) => {
+            for (let i = 0; i < orderings.length; i++) {
+              const cmp = compareAbsentFirst(a.keys[i], b.keys[i]);
+              if (cmp !== 0) return cmp * orderings[i].sign;
+            }
+            return 0;
+          });
+          return keyed.map((k) => k.row);
+        };
+      }
+
+      case 'select':
+      case 'add_fields': {
+        const fields = this.expressionMap(args[0], name);
+        return (rows) =>
+          rows.map((row) => {
+            const data: DocumentData =
+              name === 'select' ? {} : cloneDocumentData(row.data);
+            for (const [alias, expression] of fields) {
+              const value = ex.evaluate(expression, row);
+              if (value !== undefined) {
+                setDeepValue(data, parseFieldPath(alias), value);
+              }
+            }
+            return { doc: row.doc, data };
+          });
+      }
+
+      case 'remove_fields': {
+        const paths = args.map((arg) => parseFieldPath(fieldArg(arg, name)));
+        return (rows) =>
+          rows.map((row) => {
+            const data = cloneDocumentData(row.data);
+            for (const path of paths) {
+              const parent = getDeepValue(data, path.slice(0, -1));
+              if (parent && typeof parent === 'object') {
+                delete (parent as DocumentData)[path[path.length - 1]];
+              }
+            }
+            return { doc: row.doc, data };
+          });
+      }
+
+      case 'aggregate': {
+        const accumulators = this.expressionMap(args[0], name, true);
+        const groups = args[1] ? this.expressionMap(args[1], name) : [];
+        return (rows) => {
+          const buckets = this.group(rows, groups);
+          if (buckets.length === 0 && groups.length === 0) {
+            buckets.push({ data: {}, rows: [] });
+          }
+          return buckets.map((bucket) => {
+            const data: DocumentData = { ...bucket.data };
+            for (const [alias, accumulator] of accumulators) {
+              data[alias] = ex.accumulate(accumulator, bucket.rows);
+            }
+            return { data };
+          });
+        };
+      }
+
+      case 'distinct': {
+        const groups = this.expressionMap(args[0], name);
+        return (rows) =>
+          this.group(rows, groups).map((bucket) => ({ data: bucket.data }));
+      }
+
+      case 'find_nearest': {
+        const field = fieldArg(args[0], name);
+        const target = this.context.serializer.decodeValue(
+          (args[1] ?? {}) as google.firestore.v1.IValue
+        );
+        const query = getVectorValue(target as VectorLike);
+        const measure = distanceMeasure(args[2]?.stringValue, name);
+        const limit = options['limit']
+          ? integerArg(options['limit'], name)
+          : undefined;
+        const distanceField =
+          options['distance_field']?.fieldReferenceValue ??
+          options['distance_field']?.stringValue ??
+          undefined;
+        if (!query.length) {
+          throw invalidStage(name, 'expects a vector value.');
+        }
+        return (rows) => {
+          const scored: { row: PipelineRow; rank: number; report: number }[] =
+            [];
+          for (const row of rows) {
+            const value = getDeepValue(row.data, parseFieldPath(field));
+            const vector = getVectorValue(value as VectorLike);
+            if (vector.length !== query.length) continue;
+            scored.push({ row, ...scoreVectors(query, vector, measure) });
+          }
+          scored.sort((a, b) => a.rank - b.rank);
+          return scored.slice(0, limit).map(({ row, report }) => {
+            if (!distanceField) return row;
+            const data = cloneDocumentData(row.data);
+            setDeepValue(data, parseFieldPath(distanceField), report);
+            return { doc: row.doc, data };
+          });
+        };
+      }
+
+      case 'unnest': {
+        const expression = this.expressionArg(args[0], name);
+        const alias = fieldArg(args[1], name);
+        const indexField =
+          options['index_field']?.fieldReferenceValue ??
+          options['index_field']?.stringValue ??
+          undefined;
+        return (rows) =>
+          rows.flatMap((row) => {
+            const values = ex.evaluate(expression, row);
+            if (!Array.isArray(values)) return [];
+            return values.map((value, i) => {
+              const data = cloneDocumentData(row.data);
+              setDeepValue(data, parseFieldPath(alias), value);
+              if (indexField) {
+                setDeepValue(data, parseFieldPath(indexField), i);
+              }
+              return { doc: row.doc, data };
+            });
+          });
+      }
+
+      default:
+        throw googleError(
+          Status.UNIMPLEMENTED,
+          `Pipeline stage "${name}" is not supported.`
+        );
+    }
+  }
+
+  /**
+   * Groups rows by the values of `groups`, in order of first appearance.
+   */
+  private group(
+    rows: PipelineRow[],
+    groups: [string, IPipelineValue][]
+  ): { data: DocumentData; rows: PipelineRow[] }[] {
+    const buckets: {
+      key: unknown[];
+      data: DocumentData;
+      rows: PipelineRow[];
+    }[] = [];
+    for (const row of rows) {
+      const key = groups.map(
+        ([, expression]) => this.expressions.evaluate(expression, row) ?? null
+      );
+      let bucket = buckets.find((b) => compareValues(b.key, key) === 0);
+      if (!bucket) {
+        const data: DocumentData = {};
+        groups.forEach(([alias], i) => (data[alias] = key[i]));
+        bucket = { key, data, rows: [] };
+        buckets.push(bucket);
+      }
+      bucket.rows.push(row);
+    }
+
+    return buckets;
+  }
+
+  private byName(docs: MetaDocumentExists[]): MetaDocumentExists[] {
+    return docs
+      .map((doc) => ({
+        doc,
+        name: getComparable(this.context, doc, NAME_SENTINEL),
+      }))
+      .sort((x, y) => compareValues(x.name, y.name))
+      .map((row) => row.doc);
+  }
+
+  /**
+   * Resolves a path argument (`'/users'`, or a full resource name) to an
+   * internal path.
+   */
+  private pathArg(arg: IPipelineValue | undefined, stage: string): string {
+    const path = arg?.referenceValue ?? arg?.stringValue;
+    if (path == null) {
+      throw invalidStage(stage, 'expects a path.');
+    }
+    if (path.startsWith(this.context.gapicRoot)) {
+      return this.context.toInternalPath(path, 'document');
+    }
+
+    return path.replace(/^\/+|\/+$/g, '');
+  }
+
+  private expressionArg(
+    arg: IPipelineValue | undefined,
+    stage: string
+  ): IPipelineValue {
+    if (!arg) throw invalidStage(stage, 'is missing an expression.');
+    validateExpression(arg);
+    return arg;
+  }
+
+  private expressionMap(
+    arg: IPipelineValue | undefined,
+    stage: string,
+    accumulators = false
+  ): [string, IPipelineValue][] {
+    const entries = Object.entries(mapArg(arg, stage));
+    entries.forEach(([, value]) => validateExpression(value, accumulators));
+    return entries;
+  }
+}
+
+function invalidStage(stage: string, reason: string): GoogleError {
+  return googleError(
+    Status.INVALID_ARGUMENT,
+    `Pipeline stage "${stage}" ${reason}`
+  );
+}
+
+function integerArg(arg: IPipelineValue | undefined, stage: string): number {
+  const n = Number(arg?.integerValue ?? NaN);
+  if (!Number.isInteger(n) || n < 0) {
+    throw invalidStage(stage, 'expects a non-negative integer.');
+  }
+  return n;
+}
+
+function fieldArg(arg: IPipelineValue | undefined, stage: string): string {
+  const path = arg?.fieldReferenceValue ?? arg?.stringValue;
+  if (!path) throw invalidStage(stage, 'expects a field.');
+  return path;
+}
+
+function mapArg(
+  arg: IPipelineValue | undefined,
+  stage: string
+): Record<string, IPipelineValue> {
+  const fields = arg?.mapValue?.fields;
+  if (!fields) throw invalidStage(stage, 'expects a map of expressions.');
+  return fields;
+}
+
+function distanceMeasure(
+  name: string | null | undefined,
+  stage: string
+): google.firestore.v1.StructuredQuery.FindNearest.DistanceMeasure {
+  switch (name) {
+    case 'euclidean':
+      return 'EUCLIDEAN';
+    case 'cosine':
+      return 'COSINE';
+    case 'dot_product':
+      return 'DOT_PRODUCT';
+    default:
+      throw invalidStage(stage, `has an invalid distance measure "${name}".`);
+  }
+}
+
+/**
+ * Orders values as {@link compareValues} does, with absent values first.
+ */
+function compareAbsentFirst(a: unknown, b: unknown): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? -1 : 1;
+  }
+  return compareValues(a, b);
+}
@@ -0,0 +1,69 @@
+import type { google } from '@gcf/firestore-protos';
+
+/**
+ * Wire shapes of the Firestore v1 `ExecutePipeline` RPC
+ * (`google/firestore/v1/pipeline.proto`), which the bundled protos predate.
+ *
+ * Field names follow the protobuf.js JSON conventions used by the rest of the
+ * GAPIC surface.
+ */
+
+/**
+ * A `google.firestore.v1.Value` extended with the pipeline-only kinds: field
+ * references and function calls.
+ */
+export interface IPipelineValue
+  extends Omit<google.firestore.v1.IValue, 'arrayValue' | 'mapValue'> {
+  /** A field path such as `'a.b'` or `'__name__'`, resolved per row. */
+  fieldReferenceValue?: string | null;
+  /** A function applied to its arguments per row (or per group). */
+  functionValue?: IPipelineFunction | null;
+  arrayValue?: { values?: IPipelineValue[] | null } | null;
+  mapValue?: { fields?: Record<string, IPipelineValue> | null } | null;
+}
+
+/**
+ * `google.firestore.v1.Function`.
+ */
+export interface IPipelineFunction {
+  name?: string | null;
+  args?: IPipelineValue[] | null;
+  options?: Record<string, IPipelineValue> | null;
+}
+
+/**
+ * `google.firestore.v1.Pipeline.Stage`.
+ */
+export interface IPipelineStage {
+  name?: string | null;
+  args?: IPipelineValue[] | null;
+  options?: Record<string, IPipelineValue> | null;
+}
+
+/**
+ * `google.firestore.v1.StructuredPipeline`.
+ */
+export interface IStructuredPipeline {
+  pipeline?: { stages?: IPipelineStage[] | null } | null;
+  options?: Record<string, IPipelineValue> | null;
+}
+
+/**
+ * `google.firestore.v1.ExecutePipelineRequest`.
+ */
+export interface IExecutePipelineRequest {
+  database?: string | null;
+  structuredPipeline?: IStructuredPipeline | null;
+  transaction?: Uint8Array | null;
+  newTransaction?: google.firestore.v1.ITransactionOptions | null;
+  readTime?: google.protobuf.ITimestamp | null;
+}
+
+/**
+ * `google.firestore.v1.ExecutePipelineResponse`.
+ */
+export interface IExecutePipelineResponse {
+  transaction?: Uint8Array | null;
+  results?: google.firestore.v1.IDocument[] | null;
+  executionTime?: google.protobuf.ITimestamp | null;
+}
@@ -1,5 +1,6 @@
 import { GoogleError, Status } from 'google-gax';
 import { Duplex } from 'stream';
+import type { Scheduler } from '../../scheduler.js';
 import { googleError } from '../functions/google-error.js';
 import { resolvePromise } from '../functions/resolve-promise.js';
 
@@ -73,12 +74,20 @@ export abstract class StreamEndpoint<TRequest> {
   /** Duplex stream representing this endpoint. */
   readonly duplex: Duplex;
 
+  /**
+   * Milliseconds between {@link close} and the end-of-stream signal;
+   * `undefined` for the default latency.
+   */
+  closeDelay: number | undefined;
+
   /**
    * Creates a new streaming endpoint with a {@link Duplex} configured for
    * object mode. The writable side delegates to {@link onWrite}; the readable
    * side is application-driven via explicit `duplex.push()` calls.
+   *
+   * @param scheduler Clock on which response and close latencies elapse.
    */
-  constructor() {
+  constructor(readonly scheduler: Scheduler) {
     // eslint-disable-next-line @typescript-eslint/no-this-alias
     const endpoint = this;
     this.duplex = new Duplex({
@@ -186,6 +195,27 @@ export abstract class StreamEndpoint<TRequest> {
     });
   }
 
+  /**
+   * Schedules a synchronous operation `delay` milliseconds from now, or on the
+   * microtask queue when `delay` is `undefined`, and optionally closes the
+   * stream when it completes. Any thrown error will abort the stream.
+   *
+   * @param delay Latency before `op` runs.
+   * @param op Synchronous operation to execute.
+   * @param autoclose If true, {@link close} is invoked after `op` completes.
+   * @returns Nothing.
+   */
+  runAfter(delay: number | undefined, op: () => void, autoclose = false): void {
+    if (delay === undefined) {
+      this.runMicrotask(op, autoclose);
+    } else {
+      this.runPromise(
+        () => resolvePromise(undefined, delay, this.scheduler).then(op),
+        autoclose
+      );
+    }
+  }
+
   /**
    * Executes an asynchronous operation and optionally closes the stream
    * when it resolves. A rejected promise will abort the stream.
@@ -222,7 +252,11 @@ export abstract class StreamEndpoint<TRequest> {
   close(): Promise<void> {
     if (this._isClosed) return Promise.resolve();
 
-    return resolvePromise<void>(undefined).then(() => {
+    return resolvePromise<void>(
+      undefined,
+      this.closeDelay,
+      this.scheduler
+    ).then(() => {
       if (!this._isClosed) {
         this._isClosed = true;
         this[OWNER]?.delete(this);
@@ -250,6 +284,45 @@ export abstract class StreamEndpoint<TRequest> {
     this.duplex.destroy(err); // ends readable & writable; emits 'close'
   }
 
+  /**
+   * Injects a stream failure: the stream is destroyed with `error` once
+   * `afterResponses` responses have been pushed, or when the server would
+   * otherwise end it. With `drop`, every response is discarded instead of
+   * delivered, and the stream fails only when the server would end it.
+   *
+   * @param error The error the client observes.
+   * @param afterResponses Number of responses delivered before failing.
+   * @param drop If true, responses are discarded rather than delivered.
+   */
+  failAfter(error: Error, afterResponses: number, drop = false): void {
+    const push = this.duplex.push.bind(this.duplex);
+    let delivered = 0;
+    let failed = false;
+    const fail = (): void => {
+      failed = true;
+      // Give the client a turn to consume the responses already pushed
+      setImmediate(() => {
+        this[OWNER]?.delete(this);
+        this._isClosed = true;
+        this.duplex.destroy(error);
+      });
+    };
+
+    this.duplex.push = (chunk: unknown, encoding?: BufferEncoding) => {
+      if (failed) return false;
+      if (chunk === null) {
+        fail();
+        return false;
+      }
+      if (drop) return true;
+
+      const result = push(chunk, encoding);
+      if (++delivered >= afterResponses) fail();
+      return result;
+    };
+    if (!drop && afterResponses === 0) fail();
+  }
+
   /**
    * Hook invoked when the readable side requests more data.
    * Defaults to a no-op; subclasses may override to react to
@@ -0,0 +1,239 @@
+import type { google } from '@gcf/firestore-protos';
+import { Status } from 'google-gax';
+import type { MetaDocument, MetaDocumentExists } from '../../data-accessor.js';
+import { googleError } from '../../functions/google-error.js';
+import { parseFieldPath } from '../../functions/util.js';
+import { GapicContext } from '../gapic-context.js';
+import { assertRequestArgument } from './assert.js';
+import { compareValues, getComparable } from './compare-values.js';
+import { NAME_SENTINEL } from './types.js';
+
+/**
+ * One clause of a `ListDocumentsRequest.orderBy` string.
+ */
+interface ListOrder {
+  fieldPath: string;
+  /** `1` for ascending, `-1` for descending. */
+  sign: number;
+}
+
+/**
+ * The decoded form of a page token: the sort key of the last document of the
+ * previous page, and the request shape it was issued for.
+ */
+interface PageCursor {
+  /** Parent, collection ID, `orderBy` and `showMissing` of the request. */
+  q: string;
+  /** Proto values of the order fields, ending with the document name. */
+  k: google.firestore.v1.IValue[];
+}
+
+/**
+ * A page of listed documents.
+ */
+export interface ListDocumentsPage {
+  /** The documents of the page, in list order. */
+  docs: MetaDocument[];
+  /** The token of the next page; empty on the last page. */
+  nextPageToken: string;
+}
+
+/**
+ * Lists the documents of a collection per a GAPIC `ListDocumentsRequest`:
+ * ordered by `orderBy` (default `__name__`), resumed after `pageToken`, and
+ * limited to `pageSize` documents when `paginate` is set.
+ *
+ * As in Firestore, `orderBy` mirrors a query's ORDER BY: documents lacking an
+ * order field are omitted, and `__name__` breaks ties in the direction of the
+ * last clause. It cannot be combined with `showMissing`.
+ *
+ * Reads are counted for the existing documents of the page only.
+ *
+ * @param context GAPIC context of the calling client.
+ * @param request The request.
+ * @param paginate Whether to honour `pageSize`; `false` lists every remaining
+ *   document, as an auto-paginating GAPIC call does.
+ * @throws {GoogleError} {Status.INVALID_ARGUMENT} when the parent, collection
+ *   ID, page size, page token or order is invalid.
+ */
+export function listDocumentsPage(
+  context: GapicContext,
+  request: google.firestore.v1.IListDocumentsRequest,
+  paginate: boolean
+): ListDocumentsPage {
+  const parent = assertRequestArgument('parent', request.parent);
+  const collectionId = assertRequestArgument(
+    'collectionId',
+    request.collectionId
+  );
+  const path = context.collectionPath(parent, collectionId);
+  const showMissing = request.showMissing === true;
+  const pageSize = request.pageSize ?? 0;
+  if (!Number.isInteger(pageSize) || pageSize < 0) {
+    throw googleError(
+      Status.INVALID_ARGUMENT,
+      'page_size must be a non-negative integer.'
+    );
+  }
+
+  const { fields, nameSign } = parseListOrder(request.orderBy ?? '');
+  if (showMissing && request.orderBy) {
+    throw googleError(
+      Status.INVALID_ARGUMENT,
+      'order_by cannot be combined with show_missing.'
+    );
+  }
+  const shape = JSON.stringify([
+    parent,
+    collectionId,
+    fields,
+    nameSign,
+    showMissing,
+  ]);
+  const after = request.pageToken
+    ? decodePageToken(context, request.pageToken, shape)
+    : undefined;
+
+  const keyed = [...fields, { fieldPath: NAME_SENTINEL, sign: nameSign }];
+  const keyOf = (doc: MetaDocument) =>
+    keyed.map((o) =>
+      getComparable(context, doc as MetaDocumentExists, o.fieldPath)
+    );
+  const compareKeys = (x: unknown[], y: unknown[]) => {
+    for (let i = 0; i < keyed.length; i++) {
+      const cmp = compareValues(x[i], y[i]) * keyed[i].sign;
+      if (cmp !== 0) return cmp;
+    }
+    return 0;
+  };
+
+  let nextPageToken = '';
+  const docs = context
+    .getAccessor()
+    .listDocuments(path, showMissing, (listed) => {
+      const rows = listed
+        .map((doc) => ({ doc, key: keyOf(doc) }))
+        .filter((row) => row.key.every((value) => value !== undefined))
+        .filter((row) => !after || compareKeys(row.key, after) > 0)
+        .sort((x, y) => compareKeys(x.key, y.key));
+      if (!paginate || pageSize === 0 || rows.length <= pageSize) {
+        return rows.map((row) => row.doc);
+      }
+
+      const page = rows.slice(0, pageSize);
+      nextPageToken = encodePageToken(
+        context,
+        page[page.length - 1].key,
+        shape
+      );
+      return page.map((row) => row.doc);
+    });
+
+  return { docs, nextPageToken };
+}
+
+/**
+ * Parses a `ListDocumentsRequest.orderBy` string such as
+ * `` "priority desc, `team.name`, __name__ desc" `` into its field clauses and
+ * the direction of the `__name__` tie-breaker, which is either the last clause
+ * or implied by it.
+ */
+function parseListOrder(orderBy: string): {
+  fields: ListOrder[];
+  nameSign: number;
+} {
+  const invalid = () =>
+    googleError(Status.INVALID_ARGUMENT, `Invalid order_by "${orderBy}".`);
+  if (orderBy.trim() === '') return { fields: [], nameSign: 1 };
+
+  // Split on commas outside backticked segments
+  const clauses: string[] = [''];
+  let quoted = false;
+  for (const ch of orderBy) {
+    if (ch === '`') quoted = !quoted;
+    if (ch === ',' && !quoted) {
+      clauses.push('');
+    } else {
+      clauses[clauses.length - 1] += ch;
+    }
+  }
+
+  const fields = clauses.map((clause): ListOrder => {
+    const match = /^(.*?)(?:\s+(asc|desc))?$/i.exec(clause.trim());
+    const fieldPath = match?.[1] ?? '';
+    try {
+      parseFieldPath(fieldPath);
+    } catch {
+      throw invalid();
+    }
+    return {
+      fieldPath,
+      sign: match?.[2]?.toLowerCase() === 'desc' ? -1 : 1,
+    };
+  });
+
+  const last = fields[fields.length - 1];
+  if (last.fieldPath === NAME_SENTINEL) fields.pop();
+  if (fields.some((o) => o.fieldPath === NAME_SENTINEL)) throw invalid();
+
+  return { fields, nameSign: last.sign };
+}
+
+/**
+ * Encodes the sort key of the last document of a page as an opaque token.
+ */
+function encodePageToken(
+  context: GapicContext,
+  key: unknown[],
+  shape: string
+): string {
+  const cursor: PageCursor = {
+    q: shape,
+    k: key.map(
+      (value) =>
+        context.serializer.encodeValue(value) as google.firestore.v1.IValue
+    ),
+  };
+  const json = JSON.stringify(cursor, (name, value) => {
+    if (name === 'bytesValue') {
+      return Buffer.from(
+        value?.type === 'Buffer' ? value.data : Object.values(value)
+      ).toString('base64');
+    }
+    if (name === 'doubleValue' && !Number.isFinite(value)) return String(value);
+    return value;
+  });
+
+  return Buffer.from(json).toString('base64url');
+}
+
+/**
+ * Decodes a page token into the sort key to resume after.
+ *
+ * @throws {GoogleError} {Status.INVALID_ARGUMENT} if the token is malformed or
+ *   was issued for a request of another shape.
+ */
+function decodePageToken(
+  context: GapicContext,
+  token: string,
+  shape: string
+): unknown[] {
+  let cursor: PageCursor | undefined;
+  try {
+    cursor = JSON.parse(
+      Buffer.from(token, 'base64url').toString(),
+      (name, value) => {
+        if (name === 'bytesValue') return Buffer.from(value, 'base64');
+        if (name === 'doubleValue') return Number(value);
+        return value;
+      }
+    );
+  } catch {
+    cursor = undefined;
+  }
+  if (cursor?.q !== shape || !Array.isArray(cursor.k)) {
+    throw googleError(Status.INVALID_ARGUMENT, 'Invalid page token.');
+  }
+
+  return cursor.k.map((value) => context.serializer.decodeValue(value));
+}
@@ -0,0 +1,223 @@
+import type { google } from '@gcf/firestore-protos';
+import { Timestamp } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import type { MetaDocumentExists } from '../../data-accessor.js';
+import { TimestampFromProto } from '../../firestore/typecast.js';
+import { googleError } from '../../functions/google-error.js';
+import { GapicContext } from '../gapic-context.js';
+import { assertRequestArgument } from './assert.js';
+import { compareValues, getComparable } from './compare-values.js';
+import { NAME_SENTINEL } from './types.js';
+
+/**
+ * The decoded form of a page token: where the next page starts and the read
+ * time the partition points were chosen at.
+ */
+interface PartitionCursor {
+  /** Parent, query and partition count of the request. */
+  q: string;
+  /** Index of the first partition point of the next page. */
+  o: number;
+  /** The read time of the first page, as `[seconds, nanoseconds]`. */
+  t: [number, number];
+}
+
+/**
+ * A page of partition points.
+ */
+export interface PartitionQueryPage {
+  /** Cursors splitting the collection group, in `__name__` order. */
+  partitions: google.firestore.v1.ICursor[];
+  /** The token of the next page; empty on the last page. */
+  nextPageToken: string;
+}
+
+/**
+ * Chooses the partition points of a GAPIC `PartitionQueryRequest`: up to
+ * `partitionCount` document names of the collection group, spread evenly
+ * over its `__name__` ordering as of `readTime`.
+ *
+ * Used as `startAt`/`endBefore` cursors, consecutive points split the
+ * collection group into partitions that cover every document exactly once.
+ * Fewer points are returned when there are too few documents to split.
+ *
+ * Pages after the first are computed at the read time of the first, so a
+ * paged listing yields a consistent set of points. Each document of the
+ * collection group counts as a read.
+ *
+ * @param context GAPIC context of the calling client.
+ * @param request The request.
+ * @param paginate Whether to honour `pageSize`; `false` returns every
+ *   remaining point, as an auto-paginating GAPIC call does.
+ * @throws {GoogleError} {Status.INVALID_ARGUMENT} when the query is not a
+ *   collection group query ordered by `__name__` only, or the partition
+ *   count, page size or page token is invalid.
+ * @throws {GoogleError} {Status.FAILED_PRECONDITION} when `readTime` is older
+ *   than the database retains.
+ */
+export function partitionQueryPage(
+  context: GapicContext,
+  request: google.firestore.v1.IPartitionQueryRequest,
+  paginate: boolean
+): PartitionQueryPage {
+  const parent = assertRequestArgument('parent', request.parent);
+  const query = assertRequestArgument(
+    'structuredQuery',
+    request.structuredQuery
+  );
+  const collectionId = validatePartitionedQuery(query);
+
+  const partitionCount = Number(request.partitionCount ?? 0);
+  if (!Number.isInteger(partitionCount) || partitionCount <= 0) {
+    throw googleError(
+      Status.INVALID_ARGUMENT,
+      'partition_count must be a positive integer.'
+    );
+  }
+  const pageSize = request.pageSize ?? 0;
+  if (!Number.isInteger(pageSize) || pageSize < 0) {
+    throw googleError(
+      Status.INVALID_ARGUMENT,
+      'page_size must be a non-negative integer.'
+    );
+  }
+
+  const accessor = context.getAccessor();
+  const requested = request.readTime
+    ? (Timestamp as unknown as TimestampFromProto).fromProto(request.readTime)
+    : undefined;
+  const shape = JSON.stringify([
+    parent,
+    collectionId,
+    partitionCount,
+    requested ? timeTuple(requested) : null,
+  ]);
+  const after = request.pageToken
+    ? decodePageToken(request.pageToken, shape)
+    : undefined;
+  const readTime = after
+    ? new Timestamp(...after.t)
+    : requested ?? accessor.serverTime();
+  accessor.assertReadTime(readTime);
+
+  const docs = accessor
+    .query({
+      parent: context.toInternalPath(parent, 'document'),
+      collectionId,
+      allDescendants: true,
+      readTime,
+      predicate: () => true,
+    })
+    .map((doc) => ({ doc, name: getComparable(context, doc, NAME_SENTINEL) }))
+    .sort((x, y) => compareValues(x.name, y.name))
+    .map((row) => row.doc);
+
+  const points = splitPoints(docs, partitionCount);
+  const start = after?.o ?? 0;
+  const end =
+    paginate && pageSize > 0
+      ? Math.min(start + pageSize, points.length)
+      : points.length;
+
+  return {
+    partitions: points.slice(start, end).map((doc) => ({
+      values: [{ referenceValue: context.toGapicPath(doc.path) }],
+    })),
+    nextPageToken:
+      end < points.length
+        ? encodePageToken({ q: shape, o: end, t: timeTuple(readTime) })
+        : '',
+  };
+}
+
+/**
+ * Checks that a query can be partitioned: a collection group query ordered
+ * by `__name__` ascending, without filters, cursors, offset or limit.
+ *
+ * @returns The collection ID of the collection group.
+ */
+function validatePartitionedQuery(
+  query: google.firestore.v1.IStructuredQuery
+): string {
+  const from = query.from ?? [];
+  const orderBy = query.orderBy ?? [];
+  const byName =
+    orderBy.length === 0 ||
+    (orderBy.length === 1 &&
+      orderBy[0].field?.fieldPath === NAME_SENTINEL &&
+      orderBy[0].direction !== 'DESCENDING');
+  const unsupported =
+    query.where ||
+    query.startAt ||
+    query.endAt ||
+    query.offset ||
+    query.limit ||
+    query.findNearest;
+
+  if (
+    from.length !== 1 ||
+    !from[0].allDescendants ||
+    !from[0].collectionId ||
+    !byName ||
+    unsupported
+  ) {
+    throw googleError(
+      Status.INVALID_ARGUMENT,
+      'Partition queries must be collection group queries ordered by __name__ ascending, without filters, cursors, offset or limit.'
+    );
+  }
+
+  return from[0].collectionId;
+}
+
+/**
+ * Picks up to `count` documents that split `docs` into equal runs; each is
+ * the first document of the run that follows it.
+ */
+function splitPoints(
+  docs: MetaDocumentExists[],
+  count: number
+): MetaDocumentExists[] {
+  const k = Math.min(count, docs.length - 1);
+  const points: MetaDocumentExists[] = [];
+  for (let i = 1; i <= k; i++) {
+    points.push(docs[Math.floor((i * docs.length) / (k + 1))]);
+  }
+
+  return points;
+}
+
+function timeTuple(ts: Timestamp): [number, number] {
+  return [ts.seconds, ts.nanoseconds];
+}
+
+function encodePageToken(cursor: PartitionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a page token into the offset and read time to resume at.
+ *
+ * @throws {GoogleError} {Status.INVALID_ARGUMENT} if the token is malformed or
+ *   was issued for a request of another shape.
+ */
+function decodePageToken(token: string, shape: string): PartitionCursor {
+  let cursor: PartitionCursor | undefined;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString());
+  } catch {
+    cursor = undefined;
+  }
+  if (
+    cursor?.q !== shape ||
+    !Number.isInteger(cursor.o) ||
+    cursor.o < 0 ||
+    !Array.isArray(cursor.t) ||
+    cursor.t.length !== 2 ||
+    !cursor.t.every(Number.isInteger)
+  ) {
+    throw googleError(Status.INVALID_ARGUMENT, 'Invalid page token.');
+  }
+
+  return cursor;
+}
@@ -18,6 +18,7 @@ import {
   toProtoTimestamp,
   VectorLike,
 } from '../../functions/util.js';
+import { planIndexes } from '../../indexes/index-plan.js';
 import { Mutable } from '../../internal-types.js';
 import { GapicContext } from '../gapic-context.js';
 import { StreamEndpoint } from '../stream-endpoint.js';
@@ -25,6 +26,7 @@ import { assertFieldArgument, assertRequestArgument } from './assert.js';
 import { compareValues, getComparable } from './compare-values.js';
 import { setDeepValue } from './deep-value.js';
 import { Operators } from './operators.js';
+import { queryShape } from './query-shape.js';
 import {
   buildQueryValidationData,
   Dir,
@@ -34,6 +36,7 @@ import {
   validateOrderByPresenceForInequalities,
   validateWhereFilterCompatibility,
 } from './query-validation.js';
+import { authorizeList } from './security-guard.js';
 import { TransactionHelper } from './transaction-helper.js';
 import { validateTransactionOptions } from './transaction-validation.js';
 import { NAME_SENTINEL } from './types.js';
@@ -68,10 +71,29 @@ interface QueryRequestCommon {
   newTransaction?: google.firestore.v1.ITransactionOptions | null;
   /** Point-in-time read timestamp, mutually exclusive with transaction/newTransaction. */
   readTime?: google.protobuf.ITimestamp | null;
-  /** Explain options (ignored by the mock, but accepted). */
+  /** Query Explain options; `analyze` executes the query as well as planning it. */
   explainOptions?: google.firestore.v1.IExplainOptions | null;
 }
 
+/**
+ * Counters describing how {@link QueryBuilder.run} evaluated a query,
+ * reported by Query Explain.
+ */
+interface QueryExecutionStats {
+  /**
+   * Billed reads: one per document fetched, or one per batch of up to 1000
+   * index entries for aggregations, and at least one per query.
+   */
+  readOperations: number;
+  /** Entries walked in index order until the offset and limit were satisfied. */
+  indexEntriesScanned: number;
+  /** Documents fetched to produce the results; none for index-only COUNT. */
+  documentsScanned: number;
+}
+
+/** Index entries billed as a single read by aggregations. */
+const INDEX_ENTRIES_PER_READ = 1000;
+
 function defaultPredicate(): true {
   return true;
 }
@@ -120,6 +142,19 @@ export class QueryBuilder {
   limit: number | undefined;
   /** Optional field mask for projection (StructuredQuery.select.fields). */
   fieldMask: string[] | undefined;
+  /** The StructuredQuery this builder was configured from. */
+  structuredQuery: google.firestore.v1.IStructuredQuery | undefined;
+  /** Whether this builder serves a RunAggregationQuery. */
+  aggregated = false;
+  /** Whether results derive from index entries alone (COUNT-only aggregations). */
+  indexOnly = false;
+  /**
+   * The most results the scan needs past the offset (the largest `upTo` of
+   * COUNT-only aggregations); unbounded when undefined.
+   */
+  scanCap: number | undefined;
+  /** The shape of the query, grouping its work in per-query stats. */
+  shape = '';
 
   /**
    * The parent resource path of the query (document root or document path).
@@ -132,16 +167,19 @@ export class QueryBuilder {
   readonly transaction?: Uint8Array | null;
   /** New transaction request options when provided. */
   readonly newTransaction?: google.firestore.v1.ITransactionOptions | null;
+  /** Query Explain options when provided. */
+  readonly explainOptions?: google.firestore.v1.IExplainOptions | null;
 
   /**
    * @param request The raw request object (RunQuery or RunAggregationQuery).
    * @param encoder A function that converts the resolved docs into the
-   *                corresponding GAPIC response(s) and pushes to the stream.
+   *                corresponding GAPIC response(s), pushes them to the stream
+   *                and returns the number of results emitted.
    * @throws {GoogleError} {Status.INVALID_ARGUMENT} when required arguments are missing.
    */
   private constructor(
     request: QueryRequestCommon,
-    private readonly encoder: (arg: QueryResolverArg) => void
+    private readonly encoder: (arg: QueryResolverArg) => number
   ) {
     this.parentPath = assertRequestArgument('parent', request.parent);
     this.readTime = request.readTime
@@ -149,6 +187,7 @@ export class QueryBuilder {
       : undefined;
     this.transaction = request.transaction;
     this.newTransaction = request.newTransaction;
+    this.explainOptions = request.explainOptions;
     this.wherePredicate = defaultPredicate;
     this.cursorPredicate = defaultPredicate;
     this.orderByComparator = defaultComparator;
@@ -190,6 +229,8 @@ export class QueryBuilder {
           assignCommonQueryResponse(arg, {});
         arg.stream.push(emptyResult);
       }
+
+      return arg.docs.length;
     });
     const query = assertRequestArgument(
       'structuredQuery',
@@ -210,8 +251,13 @@ export class QueryBuilder {
    *
    * Notes:
    * - The mock supports COUNT, SUM, and AVG only.
-   * - SUM emits integerValue when all inputs are integers; otherwise doubleValue.
+   * - COUNT stops at `upTo`, when set.
+   * - SUM emits integerValue when all inputs are integers and the sum fits in
+   *   64 bits; otherwise doubleValue. NaN and infinite inputs propagate as
+   *   they do in double arithmetic.
    * - AVG emits doubleValue; if no numeric inputs exist, the value is nullValue.
+   * - Aggregations apply to the results of the underlying query, after its
+   *   cursors, offset, limit and findNearest.
    *
    * @param context GapicContext providing serializer and accessors.
    * @param request RunAggregationQuery request payload.
@@ -247,7 +293,7 @@ export class QueryBuilder {
 
     // Pre-parse aggregations into a uniform plan
     type AggPlan =
-      | { kind: 'COUNT'; alias: string }
+      | { kind: 'COUNT'; alias: string; upTo?: number }
       | { kind: 'SUM'; alias: string; fieldPath: string }
       | { kind: 'AVG'; alias: string; fieldPath: string };
 
@@ -291,8 +337,14 @@ export class QueryBuilder {
       }
 
       if (agg.count) {
-        // COUNT(*) — Firestore also supports upTo, but we ignore it for now (not needed for semantics)
-        plans.push({ kind: 'COUNT', alias });
+        const upTo = agg.count.upTo ? Number(agg.count.upTo.value) : undefined;
+        if (upTo !== undefined && (!Number.isInteger(upTo) || upTo <= 0)) {
+          throw googleError(
+            Status.INVALID_ARGUMENT,
+            'COUNT up_to must be greater than 0.'
+          );
+        }
+        plans.push({ kind: 'COUNT', alias, upTo });
         continue;
       }
 
@@ -332,61 +384,33 @@ export class QueryBuilder {
       const out: Record<string, google.firestore.v1.IValue> =
         Object.create(null);
 
-      // Helper for numeric extraction
-      const isFiniteNumber = (v: unknown): v is number =>
-        typeof v === 'number' && Number.isFinite(v);
+      const numbers = (fieldPath: string): number[] =>
+        arg.docs
+          .map((md) => getComparable(context, md, fieldPath))
+          .filter((v): v is number => typeof v === 'number');
 
       for (const plan of plans) {
         switch (plan.kind) {
           case 'COUNT': {
             // Count of docs after filters/ordering/limit/offset applied by QueryBuilder
-            out[plan.alias] = { integerValue: String(arg.docs.length) };
+            const count = Math.min(arg.docs.length, plan.upTo ?? Infinity);
+            out[plan.alias] = { integerValue: String(count) };
             break;
           }
 
           case 'SUM': {
-            let sum = 0;
-            let sawFloat = false;
-            let sawAnyNumeric = false;
-
-            for (const md of arg.docs) {
-              const v = getComparable(context, md, plan.fieldPath);
-              if (isFiniteNumber(v)) {
-                sawAnyNumeric = true;
-                if (!Number.isInteger(v)) sawFloat = true;
-                sum += v;
-              }
-            }
-
-            if (!sawAnyNumeric) {
-              out[plan.alias] = { integerValue: 0 };
-            } else if (sawFloat) {
-              out[plan.alias] = { doubleValue: sum };
-            } else {
-              // integer-only sum
-              // Use integerValue as string (per Value proto)
-              out[plan.alias] = { integerValue: sum };
-            }
+            out[plan.alias] = sumValue(numbers(plan.fieldPath));
             break;
           }
 
           case 'AVG': {
-            let sum = 0;
-            let count = 0;
-
-            for (const md of arg.docs) {
-              const v = getComparable(context, md, plan.fieldPath);
-              if (isFiniteNumber(v)) {
-                sum += v;
-                count++;
-              }
-            }
-
-            if (count === 0) {
-              out[plan.alias] = { nullValue: 'NULL_VALUE' };
-            } else {
-              out[plan.alias] = { doubleValue: sum / count };
-            }
+            const values = numbers(plan.fieldPath);
+            out[plan.alias] = values.length
+              ? {
+                  doubleValue:
+                    values.reduce((a, b) => a + b, 0) / values.length,
+                }
+              : { nullValue: 'NULL_VALUE' };
             break;
           }
         }
@@ -399,9 +423,22 @@ export class QueryBuilder {
       assignCommonQueryResponse(arg, response);
 
       arg.stream.push(response);
+      return 1;
     });
 
     builder.applyStructureQuery(context, query);
+    builder.shape = queryShape(
+      context.toInternalPath(builder.parentPath, 'document'),
+      query,
+      aggregations
+    );
+    builder.aggregated = true;
+    builder.indexOnly = plans.every((plan) => plan.kind === 'COUNT');
+    if (plans.every((plan) => plan.kind === 'COUNT' && plan.upTo)) {
+      builder.scanCap = Math.max(
+        ...plans.map((plan) => (plan.kind === 'COUNT' && plan.upTo) || 0)
+      );
+    }
 
     return builder;
   }
@@ -415,31 +452,80 @@ export class QueryBuilder {
    *   document is registered as a read.
    * - For RunQuery, a response is pushed per row (or a single empty response
    *   with readTime if no rows). For RunAggregationQuery, a single response.
+   * - With `explainOptions`, a trailing response carries the explain metrics.
+   *   Unless `analyze` is set, the query is only planned: no results are
+   *   emitted and no reads are counted.
    *
    * @param tm Transaction helper resolving transaction/readTime context.
    * @param stream Stream endpoint to emit responses to.
+   * @param delay Latency before the first response; the default latency when omitted.
    */
-  executeRequest(tm: TransactionHelper, stream: StreamEndpoint<unknown>): void {
+  executeRequest(
+    tm: TransactionHelper,
+    stream: StreamEndpoint<unknown>,
+    delay?: number
+  ): void {
     const executor = async () => {
       const accessor = tm.context.getAccessor();
+      if (this.readTime) accessor.assertReadTime(this.readTime);
+      const scheduler = tm.context.getScheduler();
+
+      if (this.explainOptions && !this.explainOptions.analyze) {
+        this.authorize(tm.context, this.readTime ?? accessor.serverTime());
+        await resolvePromise(undefined, delay, scheduler);
+        stream.duplex.push({
+          explainMetrics: { planSummary: this.planSummary() },
+        });
+        return;
+      }
+
       const tx = tm.resolve(this);
       const readTime =
         this.readTime ?? InternalTransaction.ensureReadTime(accessor, tx);
 
-      const docs = await resolvePromise(this.run(tm.context, readTime));
+      this.authorize(tm.context, readTime);
+      const started = scheduler.now();
+      const { docs, stats } = await resolvePromise(
+        this.evaluate(tm.context, readTime),
+        delay,
+        scheduler
+      );
+      accessor.bill('reads', stats.readOperations);
       if (tx && docs.length) {
         docs.forEach((doc) => {
           tx.registerRead(doc);
         });
       }
 
-      this.encoder({
+      const resultsReturned = this.encoder({
         context: tm.context,
         stream: stream.duplex,
         docs,
         readTime,
         transaction: tx ? tm.toGapicId(tx) : undefined,
       });
+
+      if (this.explainOptions) {
+        const elapsed = scheduler.now() - started;
+        const response: google.firestore.v1.IRunQueryResponse = {
+          explainMetrics: {
+            planSummary: this.planSummary(),
+            executionStats: {
+              resultsReturned,
+              executionDuration: {
+                seconds: Math.floor(elapsed / 1000),
+                nanos: (elapsed % 1000) * 1_000_000,
+              },
+              readOperations: stats.readOperations,
+              debugStats: toStruct({
+                index_entries_scanned: String(stats.indexEntriesScanned),
+                documents_scanned: String(stats.documentsScanned),
+              }),
+            },
+          },
+        };
+        stream.duplex.push(response);
+      }
     };
 
     stream.runPromise(executor, true);
@@ -457,6 +543,20 @@ export class QueryBuilder {
    * @returns Final list of documents to encode.
    */
   run(context: GapicContext, readTime: Timestamp): MetaDocumentExists[] {
+    return this.evaluate(context, readTime).docs;
+  }
+
+  /**
+   * Runs the {@link run} pipeline, also reporting what it evaluated.
+   *
+   * The in-memory scan stands in for an index scan: the documents matching
+   * the filters are the index range, walked in order from the start cursor
+   * until the offset and limit are satisfied.
+   */
+  private evaluate(
+    context: GapicContext,
+    readTime: Timestamp
+  ): { docs: MetaDocumentExists[]; stats: QueryExecutionStats } {
     const accessor = context.getAccessor();
 
     const docs = accessor.query({
@@ -465,17 +565,66 @@ export class QueryBuilder {
       collectionId: this.collectionId,
       allDescendants: this.allDescendants,
       readTime,
+      shape: this.shape,
     });
 
-    const filtered = docs
+    const end = this.limit !== undefined ? this.offset + this.limit : undefined;
+    const ranged = docs
       .sort((a, b) => this.orderByComparator(a, b))
-      .filter((d) => this.cursorPredicate(d))
-      .slice(
-        this.offset,
-        this.limit !== undefined ? this.offset + this.limit : undefined
-      );
+      .filter((d) => this.cursorPredicate(d));
+    const filtered = ranged.slice(this.offset, end);
+    const scanned = Math.min(
+      ranged.length,
+      end ?? ranged.length,
+      this.offset + (this.scanCap ?? ranged.length)
+    );
+    accessor.recordScan(this.shape, ranged.slice(0, scanned), this.indexOnly);
+    const billed = this.aggregated
+      ? Math.ceil(scanned / INDEX_ENTRIES_PER_READ)
+      : scanned;
+
+    return {
+      docs: this.findNearestTransformer?.(filtered) ?? filtered,
+      stats: {
+        readOperations: Math.max(billed, 1),
+        indexEntriesScanned: scanned,
+        documentsScanned: this.indexOnly ? 0 : scanned,
+      },
+    };
+  }
+
+  /**
+   * The Query Explain plan summary: the indexes production would read to
+   * serve this query.
+   */
+  private planSummary(): google.firestore.v1.IPlanSummary {
+    return {
+      indexesUsed: planIndexes(this.structuredQuery ?? {}).map((index) =>
+        toStruct({ ...index })
+      ),
+    };
+  }
 
-    return this.findNearestTransformer?.(filtered) ?? filtered;
+  /**
+   * Authorizes a client-identity `list` request for this query, judging its
+   * constraints rather than its results. No-op for privileged contexts.
+   *
+   * @param context GapicContext carrying the caller identity.
+   * @param readTime Point-in-time read, for `get()` lookups in the rules.
+   * @throws {GoogleError} {Status.PERMISSION_DENIED} when denied by Security Rules.
+   */
+  authorize(context: GapicContext, readTime: Timestamp): void {
+    authorizeList(
+      context,
+      {
+        parent: context.toInternalPath(this.parentPath ?? '', 'document'),
+        collectionId: this.collectionId,
+        limit: this.limit,
+        offset: this.offset,
+        structuredQuery: this.structuredQuery,
+      },
+      readTime
+    );
   }
 
   /**
@@ -487,10 +636,12 @@ export class QueryBuilder {
    * - startAt/endAt → cursorPredicate
    * - findNearest → optional post-transformer
    * - select.fields → fieldMask
+   * - index enforcement (when enabled for the database)
    *
    * @param context GapicContext.
    * @param query StructuredQuery payload.
    * @throws {GoogleError} {Status.INVALID_ARGUMENT} on invalid shapes/values.
+   * @throws {GoogleError} {Status.FAILED_PRECONDITION} when a required index is missing.
    */
   private applyStructureQuery(
     context: GapicContext,
@@ -498,6 +649,7 @@ export class QueryBuilder {
   ): void {
     if (!query) return;
 
+    this.structuredQuery = query;
     this.offset = query.offset ?? 0;
     this.limit = query.limit?.value ?? undefined;
 
@@ -527,6 +679,14 @@ export class QueryBuilder {
     this.fieldMask = query.select?.fields
       ?.map((f) => f.fieldPath)
       .filter((s): s is string => !!s && s.length > 0);
+    this.shape = queryShape(
+      context.toInternalPath(this.parentPath, 'document'),
+      query
+    );
+
+    context
+      .getIndexRegistry()
+      ?.check(context.projectId, context.databaseId, query);
   }
 }
 
@@ -772,6 +932,53 @@ function parseOrderBy(
   };
 }
 
+/**
+ * Scores a candidate vector against a query vector under a distance measure.
+ *
+ * `rank` orders candidates nearest first; `report` is the distance (or, for
+ * `DOT_PRODUCT`, the raw dot product) written to a result field.
+ */
+export function scoreVectors(
+  a: number[],
+  b: number[],
+  kind: google.firestore.v1.StructuredQuery.FindNearest.DistanceMeasure
+): { rank: number; report: number } {
+  switch (kind) {
+    case 'EUCLIDEAN': {
+      let s = 0;
+      for (let i = 0; i < a.length; i++) {
+        const d = a[i] - b[i];
+        s += d * d;
+      }
+      const dist = Math.sqrt(s);
+      return { rank: dist, report: dist }; // report distance
+    }
+    case 'COSINE': {
+      let dot = 0,
+        na = 0,
+        nb = 0;
+      for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+      }
+      const denom = Math.sqrt(na) * Math.sqrt(nb);
+      const sim = denom === 0 ? 0 : dot / denom; // [-1, 1]
+      const dist = 1 - sim; // [0, 2], smaller = closer
+      return { rank: dist, report: dist }; // <-- report distance, not similarity
+    }
+
+    case 'DOT_PRODUCT': {
+      let dot = 0;
+      for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+      return { rank: -dot, report: dot }; // rank by -dot, report raw dot
+    }
+    default:
+      // Unsuported rejected during validation
+      return { rank: Number.POSITIVE_INFINITY, report: NaN };
+  }
+}
+
 export function buildFindNearestTransformer(
   context: GapicContext,
   query: google.firestore.v1.IStructuredQuery,
@@ -811,47 +1018,6 @@ export function buildFindNearestTransformer(
     return v as number[];
   }
 
-  function score(
-    a: number[],
-    b: number[],
-    kind: google.firestore.v1.StructuredQuery.FindNearest.DistanceMeasure
-  ): { rank: number; report: number } {
-    switch (kind) {
-      case 'EUCLIDEAN': {
-        let s = 0;
-        for (let i = 0; i < a.length; i++) {
-          const d = a[i] - b[i];
-          s += d * d;
-        }
-        const dist = Math.sqrt(s);
-        return { rank: dist, report: dist }; // report distance
-      }
-      case 'COSINE': {
-        let dot = 0,
-          na = 0,
-          nb = 0;
-        for (let i = 0; i < a.length; i++) {
-          dot += a[i] * b[i];
-          na += a[i] * a[i];
-          nb += b[i] * b[i];
-        }
-        const denom = Math.sqrt(na) * Math.sqrt(nb);
-        const sim = denom === 0 ? 0 : dot / denom; // [-1, 1]
-        const dist = 1 - sim; // [0, 2], smaller = closer
-        return { rank: dist, report: dist }; // <-- report distance, not similarity
-      }
-
-      case 'DOT_PRODUCT': {
-        let dot = 0;
-        for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
-        return { rank: -dot, report: dot }; // rank by -dot, report raw dot
-      }
-      default:
-        // Unsuported rejected during validation
-        return { rank: Number.POSITIVE_INFINITY, report: NaN };
-    }
-  }
-
   function normZero(x: number): number {
     // avoid writing -0
     return Object.is(x, -0) ? 0 : x;
@@ -869,7 +1035,7 @@ export function buildFindNearestTransformer(
       const v = readVector(doc, vectorField);
       if (!v || v.length !== queryVector.length) continue;
 
-      const s = score(queryVector, v, distanceMeasure);
+      const s = scoreVectors(queryVector, v, distanceMeasure);
       if (distanceThreshold === undefined || s.rank <= distanceThreshold) {
         scored.push({ doc, d: s.rank, report: s.report });
       }
@@ -918,6 +1084,44 @@ export function buildFindNearestTransformer(
   }
 }
 
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/**
+ * Sums numeric values as the backend does: integers accumulate exactly while
+ * the sum fits in 64 bits; a double input, or an integer overflow, makes the
+ * result a double. Integers are the values the Admin SDK encodes as
+ * `integerValue` (safe integers other than `-0`).
+ */
+function sumValue(values: number[]): google.firestore.v1.IValue {
+  let integers = 0n;
+  let doubles = 0;
+  let sawDouble = false;
+  for (const v of values) {
+    if (Number.isSafeInteger(v) && !Object.is(v, -0)) {
+      integers += BigInt(v);
+    } else {
+      doubles += v;
+      sawDouble = true;
+    }
+  }
+
+  return !sawDouble && integers >= INT64_MIN && integers <= INT64_MAX
+    ? { integerValue: integers.toString() }
+    : { doubleValue: Number(integers) + doubles };
+}
+
+/**
+ * Encodes a flat record of strings as a `google.protobuf.Struct`.
+ */
+function toStruct(record: Record<string, string>): google.protobuf.IStruct {
+  const fields: Record<string, google.protobuf.IValue> = {};
+  for (const [key, value] of Object.entries(record)) {
+    fields[key] = { stringValue: value };
+  }
+  return { fields };
+}
+
 function assignCommonQueryResponse<
   T extends
     | google.firestore.v1.IRunQueryResponse
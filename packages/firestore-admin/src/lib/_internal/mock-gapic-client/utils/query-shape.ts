@@ -0,0 +1,105 @@
+import type { google } from '@gcf/firestore-protos';
+import { toPathPattern } from '../../stats/stats-ledger.js';
+
+type IStructuredQuery = google.firestore.v1.IStructuredQuery;
+type IFilter = google.firestore.v1.StructuredQuery.IFilter;
+type IAggregation = google.firestore.v1.StructuredAggregationQuery.IAggregation;
+
+const FIELD_OPERATORS: Record<string, string> = {
+  LESS_THAN: '<',
+  LESS_THAN_OR_EQUAL: '<=',
+  GREATER_THAN: '>',
+  GREATER_THAN_OR_EQUAL: '>=',
+  EQUAL: '==',
+  NOT_EQUAL: '!=',
+  ARRAY_CONTAINS: 'array-contains',
+  IN: 'in',
+  ARRAY_CONTAINS_ANY: 'array-contains-any',
+  NOT_IN: 'not-in',
+};
+
+const UNARY_OPERATORS: Record<string, string> = {
+  IS_NAN: '== NaN',
+  IS_NULL: '== null',
+  IS_NOT_NAN: '!= NaN',
+  IS_NOT_NULL: '!= null',
+};
+
+/**
+ * Describes a query for per-query stats: its source, filters, ordering,
+ * cursors, paging and projection, with values elided and document IDs of the
+ * parent path replaced by `{*}`, so that executions differing only in values
+ * share a shape.
+ *
+ * @param parent - The internal parent document path (`''` for the root).
+ * @param query - The structured query.
+ * @param aggregations - The aggregations of a RunAggregationQuery, if any.
+ * @returns E.g. `'users/{*}/posts where author == ? order by date desc limit ?'`,
+ *   or `'count(), sum(n) of collectionGroup posts'` for an aggregation.
+ */
+export function queryShape(
+  parent: string,
+  query: IStructuredQuery,
+  aggregations?: IAggregation[]
+): string {
+  const from = query.from?.[0];
+  const collectionId = from?.collectionId || '*';
+  const source = from?.allDescendants
+    ? `collectionGroup ${collectionId}`
+    : [toPathPattern(parent), collectionId].filter(Boolean).join('/');
+
+  const parts = [source];
+  if (query.where) parts.push(`where ${filterShape(query.where, true)}`);
+  if (query.orderBy?.length) {
+    const orders = query.orderBy.map(
+      (o) =>
+        `${o.field?.fieldPath} ${o.direction === 'DESCENDING' ? 'desc' : 'asc'}`
+    );
+    parts.push(`order by ${orders.join(', ')}`);
+  }
+  if (query.startAt) {
+    parts.push(query.startAt.before ? 'start at ?' : 'start after ?');
+  }
+  if (query.endAt) {
+    parts.push(query.endAt.before ? 'end before ?' : 'end at ?');
+  }
+  if (query.offset) parts.push('offset ?');
+  if (query.limit) parts.push('limit ?');
+  if (query.findNearest) {
+    parts.push(`find nearest ${query.findNearest.vectorField?.fieldPath}`);
+  }
+  if (query.select?.fields) {
+    parts.push(
+      `select ${query.select.fields.map((f) => f.fieldPath).join(', ')}`
+    );
+  }
+  const shape = parts.join(' ');
+
+  if (!aggregations) return shape;
+
+  const aggregates = aggregations.map((a) => {
+    if (a.sum) return `sum(${a.sum.field?.fieldPath})`;
+    if (a.avg) return `avg(${a.avg.field?.fieldPath})`;
+    return a.count?.upTo ? 'count(up to ?)' : 'count()';
+  });
+
+  return `${aggregates.join(', ')} of ${shape}`;
+}
+
+function filterShape(filter: IFilter, top = false): string {
+  if (filter.fieldFilter) {
+    const { field, op } = filter.fieldFilter;
+    return `${field?.fieldPath} ${FIELD_OPERATORS[op as string] ?? op} ?`;
+  }
+  if (filter.unaryFilter) {
+    const { field, op } = filter.unaryFilter;
+    return `${field?.fieldPath} ${UNARY_OPERATORS[op as string] ?? op}`;
+  }
+
+  const { op, filters } = filter.compositeFilter ?? {};
+  const nested = (filters ?? []).map((f) => filterShape(f));
+  if (nested.length === 1) return nested[0];
+
+  const joined = nested.join(op === 'OR' ? ' or ' : ' and ');
+  return top ? joined : `(${joined})`;
+}
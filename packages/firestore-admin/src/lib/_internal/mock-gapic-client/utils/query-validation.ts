@@ -5,7 +5,6 @@ import {
   assertInstanceOf,
   assertMutuallyExclusive,
   assertNotEmpty,
-  assertRequestArgumentNotSupported,
 } from './assert.js';
 
 /**
@@ -13,21 +12,18 @@ import {
  * `RunAggregationQuery`.
  *
  * Enforced rules:
- * - `explainOptions` are **not supported** by the mock (kept unsupported for fidelity).
  * - Exactly one of `readTime`, `transaction`, or `newTransaction` may be set
  *   (mutually exclusive pairs are checked).
  * - If `transaction` is present, it must be a non-empty `Uint8Array`.
  *
  * @param request - A GAPIC `IRunQueryRequest` or `IRunAggregationQueryRequest`.
- * @throws {GoogleError} (`INVALID_ARGUMENT` / `UNIMPLEMENTED`) if validation fails.
+ * @throws {GoogleError} `INVALID_ARGUMENT` if validation fails.
  */
 export function validateCommonQueryRequest(
   request:
     | google.firestore.v1.IRunQueryRequest
     | google.firestore.v1.IRunAggregationQueryRequest
 ): void {
-  // Explain is not supported in the mock for fidelity
-  assertRequestArgumentNotSupported('explainOptions', request.explainOptions);
   assertMutuallyExclusive(
     'readTime',
     request.readTime,
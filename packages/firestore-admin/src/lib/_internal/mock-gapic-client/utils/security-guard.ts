@@ -0,0 +1,415 @@
+import type { google } from '@gcf/firestore-protos';
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { GoogleError, Status } from 'google-gax';
+import {
+  MetaDocument,
+  WriteAuthorizationView,
+  WriteAuthorizer,
+} from '../../data-accessor.js';
+import { googleError } from '../../functions/google-error.js';
+import { parseFieldPath } from '../../functions/util.js';
+import { RulesLookup } from '../../security-rules/evaluator.js';
+import {
+  resourceValue,
+  RulesRequest,
+  toInternalDocumentPath,
+} from '../../security-rules/ruleset.js';
+import {
+  RulesEvaluationError,
+  RulesPath,
+  RulesValue,
+} from '../../security-rules/rules-values.js';
+import { GapicContext } from '../gapic-context.js';
+import { setDeepValue } from './deep-value.js';
+
+/** Document access calls permitted per single-document request. */
+const MAX_LOOKUPS_SINGLE = 10;
+/** Document access calls permitted per multi-document request or batch. */
+const MAX_LOOKUPS_MULTI = 20;
+/**
+ * Stand-in document id used when a `list` request is evaluated against the
+ * query's constraints.
+ */
+const QUERY_PLACEHOLDER_ID = '__query__';
+
+/**
+ * The subset of query state consulted when authorizing a `list` request.
+ */
+export interface ListAuthorizationTarget {
+  /** Internal parent path (`''` for the root). */
+  parent: string;
+  collectionId: string | undefined;
+  limit?: number;
+  offset?: number;
+  /** The raw structured query, used to derive the stand-in documents. */
+  structuredQuery?: google.firestore.v1.IStructuredQuery;
+}
+
+/**
+ * Builds the error returned for a request denied by Security Rules.
+ */
+export function permissionDenied(): GoogleError {
+  return googleError(
+    Status.PERMISSION_DENIED,
+    'Missing or insufficient permissions.'
+  );
+}
+
+/**
+ * Authorizes `get` access to each document read by a client-identity request.
+ * No-op for privileged (Admin SDK) contexts.
+ *
+ * @param context - The request's GAPIC context.
+ * @param docs - The documents being read (existing or not).
+ * @param readTime - The read time of the request.
+ * @throws {GoogleError} {@link Status.PERMISSION_DENIED} when any read is denied.
+ */
+export function authorizeGet(
+  context: GapicContext,
+  docs: MetaDocument[],
+  readTime: Timestamp
+): void {
+  if (!context.identity) return;
+
+  const lookup = new DocumentLookup(
+    context,
+    docs.length > 1 ? MAX_LOOKUPS_MULTI : MAX_LOOKUPS_SINGLE,
+    readTime
+  );
+  for (const doc of docs) {
+    evaluate(context, {
+      method: 'get',
+      path: doc.path,
+      resource: doc.exists ? doc.data : undefined,
+      lookup,
+    });
+  }
+}
+
+/**
+ * Authorizes `list` access for a query issued by a client-identity request.
+ *
+ * Rules are not filters: the rule must hold for any document the query could
+ * return, whatever is stored. It is therefore never evaluated against result
+ * documents, but against stand-in documents derived from the query's
+ * constraints (see {@link constraintResources}), and must allow each of them.
+ *
+ * @param context - The request's GAPIC context.
+ * @param target - The query being authorized.
+ * @param readTime - The read time of the request.
+ * @throws {GoogleError} {@link Status.PERMISSION_DENIED} when access is denied.
+ */
+export function authorizeList(
+  context: GapicContext,
+  target: ListAuthorizationTarget,
+  readTime: Timestamp
+): void {
+  if (!context.identity) return;
+
+  const lookup = new DocumentLookup(context, MAX_LOOKUPS_SINGLE, readTime);
+  const query = {
+    limit: target.limit,
+    offset: target.offset,
+    orderBy: (target.structuredQuery?.orderBy ?? [])
+      .map((o) => o.field?.fieldPath)
+      .filter((p): p is string => !!p),
+  };
+  const collection = [target.parent, target.collectionId]
+    .filter((s) => !!s)
+    .join('/');
+
+  for (const resource of constraintResources(
+    context,
+    target.structuredQuery?.where
+  )) {
+    evaluate(context, {
+      method: 'list',
+      path: `${collection}/${QUERY_PLACEHOLDER_ID}`,
+      resource,
+      query,
+      lookup,
+    });
+  }
+}
+
+/**
+ * Creates a {@link WriteAuthorizer} for a client-identity commit, or `undefined`
+ * for privileged contexts.
+ *
+ * The method is derived per write: deletes map to `delete`, sets to `create`
+ * when the document does not exist before the batch and `update` otherwise.
+ * `request.resource` reflects the document after the batch (including field
+ * transforms), and `getAfter()` sees the state of the whole batch.
+ *
+ * @param context - The request's GAPIC context.
+ * @param opCount - Number of writes in the batch, used to select the lookup limit.
+ */
+export function createWriteAuthorizer(
+  context: GapicContext,
+  opCount: number
+): WriteAuthorizer | undefined {
+  if (!context.identity) return undefined;
+
+  let lookup: DocumentLookup | undefined;
+
+  return (op, view) => {
+    lookup ??= new DocumentLookup(
+      context,
+      opCount > 1 ? MAX_LOOKUPS_MULTI : MAX_LOOKUPS_SINGLE,
+      undefined,
+      view
+    );
+    const before = view.before(op.path);
+    evaluate(context, {
+      method:
+        op.type === 'delete'
+          ? 'delete'
+          : before !== undefined
+          ? 'update'
+          : 'create',
+      path: op.path,
+      time: view.serverTime,
+      resource: before,
+      requestResource: op.type === 'delete' ? undefined : view.after(op.path),
+      lookup,
+    });
+  };
+}
+
+/**
+ * Denies client-identity requests for operations that are restricted to
+ * privileged (IAM) callers in production, such as listing collection ids.
+ *
+ * @throws {GoogleError} {@link Status.PERMISSION_DENIED} for client identities.
+ */
+export function assertPrivileged(context: GapicContext): void {
+  if (context.identity) throw permissionDenied();
+}
+
+type PartialRulesRequest = Omit<
+  RulesRequest,
+  'databaseId' | 'auth' | 'time'
+> & { time?: Timestamp };
+
+function evaluate(context: GapicContext, request: PartialRulesRequest): void {
+  const ruleset = context.getRuleset();
+  const granted = ruleset?.authorize({
+    ...request,
+    databaseId: context.databaseId,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    auth: context.identity!.auth,
+    time: request.time ?? context.getAccessor().serverTime(),
+  });
+
+  if (!granted) throw permissionDenied();
+}
+
+/**
+ * Resolves `get()`/`exists()` (committed state) and `getAfter()`/`existsAfter()`
+ * (post-batch state) for rules evaluation, enforcing the per-request limit on
+ * distinct document access calls.
+ */
+class DocumentLookup implements RulesLookup {
+  private readonly _accessed = new Set<string>();
+
+  constructor(
+    private readonly _context: GapicContext,
+    private readonly _limit: number,
+    private readonly _readTime?: Timestamp,
+    private readonly _view?: WriteAuthorizationView
+  ) {}
+
+  get(path: RulesPath): RulesValue {
+    const internal = this.access(path);
+    const data = this._view ? this._view.before(internal) : this.read(internal);
+
+    return this.toResource(internal, data);
+  }
+
+  getAfter(path: RulesPath): RulesValue {
+    if (!this._view) {
+      throw new RulesEvaluationError(
+        'getAfter() is only available when evaluating writes.'
+      );
+    }
+    const internal = this.access(path);
+
+    return this.toResource(internal, this._view.after(internal));
+  }
+
+  private read(path: string): DocumentData | undefined {
+    const meta = this._context.getAccessor().getDoc(path, this._readTime);
+    return meta.exists ? meta.data : undefined;
+  }
+
+  private access(path: RulesPath): string {
+    const internal = toInternalDocumentPath(path, this._context.databaseId);
+    if (internal === undefined) {
+      throw new RulesEvaluationError(`Invalid document path '${path}'.`);
+    }
+    if (!this._accessed.has(internal)) {
+      if (this._accessed.size >= this._limit) {
+        throw new RulesEvaluationError(
+          `Exceeded the limit of ${this._limit} document access calls.`
+        );
+      }
+      this._accessed.add(internal);
+    }
+    return internal;
+  }
+
+  private toResource(path: string, data: DocumentData | undefined): RulesValue {
+    return data ? resourceValue(this._context.databaseId, path, data) : null;
+  }
+}
+
+/** A field path and the value a stand-in document holds there. */
+type Assignment = readonly [fieldPath: string[], value: unknown];
+
+/** What a single field filter says about the values of its field. */
+interface FieldConstraint {
+  readonly fieldPath: string[];
+  readonly kind: 'pin' | 'lower' | 'upper';
+  readonly values: unknown[];
+}
+
+/** The constraints of an `AND` on one field. */
+interface FieldRange {
+  readonly fieldPath: string[];
+  pins?: unknown[];
+  readonly lower: unknown[];
+  readonly upper: unknown[];
+}
+
+/**
+ * Derives the stand-in documents a `list` rule must allow from the filters of
+ * a structured query:
+ *
+ * - `EQUAL`, `IS_NULL` and `IS_NAN` fix a field's value.
+ * - `IN` and `OR` yield one stand-in per alternative.
+ * - Range filters yield one stand-in per bound, plus one at the open end of a
+ *   numeric (`±Infinity`) or string (`''`) range bounded on one side only. An
+ *   exclusive numeric bound is moved to the adjacent double; other exclusive
+ *   bounds are used as is.
+ * - Other filters leave the field unset.
+ */
+function constraintResources(
+  context: GapicContext,
+  where: google.firestore.v1.StructuredQuery.IFilter | null | undefined
+): DocumentData[] {
+  return alternatives(context, where).map((assignments) => {
+    const data: DocumentData = {};
+    for (const [fieldPath, value] of assignments) {
+      setDeepValue(data, fieldPath, value);
+    }
+    return data;
+  });
+}
+
+function alternatives(
+  context: GapicContext,
+  filter: google.firestore.v1.StructuredQuery.IFilter | null | undefined
+): Assignment[][] {
+  const composite = filter?.compositeFilter;
+  if (composite?.op === 'OR' && composite.filters?.length) {
+    return composite.filters.flatMap((f) => alternatives(context, f));
+  }
+  const filters = composite ? composite.filters ?? [] : filter ? [filter] : [];
+
+  let result: Assignment[][] = [[]];
+  const ranges = new Map<string, FieldRange>();
+  for (const f of filters) {
+    if (f.compositeFilter) {
+      result = product(result, alternatives(context, f));
+      continue;
+    }
+    const constraint = fieldConstraint(context, f);
+    if (!constraint || constraint.values.length === 0) continue;
+
+    const { fieldPath, kind, values } = constraint;
+    const key = fieldPath.join('.');
+    const range = ranges.get(key) ?? { fieldPath, lower: [], upper: [] };
+    ranges.set(key, range);
+    if (kind === 'pin') range.pins = [...(range.pins ?? []), ...values];
+    else range[kind].push(...values);
+  }
+
+  ranges.forEach(({ fieldPath, pins, lower, upper }) => {
+    const choices = pins ?? [
+      ...lower,
+      ...upper,
+      ...(upper.length ? [] : openEnd(lower, Infinity)),
+      ...(lower.length ? [] : openEnd(upper, -Infinity)),
+    ];
+    result = product(
+      result,
+      choices.map((choice) => [[fieldPath, choice]])
+    );
+  });
+
+  return result;
+}
+
+function fieldConstraint(
+  context: GapicContext,
+  filter: google.firestore.v1.StructuredQuery.IFilter
+): FieldConstraint | undefined {
+  const unary = filter.unaryFilter;
+  if (unary?.field?.fieldPath) {
+    const fieldPath = parseFieldPath(unary.field.fieldPath);
+    if (unary.op === 'IS_NULL')
+      return { fieldPath, kind: 'pin', values: [null] };
+    if (unary.op === 'IS_NAN') return { fieldPath, kind: 'pin', values: [NaN] };
+    return undefined;
+  }
+
+  const field = filter.fieldFilter;
+  if (!field?.field?.fieldPath || !field.value) return undefined;
+  const fieldPath = parseFieldPath(field.field.fieldPath);
+  const value = context.serializer.decodeValue(field.value);
+  switch (field.op) {
+    case 'EQUAL':
+      return { fieldPath, kind: 'pin', values: [value] };
+    case 'IN':
+      return {
+        fieldPath,
+        kind: 'pin',
+        values: Array.isArray(value) ? value : [],
+      };
+    case 'GREATER_THAN_OR_EQUAL':
+      return { fieldPath, kind: 'lower', values: [value] };
+    case 'GREATER_THAN':
+      return { fieldPath, kind: 'lower', values: [adjacent(value, Infinity)] };
+    case 'LESS_THAN_OR_EQUAL':
+      return { fieldPath, kind: 'upper', values: [value] };
+    case 'LESS_THAN':
+      return { fieldPath, kind: 'upper', values: [adjacent(value, -Infinity)] };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The value at the open end, towards `direction`, of a range bounded by
+ * `bounds` on the other side, if it has one of a known type.
+ */
+function openEnd(bounds: unknown[], direction: number): unknown[] {
+  if (bounds.length === 0) return [];
+  if (typeof bounds[0] === 'number') return [direction];
+  if (typeof bounds[0] === 'string' && direction < 0) return [''];
+  return [];
+}
+
+/** The double next to `value` towards `direction`, if `value` is a number. */
+function adjacent(value: unknown, direction: number): unknown {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return value;
+  if (value === 0) return direction > 0 ? Number.MIN_VALUE : -Number.MIN_VALUE;
+
+  const bits = new BigInt64Array(new Float64Array([value]).buffer);
+  bits[0] += value > 0 === direction > 0 ? 1n : -1n;
+  return new Float64Array(bits.buffer)[0];
+}
+
+function product(a: Assignment[][], b: Assignment[][]): Assignment[][] {
+  return a.flatMap((x) => b.map((y) => [...x, ...y]));
+}
@@ -9,8 +9,9 @@ import {
 import { TimestampFromProto, ToProto } from '../../firestore/typecast.js';
 import { toProtoTimestamp } from '../../functions/util.js';
 import { GapicContext } from '../gapic-context.js';
-import { transformWrites } from './convert.js';
+import { TransformedWrite, transformWrites } from './convert.js';
 import { assertRequestArgument } from './assert.js';
+import { authorizeGet, createWriteAuthorizer } from './security-guard.js';
 
 /**
  * Minimal subset of transaction selector fields accepted by
@@ -107,18 +108,25 @@ export class TransactionHelper {
    *   (e.g., preconditions, transforms) before being passed to the internal commit.
    * - Returned `writeResults[i]` carry the per-write commit time; when transform
    *   results were produced, they are included in `transformResults`.
+   * - In pessimistic concurrency mode, the commit first waits for exclusive locks
+   *   on the written documents; the response is then returned asynchronously.
    *
    * @param mode Write mode (e.g., transactional vs non-transactional).
    * @param request GAPIC commit request containing writes and optional transaction id.
    * @returns GAPIC {@link google.firestore.v1.ICommitResponse} with `commitTime`
-   *          and per-write `writeResults`.
+   *          and per-write `writeResults`, or a promise of it while waiting for locks.
    * @throws {GoogleError} {Status.INVALID_ARGUMENT} when `transaction` is present but invalid
    *         (surfaced by {@link assertRequestArgument} or downstream fetch/validation).
+   * @throws {GoogleError} {Status.PERMISSION_DENIED} when a client-identity write is
+   *         denied by Security Rules.
+   * @throws {GoogleError} {Status.ABORTED} when the transaction loses lock contention.
    */
   commit(
     mode: WriteMode,
     request: google.firestore.v1.ICommitRequest
-  ): google.firestore.v1.ICommitResponse {
+  ):
+    | google.firestore.v1.ICommitResponse
+    | Promise<google.firestore.v1.ICommitResponse> {
     const accessor = this.context.getAccessor();
     const transaction = request.transaction
       ? accessor.fetch(
@@ -130,11 +138,38 @@ export class TransactionHelper {
 
     const transformed = transformWrites(this.context, request.writes ?? []);
     const writes = transformed.map((t) => t.normalized);
+    const paths = writes.map((w) => w.path);
+    const locked = request.transaction
+      ? transaction.lockWrites(paths)
+      : accessor.lockWrites(paths);
+
+    const apply = (): google.firestore.v1.ICommitResponse =>
+      this.applyCommit(transaction, mode, transformed);
+    if (!locked) return apply();
+
+    return locked.then(apply, (e) => {
+      // A failed implicit transaction is never rolled back by the client
+      if (!request.transaction) transaction.rollback();
+      throw e;
+    });
+  }
 
+  /**
+   * Commits normalized writes and builds the GAPIC response.
+   */
+  private applyCommit(
+    transaction: InternalTransaction,
+    mode: WriteMode,
+    transformed: TransformedWrite[]
+  ): google.firestore.v1.ICommitResponse {
+    const writes = transformed.map((t) => t.normalized);
     const result = transaction.commit({
       mode,
       writes,
+      authorize: createWriteAuthorizer(this.context, writes.length),
+      limited: true,
     });
+    this.context.getAccessor().billWrites(writes);
 
     const writeResults: google.firestore.v1.IWriteResult[] = [];
     const commitTime = toProtoTimestamp(result.serverTime);
@@ -167,13 +202,18 @@ export class TransactionHelper {
    * - If the document exists at `readTime`, `found` is populated with a
    *   serialized document.
    * - Otherwise `missing` is set to the requested path.
-   * - `readTime` is included in every item.
+   * - `readTime` is the request's, if given, and is included in every item.
    * - When a transaction is used, its id (bytes) is echoed back and the read
    *   is registered on the transaction to support conflict detection.
    *
    * @param request GAPIC batch-get request with `documents` and optional
    *                transaction/readTime selectors.
    * @returns Array of GAPIC batch-get responses aligned with `documents` order.
+   * @throws {GoogleError} {Status.PERMISSION_DENIED} when a client-identity read
+   *         is denied by Security Rules.
+   * @throws {GoogleError} {Status.FAILED_PRECONDITION} or
+   *         {Status.INVALID_ARGUMENT} when the request's `readTime` is outside
+   *         the retention window.
    */
   batchRead(
     request: google.firestore.v1.IBatchGetDocumentsRequest
@@ -181,13 +221,25 @@ export class TransactionHelper {
     const result: google.firestore.v1.IBatchGetDocumentsResponse[] = [];
 
     const accessor = this.context.getAccessor();
+    const requestReadTime = Convert.timestamp(request.readTime);
+    if (requestReadTime) accessor.assertReadTime(requestReadTime);
     const tx = this.resolve(request);
-    const readTime = InternalTransaction.ensureReadTime(accessor, tx);
+    const readTime =
+      requestReadTime ?? InternalTransaction.ensureReadTime(accessor, tx);
     if (!request.documents) return result;
 
-    for (const docPath of request.documents) {
-      const internalPath = this.context.toInternalPath(docPath, 'document');
-      const metaDoc = accessor.getDoc(internalPath, readTime);
+    const metaDocs = request.documents.map((docPath) =>
+      accessor.getDoc(
+        this.context.toInternalPath(docPath, 'document'),
+        readTime
+      )
+    );
+    authorizeGet(this.context, metaDocs, readTime);
+    accessor.bill('reads', metaDocs.length);
+
+    for (let i = 0; i < metaDocs.length; i++) {
+      const docPath = request.documents[i];
+      const metaDoc = metaDocs[i];
 
       const response: google.firestore.v1.IBatchGetDocumentsResponse = {
         readTime: (readTime as unknown as ToProto).toProto().timestampValue,
@@ -0,0 +1,232 @@
+/**
+ * Protobuf wire types.
+ */
+export enum WireType {
+  Varint = 0,
+  Fixed64 = 1,
+  LengthDelimited = 2,
+  StartGroup = 3,
+  EndGroup = 4,
+  Fixed32 = 5,
+}
+
+/**
+ * Minimal protobuf writer supporting the scalar, message and (proto2) group
+ * encodings needed to produce Datastore entity records and the index
+ * definitions embedded in console links.
+ */
+export class ProtoWriter {
+  private _buf = new Uint8Array(256);
+  private _len = 0;
+
+  /** Writes a field tag. */
+  tag(field: number, wireType: WireType): this {
+    return this.varint((field << 3) | wireType);
+  }
+
+  /** Writes a raw varint; `bigint` values are encoded as 64-bit two's complement. */
+  varint(value: number | bigint): this {
+    let v = BigInt.asUintN(64, BigInt(value));
+    while (v > 0x7fn) {
+      this.push(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    return this.push(Number(v));
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.tag(field, WireType.Varint).varint(value ? 1 : 0);
+  }
+
+  int64(field: number, value: number | bigint): this {
+    return this.tag(field, WireType.Varint).varint(value);
+  }
+
+  double(field: number, value: number): this {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value, true);
+    return this.tag(field, WireType.Fixed64).raw(bytes);
+  }
+
+  bytes(field: number, value: Uint8Array): this {
+    return this.tag(field, WireType.LengthDelimited)
+      .varint(value.length)
+      .raw(value);
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, new TextEncoder().encode(value));
+  }
+
+  /** Writes a length-delimited sub-message built by `build`. */
+  message(field: number, build: (writer: ProtoWriter) => void): this {
+    const inner = new ProtoWriter();
+    build(inner);
+    return this.bytes(field, inner.finish());
+  }
+
+  /** Writes a proto2 group whose fields are written by `build`. */
+  group(field: number, build: (writer: ProtoWriter) => void): this {
+    this.tag(field, WireType.StartGroup);
+    build(this);
+    return this.tag(field, WireType.EndGroup);
+  }
+
+  /** Returns the encoded bytes. */
+  finish(): Uint8Array {
+    return this._buf.slice(0, this._len);
+  }
+
+  private raw(bytes: Uint8Array): this {
+    this.ensure(bytes.length);
+    this._buf.set(bytes, this._len);
+    this._len += bytes.length;
+    return this;
+  }
+
+  private push(byte: number): this {
+    this.ensure(1);
+    this._buf[this._len++] = byte;
+    return this;
+  }
+
+  private ensure(extra: number): void {
+    if (this._len + extra <= this._buf.length) return;
+    let size = this._buf.length * 2;
+    while (size < this._len + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this._buf.subarray(0, this._len));
+    this._buf = next;
+  }
+}
+
+/**
+ * A decoded field tag.
+ */
+export interface ProtoTag {
+  field: number;
+  wireType: WireType;
+}
+
+/**
+ * Minimal protobuf reader, the counterpart of {@link ProtoWriter}.
+ *
+ * @throws {Error} From any read method when the input is truncated or malformed.
+ */
+export class ProtoReader {
+  private _pos: number;
+
+  constructor(
+    private readonly _buf: Uint8Array,
+    start = 0,
+    private readonly _end = _buf.length
+  ) {
+    this._pos = start;
+  }
+
+  /** `true` once every byte of the message has been consumed. */
+  get done(): boolean {
+    return this._pos >= this._end;
+  }
+
+  tag(): ProtoTag {
+    const value = Number(this.varint());
+    return { field: value >>> 3, wireType: value & 7 };
+  }
+
+  /** Reads a varint as an unsigned 64-bit value. */
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.byte();
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+      if (shift > 63n) throw new Error('Malformed varint.');
+    }
+  }
+
+  int64(): bigint {
+    return BigInt.asIntN(64, this.varint());
+  }
+
+  bool(): boolean {
+    return this.varint() !== 0n;
+  }
+
+  double(): number {
+    const bytes = this.take(8);
+    return new DataView(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength
+    ).getFloat64(0, true);
+  }
+
+  bytes(): Uint8Array {
+    return this.take(Number(this.varint()));
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+
+  /** Returns a reader over the next length-delimited sub-message. */
+  message(): ProtoReader {
+    const length = Number(this.varint());
+    const start = this._pos;
+    this.take(length);
+    return new ProtoReader(this._buf, start, start + length);
+  }
+
+  /**
+   * Reads the fields of a group whose start tag has just been consumed,
+   * invoking `onField` for each until the matching end tag.
+   */
+  group(field: number, onField: (tag: ProtoTag) => void): void {
+    for (;;) {
+      const tag = this.tag();
+      if (tag.wireType === WireType.EndGroup) {
+        if (tag.field !== field) throw new Error('Mismatched end group.');
+        return;
+      }
+      onField(tag);
+    }
+  }
+
+  /** Skips the value of a field whose tag has just been consumed. */
+  skip(tag: ProtoTag): void {
+    switch (tag.wireType) {
+      case WireType.Varint:
+        this.varint();
+        break;
+      case WireType.Fixed64:
+        this.take(8);
+        break;
+      case WireType.LengthDelimited:
+        this.bytes();
+        break;
+      case WireType.StartGroup:
+        this.group(tag.field, (inner) => this.skip(inner));
+        break;
+      case WireType.Fixed32:
+        this.take(4);
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${tag.wireType}.`);
+    }
+  }
+
+  private byte(): number {
+    if (this._pos >= this._end) throw new Error('Truncated message.');
+    return this._buf[this._pos++];
+  }
+
+  private take(length: number): Uint8Array {
+    if (this._pos + length > this._end) throw new Error('Truncated message.');
+    const bytes = this._buf.subarray(this._pos, this._pos + length);
+    this._pos += length;
+    return bytes;
+  }
+}
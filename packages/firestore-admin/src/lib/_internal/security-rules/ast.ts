@@ -0,0 +1,166 @@
+import type { SecurityRulesMethod } from '../../security-rules.js';
+
+/**
+ * Source location shared by all ruleset AST nodes.
+ */
+export interface SourceLocation {
+  /** Zero-based character offset in the ruleset source. */
+  pos: number;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column number. */
+  column: number;
+}
+
+export type BinaryOperator =
+  | '||'
+  | '&&'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'in'
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%';
+
+export type Expression =
+  | LiteralExpression
+  | IdentifierExpression
+  | MemberExpression
+  | IndexExpression
+  | SliceExpression
+  | CallExpression
+  | UnaryExpression
+  | BinaryExpression
+  | IsExpression
+  | TernaryExpression
+  | ListExpression
+  | MapExpression
+  | PathExpression;
+
+export interface LiteralExpression extends SourceLocation {
+  type: 'literal';
+  value: null | boolean | number | string;
+}
+
+export interface IdentifierExpression extends SourceLocation {
+  type: 'ident';
+  name: string;
+}
+
+export interface MemberExpression extends SourceLocation {
+  type: 'member';
+  object: Expression;
+  property: string;
+}
+
+export interface IndexExpression extends SourceLocation {
+  type: 'index';
+  object: Expression;
+  index: Expression;
+}
+
+export interface SliceExpression extends SourceLocation {
+  type: 'slice';
+  object: Expression;
+  start?: Expression;
+  end?: Expression;
+}
+
+export interface CallExpression extends SourceLocation {
+  type: 'call';
+  /** Either an identifier (global/user function) or a member (method call). */
+  callee: IdentifierExpression | MemberExpression;
+  args: Expression[];
+}
+
+export interface UnaryExpression extends SourceLocation {
+  type: 'unary';
+  op: '!' | '-';
+  operand: Expression;
+}
+
+export interface BinaryExpression extends SourceLocation {
+  type: 'binary';
+  op: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface IsExpression extends SourceLocation {
+  type: 'is';
+  operand: Expression;
+  typeName: string;
+}
+
+export interface TernaryExpression extends SourceLocation {
+  type: 'ternary';
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface ListExpression extends SourceLocation {
+  type: 'list';
+  elements: Expression[];
+}
+
+export interface MapExpression extends SourceLocation {
+  type: 'map';
+  entries: { key: Expression; value: Expression }[];
+}
+
+/**
+ * A path literal such as `/databases/$(database)/documents/users/$(uid)`.
+ * Literal segments are strings; `$(...)` segments are expressions.
+ */
+export interface PathExpression extends SourceLocation {
+  type: 'path';
+  segments: (string | Expression)[];
+}
+
+export interface LetBinding extends SourceLocation {
+  name: string;
+  value: Expression;
+}
+
+export interface FunctionDeclaration extends SourceLocation {
+  name: string;
+  params: string[];
+  lets: LetBinding[];
+  body: Expression;
+}
+
+export interface AllowStatement extends SourceLocation {
+  methods: SecurityRulesMethod[];
+  /** `undefined` for unconditional statements (`allow read;`). */
+  condition?: Expression;
+  /** Source text of the condition, or `'true'`. */
+  conditionText: string;
+}
+
+export type PatternSegment =
+  | { kind: 'literal'; value: string }
+  | { kind: 'wildcard'; name: string }
+  | { kind: 'recursive'; name: string };
+
+export interface MatchBlock extends SourceLocation {
+  pattern: PatternSegment[];
+  /** Pattern text as written, e.g. `/users/{userId}`. */
+  patternText: string;
+  functions: FunctionDeclaration[];
+  allows: AllowStatement[];
+  matches: MatchBlock[];
+}
+
+export interface RulesetNode {
+  version: '1' | '2';
+  service: string;
+  functions: FunctionDeclaration[];
+  matches: MatchBlock[];
+}
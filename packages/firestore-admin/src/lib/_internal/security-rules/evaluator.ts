@@ -0,0 +1,812 @@
+import { GeoPoint, Timestamp } from 'firebase-admin/firestore';
+import {
+  BinaryExpression,
+  CallExpression,
+  Expression,
+  FunctionDeclaration,
+} from './ast.js';
+import {
+  isRulesMap,
+  RulesDuration,
+  RulesEvaluationError,
+  RulesMap,
+  RulesMapDiff,
+  RulesPath,
+  RulesSet,
+  rulesCompare,
+  rulesEqual,
+  rulesIsType,
+  rulesTypeOf,
+  RulesValue,
+} from './rules-values.js';
+
+/** Maximum user-function call depth, per the production rules runtime. */
+const MAX_CALL_DEPTH = 20;
+const NANOS_PER_SECOND = 1_000_000_000n;
+const NANOS_PER_MILLI = 1_000_000n;
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/**
+ * Document lookups available to `get()`, `exists()`, `getAfter()` and
+ * `existsAfter()`. Implementations return the `resource` map for an existing
+ * document, or `null` when it does not exist.
+ */
+export interface RulesLookup {
+  get(path: RulesPath): RulesValue;
+  getAfter(path: RulesPath): RulesValue;
+}
+
+interface FunctionClosure {
+  decl: FunctionDeclaration;
+  scope: Scope;
+}
+
+/**
+ * Lexical scope holding variables (wildcards, `let` bindings, function
+ * parameters) and function declarations.
+ */
+export class Scope {
+  private readonly _vars = new Map<string, RulesValue>();
+  private readonly _functions = new Map<string, FunctionClosure>();
+
+  constructor(readonly parent?: Scope) {}
+
+  define(name: string, value: RulesValue): void {
+    this._vars.set(name, value);
+  }
+
+  declare(functions: readonly FunctionDeclaration[]): void {
+    for (const decl of functions) {
+      this._functions.set(decl.name, { decl, scope: this });
+    }
+  }
+
+  resolveVar(name: string): { value: RulesValue } | undefined {
+    if (this._vars.has(name)) {
+      return { value: this._vars.get(name) as RulesValue };
+    }
+    return this.parent?.resolveVar(name);
+  }
+
+  resolveFunction(name: string): FunctionClosure | undefined {
+    return this._functions.get(name) ?? this.parent?.resolveFunction(name);
+  }
+}
+
+/**
+ * Tree-walking evaluator for rules expressions.
+ *
+ * Any failure (type mismatch, missing map key, `null` dereference, bad
+ * arguments) raises {@link RulesEvaluationError}. The logical operators follow
+ * the production error semantics: `true || error` and `error || true` are both
+ * `true`, and `false && error` and `error && false` are both `false`.
+ */
+export class Evaluator {
+  private _depth = 0;
+
+  constructor(private readonly _lookup: RulesLookup) {}
+
+  /**
+   * Evaluates an `allow` condition. Non-boolean results are errors.
+   */
+  condition(expr: Expression, scope: Scope): boolean {
+    const value = this.evaluate(expr, scope);
+    if (typeof value !== 'boolean') {
+      throw new RulesEvaluationError(
+        `Condition evaluated to ${rulesTypeOf(value)}, expected bool.`
+      );
+    }
+    return value;
+  }
+
+  evaluate(expr: Expression, scope: Scope): RulesValue {
+    switch (expr.type) {
+      case 'literal':
+        return expr.value;
+
+      case 'ident': {
+        const resolved = scope.resolveVar(expr.name);
+        if (!resolved) fail(`Unknown variable '${expr.name}'.`);
+        return resolved.value;
+      }
+
+      case 'member': {
+        const object = this.evaluate(expr.object, scope);
+        if (!isRulesMap(object)) {
+          fail(
+            `Property '${expr.property}' accessed on ${rulesTypeOf(object)}.`
+          );
+        }
+        if (!(expr.property in object)) {
+          fail(`Property '${expr.property}' is undefined on object.`);
+        }
+        return object[expr.property];
+      }
+
+      case 'index':
+        return indexValue(
+          this.evaluate(expr.object, scope),
+          this.evaluate(expr.index, scope)
+        );
+
+      case 'slice': {
+        const object = this.evaluate(expr.object, scope);
+        const start = expr.start ? this.evaluate(expr.start, scope) : 0;
+        if (!Array.isArray(object)) fail('Range is only supported on lists.');
+        const end = expr.end ? this.evaluate(expr.end, scope) : object.length;
+        return object.slice(asInt(start), asInt(end));
+      }
+
+      case 'call':
+        return this.call(expr, scope);
+
+      case 'unary': {
+        const operand = this.evaluate(expr.operand, scope);
+        if (expr.op === '!') {
+          if (typeof operand !== 'boolean') fail("'!' requires a bool.");
+          return !operand;
+        }
+        if (typeof operand === 'number') return -operand;
+        if (operand instanceof RulesDuration) {
+          return new RulesDuration(-operand.nanos);
+        }
+        return fail("Unary '-' requires a number or duration.");
+      }
+
+      case 'binary':
+        return this.binary(expr, scope);
+
+      case 'is':
+        return rulesIsType(this.evaluate(expr.operand, scope), expr.typeName);
+
+      case 'ternary': {
+        const test = this.evaluate(expr.test, scope);
+        if (typeof test !== 'boolean') fail('Ternary test must be a bool.');
+        return this.evaluate(test ? expr.consequent : expr.alternate, scope);
+      }
+
+      case 'list':
+        return expr.elements.map((e) => this.evaluate(e, scope));
+
+      case 'map': {
+        const result: RulesMap = {};
+        for (const entry of expr.entries) {
+          const key = this.evaluate(entry.key, scope);
+          if (typeof key !== 'string') fail('Map keys must be strings.');
+          result[key] = this.evaluate(entry.value, scope);
+        }
+        return result;
+      }
+
+      case 'path': {
+        const segments: string[] = [];
+        for (const seg of expr.segments) {
+          if (typeof seg === 'string') {
+            segments.push(seg);
+            continue;
+          }
+          const value = this.evaluate(seg, scope);
+          if (typeof value === 'string') {
+            segments.push(value);
+          } else if (typeof value === 'number' && Number.isInteger(value)) {
+            segments.push(String(value));
+          } else if (value instanceof RulesPath) {
+            segments.push(...value.segments);
+          } else {
+            fail(`Cannot interpolate ${rulesTypeOf(value)} into a path.`);
+          }
+        }
+        return new RulesPath(segments);
+      }
+    }
+  }
+
+  private binary(expr: BinaryExpression, scope: Scope): RulesValue {
+    if (expr.op === '||' || expr.op === '&&') {
+      const short = expr.op === '||';
+      let leftError: unknown;
+      try {
+        const left = this.evaluate(expr.left, scope);
+        if (typeof left !== 'boolean') fail(`'${expr.op}' requires bools.`);
+        if (left === short) return short;
+      } catch (e) {
+        if (!(e instanceof RulesEvaluationError)) throw e;
+        leftError = e;
+      }
+      const right = this.evaluate(expr.right, scope);
+      if (typeof right !== 'boolean') fail(`'${expr.op}' requires bools.`);
+      if (right === short) return short;
+      if (leftError) throw leftError;
+      return !short;
+    }
+
+    const left = this.evaluate(expr.left, scope);
+    const right = this.evaluate(expr.right, scope);
+
+    switch (expr.op) {
+      case '==':
+        return rulesEqual(left, right);
+      case '!=':
+        return !rulesEqual(left, right);
+      case '<':
+        return rulesCompare(left, right) < 0;
+      case '<=':
+        return rulesCompare(left, right) <= 0;
+      case '>':
+        return rulesCompare(left, right) > 0;
+      case '>=':
+        return rulesCompare(left, right) >= 0;
+      case 'in':
+        if (Array.isArray(right)) return right.some((v) => rulesEqual(v, left));
+        if (right instanceof RulesSet) return right.has(left);
+        if (isRulesMap(right)) {
+          if (typeof left !== 'string') fail('Map keys must be strings.');
+          return left in right;
+        }
+        return fail("'in' requires a list, set or map.");
+      case '+':
+        return add(left, right);
+      case '-':
+        return subtract(left, right);
+      case '*':
+        if (typeof left === 'number' && typeof right === 'number') {
+          return left * right;
+        }
+        return fail("'*' requires numbers.");
+      case '/':
+        if (typeof left === 'number' && typeof right === 'number') {
+          if (Number.isInteger(left) && Number.isInteger(right)) {
+            if (right === 0) fail('Integer division by zero.');
+            return Math.trunc(left / right);
+          }
+          return left / right;
+        }
+        return fail("'/' requires numbers.");
+      case '%':
+        if (Number.isInteger(left) && Number.isInteger(right)) {
+          if (right === 0) fail('Integer modulo by zero.');
+          return (left as number) % (right as number);
+        }
+        return fail("'%' requires integers.");
+    }
+  }
+
+  private call(expr: CallExpression, scope: Scope): RulesValue {
+    const callee = expr.callee;
+    const args = () => expr.args.map((a) => this.evaluate(a, scope));
+
+    if (callee.type === 'ident') {
+      const closure = scope.resolveFunction(callee.name);
+      if (closure) return this.invoke(closure, args());
+      return this.global(callee.name, args());
+    }
+
+    // Namespaced global functions (math.abs, duration.value, ...) unless the
+    // namespace identifier is shadowed by a variable.
+    if (
+      callee.object.type === 'ident' &&
+      NAMESPACES.has(callee.object.name) &&
+      !scope.resolveVar(callee.object.name)
+    ) {
+      return namespaced(callee.object.name, callee.property, args());
+    }
+
+    const target = this.evaluate(callee.object, scope);
+    return method(target, callee.property, args());
+  }
+
+  private invoke(closure: FunctionClosure, args: RulesValue[]): RulesValue {
+    const { decl } = closure;
+    if (args.length !== decl.params.length) {
+      fail(
+        `Function '${decl.name}' expects ${decl.params.length} argument(s), got ${args.length}.`
+      );
+    }
+    if (this._depth >= MAX_CALL_DEPTH) {
+      fail('Maximum function call depth exceeded.');
+    }
+    const local = new Scope(closure.scope);
+    decl.params.forEach((p, i) => local.define(p, args[i]));
+    this._depth++;
+    try {
+      for (const binding of decl.lets) {
+        local.define(binding.name, this.evaluate(binding.value, local));
+      }
+      return this.evaluate(decl.body, local);
+    } finally {
+      this._depth--;
+    }
+  }
+
+  private global(name: string, args: RulesValue[]): RulesValue {
+    switch (name) {
+      case 'get':
+        return this._lookup.get(asPath(arity(args, 1)[0]));
+      case 'exists':
+        return this._lookup.get(asPath(arity(args, 1)[0])) !== null;
+      case 'getAfter':
+        return this._lookup.getAfter(asPath(arity(args, 1)[0]));
+      case 'existsAfter':
+        return this._lookup.getAfter(asPath(arity(args, 1)[0])) !== null;
+      case 'debug':
+        return arity(args, 1)[0];
+      case 'int': {
+        const [v] = arity(args, 1);
+        if (typeof v === 'number') return Math.trunc(v);
+        if (typeof v === 'string' && /^[+-]?\d+$/.test(v.trim())) {
+          return parseInt(v, 10);
+        }
+        return fail(`Cannot convert ${rulesTypeOf(v)} to int.`);
+      }
+      case 'float': {
+        const [v] = arity(args, 1);
+        if (typeof v === 'number') return v;
+        if (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))) {
+          return Number(v);
+        }
+        return fail(`Cannot convert ${rulesTypeOf(v)} to float.`);
+      }
+      case 'string': {
+        const [v] = arity(args, 1);
+        if (v === null) return 'null';
+        if (
+          typeof v === 'string' ||
+          typeof v === 'number' ||
+          typeof v === 'boolean'
+        ) {
+          return String(v);
+        }
+        if (v instanceof RulesPath) return v.toString();
+        return fail(`Cannot convert ${rulesTypeOf(v)} to string.`);
+      }
+      case 'path': {
+        const [v] = arity(args, 1);
+        if (typeof v !== 'string') fail('path() requires a string.');
+        return RulesPath.parse(v);
+      }
+    }
+    return fail(`Unknown function '${name}'.`);
+  }
+}
+
+const NAMESPACES: ReadonlySet<string> = new Set([
+  'math',
+  'timestamp',
+  'duration',
+  'latlng',
+]);
+
+function namespaced(ns: string, name: string, args: RulesValue[]): RulesValue {
+  const key = `${ns}.${name}`;
+  switch (key) {
+    case 'math.abs':
+      return Math.abs(asNumber(arity(args, 1)[0]));
+    case 'math.ceil':
+      return Math.ceil(asNumber(arity(args, 1)[0]));
+    case 'math.floor':
+      return Math.floor(asNumber(arity(args, 1)[0]));
+    case 'math.round':
+      return Math.round(asNumber(arity(args, 1)[0]));
+    case 'math.sqrt':
+      return Math.sqrt(asNumber(arity(args, 1)[0]));
+    case 'math.pow': {
+      const [base, exp] = arity(args, 2);
+      return Math.pow(asNumber(base), asNumber(exp));
+    }
+    case 'math.isInfinite': {
+      const n = asNumber(arity(args, 1)[0]);
+      return n === Infinity || n === -Infinity;
+    }
+    case 'math.isNaN':
+      return Number.isNaN(asNumber(arity(args, 1)[0]));
+    case 'timestamp.value':
+      return Timestamp.fromMillis(asInt(arity(args, 1)[0]));
+    case 'timestamp.date': {
+      const [y, m, d] = arity(args, 3).map(asInt);
+      return Timestamp.fromMillis(Date.UTC(y, m - 1, d));
+    }
+    case 'duration.value': {
+      const [magnitude, unit] = arity(args, 2);
+      const multiplier = DURATION_UNITS[unit as string];
+      if (typeof unit !== 'string' || multiplier === undefined) {
+        fail(`Invalid duration unit '${String(unit)}'.`);
+      }
+      return new RulesDuration(BigInt(asInt(magnitude)) * multiplier);
+    }
+    case 'duration.time': {
+      const [h, m, s, n] = arity(args, 4).map(asInt);
+      return new RulesDuration(
+        ((BigInt(h) * 60n + BigInt(m)) * 60n + BigInt(s)) * NANOS_PER_SECOND +
+          BigInt(n)
+      );
+    }
+    case 'duration.abs': {
+      const [d] = arity(args, 1);
+      if (!(d instanceof RulesDuration))
+        fail('duration.abs requires a duration.');
+      return new RulesDuration(d.nanos < 0n ? -d.nanos : d.nanos);
+    }
+    case 'latlng.value': {
+      const [lat, lng] = arity(args, 2).map(asNumber);
+      return new GeoPoint(lat, lng);
+    }
+  }
+  return fail(`Unknown function '${key}'.`);
+}
+
+const DURATION_UNITS: Record<string, bigint> = {
+  w: 7n * 24n * 3600n * NANOS_PER_SECOND,
+  d: 24n * 3600n * NANOS_PER_SECOND,
+  h: 3600n * NANOS_PER_SECOND,
+  m: 60n * NANOS_PER_SECOND,
+  s: NANOS_PER_SECOND,
+  ms: NANOS_PER_MILLI,
+  ns: 1n,
+};
+
+function method(
+  target: RulesValue,
+  name: string,
+  args: RulesValue[]
+): RulesValue {
+  const type = rulesTypeOf(target);
+
+  if (name === 'size' && args.length === 0) {
+    switch (type) {
+      case 'string':
+        return [...(target as string)].length;
+      case 'list':
+      case 'bytes':
+        return (target as RulesValue[] | Uint8Array).length;
+      case 'map':
+        return Object.keys(target as RulesMap).length;
+      case 'set':
+        return (target as RulesSet).items.length;
+    }
+  }
+
+  switch (type) {
+    case 'string':
+      return stringMethod(target as string, name, args);
+    case 'list':
+      return collectionMethod(target as RulesValue[], name, args, false);
+    case 'set':
+      return collectionMethod(
+        [...(target as RulesSet).items],
+        name,
+        args,
+        true
+      );
+    case 'map':
+      return mapMethod(target as RulesMap, name, args);
+    case 'map_diff': {
+      const diff = target as RulesMapDiff;
+      arity(args, 0);
+      switch (name) {
+        case 'addedKeys':
+          return diff.addedKeys();
+        case 'removedKeys':
+          return diff.removedKeys();
+        case 'changedKeys':
+          return diff.changedKeys();
+        case 'affectedKeys':
+          return diff.affectedKeys();
+        case 'unchangedKeys':
+          return diff.unchangedKeys();
+      }
+      break;
+    }
+    case 'timestamp':
+      return timestampMethod(target as Timestamp, name, args);
+    case 'duration': {
+      const d = target as RulesDuration;
+      arity(args, 0);
+      if (name === 'seconds') return Number(d.nanos / NANOS_PER_SECOND);
+      if (name === 'nanos') return Number(d.nanos % NANOS_PER_SECOND);
+      break;
+    }
+    case 'bytes': {
+      const bytes = target as Uint8Array;
+      arity(args, 0);
+      if (name === 'toBase64') return Buffer.from(bytes).toString('base64');
+      if (name === 'toHexString') {
+        return Buffer.from(bytes).toString('hex').toUpperCase();
+      }
+      break;
+    }
+    case 'latlng': {
+      const point = target as GeoPoint;
+      if (name === 'latitude') return arity(args, 0) && point.latitude;
+      if (name === 'longitude') return arity(args, 0) && point.longitude;
+      if (name === 'distance') {
+        const [other] = arity(args, 1);
+        if (!(other instanceof GeoPoint)) fail('distance() requires a latlng.');
+        return haversine(point, other);
+      }
+      break;
+    }
+  }
+
+  return fail(`Unknown method '${name}' on ${type}.`);
+}
+
+function stringMethod(s: string, name: string, args: RulesValue[]): RulesValue {
+  switch (name) {
+    case 'matches':
+      return regex(asString(arity(args, 1)[0]), '').test(s);
+    case 'lower':
+      return arity(args, 0) && s.toLowerCase();
+    case 'upper':
+      return arity(args, 0) && s.toUpperCase();
+    case 'trim':
+      return arity(args, 0) && s.trim();
+    case 'split':
+      return s.split(regex(asString(arity(args, 1)[0]), 'g', false));
+    case 'replace': {
+      const [re, sub] = arity(args, 2).map(asString);
+      return s.replace(regex(re, 'g', false), sub);
+    }
+    case 'toUtf8':
+      return arity(args, 0) && new Uint8Array(Buffer.from(s, 'utf8'));
+  }
+  return fail(`Unknown method '${name}' on string.`);
+}
+
+function collectionMethod(
+  items: RulesValue[],
+  name: string,
+  args: RulesValue[],
+  isSet: boolean
+): RulesValue {
+  const has = (v: RulesValue) => items.some((i) => rulesEqual(i, v));
+  const other = () => asCollection(arity(args, 1)[0]);
+  const wrap = (values: RulesValue[]) =>
+    isSet ? new RulesSet(values) : values;
+
+  switch (name) {
+    case 'hasAll':
+      return other().every(has);
+    case 'hasAny':
+      return other().some(has);
+    case 'hasOnly': {
+      const allowed = other();
+      return items.every((i) => allowed.some((a) => rulesEqual(a, i)));
+    }
+    case 'toSet':
+      return arity(args, 0) && new RulesSet(items);
+  }
+
+  if (isSet) {
+    switch (name) {
+      case 'difference': {
+        const o = other();
+        return wrap(items.filter((i) => !o.some((v) => rulesEqual(v, i))));
+      }
+      case 'intersection': {
+        const o = other();
+        return wrap(items.filter((i) => o.some((v) => rulesEqual(v, i))));
+      }
+      case 'union':
+        return wrap([...items, ...other()]);
+    }
+  } else {
+    switch (name) {
+      case 'join': {
+        const sep = asString(arity(args, 1)[0]);
+        return items.map((i) => asString(i)).join(sep);
+      }
+      case 'concat':
+        return [...items, ...other()];
+      case 'removeAll': {
+        const o = other();
+        return items.filter((i) => !o.some((v) => rulesEqual(v, i)));
+      }
+    }
+  }
+
+  return fail(`Unknown method '${name}' on ${isSet ? 'set' : 'list'}.`);
+}
+
+function mapMethod(
+  map: RulesMap,
+  name: string,
+  args: RulesValue[]
+): RulesValue {
+  switch (name) {
+    case 'keys':
+      return arity(args, 0) && Object.keys(map);
+    case 'values':
+      return arity(args, 0) && Object.values(map);
+    case 'get': {
+      const [key, fallback] = arity(args, 2);
+      const keys = Array.isArray(key) ? key : [key];
+      let current: RulesValue = map;
+      for (const k of keys) {
+        if (typeof k !== 'string') fail('Map keys must be strings.');
+        if (!isRulesMap(current) || !(k in current)) return fallback;
+        current = current[k];
+      }
+      return current;
+    }
+    case 'diff': {
+      const [other] = arity(args, 1);
+      if (!isRulesMap(other)) fail('diff() requires a map.');
+      return new RulesMapDiff(map, other);
+    }
+  }
+  return fail(`Unknown method '${name}' on map.`);
+}
+
+function timestampMethod(
+  ts: Timestamp,
+  name: string,
+  args: RulesValue[]
+): RulesValue {
+  arity(args, 0);
+  const date = ts.toDate();
+  switch (name) {
+    case 'toMillis':
+      return ts.toMillis();
+    case 'seconds':
+      return ts.seconds;
+    case 'nanos':
+      return ts.nanoseconds;
+    case 'year':
+      return date.getUTCFullYear();
+    case 'month':
+      return date.getUTCMonth() + 1;
+    case 'day':
+      return date.getUTCDate();
+    case 'hours':
+      return date.getUTCHours();
+    case 'minutes':
+      return date.getUTCMinutes();
+    case 'dayOfWeek':
+      // Rules numbers Monday as 1 and Sunday as 7.
+      return date.getUTCDay() === 0 ? 7 : date.getUTCDay();
+    case 'dayOfYear': {
+      const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+      return Math.floor((date.getTime() - start) / 86_400_000) + 1;
+    }
+    case 'date':
+      return Timestamp.fromMillis(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+      );
+    case 'time': {
+      const midnight = BigInt(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+      );
+      return new RulesDuration(toNanos(ts) - midnight * NANOS_PER_MILLI);
+    }
+  }
+  return fail(`Unknown method '${name}' on timestamp.`);
+}
+
+function add(left: RulesValue, right: RulesValue): RulesValue {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left + right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left + right;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+  if (left instanceof Timestamp && right instanceof RulesDuration) {
+    return fromNanos(toNanos(left) + right.nanos);
+  }
+  if (left instanceof RulesDuration && right instanceof Timestamp) {
+    return fromNanos(toNanos(right) + left.nanos);
+  }
+  if (left instanceof RulesDuration && right instanceof RulesDuration) {
+    return new RulesDuration(left.nanos + right.nanos);
+  }
+  return fail(`Cannot add ${rulesTypeOf(left)} and ${rulesTypeOf(right)}.`);
+}
+
+function subtract(left: RulesValue, right: RulesValue): RulesValue {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (left instanceof Timestamp && right instanceof Timestamp) {
+    return new RulesDuration(toNanos(left) - toNanos(right));
+  }
+  if (left instanceof Timestamp && right instanceof RulesDuration) {
+    return fromNanos(toNanos(left) - right.nanos);
+  }
+  if (left instanceof RulesDuration && right instanceof RulesDuration) {
+    return new RulesDuration(left.nanos - right.nanos);
+  }
+  return fail(
+    `Cannot subtract ${rulesTypeOf(right)} from ${rulesTypeOf(left)}.`
+  );
+}
+
+function indexValue(object: RulesValue, index: RulesValue): RulesValue {
+  if (Array.isArray(object) || object instanceof RulesPath) {
+    const items = Array.isArray(object) ? object : object.segments;
+    const i = asInt(index);
+    if (i < 0 || i >= items.length) fail(`Index ${i} out of range.`);
+    return items[i];
+  }
+  if (isRulesMap(object)) {
+    if (typeof index !== 'string') fail('Map keys must be strings.');
+    if (!(index in object)) fail(`Key '${index}' is undefined on map.`);
+    return object[index];
+  }
+  return fail(`Cannot index ${rulesTypeOf(object)}.`);
+}
+
+function toNanos(ts: Timestamp): bigint {
+  return BigInt(ts.seconds) * NANOS_PER_SECOND + BigInt(ts.nanoseconds);
+}
+
+function fromNanos(nanos: bigint): Timestamp {
+  let seconds = nanos / NANOS_PER_SECOND;
+  let rem = nanos % NANOS_PER_SECOND;
+  if (rem < 0n) {
+    seconds -= 1n;
+    rem += NANOS_PER_SECOND;
+  }
+  return new Timestamp(Number(seconds), Number(rem));
+}
+
+function haversine(a: GeoPoint, b: GeoPoint): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLng = rad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.latitude)) *
+      Math.cos(rad(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+function regex(pattern: string, flags: string, anchored = true): RegExp {
+  try {
+    return new RegExp(anchored ? `^(?:${pattern})$` : pattern, flags);
+  } catch {
+    return fail(`Invalid regular expression '${pattern}'.`);
+  }
+}
+
+function arity(args: RulesValue[], count: number): RulesValue[] {
+  if (args.length !== count) {
+    fail(`Expected ${count} argument(s), got ${args.length}.`);
+  }
+  return args;
+}
+
+function asNumber(value: RulesValue): number {
+  if (typeof value !== 'number')
+    fail(`Expected a number, got ${rulesTypeOf(value)}.`);
+  return value;
+}
+
+function asInt(value: RulesValue): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    fail(`Expected an int, got ${rulesTypeOf(value)}.`);
+  }
+  return value;
+}
+
+function asString(value: RulesValue): string {
+  if (typeof value !== 'string')
+    fail(`Expected a string, got ${rulesTypeOf(value)}.`);
+  return value;
+}
+
+function asPath(value: RulesValue): RulesPath {
+  if (!(value instanceof RulesPath))
+    fail(`Expected a path, got ${rulesTypeOf(value)}.`);
+  return value;
+}
+
+function asCollection(value: RulesValue): RulesValue[] {
+  if (Array.isArray(value)) return value;
+  if (value instanceof RulesSet) return [...value.items];
+  return fail(`Expected a list or set, got ${rulesTypeOf(value)}.`);
+}
+
+function fail(message: string): never {
+  throw new RulesEvaluationError(message);
+}
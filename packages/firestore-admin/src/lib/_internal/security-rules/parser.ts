@@ -0,0 +1,835 @@
+import { Status } from 'google-gax';
+import type { SecurityRulesMethod } from '../../security-rules.js';
+import { googleError } from '../functions/google-error.js';
+import {
+  AllowStatement,
+  BinaryOperator,
+  Expression,
+  FunctionDeclaration,
+  LetBinding,
+  MatchBlock,
+  PatternSegment,
+  RulesetNode,
+  SourceLocation,
+} from './ast.js';
+
+type TokenKind = 'ident' | 'number' | 'string' | 'punct' | 'eof';
+
+interface Token extends SourceLocation {
+  kind: TokenKind;
+  /** Raw token text (for strings, the decoded value). */
+  text: string;
+  /** Offset immediately after the token. */
+  end: number;
+}
+
+/** Multi-character punctuators must precede their single-character prefixes. */
+const PUNCTUATORS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '?',
+  ':',
+  '.',
+  ',',
+  ';',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  '=',
+];
+
+const METHODS: ReadonlySet<string> = new Set<SecurityRulesMethod>([
+  'read',
+  'write',
+  'get',
+  'list',
+  'create',
+  'update',
+  'delete',
+]);
+
+const RELATIONAL_OPS: ReadonlySet<string> = new Set([
+  '==',
+  '!=',
+  '<',
+  '<=',
+  '>',
+  '>=',
+]);
+
+/**
+ * Parses Firestore Security Rules source into a {@link RulesetNode}.
+ *
+ * Supports `rules_version`, `service cloud.firestore`, nested `match` blocks
+ * (including `{name=**}` recursive wildcards), `function` declarations with
+ * `let` bindings, and `allow` statements with optional `if` conditions.
+ *
+ * @param source - The ruleset source text.
+ * @returns The parsed ruleset.
+ * @throws {GoogleError} {@link Status.INVALID_ARGUMENT} on a syntax error; the
+ * message includes the 1-based line and column.
+ */
+export function parseRules(source: string): RulesetNode {
+  return new Parser(source).parseRuleset();
+}
+
+/**
+ * On-demand tokenizer. Tokens are produced lazily so that the parser can switch
+ * to raw scanning for match patterns and path literals, whose segments do not
+ * follow the expression token grammar.
+ */
+class Lexer {
+  private _pos = 0;
+  private _peeked: Token | undefined;
+  /** Offset immediately after the most recently consumed token. */
+  lastEnd = 0;
+
+  constructor(readonly source: string) {}
+
+  get pos(): number {
+    return this._pos;
+  }
+
+  peek(): Token {
+    if (!this._peeked) {
+      this._peeked = this.scan();
+    }
+    return this._peeked;
+  }
+
+  next(): Token {
+    const token = this.peek();
+    this._peeked = undefined;
+    this._pos = token.end;
+    this.lastEnd = token.end;
+    return token;
+  }
+
+  /**
+   * Discards any peeked token and repositions the cursor.
+   */
+  seek(pos: number): void {
+    this._peeked = undefined;
+    this._pos = pos;
+  }
+
+  /**
+   * Advances the raw cursor by `count` characters.
+   */
+  advance(count: number): void {
+    this._peeked = undefined;
+    this._pos += count;
+    this.lastEnd = this._pos;
+  }
+
+  charAt(offset = 0): string {
+    return this.source.charAt(this._pos + offset);
+  }
+
+  skipTrivia(): void {
+    this._peeked = undefined;
+    const src = this.source;
+    let pos = this._pos;
+    for (;;) {
+      const ch = src.charAt(pos);
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') {
+        pos++;
+      } else if (src.startsWith('//', pos)) {
+        const nl = src.indexOf('\n', pos);
+        pos = nl < 0 ? src.length : nl + 1;
+      } else if (src.startsWith('/*', pos)) {
+        const close = src.indexOf('*/', pos + 2);
+        if (close < 0) {
+          this._pos = pos;
+          throw this.error('Unterminated block comment.');
+        }
+        pos = close + 2;
+      } else {
+        break;
+      }
+    }
+    this._pos = pos;
+  }
+
+  location(pos = this._pos): SourceLocation {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < pos; i++) {
+      if (this.source.charCodeAt(i) === 10) {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    return { pos, line, column: pos - lineStart + 1 };
+  }
+
+  error(message: string, pos = this._pos): Error {
+    const { line, column } = this.location(pos);
+    return googleError(
+      Status.INVALID_ARGUMENT,
+      `Security rules syntax error at ${line}:${column}: ${message}`
+    );
+  }
+
+  private scan(): Token {
+    this.skipTrivia();
+    const src = this.source;
+    const start = this._pos;
+    const loc = this.location(start);
+    const token = (kind: TokenKind, text: string, end: number): Token => ({
+      ...loc,
+      kind,
+      text,
+      end,
+    });
+
+    if (start >= src.length) return token('eof', '', start);
+
+    const ch = src.charAt(start);
+
+    if (/[A-Za-z_]/.test(ch)) {
+      // Raw strings (r'...') are treated as ordinary strings without escapes.
+      if ((ch === 'r' || ch === 'R') && /['"]/.test(src.charAt(start + 1))) {
+        const quote = src.charAt(start + 1);
+        const close = src.indexOf(quote, start + 2);
+        if (close < 0) throw this.error('Unterminated string literal.', start);
+        return token('string', src.slice(start + 2, close), close + 1);
+      }
+      let end = start + 1;
+      while (end < src.length && /[A-Za-z0-9_]/.test(src.charAt(end))) end++;
+      return token('ident', src.slice(start, end), end);
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(
+        src.slice(start)
+      );
+      // match is guaranteed by the leading digit test
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const text = match![0];
+      return token('number', text, start + text.length);
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let pos = start + 1;
+      for (;;) {
+        if (pos >= src.length) {
+          throw this.error('Unterminated string literal.', start);
+        }
+        const c = src.charAt(pos);
+        if (c === ch) break;
+        if (c === '\n') {
+          throw this.error('Unterminated string literal.', start);
+        }
+        if (c === '\\') {
+          const e = src.charAt(pos + 1);
+          pos += 2;
+          switch (e) {
+            case 'n':
+              value += '\n';
+              break;
+            case 't':
+              value += '\t';
+              break;
+            case 'r':
+              value += '\r';
+              break;
+            case 'u': {
+              const hex = src.slice(pos, pos + 4);
+              if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                throw this.error('Invalid unicode escape.', pos - 2);
+              }
+              value += String.fromCharCode(parseInt(hex, 16));
+              pos += 4;
+              break;
+            }
+            default:
+              value += e;
+          }
+          continue;
+        }
+        value += c;
+        pos++;
+      }
+      return token('string', value, pos + 1);
+    }
+
+    for (const p of PUNCTUATORS) {
+      if (src.startsWith(p, start)) {
+        return token('punct', p, start + p.length);
+      }
+    }
+
+    throw this.error(`Unexpected character '${ch}'.`, start);
+  }
+}
+
+class Parser {
+  private readonly _lexer: Lexer;
+
+  constructor(source: string) {
+    this._lexer = new Lexer(source);
+  }
+
+  parseRuleset(): RulesetNode {
+    const result: RulesetNode = {
+      version: '1',
+      service: '',
+      functions: [],
+      matches: [],
+    };
+    let sawService = false;
+
+    while (this.peek().kind !== 'eof') {
+      const token = this.peek();
+      if (this.isIdent(token, 'rules_version')) {
+        this.next();
+        this.expect('=');
+        const version = this.next();
+        if (
+          version.kind !== 'string' ||
+          (version.text !== '1' && version.text !== '2')
+        ) {
+          throw this._lexer.error(
+            `Unsupported rules_version '${version.text}'.`,
+            version.pos
+          );
+        }
+        result.version = version.text;
+        this.optional(';');
+      } else if (this.isIdent(token, 'service')) {
+        if (sawService) {
+          throw this._lexer.error('Only one service block is supported.');
+        }
+        sawService = true;
+        this.next();
+        result.service = this.parseQualifiedName();
+        if (result.service !== 'cloud.firestore') {
+          throw this._lexer.error(
+            `Unsupported service '${result.service}'; expected 'cloud.firestore'.`,
+            token.pos
+          );
+        }
+        this.expect('{');
+        while (!this.optional('}')) {
+          const item = this.peek();
+          if (this.isIdent(item, 'function')) {
+            result.functions.push(this.parseFunction());
+          } else if (this.isIdent(item, 'match')) {
+            result.matches.push(this.parseMatch());
+          } else {
+            throw this.unexpected(item);
+          }
+        }
+      } else {
+        throw this.unexpected(token);
+      }
+    }
+
+    if (!sawService) {
+      throw this._lexer.error('Missing service block.');
+    }
+
+    return result;
+  }
+
+  private parseQualifiedName(): string {
+    let name = this.expectIdent().text;
+    while (this.optional('.')) {
+      name += '.' + this.expectIdent().text;
+    }
+    return name;
+  }
+
+  private parseMatch(): MatchBlock {
+    const keyword = this.next();
+    const lexer = this._lexer;
+    lexer.seek(keyword.end);
+    lexer.skipTrivia();
+    const patternStart = lexer.pos;
+    const pattern: PatternSegment[] = [];
+
+    if (lexer.charAt() !== '/') {
+      throw lexer.error("Expected a match pattern beginning with '/'.");
+    }
+
+    while (lexer.charAt() === '/') {
+      lexer.advance(1);
+      if (lexer.charAt() === '{') {
+        const close = lexer.source.indexOf('}', lexer.pos);
+        if (close < 0) throw lexer.error('Unterminated wildcard.');
+        const inner = lexer.source.slice(lexer.pos + 1, close).trim();
+        const recursive = /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*\*\*$/.exec(inner);
+        if (recursive) {
+          pattern.push({ kind: 'recursive', name: recursive[1] });
+        } else if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(inner)) {
+          pattern.push({ kind: 'wildcard', name: inner });
+        } else {
+          throw lexer.error(`Invalid wildcard '{${inner}}'.`);
+        }
+        lexer.advance(close + 1 - lexer.pos);
+      } else {
+        let end = lexer.pos;
+        while (
+          end < lexer.source.length &&
+          !/[\s/{]/.test(lexer.source.charAt(end))
+        ) {
+          end++;
+        }
+        if (end === lexer.pos) throw lexer.error('Empty match path segment.');
+        pattern.push({
+          kind: 'literal',
+          value: lexer.source.slice(lexer.pos, end),
+        });
+        lexer.advance(end - lexer.pos);
+      }
+    }
+
+    const recursiveIndex = pattern.findIndex((s) => s.kind === 'recursive');
+    if (recursiveIndex >= 0 && recursiveIndex !== pattern.length - 1) {
+      throw lexer.error(
+        'A recursive wildcard must be the last segment of a match pattern.',
+        patternStart
+      );
+    }
+
+    const block: MatchBlock = {
+      ...lexer.location(keyword.pos),
+      pattern,
+      patternText: lexer.source.slice(patternStart, lexer.pos),
+      functions: [],
+      allows: [],
+      matches: [],
+    };
+
+    this.expect('{');
+    while (!this.optional('}')) {
+      const item = this.peek();
+      if (this.isIdent(item, 'function')) {
+        block.functions.push(this.parseFunction());
+      } else if (this.isIdent(item, 'match')) {
+        block.matches.push(this.parseMatch());
+      } else if (this.isIdent(item, 'allow')) {
+        block.allows.push(this.parseAllow());
+      } else {
+        throw this.unexpected(item);
+      }
+    }
+
+    return block;
+  }
+
+  private parseFunction(): FunctionDeclaration {
+    const keyword = this.next();
+    const name = this.expectIdent().text;
+    const params: string[] = [];
+    this.expect('(');
+    if (!this.optional(')')) {
+      do {
+        params.push(this.expectIdent().text);
+      } while (this.optional(','));
+      this.expect(')');
+    }
+    this.expect('{');
+    const lets: LetBinding[] = [];
+    while (this.isIdent(this.peek(), 'let')) {
+      const letToken = this.next();
+      const letName = this.expectIdent().text;
+      this.expect('=');
+      const value = this.parseExpression();
+      this.expect(';');
+      lets.push({ ...this.loc(letToken), name: letName, value });
+    }
+    const ret = this.next();
+    if (!this.isIdent(ret, 'return')) throw this.unexpected(ret);
+    const body = this.parseExpression();
+    this.optional(';');
+    this.expect('}');
+
+    return { ...this.loc(keyword), name, params, lets, body };
+  }
+
+  private parseAllow(): AllowStatement {
+    const keyword = this.next();
+    const methods: SecurityRulesMethod[] = [];
+    do {
+      const method = this.expectIdent();
+      if (!METHODS.has(method.text)) {
+        throw this._lexer.error(`Unknown method '${method.text}'.`, method.pos);
+      }
+      methods.push(method.text as SecurityRulesMethod);
+    } while (this.optional(','));
+
+    let condition: Expression | undefined;
+    let conditionText = 'true';
+    if (this.optional(':')) {
+      const ifToken = this.next();
+      if (!this.isIdent(ifToken, 'if')) throw this.unexpected(ifToken);
+      const start = this.peek().pos;
+      condition = this.parseExpression();
+      conditionText = this._lexer.source
+        .slice(start, this._lexer.lastEnd)
+        .replace(/\s+/g, ' ')
+        .trim();
+    }
+    this.expect(';');
+
+    return { ...this.loc(keyword), methods, condition, conditionText };
+  }
+
+  //#region Expressions
+
+  private parseExpression(): Expression {
+    const test = this.parseBinary(0);
+    const q = this.peek();
+    if (this.isPunct(q, '?')) {
+      this.next();
+      const consequent = this.parseExpression();
+      this.expect(':');
+      const alternate = this.parseExpression();
+      return { ...this.loc(q), type: 'ternary', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  /**
+   * Precedence climbing over the binary operator levels:
+   * `||` → `&&` → relational (`== != < <= > >= in is`) → additive → multiplicative.
+   */
+  private parseBinary(level: number): Expression {
+    const LEVELS = 5;
+    if (level >= LEVELS) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const op = this.binaryOperatorAt(level, token);
+      if (!op) return left;
+      this.next();
+      if (op === 'is') {
+        const typeName = this.expectIdent().text;
+        left = { ...this.loc(token), type: 'is', operand: left, typeName };
+        continue;
+      }
+      const right = this.parseBinary(level + 1);
+      left = { ...this.loc(token), type: 'binary', op, left, right };
+    }
+  }
+
+  private binaryOperatorAt(
+    level: number,
+    token: Token
+  ): BinaryOperator | 'is' | undefined {
+    switch (level) {
+      case 0:
+        return this.isPunct(token, '||') ? '||' : undefined;
+      case 1:
+        return this.isPunct(token, '&&') ? '&&' : undefined;
+      case 2:
+        if (token.kind === 'punct' && RELATIONAL_OPS.has(token.text)) {
+          return token.text as BinaryOperator;
+        }
+        if (this.isIdent(token, 'in')) return 'in';
+        if (this.isIdent(token, 'is')) return 'is';
+        return undefined;
+      case 3:
+        return this.isPunct(token, '+') || this.isPunct(token, '-')
+          ? (token.text as BinaryOperator)
+          : undefined;
+      default:
+        return this.isPunct(token, '*') ||
+          this.isPunct(token, '/') ||
+          this.isPunct(token, '%')
+          ? (token.text as BinaryOperator)
+          : undefined;
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (this.isPunct(token, '!') || this.isPunct(token, '-')) {
+      this.next();
+      const operand = this.parseUnary();
+      return {
+        ...this.loc(token),
+        type: 'unary',
+        op: token.text as '!' | '-',
+        operand,
+      };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(expr: Expression): Expression {
+    for (;;) {
+      const token = this.peek();
+      if (this.isPunct(token, '.')) {
+        this.next();
+        const name = this.expectIdent();
+        const member: Expression = {
+          ...this.loc(name),
+          type: 'member',
+          object: expr,
+          property: name.text,
+        };
+        if (this.isPunct(this.peek(), '(')) {
+          expr = {
+            ...this.loc(name),
+            type: 'call',
+            callee: member,
+            args: this.parseArguments(),
+          };
+        } else {
+          expr = member;
+        }
+      } else if (this.isPunct(token, '[')) {
+        this.next();
+        if (this.optional(':')) {
+          const end = this.parseExpression();
+          this.expect(']');
+          expr = { ...this.loc(token), type: 'slice', object: expr, end };
+          continue;
+        }
+        const index = this.parseExpression();
+        if (this.optional(':')) {
+          const end = this.isPunct(this.peek(), ']')
+            ? undefined
+            : this.parseExpression();
+          this.expect(']');
+          expr = {
+            ...this.loc(token),
+            type: 'slice',
+            object: expr,
+            start: index,
+            end,
+          };
+          continue;
+        }
+        this.expect(']');
+        expr = { ...this.loc(token), type: 'index', object: expr, index };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'number': {
+        this.next();
+        return {
+          ...this.loc(token),
+          type: 'literal',
+          value: Number(token.text),
+        };
+      }
+      case 'string': {
+        this.next();
+        return { ...this.loc(token), type: 'literal', value: token.text };
+      }
+      case 'ident': {
+        this.next();
+        switch (token.text) {
+          case 'true':
+            return { ...this.loc(token), type: 'literal', value: true };
+          case 'false':
+            return { ...this.loc(token), type: 'literal', value: false };
+          case 'null':
+            return { ...this.loc(token), type: 'literal', value: null };
+        }
+        const ident: Expression = {
+          ...this.loc(token),
+          type: 'ident',
+          name: token.text,
+        };
+        if (this.isPunct(this.peek(), '(')) {
+          return {
+            ...this.loc(token),
+            type: 'call',
+            callee: ident,
+            args: this.parseArguments(),
+          };
+        }
+        return ident;
+      }
+      case 'punct': {
+        if (token.text === '(') {
+          this.next();
+          const inner = this.parseExpression();
+          this.expect(')');
+          return inner;
+        }
+        if (token.text === '[') {
+          this.next();
+          const elements: Expression[] = [];
+          if (!this.optional(']')) {
+            do {
+              if (this.isPunct(this.peek(), ']')) break;
+              elements.push(this.parseExpression());
+            } while (this.optional(','));
+            this.expect(']');
+          }
+          return { ...this.loc(token), type: 'list', elements };
+        }
+        if (token.text === '{') {
+          this.next();
+          const entries: { key: Expression; value: Expression }[] = [];
+          if (!this.optional('}')) {
+            do {
+              if (this.isPunct(this.peek(), '}')) break;
+              const key = this.parseExpression();
+              this.expect(':');
+              const value = this.parseExpression();
+              entries.push({ key, value });
+            } while (this.optional(','));
+            this.expect('}');
+          }
+          return { ...this.loc(token), type: 'map', entries };
+        }
+        if (token.text === '/') {
+          return this.parsePath(token);
+        }
+        break;
+      }
+    }
+
+    throw this.unexpected(token);
+  }
+
+  /**
+   * Scans a path literal. Literal segments are read raw (they may contain
+   * characters such as `-` or `(default)`); `$(expr)` segments are parsed as
+   * expressions.
+   */
+  private parsePath(start: Token): Expression {
+    const lexer = this._lexer;
+    const segments: (string | Expression)[] = [];
+    lexer.seek(start.pos);
+
+    while (lexer.charAt() === '/') {
+      lexer.advance(1);
+      if (lexer.charAt() === '$' && lexer.charAt(1) === '(') {
+        lexer.advance(2);
+        segments.push(this.parseExpression());
+        this.expect(')');
+        lexer.seek(lexer.lastEnd);
+        continue;
+      }
+
+      const src = lexer.source;
+      let end = lexer.pos;
+      let depth = 0;
+      while (end < src.length) {
+        const ch = src.charAt(end);
+        if (ch === '(') {
+          depth++;
+        } else if (ch === ')') {
+          if (depth === 0) break;
+          depth--;
+        } else if (/[\s/,;\]}]/.test(ch)) {
+          break;
+        }
+        end++;
+      }
+      if (end === lexer.pos) throw lexer.error('Empty path segment.');
+      segments.push(src.slice(lexer.pos, end));
+      lexer.advance(end - lexer.pos);
+    }
+
+    return { ...this.loc(start), type: 'path', segments };
+  }
+
+  private parseArguments(): Expression[] {
+    const args: Expression[] = [];
+    this.expect('(');
+    if (!this.optional(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.optional(','));
+      this.expect(')');
+    }
+    return args;
+  }
+
+  //#endregion
+
+  //#region Token helpers
+
+  private peek(): Token {
+    return this._lexer.peek();
+  }
+
+  private next(): Token {
+    return this._lexer.next();
+  }
+
+  private loc(token: Token): SourceLocation {
+    return { pos: token.pos, line: token.line, column: token.column };
+  }
+
+  private isIdent(token: Token, text: string): boolean {
+    return token.kind === 'ident' && token.text === text;
+  }
+
+  private isPunct(token: Token, text: string): boolean {
+    return token.kind === 'punct' && token.text === text;
+  }
+
+  private optional(punct: string): boolean {
+    if (this.isPunct(this.peek(), punct)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(punct: string): Token {
+    const token = this.peek();
+    if (!this.isPunct(token, punct)) {
+      throw this._lexer.error(
+        `Expected '${punct}' but found ${describe(token)}.`,
+        token.pos
+      );
+    }
+    return this.next();
+  }
+
+  private expectIdent(): Token {
+    const token = this.peek();
+    if (token.kind !== 'ident') {
+      throw this._lexer.error(
+        `Expected an identifier but found ${describe(token)}.`,
+        token.pos
+      );
+    }
+    return this.next();
+  }
+
+  private unexpected(token: Token): Error {
+    return this._lexer.error(`Unexpected ${describe(token)}.`, token.pos);
+  }
+
+  //#endregion
+}
+
+function describe(token: Token): string {
+  return token.kind === 'eof' ? 'end of input' : `'${token.text}'`;
+}
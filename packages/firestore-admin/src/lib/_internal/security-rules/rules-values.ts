@@ -0,0 +1,304 @@
+import {
+  DocumentReference,
+  GeoPoint,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import {
+  getVectorValue,
+  isPlainObject,
+  isVectorLikeShallow,
+} from '../functions/util.js';
+
+/**
+ * Raised when a rules expression cannot be evaluated (type mismatch, missing
+ * field, `null` dereference, etc.). Evaluation errors deny access.
+ */
+export class RulesEvaluationError extends Error {}
+
+/**
+ * A rules `path` value. Segments are stored without leading slashes.
+ */
+export class RulesPath {
+  constructor(readonly segments: readonly string[]) {}
+
+  static parse(value: string): RulesPath {
+    return new RulesPath(value.split('/').filter((s) => s.length > 0));
+  }
+
+  toString(): string {
+    return '/' + this.segments.join('/');
+  }
+}
+
+/**
+ * A rules `duration` value, stored as whole nanoseconds.
+ */
+export class RulesDuration {
+  constructor(readonly nanos: bigint) {}
+
+  static fromMillis(millis: number): RulesDuration {
+    return new RulesDuration(BigInt(Math.round(millis * 1e6)));
+  }
+
+  toMillis(): number {
+    return Number(this.nanos) / 1e6;
+  }
+}
+
+/**
+ * A rules `set` value. Membership uses rules equality semantics.
+ */
+export class RulesSet {
+  readonly items: readonly RulesValue[];
+
+  constructor(items: readonly RulesValue[]) {
+    const unique: RulesValue[] = [];
+    for (const item of items) {
+      if (!unique.some((u) => rulesEqual(u, item))) unique.push(item);
+    }
+    this.items = unique;
+  }
+
+  has(value: RulesValue): boolean {
+    return this.items.some((i) => rulesEqual(i, value));
+  }
+}
+
+/**
+ * The result of `map.diff(other)`.
+ */
+export class RulesMapDiff {
+  constructor(readonly left: RulesMap, readonly right: RulesMap) {}
+
+  addedKeys(): RulesSet {
+    return new RulesSet(
+      Object.keys(this.right).filter((k) => !(k in this.left))
+    );
+  }
+
+  removedKeys(): RulesSet {
+    return new RulesSet(
+      Object.keys(this.left).filter((k) => !(k in this.right))
+    );
+  }
+
+  changedKeys(): RulesSet {
+    return new RulesSet(
+      Object.keys(this.left).filter(
+        (k) => k in this.right && !rulesEqual(this.left[k], this.right[k])
+      )
+    );
+  }
+
+  unchangedKeys(): RulesSet {
+    return new RulesSet(
+      Object.keys(this.left).filter(
+        (k) => k in this.right && rulesEqual(this.left[k], this.right[k])
+      )
+    );
+  }
+
+  affectedKeys(): RulesSet {
+    return new RulesSet([
+      ...this.addedKeys().items,
+      ...this.removedKeys().items,
+      ...this.changedKeys().items,
+    ]);
+  }
+}
+
+export type RulesMap = { [key: string]: RulesValue };
+
+export type RulesValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Uint8Array
+  | Timestamp
+  | GeoPoint
+  | RulesPath
+  | RulesDuration
+  | RulesSet
+  | RulesMapDiff
+  | RulesValue[]
+  | RulesMap;
+
+/**
+ * Returns the rules type name of a value, as used by the `is` operator.
+ */
+export function rulesTypeOf(value: RulesValue): string {
+  if (value === null) return 'null';
+  switch (typeof value) {
+    case 'boolean':
+      return 'bool';
+    case 'number':
+      return Number.isInteger(value) ? 'int' : 'float';
+    case 'string':
+      return 'string';
+  }
+  if (Array.isArray(value)) return 'list';
+  if (value instanceof Timestamp) return 'timestamp';
+  if (value instanceof GeoPoint) return 'latlng';
+  if (value instanceof RulesPath) return 'path';
+  if (value instanceof RulesDuration) return 'duration';
+  if (value instanceof RulesSet) return 'set';
+  if (value instanceof RulesMapDiff) return 'map_diff';
+  if (value instanceof Uint8Array) return 'bytes';
+  return 'map';
+}
+
+/**
+ * Tests a value against a rules type name (`value is <type>`).
+ */
+export function rulesIsType(value: RulesValue, typeName: string): boolean {
+  const actual = rulesTypeOf(value);
+  switch (typeName) {
+    case 'number':
+      return actual === 'int' || actual === 'float';
+    case 'boolean':
+      return actual === 'bool';
+    case 'constraint':
+      return false;
+    default:
+      return actual === typeName;
+  }
+}
+
+export function isRulesMap(value: RulesValue): value is RulesMap {
+  return rulesTypeOf(value) === 'map';
+}
+
+/**
+ * Deep equality with rules semantics: `int` and `float` compare numerically,
+ * lists and maps compare structurally.
+ */
+export function rulesEqual(a: RulesValue, b: RulesValue): boolean {
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a === b;
+  }
+  const ta = rulesTypeOf(a);
+  const tb = rulesTypeOf(b);
+  if (ta !== tb) return false;
+
+  switch (ta) {
+    case 'list': {
+      const la = a as RulesValue[];
+      const lb = b as RulesValue[];
+      return (
+        la.length === lb.length && la.every((v, i) => rulesEqual(v, lb[i]))
+      );
+    }
+    case 'map': {
+      const ma = a as RulesMap;
+      const mb = b as RulesMap;
+      const keys = Object.keys(ma);
+      return (
+        keys.length === Object.keys(mb).length &&
+        keys.every((k) => k in mb && rulesEqual(ma[k], mb[k]))
+      );
+    }
+    case 'timestamp':
+      return (a as Timestamp).isEqual(b as Timestamp);
+    case 'latlng':
+      return (a as GeoPoint).isEqual(b as GeoPoint);
+    case 'path':
+      return a.toString() === b.toString();
+    case 'duration':
+      return (a as RulesDuration).nanos === (b as RulesDuration).nanos;
+    case 'set': {
+      const sa = a as RulesSet;
+      const sb = b as RulesSet;
+      return (
+        sa.items.length === sb.items.length && sa.items.every((i) => sb.has(i))
+      );
+    }
+    case 'bytes': {
+      const ba = a as Uint8Array;
+      const bb = b as Uint8Array;
+      return ba.length === bb.length && ba.every((v, i) => v === bb[i]);
+    }
+  }
+  return false;
+}
+
+/**
+ * Orders two values of the same comparable type (numbers, strings, timestamps,
+ * durations, lists).
+ *
+ * @throws {RulesEvaluationError} When the values are not mutually comparable.
+ */
+export function rulesCompare(a: RulesValue, b: RulesValue): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (a instanceof Timestamp && b instanceof Timestamp) {
+    return a.valueOf() < b.valueOf() ? -1 : a.valueOf() > b.valueOf() ? 1 : 0;
+  }
+  if (a instanceof RulesDuration && b instanceof RulesDuration) {
+    return a.nanos < b.nanos ? -1 : a.nanos > b.nanos ? 1 : 0;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const len = Math.min(a.length, b.length);
+    for (let i = 0; i < len; i++) {
+      const cmp = rulesCompare(a[i], b[i]);
+      if (cmp !== 0) return cmp;
+    }
+    return a.length - b.length;
+  }
+  throw new RulesEvaluationError(
+    `Cannot compare ${rulesTypeOf(a)} with ${rulesTypeOf(b)}.`
+  );
+}
+
+/**
+ * Converts stored Firestore document data into rules values.
+ *
+ * - `DocumentReference` fields become `path` values rooted at
+ *   `/databases/{databaseId}/documents`.
+ * - `VectorValue` fields become lists of numbers.
+ * - Byte arrays become `bytes`.
+ *
+ * @param value - Stored field value (as held by the in-memory datastore).
+ * @param databaseId - Database id used to root reference paths.
+ */
+export function toRulesValue(value: unknown, databaseId: string): RulesValue {
+  if (value === null || value === undefined) return null;
+  switch (typeof value) {
+    case 'boolean':
+    case 'number':
+    case 'string':
+      return value;
+    case 'bigint':
+      return Number(value);
+  }
+  if (value instanceof Timestamp || value instanceof GeoPoint) return value;
+  if (value instanceof DocumentReference) {
+    return new RulesPath([
+      'databases',
+      databaseId,
+      'documents',
+      ...value.path.split('/'),
+    ]);
+  }
+  if (isVectorLikeShallow(value)) return getVectorValue(value);
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (value instanceof Uint8Array) return Uint8Array.from(value);
+  if (Array.isArray(value)) {
+    return value.map((v) => toRulesValue(v, databaseId));
+  }
+  if (isPlainObject(value)) {
+    const result: RulesMap = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      result[k] = toRulesValue(v, databaseId);
+    }
+    return result;
+  }
+
+  throw new RulesEvaluationError('Unsupported document value.');
+}
@@ -0,0 +1,371 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import type {
+  SecurityRuleCoverage,
+  SecurityRulesCoverage,
+  SecurityRulesMethod,
+} from '../../security-rules.js';
+import {
+  AllowStatement,
+  MatchBlock,
+  PatternSegment,
+  RulesetNode,
+} from './ast.js';
+import { Evaluator, RulesLookup, Scope } from './evaluator.js';
+import { parseRules } from './parser.js';
+import {
+  RulesEvaluationError,
+  RulesMap,
+  RulesPath,
+  RulesValue,
+  toRulesValue,
+} from './rules-values.js';
+
+/**
+ * A concrete (non-shorthand) request method.
+ */
+export type RulesRequestMethod = Exclude<SecurityRulesMethod, 'read' | 'write'>;
+
+/**
+ * Query attributes exposed to `list` rules as `request.query`.
+ */
+export interface RulesQueryInfo {
+  limit?: number;
+  offset?: number;
+  orderBy?: string[];
+}
+
+/**
+ * A single authorization decision to be made against a {@link Ruleset}.
+ */
+export interface RulesRequest {
+  /** Database id, used to build `/databases/{database}/documents/...` paths. */
+  databaseId: string;
+  method: RulesRequestMethod;
+  /** Internal document path (e.g. `users/u1`). */
+  path: string;
+  /** Decoded ID token of the caller, or `null` when unauthenticated. */
+  auth: DecodedIdToken | null;
+  /** Evaluation time, exposed as `request.time`. */
+  time: Timestamp;
+  /** Stored data of the target document, or `undefined` when it does not exist. */
+  resource: DocumentData | undefined;
+  /** Post-write data for `create` and `update`, exposed as `request.resource`. */
+  requestResource?: DocumentData | undefined;
+  /** Query attributes for `list` requests. */
+  query?: RulesQueryInfo;
+  /** Document lookups for `get()`, `exists()`, `getAfter()` and `existsAfter()`. */
+  lookup: RulesLookup;
+}
+
+interface Counters {
+  evaluations: number;
+  allowed: number;
+  denied: number;
+  errors: number;
+}
+
+interface Candidate {
+  allow: AllowStatement;
+  scope: Scope;
+}
+
+/**
+ * A parsed Firestore Security Rules ruleset with per-statement coverage tracking.
+ *
+ * Matching follows production semantics: every `match` block whose (nested)
+ * pattern fully matches the request path contributes its `allow` statements,
+ * and access is granted if **any** applicable statement evaluates to `true`.
+ * Evaluation errors deny access for that statement.
+ */
+export class Ruleset {
+  private readonly _counters = new Map<AllowStatement, Counters>();
+  private readonly _matchText = new Map<AllowStatement, string>();
+  private _requests = 0;
+  private _deniedRequests = 0;
+
+  private constructor(private readonly _root: RulesetNode) {
+    const walk = (blocks: MatchBlock[], prefix: string): void => {
+      for (const block of blocks) {
+        const text = prefix + block.patternText;
+        for (const allow of block.allows) {
+          this._matchText.set(allow, text);
+          this._counters.set(allow, {
+            evaluations: 0,
+            allowed: 0,
+            denied: 0,
+            errors: 0,
+          });
+        }
+        walk(block.matches, text);
+      }
+    };
+    walk(_root.matches, '');
+  }
+
+  /**
+   * Parses ruleset source.
+   *
+   * @throws {GoogleError} {@link Status.INVALID_ARGUMENT} on a syntax error.
+   */
+  static parse(source: string): Ruleset {
+    return new Ruleset(parseRules(source));
+  }
+
+  /**
+   * Evaluates a request against the ruleset.
+   *
+   * @returns `true` when access is granted.
+   */
+  authorize(request: RulesRequest): boolean {
+    const { databaseId } = request;
+    const segments = [
+      'databases',
+      databaseId,
+      'documents',
+      ...request.path.split('/'),
+    ];
+
+    const root = new Scope();
+    root.define('request', buildRequestValue(request, segments));
+    root.define(
+      'resource',
+      request.resource
+        ? resourceValue(databaseId, request.path, request.resource)
+        : null
+    );
+    root.declare(this._root.functions);
+
+    const candidates: Candidate[] = [];
+    this.collect(this._root.matches, segments, 0, root, candidates);
+
+    const evaluator = new Evaluator(request.lookup);
+    let granted = false;
+    for (const { allow, scope } of candidates) {
+      if (!allows(allow.methods, request.method)) continue;
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const counters = this._counters.get(allow)!;
+      counters.evaluations++;
+      let result = false;
+      if (allow.condition) {
+        try {
+          result = evaluator.condition(allow.condition, scope);
+        } catch (e) {
+          if (!(e instanceof RulesEvaluationError)) throw e;
+          counters.errors++;
+          continue;
+        }
+      } else {
+        result = true;
+      }
+      if (result) {
+        counters.allowed++;
+        granted = true;
+        break;
+      }
+      counters.denied++;
+    }
+
+    this._requests++;
+    if (!granted) this._deniedRequests++;
+
+    return granted;
+  }
+
+  /**
+   * Returns a snapshot of the coverage counters.
+   */
+  coverage(): SecurityRulesCoverage {
+    const rules: SecurityRuleCoverage[] = [];
+    for (const [allow, counters] of this._counters) {
+      rules.push(
+        Object.freeze({
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          match: this._matchText.get(allow)!,
+          methods: Object.freeze([...allow.methods]),
+          condition: allow.conditionText,
+          line: allow.line,
+          column: allow.column,
+          ...counters,
+        })
+      );
+    }
+    rules.sort((a, b) => a.line - b.line || a.column - b.column);
+
+    return Object.freeze({
+      requests: this._requests,
+      deniedRequests: this._deniedRequests,
+      rules: Object.freeze(rules),
+    });
+  }
+
+  /**
+   * Zeroes all coverage counters.
+   */
+  resetCoverage(): void {
+    this._requests = 0;
+    this._deniedRequests = 0;
+    for (const counters of this._counters.values()) {
+      counters.evaluations = 0;
+      counters.allowed = 0;
+      counters.denied = 0;
+      counters.errors = 0;
+    }
+  }
+
+  private collect(
+    blocks: MatchBlock[],
+    segments: string[],
+    offset: number,
+    scope: Scope,
+    out: Candidate[]
+  ): void {
+    for (const block of blocks) {
+      const bindings = matchPattern(
+        block.pattern,
+        segments,
+        offset,
+        this._root.version
+      );
+      if (!bindings) continue;
+
+      const child = new Scope(scope);
+      for (const [name, value] of bindings.vars) {
+        child.define(name, value);
+      }
+      child.declare(block.functions);
+
+      const next = offset + bindings.consumed;
+      if (next === segments.length) {
+        for (const allow of block.allows) {
+          out.push({ allow, scope: child });
+        }
+      } else {
+        this.collect(block.matches, segments, next, child, out);
+      }
+    }
+  }
+}
+
+/**
+ * Builds the `resource` map (`data`, `id`, `__name__`) for a stored document.
+ *
+ * @param databaseId - Database id used to root the `__name__` path.
+ * @param path - Internal document path.
+ * @param data - Stored document data.
+ */
+export function resourceValue(
+  databaseId: string,
+  path: string,
+  data: DocumentData
+): RulesMap {
+  const segments = path.split('/');
+  return {
+    data: toRulesValue(data, databaseId),
+    id: segments[segments.length - 1],
+    __name__: new RulesPath([
+      'databases',
+      databaseId,
+      'documents',
+      ...segments,
+    ]),
+  };
+}
+
+/**
+ * Converts a rules path of the form `/databases/{database}/documents/...` to an
+ * internal document path, or `undefined` when it does not address a document in
+ * `databaseId`.
+ */
+export function toInternalDocumentPath(
+  path: RulesPath,
+  databaseId: string
+): string | undefined {
+  const [databases, database, documents, ...rest] = path.segments;
+  if (
+    databases !== 'databases' ||
+    (database !== databaseId && database !== '(default)') ||
+    documents !== 'documents' ||
+    rest.length === 0 ||
+    rest.length % 2 !== 0
+  ) {
+    return undefined;
+  }
+  return rest.join('/');
+}
+
+function buildRequestValue(
+  request: RulesRequest,
+  segments: string[]
+): RulesMap {
+  const { auth, databaseId } = request;
+  const value: RulesMap = {
+    auth: auth
+      ? {
+          uid: auth.uid,
+          token: toRulesValue(auth, databaseId),
+        }
+      : null,
+    method: request.method,
+    path: new RulesPath(segments),
+    time: request.time,
+    resource:
+      request.requestResource !== undefined
+        ? resourceValue(databaseId, request.path, request.requestResource)
+        : null,
+  };
+
+  if (request.query) {
+    const query: RulesMap = {};
+    if (request.query.limit !== undefined) query.limit = request.query.limit;
+    if (request.query.offset !== undefined) query.offset = request.query.offset;
+    if (request.query.orderBy !== undefined) {
+      query.orderBy = request.query.orderBy;
+    }
+    value.query = query;
+  }
+
+  return value;
+}
+
+function allows(
+  methods: SecurityRulesMethod[],
+  method: RulesRequestMethod
+): boolean {
+  return methods.some(
+    (m) =>
+      m === method ||
+      (m === 'read' && (method === 'get' || method === 'list')) ||
+      (m === 'write' &&
+        (method === 'create' || method === 'update' || method === 'delete'))
+  );
+}
+
+function matchPattern(
+  pattern: PatternSegment[],
+  segments: string[],
+  offset: number,
+  version: '1' | '2'
+): { consumed: number; vars: [string, RulesValue][] } | undefined {
+  const vars: [string, RulesValue][] = [];
+  let i = offset;
+
+  for (const seg of pattern) {
+    if (seg.kind === 'recursive') {
+      const rest = segments.slice(i);
+      if (version === '1' && rest.length === 0) return undefined;
+      vars.push([seg.name, new RulesPath(rest)]);
+      i = segments.length;
+      continue;
+    }
+    if (i >= segments.length) return undefined;
+    if (seg.kind === 'literal') {
+      if (seg.value !== segments[i]) return undefined;
+    } else {
+      vars.push([seg.name, segments[i]]);
+    }
+    i++;
+  }
+
+  return { consumed: i - offset, vars };
+}
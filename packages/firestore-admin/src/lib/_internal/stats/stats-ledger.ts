@@ -0,0 +1,150 @@
+import type { OperationBreakdown, StatsGroupBy } from '../../stats.js';
+import { Mutable } from '../internal-types.js';
+
+/**
+ * A counter of an {@link OperationBreakdown}.
+ */
+export type BreakdownCounter = keyof OperationBreakdown;
+
+/**
+ * The counts attributed to one collection path pattern and query shape.
+ */
+interface LedgerCell {
+  readonly collectionGroup: string;
+  readonly pathPattern: string;
+  readonly query: string | undefined;
+  readonly counts: Mutable<OperationBreakdown>;
+}
+
+/**
+ * A copy of the counts of a {@link StatsLedger}, taken by
+ * {@link StatsLedger.save} and reinstated by {@link StatsLedger.load}.
+ */
+export type StatsLedgerState = ReadonlyMap<string, LedgerCell>;
+
+/**
+ * Replaces the document IDs of a slash-separated path with `{*}`, e.g.
+ * `'users/ada/posts'` → `'users/{*}/posts'`.
+ */
+export function toPathPattern(path: string): string {
+  if (path === '') return path;
+
+  return path
+    .split('/')
+    .map((segment, i) => (i % 2 === 1 ? '{*}' : segment))
+    .join('/');
+}
+
+/**
+ * Attributes per-document operation counts to the collection holding each
+ * document and, optionally, to the shape of the query that did the work, so
+ * that they can be broken down by any {@link StatsGroupBy}.
+ *
+ * Counts are kept per (path pattern, query shape) cell; a breakdown sums the
+ * cells of each group.
+ */
+export class StatsLedger {
+  private _cells = new Map<string, LedgerCell>();
+  /** Collection path → path pattern. */
+  private readonly _patterns = new Map<string, string>();
+
+  /**
+   * Increments `counter` for the document at `documentPath`.
+   *
+   * @param documentPath - The document the operation applies to, e.g. `'users/ada'`.
+   * @param counter - The counter to increment.
+   * @param query - The shape of the query that did the work, if any.
+   */
+  record(
+    documentPath: string,
+    counter: BreakdownCounter,
+    query?: string
+  ): void {
+    const collectionPath = documentPath.slice(
+      0,
+      Math.max(documentPath.lastIndexOf('/'), 0)
+    );
+    let pathPattern = this._patterns.get(collectionPath);
+    if (pathPattern === undefined) {
+      pathPattern = toPathPattern(collectionPath);
+      this._patterns.set(collectionPath, pathPattern);
+    }
+
+    const key = query === undefined ? pathPattern : `${pathPattern}\n${query}`;
+    let cell = this._cells.get(key);
+    if (!cell) {
+      cell = {
+        collectionGroup: pathPattern.slice(pathPattern.lastIndexOf('/') + 1),
+        pathPattern,
+        query,
+        counts: emptyBreakdown(),
+      };
+      this._cells.set(key, cell);
+    }
+    cell.counts[counter] += 1;
+  }
+
+  /**
+   * Sums the counts by `groupBy`. For `'query'`, only the work of queries is
+   * included.
+   *
+   * @returns A frozen map of group key → counts, with keys in first-seen order.
+   */
+  breakdown(
+    groupBy: StatsGroupBy
+  ): Readonly<Record<string, OperationBreakdown>> {
+    const groups: Record<string, Mutable<OperationBreakdown>> = {};
+    this._cells.forEach((cell) => {
+      const key = groupBy === 'query' ? cell.query : cell[groupBy];
+      if (key === undefined) return;
+
+      const group = (groups[key] ??= emptyBreakdown());
+      for (const counter of Object.keys(cell.counts) as BreakdownCounter[]) {
+        group[counter] += cell.counts[counter];
+      }
+    });
+    Object.values(groups).forEach((group) => Object.freeze(group));
+
+    return Object.freeze(groups);
+  }
+
+  /**
+   * Copies the current counts.
+   */
+  save(): StatsLedgerState {
+    const state = new Map<string, LedgerCell>();
+    this._cells.forEach((cell, key) => {
+      state.set(key, { ...cell, counts: { ...cell.counts } });
+    });
+
+    return state;
+  }
+
+  /**
+   * Reinstates counts copied by {@link save}; `state` remains reusable.
+   */
+  load(state: StatsLedgerState): void {
+    this._cells = new Map();
+    state.forEach((cell, key) => {
+      this._cells.set(key, { ...cell, counts: { ...cell.counts } });
+    });
+  }
+
+  /**
+   * Discards all counts.
+   */
+  clear(): void {
+    this._cells.clear();
+  }
+}
+
+function emptyBreakdown(): Mutable<OperationBreakdown> {
+  return {
+    reads: 0,
+    writes: 0,
+    deletes: 0,
+    indexEntriesScanned: 0,
+    documentsScanned: 0,
+    listenerUpdates: 0,
+  };
+}
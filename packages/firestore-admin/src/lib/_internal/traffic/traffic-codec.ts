@@ -0,0 +1,318 @@
+import { Status } from 'google-gax';
+import type {
+  TrafficCall,
+  TrafficDifference,
+  TrafficError,
+  TrafficRpc,
+  TrafficValue,
+} from '../../traffic.js';
+
+/** The server-streaming RPCs; the others are unary. */
+export const STREAMING_TRAFFIC_RPCS: ReadonlySet<TrafficRpc> =
+  new Set<TrafficRpc>([
+    'batchGetDocuments',
+    'runQuery',
+    'runAggregationQuery',
+    'partitionQueryStream',
+    'executePipeline',
+  ]);
+
+export const TRAFFIC_RPCS: ReadonlySet<TrafficRpc> = new Set<TrafficRpc>([
+  ...STREAMING_TRAFFIC_RPCS,
+  'beginTransaction',
+  'commit',
+  'batchWrite',
+  'rollback',
+  'listDocuments',
+  'listCollectionIds',
+  'partitionQuery',
+]);
+
+/** 64-bit integer fields, recorded as numbers or strings depending on the client. */
+const INT64_KEYS: ReadonlySet<string> = new Set(['seconds', 'integerValue']);
+
+const DATABASE_NAME = /^projects\/[^/]+\/databases\/[^/]+/;
+
+interface LongLike {
+  low: number;
+  high: number;
+  unsigned: boolean;
+}
+
+/**
+ * Converts a protobuf request or response into a {@link TrafficValue}: bytes
+ * become `{ $bytes }`, non-finite doubles `{ $double }`, and `Long`s decimal
+ * strings. Undefined properties are omitted.
+ */
+export function encodeTraffic(value: unknown): TrafficValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : { $double: String(value) };
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) {
+    return { $bytes: Buffer.from(value).toString('base64') };
+  }
+  if (Array.isArray(value)) return value.map(encodeTraffic);
+  if (isLong(value)) {
+    const bits =
+      (BigInt(value.high >>> 0) << BigInt(32)) | BigInt(value.low >>> 0);
+    return (value.unsigned ? bits : BigInt.asIntN(64, bits)).toString();
+  }
+  if (typeof value === 'object') {
+    const out: Record<string, TrafficValue> = {};
+    for (const [key, v] of Object.entries(value)) {
+      if (v !== undefined && typeof v !== 'function') {
+        out[key] = encodeTraffic(v);
+      }
+    }
+    return out;
+  }
+
+  return null;
+}
+
+/**
+ * Converts a {@link TrafficValue} back into a protobuf request.
+ */
+export function decodeTraffic(value: TrafficValue): unknown {
+  if (Array.isArray(value)) return value.map(decodeTraffic);
+  if (value === null || typeof value !== 'object') return value;
+  if (typeof value.$bytes === 'string')
+    return Buffer.from(value.$bytes, 'base64');
+  if (typeof value.$double === 'string') return Number(value.$double);
+
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) out[key] = decodeTraffic(v);
+  return out;
+}
+
+/**
+ * Describes the error a call failed with.
+ */
+export function trafficError(error: unknown): TrafficError {
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  return {
+    code: typeof code === 'number' ? code : Status.UNKNOWN,
+    message: typeof message === 'string' ? message : String(error),
+  };
+}
+
+/**
+ * Returns the database resource name a request is addressed to, if any.
+ */
+export function databaseOf(request: TrafficValue): string | undefined {
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return undefined;
+  }
+  for (const key of ['database', 'parent', 'name']) {
+    const value = request[key];
+    const match = typeof value === 'string' && DATABASE_NAME.exec(value);
+    if (match) return match[0];
+  }
+
+  return undefined;
+}
+
+/**
+ * Moves the resource names of `value` from database `from` to database `to`.
+ */
+export function rebaseTraffic(
+  value: TrafficValue,
+  from: string,
+  to: string
+): TrafficValue {
+  if (typeof value === 'string') {
+    return value === from || value.startsWith(`${from}/`)
+      ? to + value.slice(from.length)
+      : value;
+  }
+  if (Array.isArray(value)) return value.map((v) => rebaseTraffic(v, from, to));
+  if (value === null || typeof value !== 'object') return value;
+
+  const out: Record<string, TrafficValue> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = rebaseTraffic(v, from, to);
+  }
+  return out;
+}
+
+/**
+ * Replaces the `transaction` ids of a request that `ids` maps, by base64.
+ */
+export function substituteTransactions(
+  value: TrafficValue,
+  ids: ReadonlyMap<string, TrafficValue>
+): TrafficValue {
+  if (Array.isArray(value)) {
+    return value.map((v) => substituteTransactions(v, ids));
+  }
+  if (value === null || typeof value !== 'object') return value;
+
+  const out: Record<string, TrafficValue> = {};
+  for (const [key, v] of Object.entries(value)) {
+    const id = key === 'transaction' ? bytesOf(v) : undefined;
+    out[key] =
+      id !== undefined && ids.has(id)
+        ? // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          ids.get(id)!
+        : substituteTransactions(v, ids);
+  }
+  return out;
+}
+
+/**
+ * Returns the first `transaction` id among the responses of a call.
+ */
+export function transactionOf(call: TrafficCall): TrafficValue | undefined {
+  for (const response of call.responses) {
+    if (response && typeof response === 'object' && !Array.isArray(response)) {
+      const id = response.transaction;
+      if (bytesOf(id ?? null) !== undefined) return id;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The base64 of a `{ $bytes }` value.
+ */
+export function bytesOf(value: TrafficValue): string | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? typeof value.$bytes === 'string'
+      ? value.$bytes
+      : undefined
+    : undefined;
+}
+
+/**
+ * Lists the differences between a recorded and a replayed call, comparing
+ * the canonical form of their responses: ignored fields, nulls, empty
+ * messages and lists, and streamed responses left empty are dropped, and
+ * 64-bit integers and `nullValue`s are spelled alike. The results of
+ * `batchGetDocuments` are compared regardless of order.
+ */
+export function diffTraffic(
+  index: number,
+  recorded: TrafficCall,
+  replayed: TrafficCall,
+  ignored: ReadonlySet<string>,
+  compareErrorMessages: boolean
+): TrafficDifference[] {
+  const differences: TrafficDifference[] = [];
+  const canonicalResponses = (call: TrafficCall) => {
+    const responses = call.responses
+      .map((r) => canonical(r, ignored, false))
+      .filter((r): r is TrafficValue => r !== undefined);
+    return call.rpc === 'batchGetDocuments'
+      ? responses
+          .map((r) => [JSON.stringify(r), r] as const)
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+          .map(([, r]) => r)
+      : responses;
+  };
+  const canonicalCall = (call: TrafficCall): TrafficValue => ({
+    responses: canonicalResponses(call),
+    ...(call.error && {
+      error: {
+        code: call.error.code,
+        ...(compareErrorMessages && { message: call.error.message }),
+      },
+    }),
+  });
+
+  diff(canonicalCall(recorded), canonicalCall(replayed), '', (path, a, b) =>
+    differences.push({
+      call: index,
+      rpc: recorded.rpc,
+      path,
+      recorded: a,
+      replayed: b,
+    })
+  );
+
+  return differences;
+}
+
+/**
+ * The canonical form of a value, or `undefined` if it is empty.
+ *
+ * @param userKeys - Whether the keys of `value` are document field names,
+ *   which are never ignored.
+ */
+function canonical(
+  value: TrafficValue | undefined,
+  ignored: ReadonlySet<string>,
+  userKeys: boolean
+): TrafficValue | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) {
+    const items = value
+      .map((v) => canonical(v, ignored, false))
+      .filter((v): v is TrafficValue => v !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (typeof value !== 'object') return value;
+  if (bytesOf(value) !== undefined || typeof value.$double === 'string') {
+    return value;
+  }
+
+  const out: Record<string, TrafficValue> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (!userKeys && ignored.has(key)) continue;
+
+    let v = canonical(value[key], ignored, !userKeys && key === 'fields');
+    if (!userKeys && key === 'nullValue') {
+      v = 'NULL_VALUE'; // the enum's only value, as a name or a number
+    } else if (!userKeys && INT64_KEYS.has(key) && typeof v === 'number') {
+      v = String(v);
+    }
+    if (v !== undefined) out[key] = v;
+  }
+
+  return Object.keys(out).length ? out : undefined;
+}
+
+function diff(
+  a: TrafficValue | undefined,
+  b: TrafficValue | undefined,
+  path: string,
+  report: (
+    path: string,
+    a: TrafficValue | undefined,
+    b: TrafficValue | undefined
+  ) => void
+): void {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      diff(a[i], b[i], `${path}[${i}]`, report);
+    }
+  } else if (isObject(a) && isObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of [...keys].sort()) {
+      diff(a[key], b[key], path ? `${path}.${key}` : key, report);
+    }
+  } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+    report(path, a, b);
+  }
+}
+
+function isObject(
+  value: TrafficValue | undefined
+): value is { [key: string]: TrafficValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLong(value: object): value is LongLike {
+  const v = value as Partial<LongLike>;
+  return (
+    typeof v.low === 'number' &&
+    typeof v.high === 'number' &&
+    typeof v.unsigned === 'boolean'
+  );
+}
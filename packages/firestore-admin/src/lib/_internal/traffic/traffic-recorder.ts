@@ -0,0 +1,167 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import type { Duplex } from 'stream';
+import {
+  TRAFFIC_TRACE_VERSION,
+  TrafficCall,
+  TrafficRecorder,
+  TrafficRpc,
+  TrafficTrace,
+} from '../../traffic.js';
+import type { GapicClient } from '../firestore/types.js';
+import {
+  databaseOf,
+  encodeTraffic,
+  STREAMING_TRAFFIC_RPCS,
+  TRAFFIC_RPCS,
+  trafficError,
+} from './traffic-codec.js';
+
+/**
+ * Structural shim for the factory of the Admin SDK's internal GAPIC client
+ * pool, which is the same for real and mock Firestore instances.
+ *
+ * @internal
+ */
+interface WithClientFactory {
+  _clientPool: {
+    clientFactory: (requiresGrpc: boolean) => GapicClient;
+  };
+}
+
+/**
+ * Records the GAPIC requests and responses of a Firestore instance, e.g. one
+ * connected to the Firestore emulator, as a {@link TrafficTrace} that
+ * {@link FirestoreController.replayTraffic} can replay against the mock.
+ *
+ * Unary and server-streaming calls are recorded; `listen` streams pass
+ * through unrecorded.
+ *
+ * @remarks
+ * - Only the GAPIC clients created after this call are recorded, so call it
+ *   before the instance's first request.
+ * - Reaches into the Admin SDK's private client pool; pin compatible versions.
+ *
+ * @example
+ * process.env.FIRESTORE_EMULATOR_HOST = 'localhost:8080';
+ * const db = new Firestore({ projectId: 'demo' });
+ * const recorder = recordTraffic(db);
+ * await runScenario(db);
+ * writeFileSync('trace.json', JSON.stringify(recorder.trace(), null, 2));
+ *
+ * @param firestore - The Firestore instance to record.
+ * @returns The recorder, which records until stopped.
+ */
+export function recordTraffic(firestore: Firestore): TrafficRecorder {
+  const pool = (firestore as unknown as WithClientFactory)._clientPool;
+  const factory = pool.clientFactory;
+  const recorder = new Recorder();
+  pool.clientFactory = (requiresGrpc) =>
+    recorder.wrap(factory.call(pool, requiresGrpc));
+
+  return recorder;
+}
+
+/**
+ * Parses a {@link TrafficTrace} saved as JSON.
+ *
+ * @throws {Error} If `json` is not a trace of a supported version.
+ */
+export function parseTrafficTrace(json: string): TrafficTrace {
+  const trace = JSON.parse(json) as Partial<TrafficTrace> | null;
+  if (trace?.version !== TRAFFIC_TRACE_VERSION) {
+    throw new Error(
+      `Invalid traffic trace: expected version ${TRAFFIC_TRACE_VERSION}, got ${trace?.version}.`
+    );
+  }
+  if (
+    typeof trace.database !== 'string' ||
+    !Array.isArray(trace.calls) ||
+    !trace.calls.every((call) => TRAFFIC_RPCS.has(call?.rpc))
+  ) {
+    throw new Error(
+      'Invalid traffic trace: expected a database and a list of calls.'
+    );
+  }
+
+  return trace as TrafficTrace;
+}
+
+class Recorder implements TrafficRecorder {
+  private readonly _calls: TrafficCall[] = [];
+  private _database = '';
+  private _recording = true;
+
+  trace(): TrafficTrace {
+    return JSON.parse(
+      JSON.stringify({
+        version: TRAFFIC_TRACE_VERSION,
+        database: this._database,
+        calls: this._calls,
+      })
+    );
+  }
+
+  stop(): void {
+    this._recording = false;
+  }
+
+  /**
+   * Wraps a GAPIC client so that its calls are recorded.
+   */
+  wrap(client: GapicClient): GapicClient {
+    return new Proxy(client, {
+      get: (target, prop) => {
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== 'function') return value;
+        if (!TRAFFIC_RPCS.has(prop as TrafficRpc)) return value.bind(target);
+
+        return (request: unknown, options: unknown) =>
+          this.record(prop as TrafficRpc, request, () =>
+            value.call(target, request, options)
+          );
+      },
+    });
+  }
+
+  private record(
+    rpc: TrafficRpc,
+    request: unknown,
+    invoke: () => unknown
+  ): unknown {
+    if (!this._recording) return invoke();
+
+    const call: TrafficCall = {
+      rpc,
+      request: encodeTraffic(request),
+      responses: [],
+    };
+    this._database ||= databaseOf(call.request) ?? '';
+    this._calls.push(call);
+
+    let result: unknown;
+    try {
+      result = invoke();
+    } catch (error) {
+      call.error = trafficError(error);
+      throw error;
+    }
+
+    if (STREAMING_TRAFFIC_RPCS.has(rpc)) {
+      const stream = result as Duplex;
+      stream.on('data', (chunk) => call.responses.push(encodeTraffic(chunk)));
+      stream.on('error', (error) => (call.error ??= trafficError(error)));
+      return stream;
+    }
+
+    return (result as Promise<unknown[]>).then(
+      (response) => {
+        call.responses.push(encodeTraffic(response[0]));
+        return response;
+      },
+      (error) => {
+        call.error = trafficError(error);
+        throw error;
+      }
+    );
+  }
+}
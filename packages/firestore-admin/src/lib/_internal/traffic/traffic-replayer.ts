@@ -0,0 +1,146 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import type { Duplex } from 'stream';
+import {
+  DEFAULT_IGNORED_TRAFFIC_FIELDS,
+  TRAFFIC_TRACE_VERSION,
+  TrafficCall,
+  TrafficDifference,
+  TrafficReplayOptions,
+  TrafficReplayReport,
+  TrafficRpc,
+  TrafficTrace,
+  TrafficValue,
+} from '../../traffic.js';
+import type { GapicClient } from '../firestore/types.js';
+import {
+  bytesOf,
+  decodeTraffic,
+  diffTraffic,
+  encodeTraffic,
+  rebaseTraffic,
+  STREAMING_TRAFFIC_RPCS,
+  substituteTransactions,
+  trafficError,
+  transactionOf,
+} from './traffic-codec.js';
+
+/**
+ * Structural shim for running calls on the GAPIC client pool of a mock
+ * Firestore instance.
+ *
+ * @internal
+ */
+interface WithClientPool {
+  _clientPool: {
+    run<V>(
+      requestTag: string,
+      requiresGrpc: boolean,
+      op: (client: GapicClient) => Promise<V>
+    ): Promise<V>;
+  };
+}
+
+type UnaryRpc = (request: unknown) => Promise<unknown[]>;
+type StreamingRpc = (request: unknown) => Duplex;
+
+/**
+ * Replays the calls of a trace, one at a time and in order, through the GAPIC
+ * clients of `firestore`, and compares the responses with the recorded ones.
+ *
+ * Resource names are moved from the recorded database to `database`, and the
+ * transaction ids the trace's responses returned are replaced by the ones the
+ * replay returned.
+ *
+ * @param firestore - A mock Firestore instance of the target database.
+ * @param database - The target database's resource name.
+ * @throws {Error} If `trace` is not a trace of a supported version.
+ */
+export async function replayTraffic(
+  firestore: Firestore,
+  database: string,
+  trace: TrafficTrace,
+  options?: TrafficReplayOptions
+): Promise<TrafficReplayReport> {
+  if (trace?.version !== TRAFFIC_TRACE_VERSION || !Array.isArray(trace.calls)) {
+    throw new Error(
+      `Invalid traffic trace: expected version ${TRAFFIC_TRACE_VERSION}, got ${trace?.version}.`
+    );
+  }
+
+  const pool = (firestore as unknown as WithClientPool)._clientPool;
+  const ignored = new Set(
+    options?.ignoreFields ?? DEFAULT_IGNORED_TRAFFIC_FIELDS
+  );
+  const rebase = (value: TrafficValue) =>
+    trace.database ? rebaseTraffic(value, trace.database, database) : value;
+  const transactions = new Map<string, TrafficValue>();
+  const differences: TrafficDifference[] = [];
+  const replayed: TrafficCall[] = [];
+
+  for (let i = 0; i < trace.calls.length; i++) {
+    const call = trace.calls[i];
+    const recorded: TrafficCall = {
+      ...call,
+      responses: call.responses.map(rebase),
+    };
+    const request = substituteTransactions(rebase(call.request), transactions);
+    const outcome = await pool.run('replay', false, (client) =>
+      invoke(client, call.rpc, decodeTraffic(request))
+    );
+    const replay: TrafficCall = { rpc: call.rpc, request, ...outcome };
+    replayed.push(replay);
+
+    const recordedId = bytesOf(transactionOf(recorded) ?? null);
+    const replayedId = transactionOf(replay);
+    if (recordedId !== undefined && replayedId !== undefined) {
+      transactions.set(recordedId, replayedId);
+    }
+    differences.push(
+      ...diffTraffic(
+        i,
+        recorded,
+        replay,
+        ignored,
+        options?.compareErrorMessages ?? false
+      )
+    );
+  }
+
+  return {
+    differences,
+    replayed: {
+      version: TRAFFIC_TRACE_VERSION,
+      database: trace.calls.length ? database : '',
+      calls: replayed,
+    },
+  };
+}
+
+/**
+ * Makes a call and collects its responses, or the error it failed with.
+ */
+async function invoke(
+  client: GapicClient,
+  rpc: TrafficRpc,
+  request: unknown
+): Promise<Pick<TrafficCall, 'responses' | 'error'>> {
+  try {
+    if (!STREAMING_TRAFFIC_RPCS.has(rpc)) {
+      const [response] = await (client[rpc] as UnaryRpc).call(client, request);
+      return { responses: [encodeTraffic(response)] };
+    }
+
+    const stream = (client[rpc] as StreamingRpc).call(client, request);
+    return await new Promise((resolve) => {
+      const responses: TrafficValue[] = [];
+      stream.on('data', (chunk) => responses.push(encodeTraffic(chunk)));
+      stream.on('error', (error) =>
+        resolve({ responses, error: trafficError(error) })
+      );
+      stream.on('end', () => resolve({ responses }));
+      stream.on('close', () => resolve({ responses }));
+    });
+  } catch (error) {
+    return { responses: [], error: trafficError(error) };
+  }
+}
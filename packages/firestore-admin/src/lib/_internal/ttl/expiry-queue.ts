@@ -0,0 +1,109 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+
+/** Stale heap entries tolerated before a rebuild, on top of one per expiry. */
+const COMPACT_SLACK = 64;
+
+/**
+ * When a document is due for deletion.
+ */
+export interface Expiry {
+  readonly path: string;
+  /** The deletion time, in milliseconds since the epoch. */
+  readonly due: number;
+  /** The update time of the document version the expiry was read from. */
+  readonly updateTime: Timestamp;
+}
+
+/**
+ * The pending expiries of a database's TTL-covered documents, ordered by
+ * deletion time.
+ *
+ * A binary min-heap keyed on {@link Expiry.due}, plus the current expiry per
+ * path. Replaced expiries stay in the heap until they surface and are then
+ * discarded, so updates cost `O(log n)` without a search; the heap is rebuilt
+ * once they outnumber the current ones.
+ */
+export class ExpiryQueue {
+  private readonly _current = new Map<string, Expiry>();
+  private _heap: Expiry[] = [];
+
+  /**
+   * Sets (or, with `undefined`, removes) the expiry of the document at `path`.
+   */
+  set(path: string, expiry: Expiry | undefined): void {
+    if (!expiry) {
+      this._current.delete(path);
+      return;
+    }
+
+    this._current.set(path, expiry);
+    if (this._heap.length >= 2 * this._current.size + COMPACT_SLACK) {
+      this._heap = [];
+      this._current.forEach((current) => this.push(current));
+    } else {
+      this.push(expiry);
+    }
+  }
+
+  /** Removes every expiry. */
+  clear(): void {
+    this._current.clear();
+    this._heap = [];
+  }
+
+  /** Returns the earliest expiry, if any. */
+  peek(): Expiry | undefined {
+    while (this._heap.length > 0) {
+      const top = this._heap[0];
+      if (this._current.get(top.path) === top) return top;
+      this.pop();
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Removes and returns every expiry due at or before `now`, earliest first.
+   */
+  takeDue(now: number): Expiry[] {
+    const due: Expiry[] = [];
+    for (let next = this.peek(); next && next.due <= now; next = this.peek()) {
+      this.pop();
+      this._current.delete(next.path);
+      due.push(next);
+    }
+
+    return due;
+  }
+
+  private push(expiry: Expiry): void {
+    const heap = this._heap;
+    let i = heap.push(expiry) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].due <= expiry.due) break;
+      heap[i] = heap[parent];
+      i = parent;
+    }
+    heap[i] = expiry;
+  }
+
+  private pop(): void {
+    const heap = this._heap;
+    const last = heap.pop();
+    if (!last || heap.length === 0) return;
+
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      if (left >= heap.length) break;
+      const right = left + 1;
+      const child =
+        right < heap.length && heap[right].due < heap[left].due ? right : left;
+      if (heap[child].due >= last.due) break;
+      heap[i] = heap[child];
+      i = child;
+    }
+    heap[i] = last;
+  }
+}
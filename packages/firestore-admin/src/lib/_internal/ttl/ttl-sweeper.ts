@@ -0,0 +1,234 @@
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import type { Scheduler, TimerHandle } from '../../scheduler.js';
+import type { SystemTime } from '../../system-time.js';
+import type { TtlOptions } from '../../ttl.js';
+import {
+  DataAccessor,
+  DataChangeEventArg,
+  MetaDocumentExists,
+  NormalizedDelete,
+  WriteMode,
+  WritePrincipal,
+} from '../data-accessor.js';
+import { parseFieldPathStrict } from '../functions/util.js';
+import { Expiry, ExpiryQueue } from './expiry-queue.js';
+
+/** The principal TTL deletes are reported with. */
+const TTL_PRINCIPAL: WritePrincipal = Object.freeze({ authType: 'system' });
+
+/**
+ * The longest a sweep waits on real time, where a custom {@link SystemTime}
+ * generator can move "now" without notice. Waking early only peeks at the
+ * earliest expiry.
+ */
+const MAX_SWEEP_DELAY_MILLIS = 1_000;
+
+/**
+ * Deletes the documents of a database whose TTL has expired, per its
+ * {@link TtlOptions}.
+ *
+ * Expiry times are indexed per covered document as they change, so a write
+ * costs `O(log n)`; only creating the sweeper and restoring a snapshot scan the
+ * database. A single timer is armed for the earliest deletion due. It is
+ * re-armed when a covered document changes, when the database is reset or
+ * restored, and when the {@link SystemTime} strategy changes.
+ */
+export class TtlSweeper {
+  private readonly _queue = new ExpiryQueue();
+  private _timer: TimerHandle | undefined;
+  private _unwatchChanges: () => void;
+  private readonly _unwatch: (() => void)[];
+
+  private constructor(
+    /** Collection ID → segments of the expiry field. */
+    private readonly _policies: Map<string, string[]>,
+    private readonly _lag: number,
+    private readonly _accessor: DataAccessor,
+    private readonly _scheduler: Scheduler,
+    private readonly _time: SystemTime
+  ) {
+    this._unwatchChanges = this.watchChanges();
+    this._unwatch = [
+      // A reset drops change watchers
+      _accessor.registerResetListener(() => {
+        this._unwatchChanges = this.watchChanges();
+        this._queue.clear();
+        this.arm();
+      }),
+      _accessor.registerRestoreListener(() => {
+        this.index();
+        this.arm();
+      }),
+      _time.watch(() => this.arm()),
+    ];
+    this.index();
+    this.arm();
+  }
+
+  /**
+   * Validates `options` and starts sweeping `accessor` for them.
+   *
+   * @throws {Error} If a policy is malformed or duplicated, or the lag is invalid.
+   */
+  static create(
+    options: TtlOptions,
+    accessor: DataAccessor,
+    scheduler: Scheduler,
+    time: SystemTime
+  ): TtlSweeper {
+    const lag = options?.lagMillis ?? 0;
+    if (!(typeof lag === 'number' && lag >= 0 && Number.isFinite(lag))) {
+      throw new Error(
+        'Invalid TTL options: lagMillis must be a non-negative number.'
+      );
+    }
+    if (!Array.isArray(options?.policies)) {
+      throw new Error('Invalid TTL options: policies must be an array.');
+    }
+
+    const policies = new Map<string, string[]>();
+    for (const policy of options.policies) {
+      const group = policy?.collectionGroup;
+      if (typeof group !== 'string' || group === '' || group.includes('/')) {
+        throw new Error(
+          'Invalid TTL policy: collectionGroup must be a collection ID.'
+        );
+      }
+      if (policies.has(group)) {
+        throw new Error(
+          `Invalid TTL policy for ${group}: a collection group has at most one TTL policy.`
+        );
+      }
+      try {
+        policies.set(group, parseFieldPathStrict(policy.field));
+      } catch {
+        throw new Error(
+          `Invalid TTL policy for ${group}: field must be a valid field path.`
+        );
+      }
+    }
+
+    return new TtlSweeper(policies, lag, accessor, scheduler, time);
+  }
+
+  /**
+   * Stops sweeping.
+   */
+  dispose(): void {
+    this._scheduler.clearTimeout(this._timer);
+    this._timer = undefined;
+    this._unwatchChanges();
+    this._unwatch.forEach((unwatch) => unwatch());
+  }
+
+  private watchChanges(): () => void {
+    return this._accessor.registerChangeWatcher((arg: DataChangeEventArg) => {
+      let covered = false;
+      for (const [path, doc] of Object.entries(arg.changes())) {
+        if (!this.fieldOf(path)) continue;
+        this._queue.set(
+          path,
+          doc.exists ? this.expiryOf(doc as MetaDocumentExists) : undefined
+        );
+        covered = true;
+      }
+      if (covered) this.arm();
+    });
+  }
+
+  /**
+   * Indexes the expiry of every covered document, replacing the index.
+   */
+  private index(): void {
+    this._queue.clear();
+    for (const doc of this._accessor.toMetaArray()) {
+      this._queue.set(doc.path, this.expiryOf(doc));
+    }
+  }
+
+  /**
+   * Arms the timer for the earliest deletion due, if any. On virtual time the
+   * delay assumes "now" keeps pace with the scheduler; a strategy that does not
+   * (e.g. a constant) re-arms when it changes.
+   */
+  private arm(): void {
+    this._scheduler.clearTimeout(this._timer);
+    this._timer = undefined;
+
+    const due = this._queue.peek()?.due;
+    if (due === undefined) return;
+
+    const armedAt = this._time.now().getTime();
+    const delay = this._scheduler.virtual
+      ? Math.max(due - armedAt, 0)
+      : Math.min(Math.max(due - armedAt, 0), MAX_SWEEP_DELAY_MILLIS);
+    this._timer = this._scheduler
+      .setTimeout(() => {
+        this._timer = undefined;
+        const deleted = this.sweep();
+        // Time that stands still would fire the timer again and again
+        if (
+          deleted ||
+          !this._scheduler.virtual ||
+          this._time.now().getTime() !== armedAt
+        ) {
+          this.arm();
+        }
+      }, delay)
+      .unref();
+  }
+
+  /**
+   * Deletes every document due for deletion in a single batch.
+   *
+   * @returns The number of documents deleted.
+   */
+  private sweep(): number {
+    const now = this._time.now().getTime();
+    // The precondition spares documents changed since their expiry was indexed
+    const deletes: NormalizedDelete[] = this._queue
+      .takeDue(now)
+      .map((expiry) => ({
+        type: 'delete',
+        path: expiry.path,
+        precondition: { lastUpdateTime: expiry.updateTime },
+      }));
+    if (deletes.length > 0) {
+      this._accessor.batchWrite(
+        deletes,
+        WriteMode.Serial,
+        undefined,
+        TTL_PRINCIPAL
+      );
+    }
+
+    return deletes.length;
+  }
+
+  /**
+   * Returns when `doc` is due for deletion, or `undefined` if it never expires.
+   */
+  private expiryOf(doc: MetaDocumentExists): Expiry | undefined {
+    const field = this.fieldOf(doc.path);
+    if (!field) return undefined;
+
+    let value: unknown = doc.data;
+    for (const segment of field) {
+      value = (value as DocumentData | undefined)?.[segment];
+    }
+
+    return value instanceof Timestamp
+      ? {
+          path: doc.path,
+          due: value.toMillis() + this._lag,
+          updateTime: doc.updateTime,
+        }
+      : undefined;
+  }
+
+  /** Returns the expiry field for the document at `path`, if a policy covers it. */
+  private fieldOf(path: string): string[] | undefined {
+    const segments = path.split('/');
+    return this._policies.get(segments[segments.length - 2]);
+  }
+}
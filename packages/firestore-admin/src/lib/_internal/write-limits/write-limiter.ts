@@ -0,0 +1,484 @@
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { GoogleError, Status } from 'google-gax';
+import type {
+  RampUpOptions,
+  WriteLimit,
+  WriteLimitMode,
+  WriteLimitWarning,
+  WriteLimitsOptions,
+} from '../../write-limits.js';
+import { googleError } from '../functions/google-error.js';
+
+const WINDOW_MILLIS = 1_000;
+
+const DEFAULT_RAMP_UP: Required<RampUpOptions> = {
+  initialWritesPerSecond: 500,
+  increasePercent: 50,
+  intervalMillis: 300_000,
+};
+
+/**
+ * A write checked by a {@link WriteLimitPass}.
+ */
+export interface LimitedWrite {
+  /** The path of the written document. */
+  path: string;
+  /** The document before the write, `undefined` if it did not exist. */
+  before: DocumentData | undefined;
+  /** The document after the write, `undefined` if it was deleted. */
+  after: DocumentData | undefined;
+}
+
+/**
+ * What a {@link WriteLimitPass} needs to know about the database.
+ */
+export interface WriteLimitEnv {
+  /** Whether a collection has no documents, i.e. its ramp-up starts now. */
+  isEmpty(collectionPath: string): boolean;
+  /** Whether a top-level field is indexed in a collection group. */
+  isIndexed(collectionId: string, field: string): boolean;
+}
+
+interface ResolvedLimits {
+  readonly mode: WriteLimitMode;
+  readonly documentWritesPerSecond: number;
+  readonly rampUp: Required<RampUpOptions> | undefined;
+  readonly sequentialRun: number | undefined;
+  readonly onWarning: ((warning: WriteLimitWarning) => void) | undefined;
+}
+
+interface Ramp {
+  /** When the ramp started; `undefined` for collections that were not new. */
+  readonly start: number | undefined;
+  /** Commit times of the writes within the current window. */
+  readonly times: number[];
+}
+
+interface Sequence {
+  last: string | Timestamp;
+  run: number;
+  warned: boolean;
+}
+
+interface Sequenced {
+  /** The collection path, followed by the field for a timestamp field. */
+  key: string;
+  value: string | Timestamp;
+  /** The timestamp field; `undefined` for document IDs. */
+  field?: string;
+}
+
+interface Violation {
+  limit: WriteLimit;
+  message: string;
+  /** The key of the sequence to flag once the hotspot is reported. */
+  sequence?: string;
+}
+
+/**
+ * Models the production write limits of a database, per its
+ * {@link WriteLimitsOptions}: the sustained write rate of each document, the
+ * traffic ramp of new collections, and hotspots caused by sequential IDs and
+ * indexed timestamps.
+ *
+ * Writes are checked per batch by a {@link WriteLimitPass}, whose traffic is
+ * only recorded once the batch commits.
+ */
+export class WriteLimiter {
+  /** Document path → commit times of its writes within the current window. */
+  private readonly _documents = new Map<string, number[]>();
+  /** Collection path → its ramp. */
+  private readonly _ramps = new Map<string, Ramp>();
+  /** Collection path, or collection path and field → its sequence. */
+  private readonly _sequences = new Map<string, Sequence>();
+  private _warnings: WriteLimitWarning[] = [];
+  private _swept = 0;
+
+  private constructor(private readonly _limits: ResolvedLimits) {}
+
+  /**
+   * Validates `options` and creates a limiter for them.
+   *
+   * @throws {Error} If an option is malformed.
+   */
+  static create(options: WriteLimitsOptions): WriteLimiter {
+    const mode = options?.mode ?? 'throttle';
+    if (mode !== 'throttle' && mode !== 'warn') {
+      throw new Error(
+        'Invalid write limits: mode must be "throttle" or "warn".'
+      );
+    }
+    const documentWritesPerSecond = options.documentWritesPerSecond ?? 1;
+    assertPositive('documentWritesPerSecond', documentWritesPerSecond);
+
+    let rampUp: Required<RampUpOptions> | undefined;
+    if (options.rampUp !== false) {
+      rampUp = { ...DEFAULT_RAMP_UP, ...options.rampUp };
+      assertPositive(
+        'rampUp.initialWritesPerSecond',
+        rampUp.initialWritesPerSecond
+      );
+      assertPositive('rampUp.intervalMillis', rampUp.intervalMillis);
+      if (!(rampUp.increasePercent >= 0)) {
+        throw new Error(
+          'Invalid write limits: rampUp.increasePercent must be a non-negative number.'
+        );
+      }
+    }
+
+    const sequentialRun =
+      options.sequentialRun === false ? undefined : options.sequentialRun ?? 20;
+    if (
+      sequentialRun !== undefined &&
+      !(Number.isInteger(sequentialRun) && sequentialRun >= 2)
+    ) {
+      throw new Error(
+        'Invalid write limits: sequentialRun must be an integer of at least 2.'
+      );
+    }
+    if (
+      options.onWarning !== undefined &&
+      typeof options.onWarning !== 'function'
+    ) {
+      throw new Error('Invalid write limits: onWarning must be a function.');
+    }
+
+    return new WriteLimiter({
+      mode,
+      documentWritesPerSecond,
+      rampUp,
+      sequentialRun,
+      onWarning: options.onWarning,
+    });
+  }
+
+  /** The warnings reported since the limits were set or last cleared. */
+  warnings(): readonly WriteLimitWarning[] {
+    return Object.freeze(this._warnings.slice());
+  }
+
+  /**
+   * Forgets the recorded traffic and warnings; every collection is new again.
+   */
+  clear(): void {
+    this._documents.clear();
+    this._ramps.clear();
+    this._sequences.clear();
+    this._warnings = [];
+    this._swept = 0;
+  }
+
+  /**
+   * Starts checking the writes of a batch committed at `time`.
+   */
+  begin(time: Timestamp, env: WriteLimitEnv): WriteLimitPass {
+    return new WriteLimitPass(this, time, env);
+  }
+
+  /** @internal */
+  check(
+    write: LimitedWrite,
+    now: number,
+    counted: boolean,
+    env: WriteLimitEnv
+  ): Violation[] {
+    const { documentWritesPerSecond, rampUp, sequentialRun } = this._limits;
+    const violations: Violation[] = [];
+    const collection = collectionOf(write.path);
+
+    if (!counted) {
+      const writes = inWindow(this._documents.get(write.path), now) + 1;
+      if (writes > documentWritesPerSecond) {
+        violations.push({
+          limit: 'document-rate',
+          message: `Too much contention on document "${write.path}": ${writes} writes within one second exceed the sustained rate of ${documentWritesPerSecond} per second.`,
+        });
+      }
+
+      const start = rampUp && this.ramp(collection, now, env).start;
+      if (rampUp && start !== undefined) {
+        const allowed = Math.floor(
+          rampUp.initialWritesPerSecond *
+            (1 + rampUp.increasePercent / 100) **
+              Math.floor((now - start) / rampUp.intervalMillis)
+        );
+        const writes = inWindow(this._ramps.get(collection)?.times, now) + 1;
+        if (writes > allowed) {
+          violations.push({
+            limit: 'ramp-up',
+            message: `Collection "${collection}" received ${writes} writes within one second, over the ${allowed} per second its traffic has ramped up to.`,
+          });
+        }
+      }
+    }
+
+    if (sequentialRun === undefined) return violations;
+
+    for (const { key, value, field } of this.sequenced(write, env)) {
+      const sequence = this.extend(key, value);
+      if (sequence.run < sequentialRun || sequence.warned) continue;
+
+      violations.push(
+        field === undefined
+          ? {
+              limit: 'sequential-ids',
+              message: `Documents in "${collection}" were created with ${sequence.run} monotonically increasing IDs, up to "${value}"; sequential IDs cause hotspots.`,
+              sequence: key,
+            }
+          : {
+              limit: 'sequential-field',
+              message: `Field "${field}" of documents in "${collection}" was written with ${sequence.run} monotonically increasing timestamps; an indexed sequential field causes hotspots.`,
+              sequence: key,
+            }
+      );
+    }
+
+    return violations;
+  }
+
+  /**
+   * Records a write that was admitted, returning the step that undoes it.
+   *
+   * @internal
+   */
+  record(
+    write: LimitedWrite,
+    now: number,
+    counted: boolean,
+    env: WriteLimitEnv
+  ): () => void {
+    const undo: (() => void)[] = [];
+
+    if (!counted) {
+      let times = this._documents.get(write.path);
+      if (!times) this._documents.set(write.path, (times = []));
+      const docTimes = times;
+      prune(docTimes, now);
+      docTimes.push(now);
+      undo.push(() => docTimes.pop());
+
+      const ramp = this._ramps.get(collectionOf(write.path));
+      if (ramp?.start !== undefined) {
+        prune(ramp.times, now);
+        ramp.times.push(now);
+        undo.push(() => ramp.times.pop());
+      }
+    }
+
+    if (this._limits.sequentialRun !== undefined) {
+      for (const { key, value } of this.sequenced(write, env)) {
+        const previous = this._sequences.get(key);
+        this._sequences.set(key, this.extend(key, value));
+        undo.push(() =>
+          previous
+            ? this._sequences.set(key, previous)
+            : this._sequences.delete(key)
+        );
+      }
+    }
+
+    return () => undo.reverse().forEach((step) => step());
+  }
+
+  /**
+   * Marks the current run of a sequence as reported.
+   *
+   * @internal
+   */
+  flag(key: string): void {
+    const sequence = this._sequences.get(key);
+    if (sequence) sequence.warned = true;
+  }
+
+  /** @internal */
+  report(warning: WriteLimitWarning): void {
+    this._warnings.push(warning);
+    this._limits.onWarning?.(warning);
+  }
+
+  /** @internal */
+  get mode(): WriteLimitMode {
+    return this._limits.mode;
+  }
+
+  /**
+   * Drops the documents not written within the window, at most once per
+   * window.
+   *
+   * @internal
+   */
+  sweep(now: number): void {
+    if (now - this._swept < WINDOW_MILLIS) return;
+
+    this._swept = now;
+    for (const [path, times] of this._documents) {
+      if (!inWindow(times, now)) this._documents.delete(path);
+    }
+  }
+
+  /** The ramp of a collection, started on its first write. */
+  private ramp(collection: string, now: number, env: WriteLimitEnv): Ramp {
+    let ramp = this._ramps.get(collection);
+    if (!ramp) {
+      ramp = { start: env.isEmpty(collection) ? now : undefined, times: [] };
+      this._ramps.set(collection, ramp);
+    }
+
+    return ramp;
+  }
+
+  /** The sequence at `key` once extended by `value`, without recording it. */
+  private extend(key: string, value: string | Timestamp): Sequence {
+    const sequence = this._sequences.get(key);
+    if (sequence && compare(value, sequence.last) > 0) {
+      return { last: value, run: sequence.run + 1, warned: sequence.warned };
+    }
+
+    return { last: value, run: 1, warned: false };
+  }
+
+  /**
+   * The sequences a write extends: the IDs of its collection, if it creates
+   * the document, and each indexed top-level timestamp field it changes.
+   */
+  private sequenced(write: LimitedWrite, env: WriteLimitEnv): Sequenced[] {
+    if (!write.after) return [];
+
+    const collection = collectionOf(write.path);
+    const sequenced: Sequenced[] = [];
+    if (!write.before) {
+      sequenced.push({
+        key: collection,
+        value: write.path.slice(collection.length + 1),
+      });
+    }
+
+    const collectionId = collection.slice(collection.lastIndexOf('/') + 1);
+    for (const [field, value] of Object.entries(write.after)) {
+      const prior = write.before?.[field];
+      if (
+        value instanceof Timestamp &&
+        !(prior instanceof Timestamp && value.isEqual(prior)) &&
+        env.isIndexed(collectionId, field)
+      ) {
+        sequenced.push({ key: `${collection}\u0000${field}`, value, field });
+      }
+    }
+
+    return sequenced;
+  }
+}
+
+/**
+ * Checks the writes of a single batch against a {@link WriteLimiter}.
+ *
+ * A document is counted once per batch, however many of its writes the batch
+ * holds. Admitted writes are undone by {@link rollback}, and recorded, with
+ * their warnings reported, by {@link commit}.
+ */
+export class WriteLimitPass {
+  private readonly _now: number;
+  private readonly _counted = new Set<string>();
+  private readonly _undo: (() => void)[] = [];
+  private readonly _warnings: WriteLimitWarning[] = [];
+  private readonly _flagged: string[] = [];
+
+  constructor(
+    private readonly _limiter: WriteLimiter,
+    private readonly _time: Timestamp,
+    private readonly _env: WriteLimitEnv
+  ) {
+    this._now = _time.toMillis();
+  }
+
+  /**
+   * Checks a write and admits it, unless it goes over a limit in `'throttle'`
+   * mode.
+   *
+   * @returns The `RESOURCE_EXHAUSTED` error the write is throttled with, or
+   *   `undefined` if it is admitted.
+   */
+  admit(write: LimitedWrite): GoogleError | undefined {
+    const counted = this._counted.has(write.path);
+    const violations = this._limiter.check(
+      write,
+      this._now,
+      counted,
+      this._env
+    );
+    if (violations.length && this._limiter.mode === 'throttle') {
+      return googleError(Status.RESOURCE_EXHAUSTED, violations[0].message);
+    }
+
+    this._counted.add(write.path);
+    this._undo.push(this._limiter.record(write, this._now, counted, this._env));
+    for (const violation of violations) {
+      this._warnings.push(
+        Object.freeze({
+          limit: violation.limit,
+          path: write.path,
+          time: this._time,
+          message: violation.message,
+        })
+      );
+      if (violation.sequence) this._flagged.push(violation.sequence);
+    }
+
+    return undefined;
+  }
+
+  /** Records the admitted writes and reports their warnings. */
+  commit(): void {
+    this._flagged.forEach((key) => this._limiter.flag(key));
+    this._limiter.sweep(this._now);
+    this._warnings.forEach((warning) => this._limiter.report(warning));
+  }
+
+  /** Undoes the admitted writes of a batch that failed. */
+  rollback(): void {
+    this._undo.reverse().forEach((undo) => undo());
+  }
+}
+
+function assertPositive(name: string, value: number): void {
+  if (!(typeof value === 'number' && value > 0 && Number.isFinite(value))) {
+    throw new Error(`Invalid write limits: ${name} must be a positive number.`);
+  }
+}
+
+function collectionOf(path: string): string {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+/** Counts the times within the window ending at `now`. */
+function inWindow(times: number[] | undefined, now: number): number {
+  if (!times) return 0;
+
+  let count = 0;
+  for (
+    let i = times.length - 1;
+    i >= 0 && times[i] > now - WINDOW_MILLIS;
+    i--
+  ) {
+    count += 1;
+  }
+
+  return count;
+}
+
+/** Drops the times before the window ending at `now`. */
+function prune(times: number[], now: number): void {
+  let stale = 0;
+  while (stale < times.length && times[stale] <= now - WINDOW_MILLIS) {
+    stale += 1;
+  }
+  if (stale) times.splice(0, stale);
+}
+
+function compare(a: string | Timestamp, b: string | Timestamp): number {
+  if (typeof a === 'string' || typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  return a.seconds - b.seconds || a.nanoseconds - b.nanoseconds;
+}
@@ -0,0 +1,127 @@
+/**
+ * Billable document operations metered from the requests made by the
+ * Firestore instances of a {@link FirestoreController}. Direct access via
+ * `ctrl.database` (e.g. seeding fixtures) is not billed.
+ *
+ * Units follow Firestore's billing rules:
+ * - A lookup bills one read per requested document, found or not.
+ * - A query or listing bills one read per document returned, and at least one
+ *   read. An aggregation bills one read per batch of up to 1000 index entries.
+ * - A snapshot listener bills one read per document in its initial results
+ *   (at least one), then one per document added or changed, or removed from
+ *   its results by an update. Documents removed by a delete are free.
+ * - Each write bills one write or delete, whether or not it changed anything.
+ *
+ * Partition queries and pipelines are not metered.
+ */
+export interface BillableUsage {
+  /** Document reads, including {@link listenerReads}. */
+  readonly reads: number;
+  /** The document reads billed to snapshot listeners. */
+  readonly listenerReads: number;
+  /** Document writes, including field transforms. */
+  readonly writes: number;
+  /** Document deletes. */
+  readonly deletes: number;
+}
+
+/**
+ * Prices, in US dollars, used by {@link FirestoreController.getCost} to turn
+ * billable units into an estimated cost.
+ */
+export interface FirestorePricing {
+  /** Price of 100,000 document reads. */
+  readonly readsPer100k: number;
+  /** Price of 100,000 document writes. */
+  readonly writesPer100k: number;
+  /** Price of 100,000 document deletes. */
+  readonly deletesPer100k: number;
+  /** Price of storing 1 GiB for a month. */
+  readonly storagePerGiBMonth: number;
+}
+
+/**
+ * Standard edition list prices of the `nam5` multi-region, without the free
+ * quota. Override them to match your database's location.
+ */
+export const DEFAULT_FIRESTORE_PRICING: FirestorePricing = Object.freeze({
+  readsPer100k: 0.06,
+  writesPer100k: 0.18,
+  deletesPer100k: 0.02,
+  storagePerGiBMonth: 0.18,
+});
+
+/**
+ * Selects the prices of a cost estimate.
+ */
+export interface CostOptions {
+  /** Defaults to {@link DEFAULT_FIRESTORE_PRICING}. */
+  pricing?: Partial<FirestorePricing>;
+}
+
+/**
+ * The billable usage of a database and its estimated cost.
+ */
+export interface FirestoreCost extends BillableUsage {
+  /**
+   * The stored size of the current documents: their serialized size plus
+   * the single-field index entries each one generates under default indexing.
+   */
+  readonly storedBytes: number;
+  /** The number of single-field index entries included in {@link storedBytes}. */
+  readonly indexEntries: number;
+  /** The price of the reads, writes and deletes, in US dollars. */
+  readonly operationsCost: number;
+  /** The price of storing {@link storedBytes} for a month, in US dollars. */
+  readonly storageCostPerMonth: number;
+}
+
+/**
+ * The maximum billable usage allowed by a {@link CostBudget}. Operation
+ * counts and {@link FirestoreCost.operationsCost} are measured from when the
+ * budget was set; {@link FirestoreCost.storedBytes} is the current size.
+ */
+export type CostBudgetLimits = {
+  readonly [K in
+    | keyof BillableUsage
+    | 'storedBytes'
+    | 'operationsCost']?: number;
+};
+
+/**
+ * A budget set by {@link FirestoreController.budget}.
+ *
+ * @example
+ * const budget = ctrl.budget({ reads: 50, writes: 10 });
+ * await renderDashboard(db);
+ * budget.assert();
+ */
+export interface CostBudget {
+  /** The limits of this budget. */
+  readonly limits: CostBudgetLimits;
+
+  /**
+   * Returns the usage since the budget was set, priced with the budget's
+   * pricing.
+   */
+  spent(): FirestoreCost;
+
+  /**
+   * Describes each exceeded limit, e.g. `'reads: 51 > 50'`; empty while the
+   * budget holds.
+   */
+  exceeded(): string[];
+
+  /**
+   * Throws if any limit has been exceeded.
+   *
+   * @throws {Error} Listing the exceeded limits.
+   */
+  assert(): void;
+
+  /**
+   * Detaches the budget from its database, which then no longer rebases it
+   * on reset. Disposing twice has no effect.
+   */
+  dispose(): void;
+}
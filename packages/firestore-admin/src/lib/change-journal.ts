@@ -0,0 +1,64 @@
+import type { DocumentData, Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * What a commit did to a document.
+ */
+export type ChangeKind = 'create' | 'update' | 'delete';
+
+/**
+ * A document change in the journal of a database: the net effect of one commit
+ * on one document.
+ *
+ * Writes that change nothing, such as an overwrite with identical data or the
+ * delete of a missing document, are not recorded.
+ */
+export interface ChangeRecord<T extends DocumentData = DocumentData> {
+  /** The database epoch the commit was made in. */
+  readonly epoch: number;
+  /** The commit version; changes of a single commit share it. */
+  readonly version: number;
+  /** The commit time. */
+  readonly serverTime: Timestamp;
+  /** The document path, e.g. `'users/ada'`. */
+  readonly path: string;
+  readonly kind: ChangeKind;
+  /** The (frozen) document data before the commit; `undefined` for a create. */
+  readonly before: T | undefined;
+  /** The (frozen) document data after the commit; `undefined` for a delete. */
+  readonly after: T | undefined;
+}
+
+/**
+ * Selects the records of a change journal.
+ */
+export interface ChangeJournalOptions {
+  /**
+   * Only changes made by later commits, e.g. a version taken from
+   * {@link FirestoreController.version} before the code under test ran.
+   */
+  sinceVersion?: number;
+  /**
+   * Only changes to documents matching this path pattern, in trigger route
+   * form, e.g. `'users/{uid}/posts/{postId}'`.
+   */
+  pathPattern?: string;
+}
+
+/**
+ * How many records the change journal of a {@link FirestoreController} keeps.
+ *
+ * Each record holds the full data of a document before and after a commit, so
+ * the journal keeps only the most recent records: once it is full, each commit
+ * drops the oldest. Journal watchers receive every record regardless.
+ *
+ * @example
+ * ctrl.setJournalRetention({ maxRecords: Infinity }); // keep every change
+ * ctrl.setJournalRetention({ maxRecords: 0 }); // only stream to watchers
+ */
+export interface JournalRetentionOptions {
+  /**
+   * The number of records kept: a non-negative integer or `Infinity`. Defaults
+   * to `10_000`.
+   */
+  maxRecords?: number;
+}
@@ -0,0 +1,44 @@
+/**
+ * How read-write transactions are isolated from concurrent writes.
+ *
+ * - `'optimistic'` (default): reads take no locks; a commit is aborted when a
+ *   document it read changed after the transaction's read time.
+ * - `'pessimistic'`: mirrors the Firestore server libraries. Reads take shared
+ *   locks, which writes upgrade to exclusive locks. Contention is resolved by
+ *   wound-wait: an older transaction aborts ("wounds") a younger lock holder,
+ *   while a younger transaction, or a non-transactional write, waits for the
+ *   lock to be released.
+ */
+export type ConcurrencyMode = 'optimistic' | 'pessimistic';
+
+/**
+ * Transaction concurrency settings for a {@link FirestoreController}.
+ */
+export interface ConcurrencyOptions {
+  mode: ConcurrencyMode;
+  /**
+   * How long, in milliseconds, a write waits for its locks before failing with
+   * `ABORTED`. Pessimistic mode only; defaults to `10_000`.
+   */
+  lockTimeoutMillis?: number;
+}
+
+/**
+ * Statistics of a read-write transaction, covering the first attempt and all
+ * its retries. Read-only transactions and non-transactional writes are not
+ * recorded.
+ */
+export interface TransactionRecord {
+  /** The base64 ID of the first attempt. */
+  readonly id: string;
+  /** Number of attempts begun with `retryTransaction` after the first. */
+  readonly retries: number;
+  /** The outcome of the latest attempt. */
+  readonly status: 'active' | 'committed' | 'aborted';
+  /** Attempts aborted by an older transaction taking their locks (pessimistic mode). */
+  readonly wounded: number;
+  /** Commits that had to wait for locks (pessimistic mode). */
+  readonly lockWaits: number;
+  /** Attempts rolled back after idling for 60 seconds, or running for 270 seconds. */
+  readonly expired: number;
+}
@@ -1,20 +1,63 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
 import { Firestore, Settings, Timestamp } from 'firebase-admin/firestore';
-import { DataAccessor, DatabaseStats } from './_internal/data-accessor.js';
+import {
+  DataAccessor,
+  DatabaseSnapshot,
+  DatabaseStats,
+} from './_internal/data-accessor.js';
 import { DatabasePool } from './_internal/database-pool.js';
+import { FaultInjector } from './_internal/faults/fault-injector.js';
 import { DEFAULT_DATABASE_ID } from './_internal/firestore/constants.js';
 import { logger } from './_internal/firestore/logger.js';
 import { ClientPool } from './_internal/firestore/pool.js';
 import { GapicClient } from './_internal/firestore/types.js';
 import {
+  ClientIdentity,
   DEFAULT_LOCATION,
   DEFAULT_NAMESPACE,
   DEFAULT_PROJECT_ID,
 } from './_internal/internal-types.js';
+import { IndexRegistry } from './_internal/indexes/index-registry.js';
+import { startInspector } from './_internal/inspector/inspector-server.js';
+import { LatencyModel } from './_internal/latency/latency-model.js';
+import { LockManager } from './_internal/locks/lock-manager.js';
 import { Listeners } from './_internal/listeners.js';
 import { MockGapicClient } from './_internal/mock-gapic-client/mock-gapic-client.js';
+import { Ruleset } from './_internal/security-rules/ruleset.js';
+import { replayTraffic } from './_internal/traffic/traffic-replayer.js';
+import { TtlSweeper } from './_internal/ttl/ttl-sweeper.js';
+import { WriteLimiter } from './_internal/write-limits/write-limiter.js';
+import {
+  CostBudget,
+  CostBudgetLimits,
+  CostOptions,
+  FirestoreCost,
+} from './billing.js';
+import { JournalRetentionOptions } from './change-journal.js';
+import { ConcurrencyOptions, TransactionRecord } from './concurrency.js';
 import { DatabaseDirect } from './database-direct.js';
+import { FaultInjectionOptions, FiredFault } from './faults.js';
+import { FirestoreIndexesConfig, FirestoreIndexOptions } from './indexes.js';
+import {
+  InspectorOptions,
+  ListenTargetRecord,
+  MockInspector,
+} from './inspector.js';
+import { LatencyOptions } from './latency.js';
+import { RetentionOptions } from './retention.js';
+import { Scheduler } from './scheduler.js';
+import { StatsOptions } from './stats.js';
+import { DatabaseStorage, StorageOptions } from './storage.js';
+import { AuthTokenProvider, SecurityRulesCoverage } from './security-rules.js';
 import { SystemTime } from './system-time.js';
-import { FirestoreMockStats } from './types.js';
+import {
+  TrafficReplayOptions,
+  TrafficReplayReport,
+  TrafficTrace,
+} from './traffic.js';
+import { TtlOptions } from './ttl.js';
+import { FirestoreMockGroupedStats, FirestoreMockStats } from './types.js';
+import { WriteLimitsOptions, WriteLimitWarning } from './write-limits.js';
 
 /**
  * Configuration for a mock Firestore controller instance.
@@ -62,6 +105,50 @@ export interface FirestoreControllerOptions {
    * Defaults to '(default)' if omitted.
    */
   namespace?: string;
+
+  /**
+   * Opt-in composite index enforcement driven by `firestore.indexes.json`.
+   * When omitted, every valid query runs without an index check.
+   */
+  indexes?: FirestoreIndexOptions;
+
+  /**
+   * Transaction concurrency control. Defaults to `{ mode: 'optimistic' }`; use
+   * `{ mode: 'pessimistic' }` to reproduce the lock contention of the Firestore
+   * server libraries.
+   */
+  concurrency?: ConcurrencyOptions;
+}
+
+/**
+ * Configuration for a database created by {@link FirestoreController.fork}.
+ *
+ * `location` and `namespace` default to those of the forked database; the other
+ * {@link FirestoreControllerOptions} apply to the fork as they do to
+ * {@link FirestoreMock.createDatabase}.
+ */
+export interface FirestoreForkOptions extends FirestoreControllerOptions {
+  /**
+   * Registers the triggers of the forked database with the fork as well, so
+   * that writes to either database fire them. Defaults to `false`.
+   *
+   * The callbacks are shared as is: a trigger bound to the forked controller
+   * (e.g. by `@firebase-bridge/firestore-functions`) still reports against it, so
+   * register such triggers against the fork instead.
+   */
+  triggers?: boolean;
+}
+
+/**
+ * Configuration for a {@link FirestoreMock} environment.
+ */
+export interface FirestoreMockOptions {
+  /**
+   * Runs the environment on virtual time, which only moves through
+   * {@link Scheduler.advance} and {@link Scheduler.runAllPending}. `true` starts
+   * the clock at the current time; a `Date` starts it there. Defaults to real time.
+   */
+  virtualTime?: boolean | Date;
 }
 
 /**
@@ -73,12 +160,14 @@ export interface FirestoreControllerOptions {
  * - `'reset'` — The database has been **cleared back to an empty state** and its `epoch` incremented
  * while keeping the same controller instance. This is typically used between tests to
  * guarantee isolation without tearing down the process.
+ * - `'restore'` — The database has been **rolled back to a snapshot** taken with
+ * {@link FirestoreController.snapshot} and its `epoch` incremented.
  *
  * @remarks
  * Use these event types to distinguish teardown vs. in-place reinitialization
  * when coordinating triggers, listeners, or other observers.
  */
-export type DatabaseLifecycleEventType = 'delete' | 'reset';
+export type DatabaseLifecycleEventType = 'delete' | 'reset' | 'restore';
 
 /**
  * Payload describing a lifecycle transition of a {@link FirestoreController}.
@@ -93,6 +182,8 @@ export interface DatabaseLifecycleEventArg {
    *   events.
    * - `'reset'` — The controller remains valid, but its underlying database
    *   contents have been cleared to a pristine state and its `epoch` incremented.
+   * - `'restore'` — The controller remains valid, but its underlying database
+   *   contents have been rolled back to a snapshot and its `epoch` incremented.
    *
    * @see DatabaseLifecycleEventType
    */
@@ -157,16 +248,27 @@ interface WithClientPool {
  */
 export class FirestoreMock {
   private readonly _databasePool: DatabasePool<FirestoreController>;
-  readonly systemTime = new SystemTime();
+  /**
+   * The clock and timers shared by all databases in the environment, and by
+   * trigger orchestrators bound to them.
+   */
+  readonly scheduler: Scheduler;
+  readonly systemTime: SystemTime;
 
   /**
    * Constructs a new FirestoreMock.
    *
-   * @param config Optional configuration for time mocking, etc.
+   * @param options Optional configuration, e.g. to run on virtual time.
    */
-  constructor() {
+  constructor(options?: FirestoreMockOptions) {
+    const start = options?.virtualTime;
+    this.scheduler = new Scheduler(
+      start === true ? new Date() : start || undefined
+    );
+    this.systemTime = new SystemTime(this.scheduler);
     this._databasePool = new DatabasePool({
       serverTime: () => Timestamp.fromDate(this.systemTime.now()),
+      scheduler: this.scheduler,
     });
   }
 
@@ -292,6 +394,36 @@ export class FirestoreMock {
       controller.reset();
     });
   }
+
+  /**
+   * Starts a local web UI, similar to the Emulator UI, for browsing the
+   * environment's databases while a test runs: collections and documents
+   * (which can be edited and deleted), the change journal and stats, live,
+   * and the active listen targets and transactions.
+   *
+   * - Listens on `127.0.0.1` and a free port unless `options` say otherwise.
+   * - Databases created later show up once the page is reloaded.
+   * - Await {@link MockInspector.closed} to pause a test until the page's
+   *   *Resume test* button is pressed; raise the test's timeout to match.
+   *
+   * @example
+   * const inspector = await env.startInspector({ port: 4000 });
+   * console.log(`Inspect the mock at ${inspector.url}`);
+   * await inspector.closed;
+   *
+   * @param options Where to listen.
+   * @returns The running inspector; close it when done.
+   * @throws {Error} If an option is malformed, or the port cannot be bound.
+   */
+  startInspector(options?: InspectorOptions): Promise<MockInspector> {
+    return startInspector(() => {
+      const databases: FirestoreController[] = [];
+      this._databasePool.forEach((controller) => {
+        databases.push(controller);
+      });
+      return databases;
+    }, options);
+  }
 }
 
 /**
@@ -303,7 +435,7 @@ export class FirestoreMock {
  */
 export class FirestoreController {
   private _accessor: DataAccessor | undefined;
-  private _statWatchers = new Listeners<FirestoreMockStats>();
+  private _statWatchers = new Listeners<DatabaseStats>();
   private _lifecycleWatchers = new Listeners<DatabaseLifecycleEventArg>();
 
   /** The project ID for this mock database. */
@@ -345,16 +477,23 @@ export class FirestoreController {
     this.databaseId = options?.databaseId ?? DEFAULT_DATABASE_ID;
     this.location = options?.location ?? DEFAULT_LOCATION;
     this.namespace = options?.namespace ?? DEFAULT_NAMESPACE;
-    this._accessor = _pool.create(
-      this.projectId,
-      this.databaseId,
-      this
-    ).accessor;
-    this.database = new DatabaseDirect(this._accessor);
+    // Parse index definitions before registering, so bad input leaves no database behind
+    const indexes = options?.indexes
+      ? IndexRegistry.create(options.indexes)
+      : undefined;
+    const locks = options?.concurrency
+      ? LockManager.fromOptions(options.concurrency, mock.scheduler)
+      : undefined;
+    const pooled = _pool.create(this.projectId, this.databaseId, this);
+    pooled.indexes = indexes;
+    this._accessor = pooled.accessor;
+    this._accessor.useLocks(locks);
+    this._accessor.useIndexes(indexes);
+    this.database = new DatabaseDirect(this._accessor, () => this.firestore());
     this.mock = mock;
     this._accessor.watchStats((stats) => {
       if (this._accessor) {
-        this._statWatchers.next(this.formatStats(stats));
+        this._statWatchers.next(stats);
       }
     });
     this._accessor.registerResetListener((epoch) => {
@@ -364,6 +503,13 @@ export class FirestoreController {
         database: this,
       });
     });
+    this._accessor.registerRestoreListener((epoch) => {
+      this._lifecycleWatchers.next({
+        type: 'restore',
+        epoch,
+        database: this,
+      });
+    });
   }
 
   /**
@@ -386,6 +532,506 @@ export class FirestoreController {
     });
   }
 
+  /**
+   * Constructs a mock Firestore instance that acts on behalf of an end user,
+   * as the client SDKs do. Unlike {@link firestore}, every request made through
+   * the returned instance is evaluated against the Security Rules loaded via
+   * {@link setSecurityRules}; denied requests fail with `PERMISSION_DENIED`.
+   *
+   * - Pass `null` to act as an unauthenticated caller (`request.auth == null`).
+   * - With no ruleset loaded, all requests are denied (locked mode).
+   * - Listing collection ids is not available to client identities.
+   *
+   * @param auth The decoded ID token exposed to rules as `request.auth.token`, or `null`.
+   * @param settings Optional Firestore settings; projectId/databaseId will be overridden.
+   * @returns A client-identity Firestore instance scoped to this database.
+   */
+  clientFirestore(auth: DecodedIdToken | null, settings?: Settings): Firestore;
+  /**
+   * Constructs a client-identity mock Firestore instance whose token is
+   * synthesized by an identity provider such as `AuthManager` from
+   * `@firebase-bridge/auth-context`.
+   *
+   * @param provider The provider used to synthesize the caller's ID token.
+   * @param key The identity key to resolve via `provider`.
+   * @param settings Optional Firestore settings; projectId/databaseId will be overridden.
+   * @returns A client-identity Firestore instance scoped to this database.
+   */
+  clientFirestore<TKey>(
+    provider: AuthTokenProvider<TKey>,
+    key: TKey,
+    settings?: Settings
+  ): Firestore;
+  clientFirestore<TKey>(
+    p1: DecodedIdToken | AuthTokenProvider<TKey> | null,
+    p2?: TKey | Settings,
+    p3?: Settings
+  ): Firestore {
+    this.assertExists();
+
+    let auth: DecodedIdToken | null;
+    let settings: Settings | undefined;
+    if (isTokenProvider(p1)) {
+      auth = p1.token({ key: p2 as TKey });
+      settings = p3;
+    } else {
+      auth = p1;
+      settings = p2 as Settings | undefined;
+    }
+
+    const firestore = new Firestore({
+      ...settings,
+      databaseId: this.databaseId,
+      projectId: this.projectId,
+    });
+    patchClientPool(firestore, this._pool, { auth });
+
+    return firestore;
+  }
+
+  /**
+   * Loads (or replaces) the Security Rules evaluated for client-identity
+   * instances created by {@link clientFirestore}. Admin instances are unaffected.
+   *
+   * - Coverage counters start from zero for the new ruleset.
+   *
+   * @param source The `firestore.rules` source text.
+   * @throws {GoogleError} `INVALID_ARGUMENT` if the source cannot be parsed.
+   * @throws {Error} If this database has been deleted.
+   */
+  setSecurityRules(source: string): void {
+    this.assertExists();
+
+    const ruleset = Ruleset.parse(source);
+    this._pool.getWithAssert(this.projectId, this.databaseId).rules = ruleset;
+  }
+
+  /**
+   * Unloads the current Security Rules; client-identity requests are denied
+   * until a new ruleset is loaded.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearSecurityRules(): void {
+    this.assertExists();
+
+    this._pool.getWithAssert(this.projectId, this.databaseId).rules = undefined;
+  }
+
+  /**
+   * Returns per-statement evaluation counts for the loaded Security Rules,
+   * useful for asserting that a test suite exercises every `allow` statement.
+   *
+   * @returns An immutable coverage snapshot; empty when no ruleset is loaded.
+   * @throws {Error} If this database has been deleted.
+   */
+  securityRulesCoverage(): SecurityRulesCoverage {
+    this.assertExists();
+
+    const rules = this._pool.getWithAssert(
+      this.projectId,
+      this.databaseId
+    ).rules;
+
+    return (
+      rules?.coverage() ??
+      Object.freeze({
+        requests: 0,
+        deniedRequests: 0,
+        rules: Object.freeze([]),
+      })
+    );
+  }
+
+  /**
+   * Zeroes the coverage counters of the loaded Security Rules.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  resetSecurityRulesCoverage(): void {
+    this.assertExists();
+
+    this._pool
+      .getWithAssert(this.projectId, this.databaseId)
+      .rules?.resetCoverage();
+  }
+
+  /**
+   * Replays Admin SDK traffic recorded by {@link recordTraffic} (typically
+   * against the Firestore emulator) through the mock's GAPIC client, one call
+   * at a time, and reports where the mock's responses and errors differ.
+   *
+   * - Seed this database as the recorded one was before replaying; the replay
+   *   writes to it like the recorded calls did.
+   * - Resource names are moved to this database, and recorded transaction ids
+   *   are replaced by the mock's.
+   * - Fields the backend assigns, such as `readTime` and `updateTime`, are not
+   *   compared (see {@link TrafficReplayOptions.ignoreFields}).
+   *
+   * @example
+   * const trace = parseTrafficTrace(readFileSync('trace.json', 'utf8'));
+   * const { differences } = await ctrl.replayTraffic(trace);
+   * expect(differences).toEqual([]);
+   *
+   * @param trace The recorded traffic.
+   * @param options Which fields and error details to compare.
+   * @returns The differences, and the replayed traffic in trace form.
+   * @throws {Error} If the trace is malformed, or this database has been deleted.
+   */
+  async replayTraffic(
+    trace: TrafficTrace,
+    options?: TrafficReplayOptions
+  ): Promise<TrafficReplayReport> {
+    this.assertExists();
+
+    const firestore = this.firestore();
+    try {
+      return await replayTraffic(
+        firestore,
+        `projects/${this.projectId}/databases/${this.databaseId}`,
+        trace,
+        options
+      );
+    } finally {
+      await firestore.terminate();
+    }
+  }
+
+  /**
+   * Returns the index definitions that queries against this database needed
+   * but were missing, in `firestore.indexes.json` form. Populated in both the
+   * `'enforce'` and `'record'` index modes; empty when index enforcement is off.
+   *
+   * @example
+   * writeFileSync(
+   *   'firestore.indexes.missing.json',
+   *   JSON.stringify(ctrl.missingIndexes(), null, 2)
+   * );
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  missingIndexes(): FirestoreIndexesConfig {
+    this.assertExists();
+
+    return (
+      this._pool
+        .getWithAssert(this.projectId, this.databaseId)
+        .indexes?.missing() ?? { indexes: [], fieldOverrides: [] }
+    );
+  }
+
+  /**
+   * Loads (or replaces) fault-injection rules for the GAPIC calls made against this
+   * database by any of its Firestore instances, so that retry and error-handling
+   * code can be exercised against `UNAVAILABLE`, `ABORTED`, lost responses, broken
+   * streams, etc.
+   *
+   * - The fired-fault report and all per-rule counters start from zero.
+   * - Rules persist across {@link reset} until {@link clearFaults} is called.
+   *
+   * @example
+   * ctrl.setFaults({
+   *   seed: 7,
+   *   rules: [
+   *     { rpc: 'commit', nth: 1, effect: { type: 'error', code: Status.UNAVAILABLE } },
+   *     { rpc: 'runQuery', probability: 0.2,
+   *       effect: { type: 'stream-error', code: Status.UNAVAILABLE, afterResponses: 1 } },
+   *   ],
+   * });
+   *
+   * @param options The rules to apply and the seed for probabilistic rules.
+   * @throws {Error} If a rule is malformed, or this database has been deleted.
+   */
+  setFaults(options: FaultInjectionOptions): void {
+    this.assertExists();
+
+    const faults = FaultInjector.create(options);
+    this._pool.getWithAssert(this.projectId, this.databaseId).faults = faults;
+  }
+
+  /**
+   * Turns fault injection off and discards the fired-fault report.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearFaults(): void {
+    this.assertExists();
+
+    this._pool.getWithAssert(this.projectId, this.databaseId).faults =
+      undefined;
+  }
+
+  /**
+   * Returns the faults injected since the rules were loaded by {@link setFaults},
+   * in firing order.
+   *
+   * @returns An immutable report; empty when fault injection is off.
+   * @throws {Error} If this database has been deleted.
+   */
+  firedFaults(): readonly FiredFault[] {
+    this.assertExists();
+
+    return (
+      this._pool
+        .getWithAssert(this.projectId, this.databaseId)
+        .faults?.fired() ?? Object.freeze([])
+    );
+  }
+
+  /**
+   * Replaces the mock's built-in response timing with a latency model for the
+   * GAPIC calls made against this database by any of its Firestore instances.
+   *
+   * Realistic (and reproducibly random) latencies surface races that a fixed
+   * delay hides, while `{ default: 0 }` delivers every response on a microtask
+   * to speed up large suites.
+   *
+   * - The model persists across {@link reset} until {@link clearLatency} is called.
+   * - Setting a model restarts its seeded generator.
+   *
+   * @example
+   * ctrl.setLatency({
+   *   seed: 3,
+   *   default: { type: 'range', min: 1, max: 10 },
+   *   rpcs: { commit: 25, listen: { type: 'normal', mean: 15, stddev: 5 } },
+   * });
+   *
+   * @param options Default and per-RPC latencies, and the seed for random ones.
+   * @throws {Error} If a latency is malformed, or this database has been deleted.
+   */
+  setLatency(options: LatencyOptions): void {
+    this.assertExists();
+
+    const latency = LatencyModel.create(options);
+    this._pool.getWithAssert(this.projectId, this.databaseId).latency = latency;
+  }
+
+  /**
+   * Restores the mock's built-in response timing.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearLatency(): void {
+    this.assertExists();
+
+    this._pool.getWithAssert(this.projectId, this.databaseId).latency =
+      undefined;
+  }
+
+  /**
+   * Declares (or replaces) the TTL policies of this database. Once
+   * {@link FirestoreMock.systemTime} passes a covered document's expiry time,
+   * plus the configured lag, the document is deleted: listeners see the delete,
+   * and triggers fire for it with a `system` {@link TriggerEventArg.principal}.
+   *
+   * - Deletions are timed by the {@link FirestoreMock.scheduler}; on virtual time
+   *   they happen as it advances, or as soon as `systemTime` jumps past an expiry.
+   * - The policies persist across {@link reset} until {@link clearTtl} is called.
+   *
+   * @example
+   * ctrl.setTtl({ policies: [{ collectionGroup: 'sessions', field: 'expireAt' }] });
+   *
+   * @param options The policies, and how long deletion trails expiry.
+   * @throws {Error} If a policy is malformed or duplicated, or this database has
+   *   been deleted.
+   */
+  setTtl(options: TtlOptions): void {
+    this.assertExists();
+
+    const pooled = this._pool.getWithAssert(this.projectId, this.databaseId);
+    const ttl = TtlSweeper.create(
+      options,
+      pooled.accessor,
+      this.mock.scheduler,
+      this.mock.systemTime
+    );
+    pooled.ttl?.dispose();
+    pooled.ttl = ttl;
+  }
+
+  /**
+   * Removes the TTL policies; expired documents are no longer deleted.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearTtl(): void {
+    this.assertExists();
+
+    const pooled = this._pool.getWithAssert(this.projectId, this.databaseId);
+    pooled.ttl?.dispose();
+    pooled.ttl = undefined;
+  }
+
+  /**
+   * Holds the writes made against this database by any of its Firestore
+   * instances to production write limits: the sustained write rate of each
+   * document, the "500/50/5" ramp-up of new collections, and hotspots from
+   * sequential document IDs or indexed timestamp fields. Depending on the
+   * mode, writes over a limit fail with `RESOURCE_EXHAUSTED` or are reported
+   * by {@link writeLimitWarnings}.
+   *
+   * - Rates are measured on commit times; on virtual time they follow the
+   *   {@link FirestoreMock.scheduler}.
+   * - The limits persist across {@link reset}, which clears their traffic
+   *   history and warnings, until {@link clearWriteLimits} is called.
+   *
+   * @example
+   * ctrl.setWriteLimits({ mode: 'throttle' });
+   * const writer = db.bulkWriter();
+   * events.forEach((e) => writer.set(db.doc(`events/${e.id}`), e));
+   * await writer.close(); // retries throttled writes with back-off
+   *
+   * @param options The limits and how writes over them are handled.
+   * @throws {Error} If an option is malformed, or this database has been deleted.
+   */
+  setWriteLimits(options: WriteLimitsOptions): void {
+    this.assertExists();
+
+    const limiter = WriteLimiter.create(options);
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    this._accessor!.useWriteLimits(limiter);
+  }
+
+  /**
+   * Turns the write limits off and discards their warnings.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearWriteLimits(): void {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    this._accessor!.useWriteLimits(undefined);
+  }
+
+  /**
+   * Returns the writes that went over a limit set by {@link setWriteLimits} in
+   * `'warn'` mode, in commit order.
+   *
+   * @returns An immutable report; empty when the limits are off.
+   * @throws {Error} If this database has been deleted.
+   */
+  writeLimitWarnings(): readonly WriteLimitWarning[] {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.writeLimitWarnings();
+  }
+
+  /**
+   * Sets how far back reads with an explicit `readTime` may go, optionally with
+   * point-in-time recovery (PITR), so that "read as of" and backup code can be
+   * tested by advancing {@link FirestoreMock.systemTime}.
+   *
+   * - Read times are checked against `systemTime` when a request is received:
+   *   too old ones fail with `FAILED_PRECONDITION`, and PITR read times that are
+   *   not whole minutes with `INVALID_ARGUMENT`.
+   * - Without a setting, reads may go back one minute.
+   * - The setting persists across {@link reset} until {@link clearRetention} is
+   *   called.
+   *
+   * @example
+   * ctrl.setRetention({ pointInTimeRecovery: true });
+   * const readTime = Timestamp.fromDate(new Date('2030-01-01T09:00:00Z'));
+   * await db.runTransaction((tx) => tx.get(ref), { readOnly: true, readTime });
+   *
+   * @param options The version and PITR retention windows.
+   * @throws {Error} If a window is malformed, or this database has been deleted.
+   */
+  setRetention(options: RetentionOptions): void {
+    this.assertExists();
+
+    this._pool
+      .getWithAssert(this.projectId, this.databaseId)
+      .accessor.setRetention(options);
+  }
+
+  /**
+   * Restores the default one-minute read-time window.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearRetention(): void {
+    this.assertExists();
+
+    this._pool
+      .getWithAssert(this.projectId, this.databaseId)
+      .accessor.setRetention(undefined);
+  }
+
+  /**
+   * Sets how many records the change journal of {@link DatabaseDirect.changes}
+   * keeps. Once it is full, each commit drops the oldest records; journal
+   * watchers still receive every change.
+   *
+   * - Without a setting, the journal keeps the latest 10,000 records.
+   * - The setting persists across {@link reset} until
+   *   {@link clearJournalRetention} is called.
+   *
+   * @example
+   * ctrl.setJournalRetention({ maxRecords: 0 }); // bulk seeding, no history
+   *
+   * @param options The number of records to keep.
+   * @throws {Error} If `maxRecords` is malformed, or this database has been deleted.
+   */
+  setJournalRetention(options: JournalRetentionOptions): void {
+    this.assertExists();
+
+    this._pool
+      .getWithAssert(this.projectId, this.databaseId)
+      .accessor.setJournalRetention(options);
+  }
+
+  /**
+   * Restores the default change journal size of 10,000 records.
+   *
+   * @throws {Error} If this database has been deleted.
+   */
+  clearJournalRetention(): void {
+    this.assertExists();
+
+    this._pool
+      .getWithAssert(this.projectId, this.databaseId)
+      .accessor.setJournalRetention(undefined);
+  }
+
+  /**
+   * Returns statistics for each read-write transaction begun against this database since
+   * it was created or last {@link reset}, in begin order: retry counts, outcome
+   * and, in pessimistic mode, lock contention.
+   *
+   * @example
+   * await db.runTransaction(async (tx) => { ... });
+   * expect(ctrl.transactionRecords()).toMatchObject([{ retries: 0, status: 'committed' }]);
+   *
+   * @returns An immutable list of records.
+   * @throws {Error} If this database has been deleted.
+   */
+  transactionRecords(): readonly TransactionRecord[] {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.transactionRecords();
+  }
+
+  /**
+   * Describes the listen targets currently active against this database:
+   * one per document or query listener of its Firestore instances.
+   *
+   * @example
+   * const unsubscribe = db.collection('users').onSnapshot(() => {});
+   * expect(ctrl.listenTargets()).toMatchObject([{ type: 'query', query: 'users' }]);
+   *
+   * @returns The targets, in the order they were added.
+   * @throws {Error} If this database has been deleted.
+   */
+  listenTargets(): readonly ListenTargetRecord[] {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.listenTargets();
+  }
+
   /**
    * Checks if this database still exists in the mock environment.
    *
@@ -398,7 +1044,7 @@ export class FirestoreController {
   /**
    * The monotonically increasing database epoch identifier.
    *
-   * - **Increments only when the database is reset** (never for reads/writes/commits).
+   * - **Increments only when the database is reset or restored** (never for reads/writes/commits).
    * - Remains constant for the entire lifetime of a given database instance between resets.
    * - When combined with {@link version()} (the commit sequence number), `(epoch, version)`
    *   provides a stable total ordering key across resets.
@@ -433,6 +1079,7 @@ export class FirestoreController {
   delete(): void {
     if (this.exists()) {
       const epoch = this.epoch();
+      this._pool.get(this.projectId, this.databaseId)?.ttl?.dispose();
       this._pool.delete(this.projectId, this.databaseId);
       this._statWatchers.clear();
       try {
@@ -462,25 +1109,135 @@ export class FirestoreController {
     }
   }
 
+  /**
+   * Captures the current documents, stats and commit version of this database.
+   *
+   * - Cheap to take: no documents are copied up front; later writes journal the
+   *   state they replace so that {@link restore} can revert them.
+   * - The handle remains valid until it is released, the database is reset or an
+   *   earlier snapshot is restored. Call `release()` on handles you no longer need:
+   *   while a snapshot is outstanding, the state replaced by every later write is
+   *   kept in memory.
+   *
+   * @returns An opaque handle to pass to {@link restore}.
+   * @throws {Error} If this database has been deleted.
+   *
+   * @example
+   * let fixtures!: DatabaseSnapshot;
+   * beforeAll(() => {
+   *   ctrl.database.fromStructuralDatabase(bigFixture);
+   *   fixtures = ctrl.snapshot();
+   * });
+   * beforeEach(() => ctrl.restore(fixtures));
+   */
+  snapshot(): DatabaseSnapshot {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.snapshot();
+  }
+
+  /**
+   * Rolls this database back to a snapshot taken with {@link snapshot}.
+   *
+   * - Restores documents, stats and the commit version; the cost is proportional to
+   *   the writes made since the snapshot, not to the size of the database.
+   * - Increments the `epoch` and emits a `'restore'` lifecycle event. Active listeners
+   *   receive the reverted documents; triggers do not fire.
+   * - Active transactions are rolled back.
+   *
+   * @param snapshot A handle returned by {@link snapshot} on this controller.
+   * @throws {Error} If this database has been deleted, or the snapshot is not valid.
+   */
+  restore(snapshot: DatabaseSnapshot): void {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    this._accessor!.restore(snapshot);
+  }
+
+  /**
+   * Creates a new database in this environment holding a copy of this one, so
+   * that several scenarios can branch from a shared seeded baseline.
+   *
+   * - Copies every document with its historic versions (so `readTime` reads of
+   *   the fork see the same past), the change journal, the retention settings
+   *   and, with `triggers: true`, the registered triggers.
+   * - The fork continues the `epoch()` and `version()` of this database; its
+   *   operation stats start at zero.
+   * - Copy-on-write: document data is shared rather than cloned, and writes to
+   *   either database leave the other untouched.
+   * - Security Rules, faults, latency, TTL policies, listeners and transactions
+   *   are not copied.
+   *
+   * @example
+   * const baseline = env.createDatabase();
+   * baseline.database.fromStructuralDatabase(bigFixture);
+   * const whatIf = baseline.fork({ databaseId: 'what-if' });
+   *
+   * @param options The identity and settings of the fork.
+   * @returns The controller of the new database.
+   * @throws {Error} If this database has been deleted, or a database with the
+   *   fork's project and database IDs already exists.
+   */
+  fork(options?: FirestoreForkOptions): FirestoreController {
+    this.assertExists();
+
+    const { triggers, ...controllerOptions } = options ?? {};
+    const fork = this.mock.createDatabase({
+      location: this.location,
+      namespace: this.namespace,
+      ...controllerOptions,
+    });
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fork._accessor!.forkFrom(this._accessor!, triggers === true);
+
+    return fork;
+  }
+
   /**
    * Retrieves the current stats for this database.
    *
    * @returns A snapshot of current FirestoreMockStats (e.g., document/operation counts).
    * @throws {Error} If this database has been deleted.
    */
-  getStats(): FirestoreMockStats {
+  getStats(): FirestoreMockStats;
+  /**
+   * Retrieves the current stats for this database, with the operation counts
+   * broken down by collection group, path pattern or query shape, to find which
+   * part of a test is responsible for excess reads.
+   *
+   * - Counts are per document: reads, writes, deletes, index entries and
+   *   documents scanned by queries, and updates delivered to snapshot listeners.
+   * - Like the database-wide counters, the breakdown is cleared by {@link reset}
+   *   and rolled back by {@link restore}.
+   *
+   * @example
+   * const { groups } = ctrl.getStats({ groupBy: 'query' });
+   * expect(groups['users where active == ?'].reads).toBeLessThan(100);
+   *
+   * @param options The dimension to group by.
+   * @returns The stats, with a frozen map of group key → counts.
+   * @throws {Error} If this database has been deleted.
+   */
+  getStats(options: StatsOptions): FirestoreMockGroupedStats;
+  getStats(options?: StatsOptions): FirestoreMockStats {
     this.assertExists();
 
     return this.formatStats(
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      this._accessor!.getStats()
+      this._accessor!.getStats(),
+      options
     );
   }
 
   /**
    * Registers a watcher function to receive the latest stats whenever they change.
    *
-   * - The watcher is immediately called with the current stats.
+   * - The watcher is immediately called with the current stats, then at most once
+   *   per microtask while operations change them.
+   * - With `options`, the watcher receives the breakdown selected by
+   *   {@link getStats}`(options)`.
    * - Returns a function to deregister the watcher.
    * - Throws if the database has been deleted.
    *
@@ -488,12 +1245,105 @@ export class FirestoreController {
    * @returns Deregistration function.
    * @throws {Error} If this database has been deleted.
    */
-  watchStats(statsWatcher: (stats: FirestoreMockStats) => void): () => void {
+  watchStats(statsWatcher: (stats: FirestoreMockStats) => void): () => void;
+  watchStats(
+    statsWatcher: (stats: FirestoreMockGroupedStats) => void,
+    options: StatsOptions
+  ): () => void;
+  watchStats(
+    statsWatcher: (stats: FirestoreMockGroupedStats) => void,
+    options?: StatsOptions
+  ): () => void {
     this.assertExists();
+    const notify = (stats: DatabaseStats): void => {
+      statsWatcher(
+        this.formatStats(stats, options) as FirestoreMockGroupedStats
+      );
+    };
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    this.formatStats(this._accessor!.getStats());
+    notify(this._accessor!.getStats());
 
-    return this._statWatchers.register(statsWatcher);
+    return this._statWatchers.register(notify);
+  }
+
+  /**
+   * Measures the storage taken up by this database's documents, to catch
+   * schema bloat before it reaches production limits.
+   *
+   * - Each document's size is its serialized size (as limited to 1 MiB) and
+   *   its single-field index entries under automatic indexing and the field
+   *   overrides of the `indexes` option; composite index entries are not
+   *   counted.
+   * - `warnings` lists the documents at or above `warnAt` of the 1 MiB size
+   *   limit or the 40,000 index entry limit.
+   * - The storage of a single document is available from
+   *   `MetaDocument.storage()`.
+   *
+   * @example
+   * expect(ctrl.getStorage().warnings).toEqual([]);
+   *
+   * @param options How many of the largest documents to list (default `10`),
+   *   and the fraction of a limit from which to warn (default `0.8`).
+   * @returns A frozen {@link DatabaseStorage}.
+   * @throws {Error} If an option is malformed, or this database has been deleted.
+   */
+  getStorage(options?: StorageOptions): DatabaseStorage {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.getStorage(options);
+  }
+
+  /**
+   * Estimates what the activity against this database would cost in
+   * production: the billable reads, writes and deletes of requests made by its
+   * Firestore instances, and the stored size of its documents and their index
+   * entries.
+   *
+   * - Direct access via {@link database} is not billed.
+   * - Like the stats, billable usage is cleared by {@link reset} and rolled back
+   *   by {@link restore}.
+   *
+   * @example
+   * const { reads, operationsCost } = ctrl.getCost();
+   *
+   * @param options The prices to apply; `nam5` list prices by default.
+   * @returns A frozen {@link FirestoreCost}.
+   * @throws {Error} If this database has been deleted.
+   */
+  getCost(options?: CostOptions): FirestoreCost {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.getCost(options);
+  }
+
+  /**
+   * Sets a budget on the billable usage of this database from now on, to
+   * catch cost regressions in tests.
+   *
+   * - {@link CostBudget.assert} throws once a limit has been exceeded. The
+   *   budget is only checked there (and by {@link CostBudget.exceeded}), so
+   *   requests keep succeeding while it is blown.
+   * - The stored size is only measured when a `storedBytes` limit is checked.
+   * - The budget measures from zero again after {@link reset}, until disposed.
+   *
+   * @example
+   * const budget = ctrl.budget({ reads: 50 });
+   * await loadFeed(db);
+   * budget.assert();
+   * budget.dispose();
+   *
+   * @param limits The maximum usage allowed.
+   * @param options The prices applied to an `operationsCost` limit.
+   * @returns The budget.
+   * @throws {Error} If a limit is malformed, or this database has been deleted.
+   */
+  budget(limits: CostBudgetLimits, options?: CostOptions): CostBudget {
+    this.assertExists();
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this._accessor!.budget(limits, options);
   }
 
   /**
@@ -502,6 +1352,8 @@ export class FirestoreController {
    *
    * - Fires on `'reset'` when the underlying database is cleared but the
    *   controller remains usable.
+   * - Fires on `'restore'` when the underlying database is rolled back to a
+   *   snapshot.
    * - Fires on `'delete'` when the controller/database is permanently disposed.
    * - Returns a function to deregister the watcher.
    * - Throws if the database has already been deleted.
@@ -523,13 +1375,27 @@ export class FirestoreController {
    * Formats internal DataAccessorStats as a user-facing FirestoreMockStats object.
    *
    * @param stats Raw stats from the DataAccessor.
+   * @param options The breakdown to add, if any.
    * @returns Immutable FirestoreMockStats.
    * @internal
    */
-  private formatStats(stats: DatabaseStats): FirestoreMockStats {
-    return Object.freeze({
+  private formatStats(
+    stats: DatabaseStats,
+    options?: StatsOptions
+  ): FirestoreMockStats {
+    if (!options) {
+      return Object.freeze({
+        databaseId: this.databaseId,
+        ...stats,
+      });
+    }
+
+    return Object.freeze<FirestoreMockGroupedStats>({
       databaseId: this.databaseId,
       ...stats,
+      groupBy: options.groupBy,
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      groups: this._accessor!.getStatsBreakdown(options.groupBy),
     });
   }
 
@@ -580,12 +1446,15 @@ const DEFAULT_MAX_IDLE_CHANNELS = 1;
  *
  * @param firestore - The newly-created Admin SDK `Firestore` instance to patch.
  * @param databasePool - The in-memory database pool backing the mock GAPIC client.
+ * @param identity - Client identity for Security Rules evaluation; omit for
+ *   privileged (Admin SDK) access.
  *
  * @internal
  */
 function patchClientPool(
   firestore: Firestore,
-  databasePool: DatabasePool
+  databasePool: DatabasePool,
+  identity?: ClientIdentity
 ): void {
   const nativePool = (firestore as unknown as WithClientPool)._clientPool;
   // Close out the native pool to avoid leaking idle gRPC channels. On a fresh Firestore
@@ -601,7 +1470,7 @@ function patchClientPool(
     DEFAULT_MAX_IDLE_CHANNELS,
     /* clientFactory= */ () => {
       const useFallback = false;
-      const client = new MockGapicClient(firestore, databasePool);
+      const client = new MockGapicClient(firestore, databasePool, identity);
       logger(
         'clientFactory',
         null,
@@ -614,3 +1483,9 @@ function patchClientPool(
   );
   (firestore as unknown as WithClientPool)._clientPool = pool;
 }
+
+function isTokenProvider<TKey>(
+  value: DecodedIdToken | AuthTokenProvider<TKey> | null
+): value is AuthTokenProvider<TKey> {
+  return typeof (value as AuthTokenProvider<TKey> | null)?.token === 'function';
+}
@@ -1,4 +1,4 @@
-import { DocumentData } from 'firebase-admin/firestore';
+import { DocumentData, Firestore } from 'firebase-admin/firestore';
 import {
   DataAccessor,
   DatabaseStats,
@@ -13,7 +13,27 @@ import {
   Trigger,
   WriteMode,
 } from './_internal/data-accessor.js';
+import {
+  decodeDocumentEntity,
+  encodeDocumentEntity,
+} from './_internal/export/entity-codec.js';
+import {
+  readExportRecords,
+  writeExportRecords,
+} from './_internal/export/export-directory.js';
+import {
+  decodeStructuralDatabase,
+  decodeTypedJSON,
+  encodeStructuralDatabase,
+  encodeTypedJSON,
+} from './_internal/functions/typed-json.js';
+import { DEFAULT_DATABASE_ID } from './_internal/firestore/constants.js';
+import { getSerializer } from './_internal/firestore/serializer.js';
+import { WithFirestoreSettings } from './_internal/firestore/typecast.js';
+import { DEFAULT_PROJECT_ID } from './_internal/internal-types.js';
+import { ChangeJournalOptions, ChangeRecord } from './change-journal.js';
 import { StructuralDatabase } from './structural-database.js';
+import { StructuralDatabaseJSON, TypedJSONDocument } from './typed-json.js';
 
 /**
  * A convenience shape for bulk `set` operations that pairs a document
@@ -28,6 +48,9 @@ export interface DatabaseDocument<T extends DocumentData = DocumentData> {
   data: T;
 }
 
+/** Documents committed per atomic write by {@link DatabaseDirect.fromNDJSON}. */
+const NDJSON_BATCH_SIZE = 500;
+
 /**
  * Thin, synchronous façade over the internal {@link DataAccessor} that
  * exposes ergonomic helpers for tests and tools that interact with the
@@ -42,14 +65,21 @@ export interface DatabaseDocument<T extends DocumentData = DocumentData> {
  */
 export class DatabaseDirect {
   private _accessor: DataAccessor;
+  private _firestoreFactory: (() => Firestore) | undefined;
+  private _firestore: Firestore | undefined;
 
   /**
    * Create a direct database adapter bound to an existing {@link DataAccessor}.
    *
    * @param accessor - The backing in-memory data accessor.
+   * @param firestore - Optional factory for a Firestore instance bound to the same
+   *   database; required to convert `DocumentReference` values by
+   *   {@link fromExport}, {@link toExport}, {@link fromJSON} and {@link fromNDJSON}.
+   *   Invoked lazily, at most once.
    */
-  constructor(accessor: DataAccessor) {
+  constructor(accessor: DataAccessor, firestore?: () => Firestore) {
     this._accessor = accessor;
+    this._firestoreFactory = firestore;
   }
 
   /**
@@ -64,6 +94,45 @@ export class DatabaseDirect {
     return this._accessor.registerTrigger(trigger);
   }
 
+  /**
+   * Read the change journal: the net change each commit made to each document
+   * since the last `reset()`, in commit order. Changes reverted by a restore
+   * are dropped from the journal.
+   *
+   * @example
+   * const since = ctrl.version();
+   * await codeUnderTest();
+   * expect(ctrl.database.changes({ sinceVersion: since })).toMatchObject([
+   *   { kind: 'create', path: 'orders/o1' },
+   *   { kind: 'update', path: 'users/ada', after: { orders: 1 } },
+   * ]);
+   *
+   * @param options - Optional version and path filters.
+   * @returns The matching {@link ChangeRecord}s.
+   * @throws {Error} If `options` are malformed.
+   */
+  changes(options?: ChangeJournalOptions): ChangeRecord[] {
+    return this._accessor.changes(options);
+  }
+
+  /**
+   * Stream the change journal: `watcher` receives each matching change, in
+   * commit order, shortly after its commit. With `sinceVersion`, the journal's
+   * changes after that version are replayed first. Unlike triggers, journal watchers stay
+   * registered across `reset()`.
+   *
+   * @param watcher - Receives each matching {@link ChangeRecord}.
+   * @param options - Optional version and path filters.
+   * @returns A function that stops the stream when called.
+   * @throws {Error} If `options` are malformed.
+   */
+  watchChanges(
+    watcher: (record: ChangeRecord) => void,
+    options?: ChangeJournalOptions
+  ): () => void {
+    return this._accessor.watchChanges(watcher, options);
+  }
+
   /**
    * Retrieve aggregate database statistics (document count, bytes, etc.).
    *
@@ -154,6 +223,195 @@ export class DatabaseDirect {
     return this._accessor.fromStructuralDatabase(src, merge);
   }
 
+  /**
+   * Produce a structural view of the database in the typed-JSON fixture
+   * encoding (see `TypedJSONValue`), which survives `JSON.stringify()`
+   * without losing Firestore value types.
+   *
+   * @returns A {@link StructuralDatabaseJSON} snapshot.
+   */
+  toJSON(): StructuralDatabaseJSON {
+    return encodeStructuralDatabase(this.toStructuralDatabase());
+  }
+
+  /**
+   * Import/merge a typed-JSON structural snapshot produced by {@link toJSON}.
+   *
+   * @param src - Source snapshot, e.g. the result of `JSON.parse()` on a fixture file.
+   * @param merge - Merge granularity; defaults to `'root'`.
+   * @returns A normalized result describing applied writes.
+   * @throws {Error} If `src` holds invalid typed JSON.
+   */
+  fromJSON(
+    src: StructuralDatabaseJSON,
+    merge: MergeGranularity = 'root'
+  ): NormalizedWriteResult {
+    return this.fromStructuralDatabase(
+      decodeStructuralDatabase(src, () => this.firestore()),
+      merge
+    );
+  }
+
+  /**
+   * Stream all **existing** documents as NDJSON: one {@link TypedJSONDocument}
+   * per line, each terminated by `\n`, in {@link toMetaArray} order.
+   *
+   * @example
+   * await pipeline(Readable.from(direct.toNDJSON()), createWriteStream('fixture.ndjson'));
+   *
+   * @returns A generator of NDJSON lines.
+   */
+  *toNDJSON(): Generator<string> {
+    for (const meta of this.toMetaArray()) {
+      const line: TypedJSONDocument = {
+        path: meta.path,
+        data: encodeTypedJSON(meta.data),
+      };
+      yield `${JSON.stringify(line)}\n`;
+    }
+  }
+
+  /**
+   * Import an NDJSON fixture written by {@link toNDJSON}, without holding the
+   * whole fixture in memory. Blank lines are ignored.
+   *
+   * @remarks
+   * Documents are committed atomically in batches of 500. If a line is invalid,
+   * the batches committed before it remain applied.
+   *
+   * @example
+   * await direct.fromNDJSON(createReadStream('fixture.ndjson'));
+   *
+   * @param source - Text or UTF-8 byte chunks, e.g. a Node.js `Readable`. Chunk
+   *   boundaries need not align with lines.
+   * @param merge - Merge granularity; defaults to `'root'`.
+   * @returns The number of documents written.
+   * @throws {Error} If a line is not a valid {@link TypedJSONDocument}.
+   */
+  async fromNDJSON(
+    source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+    merge: MergeGranularity = 'root'
+  ): Promise<number> {
+    const decoder = new TextDecoder();
+    const firestore = () => this.firestore();
+    let batch: NormalizedSet[] = [];
+    let count = 0;
+    let lineNo = 0;
+    let pending = '';
+
+    const flush = () => {
+      if (batch.length === 0) return;
+      this._accessor.batchWrite(batch, WriteMode.Atomic);
+      count += batch.length;
+      batch = [];
+    };
+    const parseLine = (line: string) => {
+      lineNo++;
+      if (!line.trim()) return;
+      try {
+        const doc = JSON.parse(line) as TypedJSONDocument;
+        if (typeof doc?.path !== 'string') {
+          throw new Error('Missing document path.');
+        }
+        batch.push({
+          type: 'set',
+          path: doc.path,
+          data: decodeTypedJSON(doc.data, firestore),
+          merge,
+        });
+      } catch (cause) {
+        throw new Error(
+          `Invalid NDJSON fixture at line ${lineNo}: ${
+            (cause as Error).message
+          }`,
+          { cause }
+        );
+      }
+      if (batch.length >= NDJSON_BATCH_SIZE) flush();
+    };
+
+    for await (const chunk of source) {
+      pending +=
+        typeof chunk === 'string'
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() as string;
+      lines.forEach(parseLine);
+    }
+    parseLine(pending + decoder.decode());
+    flush();
+
+    return count;
+  }
+
+  /**
+   * Import a Firestore export into this database.
+   *
+   * Accepts the output of `firebase emulators:export` (the directory holding
+   * `firebase-export-metadata.json`) or of a managed export
+   * (`gcloud firestore export`), given either as the folder holding the
+   * `*.overall_export_metadata` file or as that file itself. All documents are
+   * written in a single atomic commit.
+   *
+   * @param path - Local path of the export.
+   * @param merge - Merge granularity; defaults to `'root'`.
+   * @returns A normalized result describing applied writes.
+   * @throws {Error} If `path` is not a readable Firestore export.
+   */
+  fromExport(
+    path: string,
+    merge: MergeGranularity = 'root'
+  ): NormalizedWriteResult {
+    const serializer = getSerializer(this.firestore());
+    const writes = readExportRecords(path).map<NormalizedSet>((record) => {
+      const doc = decodeDocumentEntity(record);
+      return {
+        type: 'set',
+        path: doc.path,
+        data: serializer.decodeValue({
+          mapValue: { fields: doc.fields },
+        }) as DocumentData,
+        merge,
+      };
+    });
+
+    return this._accessor.batchWrite(writes, WriteMode.Atomic);
+  }
+
+  /**
+   * Export all **existing** documents in the Firestore export format, as written
+   * by `firebase emulators:export`. The result can be loaded by the Firestore
+   * emulator (`firebase emulators:start --import <directory>`) or re-imported
+   * with {@link fromExport}.
+   *
+   * @remarks
+   * Firestore stores timestamps with microsecond precision; any sub-microsecond
+   * part of a `Timestamp` is truncated, as it would be by the real backend.
+   *
+   * @param directory - Output directory; created if missing. Existing export
+   *   files in it are overwritten.
+   */
+  toExport(directory: string): void {
+    const firestore = this.firestore();
+    const serializer = getSerializer(firestore);
+    const settings = (firestore as unknown as WithFirestoreSettings)._settings;
+    const target = {
+      projectId: settings?.projectId ?? DEFAULT_PROJECT_ID,
+      databaseId: settings?.databaseId ?? DEFAULT_DATABASE_ID,
+    };
+
+    writeExportRecords(
+      directory,
+      this.toMetaArray().map((meta) =>
+        encodeDocumentEntity(target, {
+          path: meta.path,
+          fields: serializer.encodeFields(meta.data),
+        })
+      )
+    );
+  }
+
   /**
    * List direct child collection IDs of a document.
    *
@@ -313,6 +571,19 @@ export class DatabaseDirect {
     return this.singleWriteOp(op);
   }
 
+  private firestore(): Firestore {
+    if (!this._firestore) {
+      if (!this._firestoreFactory) {
+        throw new Error(
+          'This operation requires a DatabaseDirect created with a Firestore factory.'
+        );
+      }
+      this._firestore = this._firestoreFactory();
+    }
+
+    return this._firestore;
+  }
+
   /**
    * Helper to execute a single normalized write as an atomic batch and
    * return its sole {@link MetaDocument} result.
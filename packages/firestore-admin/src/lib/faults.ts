@@ -0,0 +1,140 @@
+import { Status } from 'google-gax';
+
+/**
+ * The GAPIC RPCs served by the mock, as named on the Firestore v1 client.
+ */
+export type FaultRpc =
+  | 'beginTransaction'
+  | 'commit'
+  | 'batchWrite'
+  | 'rollback'
+  | 'batchGetDocuments'
+  | 'runQuery'
+  | 'runAggregationQuery'
+  | 'listDocuments'
+  | 'listCollectionIds'
+  | 'listen'
+  | 'partitionQuery'
+  | 'partitionQueryStream'
+  | 'executePipeline';
+
+/**
+ * Fails the call with a `GoogleError` before it is executed; nothing is applied.
+ */
+export interface FaultErrorEffect {
+  type: 'error';
+  /** The gRPC status code, e.g. `Status.UNAVAILABLE`. */
+  code: Status;
+  /** Error message; defaults to a description of the injected fault. */
+  message?: string;
+}
+
+/**
+ * Executes the call but loses its response, as when a connection drops after the
+ * backend has committed. Unary calls then fail with `code`. Streaming calls discard
+ * their responses and fail with `code` when the server would have ended the stream;
+ * a `listen` stream simply stops delivering responses.
+ */
+export interface FaultDropEffect {
+  type: 'drop';
+  /** Defaults to `Status.DEADLINE_EXCEEDED`. */
+  code?: Status;
+  message?: string;
+}
+
+/**
+ * Fails a streaming call after it has delivered `afterResponses` responses (or
+ * when the server would have ended the stream, if sooner). Rules with this effect
+ * only match streaming RPCs: `batchGetDocuments`, `runQuery`, `runAggregationQuery`,
+ * `listen`, `partitionQueryStream` and `executePipeline`.
+ */
+export interface FaultStreamErrorEffect {
+  type: 'stream-error';
+  code: Status;
+  message?: string;
+  /** Defaults to `0`. */
+  afterResponses?: number;
+}
+
+/**
+ * What happens to a call matched by a {@link FaultRule}.
+ */
+export type FaultEffect =
+  | FaultErrorEffect
+  | FaultDropEffect
+  | FaultStreamErrorEffect;
+
+/**
+ * A fault-injection rule. A call must satisfy every criterion that is set; the
+ * first matching rule (in declaration order) that fires decides the call's fate.
+ *
+ * @example
+ * // Fail the 2nd transactional commit to users/* with ABORTED
+ * { rpc: 'commit', path: 'users/{uid}', transaction: true, nth: 2,
+ *   effect: { type: 'error', code: Status.ABORTED } }
+ */
+export interface FaultRule {
+  /** Optional name, echoed in the {@link FiredFault} report. */
+  name?: string;
+  /** RPC name(s) to match; any RPC when omitted. */
+  rpc?: FaultRpc | FaultRpc[];
+  /**
+   * Document or collection path pattern using `{param}` wildcards, e.g.
+   * `'users/{uid}'`. Matches when any path the call touches matches: written
+   * or fetched documents, the queried or listed collection, the collection or
+   * documents a pipeline reads, or the parent document of `listCollectionIds`.
+   * Calls without paths (`beginTransaction`, `rollback`, `listen`) never match
+   * a `path` rule.
+   */
+  path?: string;
+  /**
+   * `true` to match only calls that run in (or begin) a transaction, `false` to
+   * match only non-transactional calls.
+   */
+  transaction?: boolean;
+  /**
+   * Fire only on the Nth (1-based) call that satisfies the criteria above.
+   */
+  nth?: number;
+  /**
+   * Maximum number of times the rule fires; unlimited by default (a rule with
+   * `nth` fires at most once).
+   */
+  times?: number;
+  /**
+   * Probability in `[0, 1]` that a matching call fires, drawn from the
+   * controller's seeded generator; defaults to `1`.
+   */
+  probability?: number;
+  /** The fault to inject. */
+  effect: FaultEffect;
+}
+
+/**
+ * Fault-injection configuration for a {@link FirestoreController}.
+ */
+export interface FaultInjectionOptions {
+  rules: FaultRule[];
+  /**
+   * Seed for `probability` draws. The same seed and call sequence always fire
+   * the same faults. Defaults to `0`.
+   */
+  seed?: number;
+}
+
+/**
+ * A fault that was injected into a call.
+ */
+export interface FiredFault {
+  /** Index of the rule in {@link FaultInjectionOptions.rules}. */
+  readonly rule: number;
+  /** The rule's `name`, if any. */
+  readonly name?: string;
+  readonly rpc: FaultRpc;
+  /** 1-based sequence number of the call among calls to `rpc` since the rules were loaded. */
+  readonly call: number;
+  /** Paths touched by the call, as matched against `path`. */
+  readonly paths: readonly string[];
+  readonly effect: FaultEffect['type'];
+  readonly code: Status;
+}
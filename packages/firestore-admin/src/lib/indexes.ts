@@ -0,0 +1,94 @@
+/**
+ * Sort order of an indexed field.
+ */
+export type IndexOrder = 'ASCENDING' | 'DESCENDING';
+
+/**
+ * Scope of an index: a single collection, or every collection sharing the id.
+ */
+export type IndexQueryScope = 'COLLECTION' | 'COLLECTION_GROUP';
+
+/**
+ * A field entry of a composite index, as it appears in `firestore.indexes.json`.
+ * Exactly one of `order`, `arrayConfig` or `vectorConfig` is set.
+ */
+export interface IndexFieldDefinition {
+  fieldPath: string;
+  order?: IndexOrder;
+  arrayConfig?: 'CONTAINS';
+  vectorConfig?: {
+    dimension: number;
+    flat?: Record<string, never>;
+  };
+}
+
+/**
+ * A composite index definition, as it appears in `firestore.indexes.json`.
+ */
+export interface IndexDefinition {
+  collectionGroup: string;
+  /** Defaults to `'COLLECTION'`. */
+  queryScope?: IndexQueryScope;
+  fields: IndexFieldDefinition[];
+}
+
+/**
+ * A single-field index entry of a field override.
+ */
+export interface FieldOverrideIndexDefinition {
+  /** Defaults to `'COLLECTION'`. */
+  queryScope?: IndexQueryScope;
+  order?: IndexOrder;
+  arrayConfig?: 'CONTAINS';
+}
+
+/**
+ * A single-field index override, as it appears in `firestore.indexes.json`.
+ *
+ * The listed `indexes` replace the automatic single-field indexes for the field;
+ * an empty list exempts the field from indexing.
+ */
+export interface FieldOverrideDefinition {
+  collectionGroup: string;
+  fieldPath: string;
+  indexes: FieldOverrideIndexDefinition[];
+  /** Whether the field is a TTL field. */
+  ttl?: boolean;
+}
+
+/**
+ * The contents of a `firestore.indexes.json` file.
+ */
+export interface FirestoreIndexesConfig {
+  indexes?: IndexDefinition[];
+  fieldOverrides?: FieldOverrideDefinition[];
+}
+
+/**
+ * How queries without a serving index are handled.
+ *
+ * - `'enforce'` — fail with `FAILED_PRECONDITION`, as production does.
+ * - `'record'` — run the query and record the missing index definition.
+ */
+export type IndexEnforcementMode = 'enforce' | 'record';
+
+/**
+ * Opt-in index enforcement for a mock database.
+ *
+ * @example
+ * const ctrl = env.createDatabase({
+ *   indexes: {
+ *     mode: 'enforce',
+ *     definitions: readFileSync('firestore.indexes.json', 'utf8'),
+ *   },
+ * });
+ */
+export interface FirestoreIndexOptions {
+  mode: IndexEnforcementMode;
+  /**
+   * The index definitions, either parsed or as the JSON text of a
+   * `firestore.indexes.json` file. Omit to start with automatic single-field
+   * indexes only.
+   */
+  definitions?: FirestoreIndexesConfig | string;
+}
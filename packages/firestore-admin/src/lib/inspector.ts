@@ -0,0 +1,61 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Where a {@link FirestoreMock.startInspector} server listens.
+ */
+export interface InspectorOptions {
+  /** The port to listen on. Defaults to `0`, which picks a free port. */
+  port?: number;
+  /**
+   * The host to bind to. Defaults to `'127.0.0.1'`, so the inspector is not
+   * reachable from other machines.
+   */
+  host?: string;
+}
+
+/**
+ * A running inspector: a local web UI for browsing and editing the databases
+ * of a {@link FirestoreMock}, similar to the Emulator UI.
+ */
+export interface MockInspector {
+  /** The address of the UI, e.g. `'http://127.0.0.1:4000/'`. */
+  readonly url: string;
+
+  /**
+   * Resolves once the inspector has closed, whether by {@link close} or by the
+   * UI's *Resume* button. Await it to pause a test while you look around.
+   */
+  readonly closed: Promise<void>;
+
+  /**
+   * Stops the server and disconnects open pages. Closing twice has no effect.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * An active listen target: a document or query listener of one of the
+ * database's Firestore instances.
+ */
+export interface ListenTargetRecord {
+  /** The target's id; ids are only unique within a listen stream. */
+  readonly targetId: number;
+  /** `'documents'` for document listeners; `'query'` for query listeners. */
+  readonly type: 'documents' | 'query';
+  /** The paths of the listened-to documents of a `'documents'` target. */
+  readonly documents?: readonly string[];
+  /**
+   * The shape of a `'query'` target's query, as in per-query stats, e.g.
+   * `'users/{*}/posts where author == ? order by date desc'`.
+   */
+  readonly query?: string;
+  /**
+   * Whether the listener acts on behalf of an end user (see
+   * {@link FirestoreController.clientFirestore}).
+   */
+  readonly client: boolean;
+  /** The number of documents in the target's current results. */
+  readonly documentCount: number;
+  /** The read time of the latest change the target has observed. */
+  readonly readTime: Timestamp;
+}
@@ -0,0 +1,70 @@
+import type { FaultRpc } from './faults.js';
+
+/**
+ * A constant latency of `ms` milliseconds.
+ */
+export interface FixedLatency {
+  type: 'fixed';
+  ms: number;
+}
+
+/**
+ * A latency drawn uniformly from `[min, max]` milliseconds.
+ */
+export interface RangeLatency {
+  type: 'range';
+  min: number;
+  max: number;
+}
+
+/**
+ * A latency drawn from a normal distribution, clamped to `[min, max]`.
+ */
+export interface NormalLatency {
+  type: 'normal';
+  mean: number;
+  stddev: number;
+  /** Defaults to `0`. */
+  min?: number;
+  /** Unbounded by default. */
+  max?: number;
+}
+
+/**
+ * How long a response takes to reach the client, in milliseconds. A number is
+ * shorthand for a {@link FixedLatency}. A latency of `0` delivers the response on
+ * a microtask instead of a timer.
+ */
+export type LatencySpec = number | FixedLatency | RangeLatency | NormalLatency;
+
+/**
+ * Latency configuration for a {@link FirestoreController}.
+ *
+ * - Unary RPCs (`commit`, `listDocuments`, …) resolve after their latency.
+ * - Streaming RPCs (`runQuery`, `batchGetDocuments`, …) wait out their latency
+ *   before the first response. The stream then ends without further delay.
+ * - `listen` latency delays each batch of listen responses. Batches are still
+ *   delivered in order.
+ *
+ * @example
+ * // Zero latency: everything is delivered on microtasks
+ * ctrl.setLatency({ default: 0 });
+ *
+ * // Realistic, reproducible jitter with slow commits
+ * ctrl.setLatency({
+ *   seed: 1,
+ *   default: { type: 'range', min: 2, max: 20 },
+ *   rpcs: { commit: { type: 'normal', mean: 40, stddev: 15 } },
+ * });
+ */
+export interface LatencyOptions {
+  /** Latency of every RPC without its own entry in `rpcs`. Defaults to `0`. */
+  default?: LatencySpec;
+  /** Per-RPC latencies. */
+  rpcs?: Partial<Record<FaultRpc, LatencySpec>>;
+  /**
+   * Seed for random latencies. The same seed and call sequence always yield
+   * the same delays. Defaults to `0`.
+   */
+  seed?: number;
+}
@@ -0,0 +1,32 @@
+/**
+ * How far back reads with an explicit `readTime` (read-only transactions,
+ * `Query`/`getAll` reads in them, and backup tooling) may go in a
+ * {@link FirestoreController}, relative to {@link SystemTime}.
+ *
+ * - Any `readTime` within `versionRetentionMillis` is served.
+ * - With point-in-time recovery, a `readTime` older than that, up to
+ *   `pitrRetentionMillis`, is served when it is a whole minute; other read
+ *   times are rejected with `INVALID_ARGUMENT`.
+ * - Older read times are rejected with `FAILED_PRECONDITION`, and document
+ *   versions no longer readable are pruned as documents are written.
+ *
+ * @example
+ * ctrl.setRetention({ pointInTimeRecovery: true });
+ * env.systemTime.advance(3 * 24 * 60 * 60 * 1000);
+ * // Reads at any whole minute of the last 7 days are now served
+ */
+export interface RetentionOptions {
+  /**
+   * How long, in milliseconds, every document version stays readable.
+   * Defaults to `60_000`.
+   */
+  versionRetentionMillis?: number;
+  /** Whether point-in-time recovery is enabled. Defaults to `false`. */
+  pointInTimeRecovery?: boolean;
+  /**
+   * With point-in-time recovery, how long, in milliseconds, document versions
+   * stay readable at whole minutes. At least `versionRetentionMillis`; defaults
+   * to 7 days, as in production.
+   */
+  pitrRetentionMillis?: number;
+}
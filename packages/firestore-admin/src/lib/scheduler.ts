@@ -0,0 +1,212 @@
+/**
+ * A timer scheduled with {@link Scheduler.setTimeout}.
+ */
+export interface TimerHandle {
+  /**
+   * Lets the process exit while the timer is pending, as `Timeout.unref()`
+   * does. Has no effect on virtual time.
+   */
+  unref(): TimerHandle;
+}
+
+/**
+ * The most timers a single advance fires before it assumes that a timer keeps
+ * rescheduling itself.
+ */
+const MAX_TIMER_RUNS = 100_000;
+
+/**
+ * The clock and timers behind every time-based behaviour of a
+ * {@link FirestoreMock}: "now", transaction expiry, lock timeouts, response
+ * latency, listener timing and trigger wait timeouts.
+ *
+ * By default the scheduler follows real time. On virtual time, "now" stands
+ * still until {@link advance} or {@link runAllPending} moves it, firing the
+ * timers that fall due on the way, so a test can jump minutes ahead without
+ * waiting. Timers that are already due (e.g. zero-delay timers) still fire on
+ * their own, after pending I/O.
+ *
+ * The mock's built-in pacing delays (a few milliseconds between a request and
+ * its response, or between a commit and listener updates) order work on the
+ * event loop rather than model elapsed time, so they take no virtual time.
+ * Delays that do model time, such as a latency model, only elapse through
+ * {@link advance} or {@link runAllPending}.
+ *
+ * @example
+ * const env = new FirestoreMock({ virtualTime: true });
+ * // ... begin a transaction and leave it idle
+ * await env.scheduler.advance(10 * 60_000); // the transaction has expired
+ */
+export class Scheduler {
+  /** Virtual "now"; `undefined` on real time. */
+  private _now: number | undefined;
+  /** Pending virtual timers, ordered by due time, then by creation. */
+  private _timers: VirtualTimer[] = [];
+  /** Fires virtual timers that are due, when not already advancing. */
+  private _pump: NodeJS.Immediate | undefined;
+
+  /**
+   * @param start When given, the scheduler runs on virtual time starting at
+   *   this instant; otherwise it follows real time.
+   */
+  constructor(start?: Date) {
+    this._now = start?.getTime();
+  }
+
+  /**
+   * Whether the scheduler runs on virtual time.
+   */
+  get virtual(): boolean {
+    return this._now !== undefined;
+  }
+
+  /**
+   * The number of pending virtual timers. Always `0` on real time.
+   */
+  get pending(): number {
+    return this._timers.length;
+  }
+
+  /**
+   * Returns the current time in milliseconds since the Unix epoch.
+   */
+  now(): number {
+    return this._now ?? Date.now();
+  }
+
+  /**
+   * Calls `callback` once `ms` milliseconds have elapsed.
+   */
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    if (this._now === undefined) {
+      return new RealTimer(setTimeout(callback, ms));
+    }
+
+    const timer = new VirtualTimer(this._now + Math.max(ms, 0), callback);
+    const index = this._timers.findIndex((t) => t.due > timer.due);
+    this._timers.splice(index < 0 ? this._timers.length : index, 0, timer);
+    if (timer.due <= this._now) this.pump();
+
+    return timer;
+  }
+
+  /**
+   * Cancels a timer that has not fired yet.
+   */
+  clearTimeout(handle: TimerHandle | undefined): void {
+    if (handle instanceof RealTimer) {
+      clearTimeout(handle.timeout);
+    } else if (handle instanceof VirtualTimer) {
+      const index = this._timers.indexOf(handle);
+      if (index >= 0) this._timers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Moves virtual time forward by `ms` milliseconds, firing the timers that
+   * fall due in order. Pending I/O and promise callbacks run after each timer,
+   * so timers they schedule within the window fire too.
+   *
+   * @throws {Error} If the scheduler runs on real time, or `ms` is negative.
+   */
+  async advance(ms: number): Promise<void> {
+    this.assertVirtual();
+    if (!(typeof ms === 'number' && ms >= 0 && Number.isFinite(ms))) {
+      throw new Error(
+        'Invalid advance: ms must be a non-negative number of milliseconds.'
+      );
+    }
+
+    const target = (this._now as number) + ms;
+    await this.run((timer) => timer.due <= target);
+    this._now = target;
+    await this.run((timer) => timer.due <= target);
+  }
+
+  /**
+   * Moves virtual time forward until no timers are pending, firing them in
+   * order.
+   *
+   * @throws {Error} If the scheduler runs on real time, or timers keep
+   *   rescheduling themselves.
+   */
+  async runAllPending(): Promise<void> {
+    this.assertVirtual();
+    await this.run(() => true);
+  }
+
+  /**
+   * Returns `ms` on real time and `0` on virtual time: the mock's built-in
+   * pacing delays take no virtual time.
+   *
+   * @internal
+   */
+  pace(ms: number): number {
+    return this._now === undefined ? ms : 0;
+  }
+
+  /**
+   * Fires timers in order while `eligible` accepts the next one, letting
+   * pending I/O run after each.
+   */
+  private async run(eligible: (timer: VirtualTimer) => boolean): Promise<void> {
+    await settle();
+    for (let runs = 0; ; runs++) {
+      const timer = this._timers[0];
+      if (!timer || !eligible(timer)) return;
+      if (runs >= MAX_TIMER_RUNS) {
+        throw new Error(
+          `Aborted after running ${MAX_TIMER_RUNS} timers; a timer may be rescheduling itself.`
+        );
+      }
+
+      this._timers.shift();
+      this._now = Math.max(this._now as number, timer.due);
+      timer.callback();
+      await settle();
+    }
+  }
+
+  /** Schedules a pass over the timers that are already due. */
+  private pump(): void {
+    if (this._pump) return;
+
+    this._pump = setImmediate(() => {
+      this._pump = undefined;
+      const now = this._now as number;
+      while (this._timers.length > 0 && this._timers[0].due <= now) {
+        (this._timers.shift() as VirtualTimer).callback();
+      }
+    });
+  }
+
+  private assertVirtual(): void {
+    if (this._now === undefined) {
+      throw new Error('The scheduler does not run on virtual time.');
+    }
+  }
+}
+
+class RealTimer implements TimerHandle {
+  constructor(readonly timeout: NodeJS.Timeout) {}
+
+  unref(): TimerHandle {
+    this.timeout.unref?.();
+    return this;
+  }
+}
+
+class VirtualTimer implements TimerHandle {
+  constructor(readonly due: number, readonly callback: () => void) {}
+
+  unref(): TimerHandle {
+    return this;
+  }
+}
+
+/**
+ * Resolves after pending microtasks and I/O callbacks have run.
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
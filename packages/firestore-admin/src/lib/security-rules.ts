@@ -0,0 +1,77 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+
+/**
+ * A Firestore Security Rules request method, as referenced by `allow` statements.
+ *
+ * - `'read'` is shorthand for `'get'` and `'list'`.
+ * - `'write'` is shorthand for `'create'`, `'update'` and `'delete'`.
+ */
+export type SecurityRulesMethod =
+  | 'read'
+  | 'write'
+  | 'get'
+  | 'list'
+  | 'create'
+  | 'update'
+  | 'delete';
+
+/**
+ * Structural view of an identity source capable of synthesizing a `DecodedIdToken`
+ * from a key.
+ *
+ * @remarks
+ * `AuthManager` from `@firebase-bridge/auth-context` satisfies this shape, allowing
+ * client-identity Firestore instances to be created directly from a registered
+ * identity key without this package taking a dependency on `auth-context`.
+ */
+export interface AuthTokenProvider<TKey = string> {
+  /**
+   * Synthesizes the decoded ID token of the identity resolved by `options.key`.
+   */
+  token(options: { key: TKey }): DecodedIdToken;
+}
+
+/**
+ * Coverage information for a single `allow` statement in the loaded ruleset.
+ */
+export interface SecurityRuleCoverage {
+  /**
+   * The fully-qualified match pattern that encloses the statement, e.g.
+   * `/databases/{database}/documents/users/{userId}`.
+   */
+  readonly match: string;
+  /** The methods declared by the statement, as written. */
+  readonly methods: readonly SecurityRulesMethod[];
+  /**
+   * The source text of the `if` condition, or `'true'` when the statement has
+   * no condition.
+   */
+  readonly condition: string;
+  /** 1-based source line of the `allow` keyword. */
+  readonly line: number;
+  /** 1-based source column of the `allow` keyword. */
+  readonly column: number;
+  /** Number of times the condition was evaluated. */
+  readonly evaluations: number;
+  /** Number of evaluations that produced `true` (access granted). */
+  readonly allowed: number;
+  /** Number of evaluations that produced `false`. */
+  readonly denied: number;
+  /**
+   * Number of evaluations that raised an evaluation error (for example, accessing
+   * a missing field or a property of `null`). Errors deny access.
+   */
+  readonly errors: number;
+}
+
+/**
+ * Per-rule coverage report for the ruleset loaded on a {@link FirestoreController}.
+ */
+export interface SecurityRulesCoverage {
+  /** Total number of authorization decisions made against the ruleset. */
+  readonly requests: number;
+  /** Number of authorization decisions that denied access. */
+  readonly deniedRequests: number;
+  /** One entry per `allow` statement, in source order. */
+  readonly rules: readonly SecurityRuleCoverage[];
+}
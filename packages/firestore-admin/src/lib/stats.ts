@@ -0,0 +1,55 @@
+/**
+ * The dimension by which {@link FirestoreController.getStats} breaks down
+ * operation counts:
+ *
+ * - `'collectionGroup'` — the ID of the collection holding each document,
+ *   e.g. `'posts'`.
+ * - `'pathPattern'` — the path of that collection with document IDs replaced
+ *   by `{*}`, e.g. `'users/{*}/posts'`.
+ * - `'query'` — the shape of the query that read or scanned the documents,
+ *   with values elided, e.g. `'users/{*}/posts where author == ? limit ?'`.
+ *   Only the work of queries (including those of snapshot listeners) is
+ *   included.
+ */
+export type StatsGroupBy = 'collectionGroup' | 'pathPattern' | 'query';
+
+/**
+ * Selects a breakdown of the operation stats of a {@link FirestoreController}.
+ *
+ * @example
+ * const { groups } = ctrl.getStats({ groupBy: 'query' });
+ * // groups['users where active == ?'].reads
+ */
+export interface StatsOptions {
+  /** The dimension to group operation counts by. */
+  groupBy: StatsGroupBy;
+}
+
+/**
+ * Operation counts attributed to one group of a {@link StatsGroupBy}
+ * breakdown. Counts are per document; the minimum read charged for an empty
+ * result is only counted database-wide (`noopReads`).
+ */
+export interface OperationBreakdown {
+  /** Documents read by lookups, listings and queries. */
+  readonly reads: number;
+  /** Document writes (excluding deletes) that changed stored data. */
+  readonly writes: number;
+  /** Deletes of existing documents. */
+  readonly deletes: number;
+  /**
+   * Index entries walked by queries until their offset and limit were
+   * satisfied, as reported by Query Explain.
+   */
+  readonly indexEntriesScanned: number;
+  /**
+   * Documents fetched by queries to produce their results; none for
+   * COUNT-only aggregations, which are served from index entries.
+   */
+  readonly documentsScanned: number;
+  /**
+   * Document changes and removals delivered to snapshot listeners: one per
+   * document per listen target, so a write seen by ten listeners counts ten.
+   */
+  readonly listenerUpdates: number;
+}
@@ -0,0 +1,80 @@
+export {
+  calcDocSize,
+  MAX_DOC_SIZE_BYTES,
+  MAX_INDEX_ENTRIES_PER_DOC,
+} from './_internal/functions/calc-doc-size.js';
+
+/**
+ * The storage a document takes up in Firestore.
+ */
+export interface DocumentStorage {
+  /**
+   * The serialized size of the document, as computed by `calcDocSize` and
+   * limited to `MAX_DOC_SIZE_BYTES`.
+   */
+  readonly sizeBytes: number;
+  /**
+   * The number of single-field index entries the document generates under
+   * automatic indexing and the database's field overrides (exemptions).
+   * Composite index entries are not included.
+   */
+  readonly indexEntries: number;
+  /** The total size of those index entries. */
+  readonly indexBytes: number;
+}
+
+/**
+ * The {@link DocumentStorage} of a document at `path`.
+ */
+export interface DocumentStorageEntry extends DocumentStorage {
+  readonly path: string;
+}
+
+/**
+ * A document approaching a per-document Firestore limit.
+ */
+export interface StorageWarning {
+  /** The document's path. */
+  readonly path: string;
+  /** The limit approached: document size, or index entries. */
+  readonly limit: 'sizeBytes' | 'indexEntries';
+  /** The document's size or index entry count. */
+  readonly value: number;
+  /** The value of the limit. */
+  readonly max: number;
+  /** A description of the warning. */
+  readonly message: string;
+}
+
+/**
+ * Options of {@link FirestoreController.getStorage}.
+ */
+export interface StorageOptions {
+  /** How many of the largest documents to list. Defaults to `10`. */
+  top?: number;
+  /**
+   * The fraction of a limit from which a document is reported in
+   * {@link DatabaseStorage.warnings}. Defaults to `0.8`.
+   */
+  warnAt?: number;
+}
+
+/**
+ * The storage taken up by the documents of a database.
+ */
+export interface DatabaseStorage {
+  /** The number of documents. */
+  readonly documentCount: number;
+  /** The total serialized size of the documents. */
+  readonly documentBytes: number;
+  /** The total number of single-field index entries. */
+  readonly indexEntries: number;
+  /** The total size of the single-field index entries. */
+  readonly indexBytes: number;
+  /** `documentBytes + indexBytes`. */
+  readonly totalBytes: number;
+  /** The largest documents by serialized size, largest first. */
+  readonly largestDocuments: readonly DocumentStorageEntry[];
+  /** The documents approaching the document size or index entry limit. */
+  readonly warnings: readonly StorageWarning[];
+}
@@ -1,10 +1,14 @@
+import { Listeners } from './_internal/listeners.js';
+import type { Scheduler } from './scheduler.js';
+
 /**
  * A controllable time source for use within the Firestore mock.
  *
  * This utility enables deterministic and testable control over "system time" as perceived
  * by the mock Firestore implementation. By default, `SystemTime` returns the real current
  * time (`new Date()`), but developers can override this behavior to return a fixed timestamp
- * or a dynamic value with a specified offset.
+ * or a dynamic value with a specified offset. Within a {@link FirestoreMock} running on
+ * virtual time, "real" time is the time of its {@link Scheduler}.
  *
  * @example
  * const time = new SystemTime();
@@ -19,7 +23,19 @@
  */
 export class SystemTime {
   /** @internal The generator function used to return the current system time. */
-  private _generator: GenFn = system;
+  private _generator: GenFn;
+  /** @internal Milliseconds since the Unix epoch, per the underlying clock. */
+  private readonly _clock: () => number;
+  /** @internal Notified whenever the strategy changes. */
+  private readonly _changed = new Listeners<void>();
+
+  /**
+   * @param scheduler The clock to follow; real time when omitted.
+   */
+  constructor(scheduler?: Scheduler) {
+    this._clock = scheduler ? () => scheduler.now() : Date.now;
+    this._generator = () => new Date(this._clock());
+  }
 
   /**
    * Returns the current time according to the active generator strategy.
@@ -38,14 +54,14 @@ export class SystemTime {
    */
   constant(date: Date): void {
     const n = date.valueOf();
-    this._generator = () => new Date(n);
+    this.use(() => new Date(n));
   }
 
   /**
    * Resets the time source to real system time. All calls to `now()` will return `new Date()`.
    */
   system(): void {
-    this._generator = system;
+    this.use(() => new Date(this._clock()));
   }
 
   /**
@@ -102,12 +118,12 @@ export class SystemTime {
             millisecond ?? 0
           )
     ).valueOf();
-    const now = Date.now();
+    const now = this._clock();
 
-    this._generator = () => {
-      const n = Date.now();
+    this.use(() => {
+      const n = this._clock();
       return new Date(root + (n - now));
-    };
+    });
   }
 
   /**
@@ -148,18 +164,25 @@ export class SystemTime {
    * @param generator - A function that returns a `Date` object representing the current time.
    */
   custom(generator: () => Date): void {
-    this._generator = generator;
+    this.use(generator);
   }
-}
 
-/**
- * Returns the current system time (equivalent to `new Date()`).
- * Used as the default generator function for `SystemTime`.
- *
- * @returns A `Date` instance representing the current time.
- */
-function system(): Date {
-  return new Date();
+  /**
+   * Registers a callback invoked whenever the time strategy changes, i.e. when
+   * "now" may have jumped.
+   *
+   * @returns A function that deregisters the callback.
+   * @internal
+   */
+  watch(callback: () => void): () => void {
+    return this._changed.register(callback);
+  }
+
+  /** @internal Switches to `generator` and notifies watchers. */
+  private use(generator: GenFn): void {
+    this._generator = generator;
+    this._changed.next();
+  }
 }
 
 /**
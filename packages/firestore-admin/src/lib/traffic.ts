@@ -0,0 +1,138 @@
+import type { FaultRpc } from './faults.js';
+
+export {
+  parseTrafficTrace,
+  recordTraffic,
+} from './_internal/traffic/traffic-recorder.js';
+
+/** The version of the {@link TrafficTrace} format. */
+export const TRAFFIC_TRACE_VERSION = 1;
+
+/**
+ * The GAPIC RPCs captured by {@link recordTraffic}. `listen` streams depend on
+ * timing and are passed through unrecorded.
+ */
+export type TrafficRpc = Exclude<FaultRpc, 'listen'>;
+
+/**
+ * A JSON value of a trace. Protobuf messages are plain objects, 64-bit
+ * integers are kept as recorded (numbers or decimal strings), and bytes are
+ * `{ "$bytes": "<base64>" }`.
+ */
+export type TrafficValue =
+  | null
+  | boolean
+  | number
+  | string
+  | TrafficValue[]
+  | { [key: string]: TrafficValue };
+
+/**
+ * The error a call failed with.
+ */
+export interface TrafficError {
+  /** The gRPC status code, e.g. `Status.NOT_FOUND`. */
+  code: number;
+  message: string;
+}
+
+/**
+ * A recorded GAPIC call.
+ */
+export interface TrafficCall {
+  rpc: TrafficRpc;
+  /** The request, as sent by the Admin SDK. */
+  request: TrafficValue;
+  /**
+   * The responses in the order they were received: one for a unary call that
+   * succeeded, and one per message for a streaming call.
+   */
+  responses: TrafficValue[];
+  /** The error the call failed with; a stream may fail after responses. */
+  error?: TrafficError;
+}
+
+/**
+ * Admin SDK traffic recorded by {@link recordTraffic}, in a readable,
+ * JSON-serializable form; see {@link FirestoreController.replayTraffic}.
+ *
+ * @example
+ * writeFileSync('trace.json', JSON.stringify(recorder.trace(), null, 2));
+ */
+export interface TrafficTrace {
+  version: typeof TRAFFIC_TRACE_VERSION;
+  /**
+   * The database the traffic was sent to, e.g.
+   * `'projects/demo/databases/(default)'`; empty if no call was recorded.
+   */
+  database: string;
+  /** The calls in the order they were made. */
+  calls: TrafficCall[];
+}
+
+/**
+ * Records the GAPIC traffic of a Firestore instance; see {@link recordTraffic}.
+ */
+export interface TrafficRecorder {
+  /** Returns the calls recorded so far; calls in flight are included as they stand. */
+  trace(): TrafficTrace;
+  /** Stops recording; later calls pass through unrecorded. */
+  stop(): void;
+}
+
+/**
+ * Response fields that the backend assigns, and which therefore differ
+ * between runs: they are not compared by default.
+ */
+export const DEFAULT_IGNORED_TRAFFIC_FIELDS: readonly string[] = Object.freeze([
+  'readTime',
+  'createTime',
+  'updateTime',
+  'commitTime',
+  'transaction',
+  'executionDuration',
+]);
+
+/**
+ * Options for {@link FirestoreController.replayTraffic}.
+ */
+export interface TrafficReplayOptions {
+  /**
+   * Response fields left out of the comparison, at any depth except among
+   * document fields. Defaults to {@link DEFAULT_IGNORED_TRAFFIC_FIELDS}.
+   */
+  ignoreFields?: readonly string[];
+  /**
+   * Whether error messages are compared as well as status codes. Defaults to
+   * `false`; the mock's messages rarely match the emulator's word for word.
+   */
+  compareErrorMessages?: boolean;
+}
+
+/**
+ * A difference between a recorded and a replayed call.
+ */
+export interface TrafficDifference {
+  /** The index of the call in the trace. */
+  call: number;
+  rpc: TrafficRpc;
+  /**
+   * The path of the differing value, e.g.
+   * `'responses[0].document.fields.age.integerValue'` or `'error.code'`.
+   */
+  path: string;
+  /** The recorded value; `undefined` if it was absent. */
+  recorded: TrafficValue | undefined;
+  /** The replayed value; `undefined` if it was absent. */
+  replayed: TrafficValue | undefined;
+}
+
+/**
+ * The outcome of {@link FirestoreController.replayTraffic}.
+ */
+export interface TrafficReplayReport {
+  /** The differences, by call and then path; empty when the mock agrees. */
+  differences: TrafficDifference[];
+  /** The replayed traffic, e.g. to attach to an issue next to the recording. */
+  replayed: TrafficTrace;
+}
@@ -0,0 +1,35 @@
+/**
+ * A time-to-live policy: documents in `collectionGroup` expire at the time held
+ * in `field`. Documents whose field is missing or is not a timestamp never
+ * expire.
+ */
+export interface TtlPolicy {
+  /** The collection ID the policy applies to, at any depth. */
+  collectionGroup: string;
+  /** The timestamp field holding the expiry time, e.g. `'expireAt'`. */
+  field: string;
+}
+
+/**
+ * TTL configuration for a {@link FirestoreController}.
+ *
+ * Once {@link SystemTime} passes a document's expiry time, plus `lagMillis`,
+ * the document is deleted by an ordinary write: listeners see the delete and
+ * triggers fire for it, with a `system` principal.
+ *
+ * @example
+ * ctrl.setTtl({
+ *   policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+ *   lagMillis: 60_000,
+ * });
+ */
+export interface TtlOptions {
+  /** At most one policy per collection group. */
+  policies: TtlPolicy[];
+  /**
+   * How long, in milliseconds, deletion trails expiry. Production deletes
+   * expired documents within about a day; a lag lets tests cover code that
+   * must tolerate expired documents that still exist. Defaults to `0`.
+   */
+  lagMillis?: number;
+}
@@ -0,0 +1,68 @@
+/**
+ * A JSON value produced by the typed-JSON fixture encoding.
+ *
+ * Plain JSON values (`null`, booleans, strings, finite numbers, arrays and
+ * objects) stand for themselves. Firestore values that JSON cannot represent are
+ * written as single-key objects whose key is a `$` tag:
+ *
+ * | Firestore value     | Encoding                                                   |
+ * | ------------------- | ---------------------------------------------------------- |
+ * | `Timestamp`         | `{ "$timestamp": "2024-01-31T12:00:00.123456789Z" }` (RFC 3339, UTC) |
+ * | `GeoPoint`          | `{ "$geopoint": { "latitude": 51.5, "longitude": -0.12 } }` |
+ * | `DocumentReference` | `{ "$ref": "users/alice" }` (document path)                 |
+ * | bytes               | `{ "$bytes": "AAEC" }` (base64)                             |
+ * | `VectorValue`       | `{ "$vector": [0.1, 0.2] }`                                 |
+ * | `bigint`            | `{ "$bigint": "9007199254740993" }` (decimal)               |
+ * | `NaN`, `±Infinity`, `-0` | `{ "$double": "NaN" }`, `"Infinity"`, `"-Infinity"`, `"-0"` |
+ *
+ * A map that itself has exactly one key starting with `$` is escaped as
+ * `{ "$map": { ... } }`, so field names never collide with tags.
+ */
+export type TypedJSONValue =
+  | null
+  | boolean
+  | number
+  | string
+  | TypedJSONValue[]
+  | TypedJSONObject;
+
+/**
+ * A map of field names to {@link TypedJSONValue}s; the encoding of `DocumentData`.
+ */
+export interface TypedJSONObject {
+  [field: string]: TypedJSONValue;
+}
+
+/**
+ * One line of an NDJSON fixture: a single document and its typed-JSON data.
+ *
+ * @example
+ * {"path":"users/alice","data":{"name":"Alice","joined":{"$timestamp":"2024-01-31T12:00:00Z"}}}
+ */
+export interface TypedJSONDocument {
+  /** Canonical document path, e.g. `"users/alice"`. */
+  path: string;
+  /** The document's fields in typed-JSON form. */
+  data: TypedJSONObject;
+}
+
+/**
+ * Typed-JSON counterpart of `StructuralDocument`.
+ */
+export interface StructuralDocumentJSON {
+  /** Subcollections keyed by collection ID. */
+  collections?: StructuralDatabaseJSON;
+  /** Typed-JSON document fields; omitted for missing documents. */
+  data?: TypedJSONObject;
+}
+
+/**
+ * Typed-JSON counterpart of `StructuralCollection`.
+ */
+export type StructuralCollectionJSON = Record<string, StructuralDocumentJSON>;
+
+/**
+ * Typed-JSON counterpart of `StructuralDatabase`, as produced by
+ * `DatabaseDirect.toJSON()`. Safe to store with `JSON.stringify()`.
+ */
+export type StructuralDatabaseJSON = Record<string, StructuralCollectionJSON>;
@@ -1,4 +1,5 @@
 import { DatabaseStats } from './_internal/data-accessor.js';
+import { OperationBreakdown, StatsGroupBy } from './stats.js';
 
 /**
  * Statistical counters for database activity and structural state maintained by the
@@ -21,3 +22,21 @@ export interface FirestoreMockStats extends DatabaseStats {
    */
   databaseId: string;
 }
+
+/**
+ * {@link FirestoreMockStats} with the operation counts broken down by a
+ * {@link StatsGroupBy} dimension, as returned by
+ * `FirestoreController.getStats({ groupBy })`.
+ */
+export interface FirestoreMockGroupedStats extends FirestoreMockStats {
+  /**
+   * The dimension the counts are grouped by.
+   */
+  groupBy: StatsGroupBy;
+
+  /**
+   * The counts of each group, keyed by collection group, path pattern or query
+   * shape, in the order the groups were first seen.
+   */
+  groups: Readonly<Record<string, OperationBreakdown>>;
+}
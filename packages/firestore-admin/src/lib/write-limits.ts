@@ -0,0 +1,93 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * How writes over a production limit are handled:
+ * - `'throttle'` fails them with `RESOURCE_EXHAUSTED`, as production does under
+ *   contention, so that retry and back-off code (e.g. `BulkWriter`) runs.
+ * - `'warn'` applies them and reports a {@link WriteLimitWarning}.
+ */
+export type WriteLimitMode = 'throttle' | 'warn';
+
+/**
+ * The production limit a write went over:
+ * - `'document-rate'`: the sustained write rate of a single document.
+ * - `'ramp-up'`: the "500/50/5" traffic ramp of a new collection.
+ * - `'sequential-ids'`: documents created with monotonically increasing IDs.
+ * - `'sequential-field'`: an indexed timestamp field written with
+ *   monotonically increasing values, e.g. a `serverTimestamp()` field.
+ */
+export type WriteLimit =
+  | 'document-rate'
+  | 'ramp-up'
+  | 'sequential-ids'
+  | 'sequential-field';
+
+/**
+ * The "500/50/5" rule: a new collection starts at 500 operations per second,
+ * and may grow by 50% every 5 minutes.
+ */
+export interface RampUpOptions {
+  /** Writes per second allowed at first. Defaults to `500`. */
+  initialWritesPerSecond?: number;
+  /** Growth of the allowance per interval, in percent. Defaults to `50`. */
+  increasePercent?: number;
+  /** Milliseconds between increases. Defaults to `300_000` (5 minutes). */
+  intervalMillis?: number;
+}
+
+/**
+ * Production write limits for a {@link FirestoreController}, modelled on the
+ * writes made through its Firestore instances. Direct access via
+ * `ctrl.database` (e.g. seeding fixtures) and TTL deletes are not limited.
+ *
+ * Rates are measured on the commit times of writes, so tests are best run on
+ * virtual time (see {@link FirestoreMock.scheduler}).
+ *
+ * @example
+ * ctrl.setWriteLimits({ mode: 'warn', sequentialRun: 10 });
+ * await importOrders(db);
+ * expect(ctrl.writeLimitWarnings()).toEqual([]);
+ */
+export interface WriteLimitsOptions {
+  /** Defaults to `'throttle'`. */
+  mode?: WriteLimitMode;
+  /**
+   * Writes a single document sustains within any one-second window.
+   * Defaults to `1`.
+   */
+  documentWritesPerSecond?: number;
+  /**
+   * The traffic ramp of new collections; `false` to turn it off. A collection
+   * is new if it has no documents when first written under the limits; its
+   * ramp then starts, counting the writes to its documents (not to its
+   * subcollections) within any one-second window. Defaults to the rule's
+   * values.
+   */
+  rampUp?: RampUpOptions | false;
+  /**
+   * Consecutive monotonically increasing values that make a hotspot: the IDs
+   * of the documents created in a collection, or the values written to a
+   * top-level, indexed timestamp field of its documents. `false` turns hotspot
+   * detection off. Defaults to `20`; random auto-IDs practically never reach it.
+   */
+  sequentialRun?: number | false;
+  /**
+   * Called with each warning, e.g. to log it. In `'warn'` mode, a hotspot is
+   * reported once per run of sequential values.
+   */
+  onWarning?: (warning: WriteLimitWarning) => void;
+}
+
+/**
+ * A write over a production limit, reported in `'warn'` mode.
+ */
+export interface WriteLimitWarning {
+  /** The limit the write went over. */
+  readonly limit: WriteLimit;
+  /** The path of the written document. */
+  readonly path: string;
+  /** The commit time of the write. */
+  readonly time: Timestamp;
+  /** Describes the violation; the message of the error in `'throttle'` mode. */
+  readonly message: string;
+}
@@ -63,6 +63,62 @@ describe('MockGapicClient.listDocuments', () => {
     expect(ids).not.toContain('users/alice');
   });
 
+  it('counts reads for the documents of a page only', async () => {
+    for (const id of ['a', 'b', 'c', 'd']) {
+      Mock.db.setDocument(`users/${id}`, { id });
+    }
+    const before = Mock.db.stats().reads;
+
+    const [res, next] = await Mock.client.listDocuments(
+      {
+        parent: Mock.context.toGapicPath(''),
+        collectionId: 'users',
+        pageSize: 3,
+      },
+      { autoPaginate: false }
+    );
+
+    expect(res).toHaveLength(3);
+    expect(next).toMatchObject({ pageSize: 3, pageToken: expect.any(String) });
+    expect(Mock.db.stats().reads - before).toBe(3);
+  });
+
+  it('rejects a page token issued for another order', async () => {
+    Mock.db.setDocument('users/a', { rank: 1 });
+    Mock.db.setDocument('users/b', { rank: 2 });
+    const request = {
+      parent: Mock.context.toGapicPath(''),
+      collectionId: 'users',
+      pageSize: 1,
+    };
+    const [, , response] = (await Mock.client.listDocuments(request, {
+      autoPaginate: false,
+    })) as [unknown, unknown, { nextPageToken: string }];
+
+    await expect(
+      Mock.client.listDocuments(
+        { ...request, orderBy: 'rank', pageToken: response.nextPageToken },
+        { autoPaginate: false }
+      )
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+  });
+
+  it('throws INVALID_ARGUMENT for a negative pageSize or malformed orderBy', async () => {
+    const request = {
+      parent: Mock.context.toGapicPath(''),
+      collectionId: 'users',
+    };
+    await expect(
+      Mock.client.listDocuments({ ...request, pageSize: -1 })
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    await expect(
+      Mock.client.listDocuments({ ...request, orderBy: 'a,,b' })
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    await expect(
+      Mock.client.listDocuments({ ...request, orderBy: '__name__, a' })
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+  });
+
   it('throws INVALID_ARGUMENT if parent is missing', async () => {
     await expect(
       Mock.client.listDocuments({
@@ -69,9 +69,17 @@ describe('MockGapicClient close tests', () => {
       expectClosedSync(() => Mock.client.listen({}));
     });
 
+    it('partitionQuery', () => {
+      expectClosedSync(() => Mock.client.partitionQuery({}, {}));
+    });
+
     it('partitionQueryStream', () => {
       expectClosedSync(() => Mock.client.partitionQueryStream({}, {}));
     });
+
+    it('executePipeline', () => {
+      expectClosedSync(() => Mock.client.executePipeline({}, {}));
+    });
   });
 });
 
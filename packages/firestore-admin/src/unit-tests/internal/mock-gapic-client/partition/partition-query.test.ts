@@ -0,0 +1,179 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+import { Status } from 'google-gax';
+import { google } from '../test-utils/google';
+import {
+  MockGapicTestContext,
+  mockGapicTestContext,
+} from '../test-utils/mock-factories';
+
+describe('MockGapicClient.partitionQuery', () => {
+  let Mock!: MockGapicTestContext;
+
+  beforeEach(() => {
+    Mock = mockGapicTestContext({ database: 'PartitionDB' });
+    Mock.time.constant(new Date('2030-01-01T00:00:00Z'));
+  });
+
+  function seed(...ids: string[]): void {
+    for (const id of ids) {
+      Mock.db.setDocument(id, { id });
+    }
+  }
+
+  function request(
+    partitionCount: number,
+    extra?: Partial<google.firestore.v1.IPartitionQueryRequest>
+  ): google.firestore.v1.IPartitionQueryRequest {
+    return {
+      parent: Mock.context.toGapicPath(''),
+      structuredQuery: {
+        from: [{ collectionId: 'parts', allDescendants: true }],
+        orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+      },
+      partitionCount,
+      ...extra,
+    };
+  }
+
+  function pointsOf(cursors: google.firestore.v1.ICursor[]): string[] {
+    return cursors.map((c) =>
+      Mock.context.toInternalPath(c.values![0].referenceValue, 'document')
+    );
+  }
+
+  async function streamed(
+    req: google.firestore.v1.IPartitionQueryRequest
+  ): Promise<string[]> {
+    const stream = Mock.client.partitionQueryStream(req);
+    const cursors: google.firestore.v1.ICursor[] = [];
+    await new Promise((resolve, reject) => {
+      stream.on('data', (cursor: google.firestore.v1.ICursor) =>
+        cursors.push(cursor)
+      );
+      stream.on('end', resolve);
+      stream.on('error', reject);
+    });
+    return pointsOf(cursors);
+  }
+
+  it('spreads the points evenly over the collection group by name', async () => {
+    seed(
+      'parts/p0',
+      'parts/p1',
+      'parts/p2',
+      'parts/p3',
+      'shelf/s1/parts/q0',
+      'shelf/s1/parts/q1',
+      'shelf/s2/parts/r0',
+      'shelf/s2/parts/r1',
+      'other/o1'
+    );
+
+    await expect(streamed(request(3))).resolves.toEqual([
+      'parts/p2',
+      'shelf/s1/parts/q0',
+      'shelf/s2/parts/r0',
+    ]);
+  });
+
+  it('returns fewer points when there are too few documents', async () => {
+    seed('parts/a', 'parts/b', 'parts/c');
+
+    await expect(streamed(request(10))).resolves.toEqual([
+      'parts/b',
+      'parts/c',
+    ]);
+    await expect(Mock.client.partitionQuery(request(1))).resolves.toEqual([
+      [
+        {
+          values: [{ referenceValue: Mock.context.toGapicPath('parts/b') }],
+        },
+      ],
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('pages at the read time of the first page', async () => {
+    seed(
+      ...['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((id) => `parts/${id}`)
+    );
+    const [all] = await Mock.client.partitionQuery(request(7));
+
+    const [first, next, response] = await Mock.client.partitionQuery(
+      request(7, { pageSize: 3 }),
+      { autoPaginate: false }
+    );
+    expect(first).toHaveLength(3);
+    expect((response as { nextPageToken: string }).nextPageToken).not.toBe('');
+
+    Mock.time.advance(1_000);
+    seed('parts/a0', 'parts/b0', 'parts/c0');
+
+    const pages = [first];
+    let req = next as google.firestore.v1.IPartitionQueryRequest | null;
+    while (req) {
+      const [page, nextReq] = await Mock.client.partitionQuery(req, {
+        autoPaginate: false,
+      });
+      pages.push(page);
+      req = nextReq as google.firestore.v1.IPartitionQueryRequest | null;
+    }
+
+    expect(pages.map((p) => p.length)).toEqual([3, 3, 1]);
+    expect(pointsOf(pages.flat())).toEqual(pointsOf(all));
+  });
+
+  it('chooses points as of readTime', async () => {
+    seed('parts/a', 'parts/c');
+    const readTime = { seconds: Mock.time.now().getTime() / 1000, nanos: 0 };
+    Mock.time.advance(1_000);
+    seed('parts/b', 'parts/d');
+
+    await expect(streamed(request(5, { readTime }))).resolves.toEqual([
+      'parts/c',
+    ]);
+    await expect(streamed(request(5))).resolves.toEqual([
+      'parts/b',
+      'parts/c',
+      'parts/d',
+    ]);
+  });
+
+  it('rejects queries that cannot be partitioned', async () => {
+    const base = request(2);
+    const invalid: google.firestore.v1.IStructuredQuery[] = [
+      { ...base.structuredQuery, from: [{ collectionId: 'parts' }] },
+      { ...base.structuredQuery, limit: { value: 2 } },
+      {
+        ...base.structuredQuery,
+        orderBy: [{ field: { fieldPath: 'id' }, direction: 'ASCENDING' }],
+      },
+      {
+        ...base.structuredQuery,
+        where: {
+          fieldFilter: {
+            field: { fieldPath: 'id' },
+            op: 'EQUAL',
+            value: { stringValue: 'a' },
+          },
+        },
+      },
+    ];
+
+    for (const structuredQuery of invalid) {
+      await expect(
+        Mock.client.partitionQuery({ ...base, structuredQuery })
+      ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    }
+    await expect(Mock.client.partitionQuery(request(0))).rejects.toMatchObject({
+      code: Status.INVALID_ARGUMENT,
+    });
+    await expect(
+      Mock.client.partitionQuery(request(2, { pageToken: 'nope' }))
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    await expect(streamed(request(0))).rejects.toMatchObject({
+      code: Status.INVALID_ARGUMENT,
+    });
+  });
+});
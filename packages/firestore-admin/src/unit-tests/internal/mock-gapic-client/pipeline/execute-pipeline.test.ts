@@ -0,0 +1,264 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+import { DocumentData, FieldValue } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import type {
+  IExecutePipelineRequest,
+  IExecutePipelineResponse,
+  IPipelineStage,
+  IPipelineValue,
+} from '../../../../lib/_internal/mock-gapic-client/pipelines/pipeline-protos';
+import { google } from '../test-utils/google';
+import {
+  MockGapicTestContext,
+  mockGapicTestContext,
+} from '../test-utils/mock-factories';
+
+const field = (path: string): IPipelineValue => ({ fieldReferenceValue: path });
+const str = (value: string): IPipelineValue => ({ stringValue: value });
+const int = (value: number): IPipelineValue => ({ integerValue: value });
+const map = (fields: Record<string, IPipelineValue>): IPipelineValue => ({
+  mapValue: { fields },
+});
+const fn = (name: string, ...args: IPipelineValue[]): IPipelineValue => ({
+  functionValue: { name, args },
+});
+const stage = (
+  name: string,
+  args: IPipelineValue[] = [],
+  options?: Record<string, IPipelineValue>
+): IPipelineStage => ({ name, args, options });
+const collection = (path: string) =>
+  stage('collection', [{ referenceValue: `/${path}` }]);
+
+describe('MockGapicClient.executePipeline', () => {
+  let Mock!: MockGapicTestContext;
+
+  beforeEach(() => {
+    Mock = mockGapicTestContext({ database: 'PipelineDB' });
+    Mock.time.constant(new Date('2030-01-01T00:00:00Z'));
+
+    Mock.db.setDocument('books/b1', {
+      title: 'Dune',
+      genre: 'scifi',
+      pages: 412,
+      tags: ['classic', 'desert'],
+      embedding: FieldValue.vector([1, 0]),
+    });
+    Mock.db.setDocument('books/b2', {
+      title: 'Emma',
+      genre: 'romance',
+      pages: 320,
+      tags: ['classic'],
+      embedding: FieldValue.vector([0, 1]),
+    });
+    Mock.db.setDocument('books/b3', {
+      title: 'Neuromancer',
+      genre: 'scifi',
+      pages: 271,
+      tags: [],
+      embedding: FieldValue.vector([0.8, 0.6]),
+    });
+    Mock.db.setDocument('shelves/s1/books/b4', {
+      title: 'Solaris',
+      pages: 204,
+    });
+  });
+
+  function execute(
+    stages: IPipelineStage[],
+    extra?: Partial<IExecutePipelineRequest>
+  ): Promise<IExecutePipelineResponse> {
+    const stream = Mock.client.executePipeline({
+      database: `projects/${Mock.context.projectId}/databases/${Mock.context.databaseId}`,
+      structuredPipeline: { pipeline: { stages } },
+      ...extra,
+    });
+    const responses: IExecutePipelineResponse[] = [];
+    return new Promise((resolve, reject) => {
+      stream.on('data', (response: IExecutePipelineResponse) =>
+        responses.push(response)
+      );
+      stream.on('end', () => resolve(responses[0]));
+      stream.on('error', reject);
+    });
+  }
+
+  async function results(
+    stages: IPipelineStage[],
+    extra?: Partial<IExecutePipelineRequest>
+  ): Promise<DocumentData[]> {
+    const response = await execute(stages, extra);
+    return (response.results ?? []).map(
+      (doc: google.firestore.v1.IDocument) =>
+        Mock.context.serializer.decodeValue({
+          mapValue: { fields: doc.fields ?? {} },
+        }) as DocumentData
+    );
+  }
+
+  it('filters, sorts and projects documents', async () => {
+    const response = await execute([
+      collection('books'),
+      stage('where', [fn('greater_than', field('pages'), int(300))]),
+      stage('sort', [
+        map({ direction: str('descending'), expression: field('pages') }),
+      ]),
+      stage('select', [
+        map({
+          title: field('title'),
+          loud: fn('to_upper', field('title')),
+        }),
+      ]),
+    ]);
+
+    expect(
+      response.results!.map((doc: google.firestore.v1.IDocument) => doc.name)
+    ).toEqual([
+      Mock.context.toGapicPath('books/b1'),
+      Mock.context.toGapicPath('books/b2'),
+    ]);
+    await expect(
+      results([
+        collection('books'),
+        stage('where', [fn('greater_than', field('pages'), int(300))]),
+        stage('sort', [
+          map({ direction: str('ascending'), expression: field('title') }),
+        ]),
+        stage('select', [map({ loud: fn('to_upper', field('title')) })]),
+        stage('limit', [int(1)]),
+      ])
+    ).resolves.toEqual([{ loud: 'DUNE' }]);
+  });
+
+  it('aggregates with and without groups', async () => {
+    await expect(
+      results([
+        collection('books'),
+        stage('aggregate', [
+          map({
+            books: fn('count'),
+            pages: fn('sum', field('pages')),
+            longest: fn('maximum', field('pages')),
+          }),
+          map({ genre: field('genre') }),
+        ]),
+        stage('sort', [
+          map({ direction: str('ascending'), expression: field('genre') }),
+        ]),
+      ])
+    ).resolves.toEqual([
+      { genre: 'romance', books: 1, pages: 320, longest: 320 },
+      { genre: 'scifi', books: 2, pages: 683, longest: 412 },
+    ]);
+
+    await expect(
+      results([
+        collection('none'),
+        stage('aggregate', [
+          map({ n: fn('count'), avg: fn('average', field('pages')) }),
+        ]),
+      ])
+    ).resolves.toEqual([{ n: 0, avg: null }]);
+  });
+
+  it('reshapes rows with distinct, unnest, add_fields and remove_fields', async () => {
+    await expect(
+      results([
+        stage('collection_group', [{ referenceValue: '' }, str('books')]),
+        stage('distinct', [map({ genre: field('genre') })]),
+        stage('sort', [
+          map({ direction: str('ascending'), expression: field('genre') }),
+        ]),
+      ])
+    ).resolves.toEqual([
+      { genre: null },
+      { genre: 'romance' },
+      { genre: 'scifi' },
+    ]);
+
+    await expect(
+      results([
+        collection('books'),
+        stage('unnest', [field('tags'), field('tag')], {
+          index_field: field('i'),
+        }),
+        stage('add_fields', [
+          map({
+            label: fn('string_concat', field('title'), str(':'), field('tag')),
+          }),
+        ]),
+        stage('remove_fields', [
+          field('tags'),
+          field('embedding'),
+          field('genre'),
+          field('pages'),
+        ]),
+      ])
+    ).resolves.toEqual([
+      { title: 'Dune', tag: 'classic', i: 0, label: 'Dune:classic' },
+      { title: 'Dune', tag: 'desert', i: 1, label: 'Dune:desert' },
+      { title: 'Emma', tag: 'classic', i: 0, label: 'Emma:classic' },
+    ]);
+  });
+
+  it('finds nearest neighbours', async () => {
+    const query = Mock.context.serializer.encodeValue(
+      FieldValue.vector([1, 0])
+    ) as IPipelineValue;
+
+    const rows = await results([
+      collection('books'),
+      stage('find_nearest', [field('embedding'), query, str('euclidean')], {
+        limit: int(2),
+        distance_field: field('distance'),
+      }),
+      stage('select', [map({ title: field('title'), d: field('distance') })]),
+    ]);
+
+    expect(rows.map((r) => r.title)).toEqual(['Dune', 'Neuromancer']);
+    expect(rows[0].d).toBe(0);
+    expect(rows[1].d).toBeCloseTo(Math.sqrt(0.04 + 0.36));
+  });
+
+  it('reads as of readTime and within transactions', async () => {
+    const readTime: google.protobuf.ITimestamp = {
+      seconds: Mock.time.now().getTime() / 1000,
+      nanos: 0,
+    };
+    Mock.time.advance(1_000);
+    Mock.db.setDocument('books/b5', { title: 'Ubik', pages: 202 });
+
+    const count = [
+      collection('books'),
+      stage('aggregate', [map({ n: fn('count') })]),
+    ];
+    await expect(results(count, { readTime })).resolves.toEqual([{ n: 3 }]);
+    await expect(results(count)).resolves.toEqual([{ n: 4 }]);
+
+    const response = await execute(count, {
+      newTransaction: { readOnly: {} },
+    });
+    expect(response.transaction).toBeInstanceOf(Uint8Array);
+  });
+
+  it('rejects malformed and unsupported pipelines', async () => {
+    await expect(
+      execute([stage('where', [fn('equal', field('a'), int(1))])])
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    await expect(
+      execute([collection('books'), stage('sample', [int(1)])])
+    ).rejects.toMatchObject({ code: Status.UNIMPLEMENTED });
+    await expect(
+      execute([
+        collection('none'),
+        stage('where', [fn('regex_match', field('title'), str('^D'))]),
+      ])
+    ).rejects.toMatchObject({ code: Status.UNIMPLEMENTED });
+    await expect(
+      execute([collection('books'), stage('where', [fn('count')])])
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+    await expect(
+      execute([collection('books'), stage('limit', [str('ten')])])
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+  });
+});
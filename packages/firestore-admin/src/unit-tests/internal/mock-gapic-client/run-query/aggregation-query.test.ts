@@ -0,0 +1,146 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { google } from '../test-utils/google';
+import {
+  MockGapicTestContext,
+  mockGapicTestContext,
+} from '../test-utils/mock-factories';
+
+describe('MockGapicClient.runAggregationQuery', () => {
+  let Mock!: MockGapicTestContext;
+
+  beforeEach(() => {
+    Mock = mockGapicTestContext({ database: 'AggregationDB' });
+  });
+
+  function seed(values: unknown[]): void {
+    values.forEach((n, i) => {
+      Mock.db.setDocument(`nums/n${String(i).padStart(4, '0')}`, { n, i });
+    });
+  }
+
+  function aggregate(
+    aggregations: google.firestore.v1.StructuredAggregationQuery.IAggregation[],
+    query?: Partial<google.firestore.v1.IStructuredQuery>
+  ): Promise<Record<string, google.firestore.v1.IValue>> {
+    const stream = Mock.client.runAggregationQuery({
+      parent: Mock.context.toGapicPath(''),
+      structuredAggregationQuery: {
+        structuredQuery: { from: [{ collectionId: 'nums' }], ...query },
+        aggregations,
+      },
+    });
+    let fields: Record<string, google.firestore.v1.IValue> = {};
+    return new Promise((resolve, reject) => {
+      stream.on(
+        'data',
+        (response: google.firestore.v1.IRunAggregationQueryResponse) => {
+          fields = response.result?.aggregateFields ?? fields;
+        }
+      );
+      stream.on('end', () => resolve(fields));
+      stream.on('error', reject);
+    });
+  }
+
+  const sum = (alias: string) => ({
+    alias,
+    sum: { field: { fieldPath: 'n' } },
+  });
+  const avg = (alias: string) => ({
+    alias,
+    avg: { field: { fieldPath: 'n' } },
+  });
+
+  it('caps COUNT at upTo', async () => {
+    seed([1, 2, 3, 4, 5]);
+
+    await expect(
+      aggregate([
+        { alias: 'all', count: {} },
+        { alias: 'capped', count: { upTo: { value: 3 } } },
+        { alias: 'loose', count: { upTo: { value: 10 } } },
+      ])
+    ).resolves.toEqual({
+      all: { integerValue: '5' },
+      capped: { integerValue: '3' },
+      loose: { integerValue: '5' },
+    });
+    await expect(
+      aggregate([{ alias: 'c', count: { upTo: { value: 0 } } }])
+    ).rejects.toMatchObject({ code: Status.INVALID_ARGUMENT });
+  });
+
+  it('sums integers exactly and overflows to double past 64 bits', async () => {
+    seed([Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]);
+    await expect(aggregate([sum('s')])).resolves.toEqual({
+      s: { integerValue: '18014398509481982' },
+    });
+
+    seed(new Array(1025).fill(Number.MAX_SAFE_INTEGER));
+    await expect(aggregate([sum('s')])).resolves.toEqual({
+      s: { doubleValue: 1025 * Number.MAX_SAFE_INTEGER },
+    });
+  });
+
+  it('returns a double when any input is a double', async () => {
+    seed([1, 2.5, 'x', null, true]);
+
+    await expect(aggregate([sum('s'), avg('a')])).resolves.toEqual({
+      s: { doubleValue: 3.5 },
+      a: { doubleValue: 1.75 },
+    });
+  });
+
+  it('propagates NaN and infinities', async () => {
+    seed([1, Infinity]);
+    await expect(aggregate([sum('s'), avg('a')])).resolves.toEqual({
+      s: { doubleValue: Infinity },
+      a: { doubleValue: Infinity },
+    });
+
+    seed([1, Infinity, -Infinity]);
+    const opposed = await aggregate([sum('s'), avg('a')]);
+    expect(opposed['s'].doubleValue).toBeNaN();
+    expect(opposed['a'].doubleValue).toBeNaN();
+
+    seed([1, NaN]);
+    const nan = await aggregate([sum('s')], { limit: { value: 2 } });
+    expect(nan['s'].doubleValue).toBeNaN();
+  });
+
+  it('aggregates the results of cursors, offset, limit and findNearest', async () => {
+    seed([10, 20, 30, 40, 50]);
+    const byI: google.firestore.v1.StructuredQuery.IOrder[] = [
+      { field: { fieldPath: 'i' }, direction: 'ASCENDING' },
+    ];
+
+    await expect(
+      aggregate([sum('s'), { alias: 'c', count: {} }], {
+        orderBy: byI,
+        startAt: { values: [{ integerValue: 1 }], before: false },
+        offset: 1,
+        limit: { value: 2 },
+      })
+    ).resolves.toEqual({
+      s: { integerValue: '90' },
+      c: { integerValue: '2' },
+    });
+
+    Mock.db.setDocument('nums/v1', { n: 1, e: FieldValue.vector([1, 0]) });
+    Mock.db.setDocument('nums/v2', { n: 2, e: FieldValue.vector([0, 1]) });
+    Mock.db.setDocument('nums/v3', { n: 4, e: FieldValue.vector([1, 1]) });
+    await expect(
+      aggregate([sum('s')], {
+        findNearest: {
+          vectorField: { fieldPath: 'e' },
+          queryVector: Mock.context.serializer.encodeValue(
+            FieldValue.vector([1, 0])
+          ),
+          distanceMeasure: 'EUCLIDEAN',
+          limit: { value: 2 },
+        },
+      })
+    ).resolves.toEqual({ s: { integerValue: '5' } });
+  });
+});
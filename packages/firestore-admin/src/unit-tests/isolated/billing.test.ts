@@ -0,0 +1,145 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirestoreController, FirestoreMock } from '../..';
+
+describe('Billing and cost budgets', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+    ctrl.database.fromStructuralDatabase({
+      users: {
+        ada: { data: { name: 'Ada', active: true } },
+        bob: { data: { name: 'Bob', active: true } },
+        cy: { data: { name: 'Cy', active: false } },
+      },
+    });
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  it('bills reads as production does', async () => {
+    expect(ctrl.getCost()).toMatchObject({ reads: 0, writes: 0, deletes: 0 });
+
+    await db.doc('users/zed').get(); // missing: 1
+    await db.getAll(db.doc('users/ada'), db.doc('users/bob')); // 2
+    await db.collection('users').orderBy('name').limit(2).get(); // 2
+    await db.collection('users').where('name', '==', 'Nobody').get(); // empty: 1
+    await db.collection('users').count().get(); // 3 entries: 1
+    await db.collection('users').listDocuments(); // 3
+
+    expect(ctrl.getCost()).toMatchObject({ reads: 10, listenerReads: 0 });
+  });
+
+  it('bills each write and delete, but not direct access', async () => {
+    const batch = db.batch();
+    batch.set(db.doc('users/dee'), { name: 'Dee' });
+    batch.update(db.doc('users/ada'), { active: false });
+    batch.delete(db.doc('users/bob'));
+    batch.delete(db.doc('users/nobody'));
+    await batch.commit();
+
+    ctrl.database.fromStructuralDatabase({ teams: { t1: { data: {} } } });
+    ctrl.database.toMap();
+
+    expect(ctrl.getCost()).toMatchObject({ reads: 0, writes: 2, deletes: 2 });
+  });
+
+  it('bills listener reads for initial results and changes', async () => {
+    const sizes: number[] = [];
+    let notify = (): void => undefined;
+    const unsub = db
+      .collection('users')
+      .where('active', '==', true)
+      .onSnapshot((snap) => {
+        sizes.push(snap.size);
+        notify();
+      });
+    const snapshots = (count: number) =>
+      new Promise<void>((resolve) => {
+        notify = () => sizes.length >= count && resolve();
+        notify();
+      });
+
+    await snapshots(1);
+    expect(ctrl.getCost().listenerReads).toBe(2);
+
+    await db.doc('users/dee').set({ name: 'Dee', active: true }); // added: 1
+    await snapshots(2);
+    await db.doc('users/ada').update({ active: false }); // removed by update: 1
+    await snapshots(3);
+    await db.doc('users/bob').delete(); // removed by delete: free
+    await snapshots(4);
+    unsub();
+
+    expect(sizes).toEqual([2, 3, 2, 1]);
+
+    const cost = ctrl.getCost();
+    expect(cost.listenerReads).toBe(4);
+    expect(cost.reads).toBe(4);
+  });
+
+  it('measures stored bytes and prices usage', async () => {
+    ctrl.reset();
+    ctrl.database.fromStructuralDatabase({
+      users: { ada: { data: { name: 'Ada' } } },
+    });
+    await db.doc('users/ada').get();
+
+    // Document: name 26 + 32 + field 9; 2 index entries of 26 + 6 + 5 + 4 + 32
+    const cost = ctrl.getCost({ pricing: { readsPer100k: 100_000 } });
+    expect(cost).toMatchObject({
+      storedBytes: 67 + 2 * 73,
+      indexEntries: 2,
+      operationsCost: 1,
+    });
+    expect(cost.storageCostPerMonth).toBeCloseTo((213 / 1024 ** 3) * 0.18);
+  });
+
+  it('is cleared by reset and rolled back by restore', async () => {
+    await db.doc('users/ada').get();
+    const snapshot = ctrl.snapshot();
+
+    await db.doc('users/ada').set({ name: 'Ada' });
+    expect(ctrl.getCost()).toMatchObject({ reads: 1, writes: 1 });
+
+    ctrl.restore(snapshot);
+    expect(ctrl.getCost()).toMatchObject({ reads: 1, writes: 0 });
+
+    ctrl.reset();
+    expect(ctrl.getCost()).toMatchObject({ reads: 0, storedBytes: 0 });
+  });
+
+  it('fails assertions, not requests, once a budget is exceeded', async () => {
+    await db.collection('users').get();
+    const budget = ctrl.budget({ reads: 2 });
+
+    await db.getAll(db.doc('users/ada'), db.doc('users/bob'));
+    expect(() => budget.assert()).not.toThrow();
+    expect(budget.spent().reads).toBe(2);
+
+    await db.doc('users/cy').get();
+    expect(budget.exceeded()).toEqual(['reads: 3 > 2']);
+    expect(() => budget.assert()).toThrow(
+      'Firestore cost budget exceeded (reads: 3 > 2).'
+    );
+    await expect(db.doc('users/dee').set({})).resolves.toBeDefined();
+
+    budget.dispose();
+    expect(() => budget.assert()).toThrow();
+  });
+
+  it('rejects malformed limits', () => {
+    expect(() => ctrl.budget({ reads: -1 })).toThrow(
+      'Cost budget limit "reads" must be a non-negative number.'
+    );
+    expect(() => ctrl.budget({ bytes: 1 } as never)).toThrow(
+      'Unknown cost budget limit "bytes".'
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { ChangeRecord, FirestoreController, FirestoreMock } from '../..';
+
+describe('Change journal', () => {
+  const env = new FirestoreMock();
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  it('records the net change per document and commit, in order', async () => {
+    ctrl.database.setDocument('users/ada', { orders: 0 });
+    const since = ctrl.version();
+
+    const batch = db.batch();
+    batch.set(db.doc('orders/o1'), { total: 5 });
+    batch.update(db.doc('users/ada'), { orders: 1 });
+    await batch.commit();
+    await db.doc('orders/o1').delete();
+
+    const records = ctrl.database.changes({ sinceVersion: since });
+    expect(records).toMatchObject([
+      {
+        kind: 'create',
+        path: 'orders/o1',
+        version: since + 1,
+        before: undefined,
+        after: { total: 5 },
+      },
+      {
+        kind: 'update',
+        path: 'users/ada',
+        version: since + 1,
+        before: { orders: 0 },
+        after: { orders: 1 },
+      },
+      {
+        kind: 'delete',
+        path: 'orders/o1',
+        version: since + 2,
+        before: { total: 5 },
+        after: undefined,
+      },
+    ]);
+    expect(records[0].serverTime.isEqual(records[1].serverTime)).toBe(true);
+    expect(records[2].epoch).toBe(ctrl.epoch());
+    expect(Object.isFrozen(records[0])).toBe(true);
+  });
+
+  it('coalesces writes to a document and skips writes that change nothing', async () => {
+    ctrl.database.setDocument('users/ada', { name: 'Ada' });
+    const since = ctrl.version();
+
+    const batch = db.batch();
+    batch.set(db.doc('users/bob'), { name: 'Bob' });
+    batch.update(db.doc('users/bob'), { age: 40 });
+    batch.set(db.doc('users/tmp'), { name: 'Tmp' });
+    batch.delete(db.doc('users/tmp'));
+    await batch.commit();
+    await db.doc('users/ada').set({ name: 'Ada' });
+    await db.doc('users/missing').delete();
+
+    expect(ctrl.database.changes({ sinceVersion: since })).toEqual([
+      expect.objectContaining({
+        kind: 'create',
+        path: 'users/bob',
+        after: { name: 'Bob', age: 40 },
+      }),
+    ]);
+  });
+
+  it('filters by path pattern', async () => {
+    await db.doc('users/ada').set({ name: 'Ada' });
+    await db.doc('users/ada/posts/p1').set({ title: 'Hello' });
+    await db.doc('orders/o1').set({ total: 5 });
+
+    const paths = (records: ChangeRecord[]) => records.map((r) => r.path);
+    expect(
+      paths(ctrl.database.changes({ pathPattern: 'users/{uid}' }))
+    ).toEqual(['users/ada']);
+    expect(
+      paths(ctrl.database.changes({ pathPattern: 'users/ada/posts/{id}' }))
+    ).toEqual(['users/ada/posts/p1']);
+  });
+
+  it('streams changes, replaying from a version on request', async () => {
+    await db.doc('users/ada').set({ name: 'Ada' });
+    const since = ctrl.version();
+    await db.doc('users/bob').set({ name: 'Bob' });
+
+    const live: string[] = [];
+    const replayed: string[] = [];
+    const stopLive = ctrl.database.watchChanges((r) => live.push(r.path), {
+      pathPattern: 'users/{uid}',
+    });
+    const stopReplay = ctrl.database.watchChanges(
+      (r) => replayed.push(r.path),
+      { sinceVersion: since }
+    );
+    expect(replayed).toEqual(['users/bob']);
+
+    await db.doc('users/cy').set({ name: 'Cy' });
+    await db.doc('orders/o1').set({ total: 5 });
+    ctrl.reset();
+    await db.doc('users/dee').set({ name: 'Dee' });
+    stopLive();
+    stopReplay();
+    await db.doc('users/eve').set({ name: 'Eve' });
+
+    expect(live).toEqual(['users/cy', 'users/dee']);
+    expect(replayed).toEqual([
+      'users/bob',
+      'users/cy',
+      'orders/o1',
+      'users/dee',
+    ]);
+    expect(ctrl.database.changes().map((r) => r.path)).toEqual([
+      'users/dee',
+      'users/eve',
+    ]);
+  });
+
+  it('drops changes reverted by a restore', async () => {
+    await db.doc('users/ada').set({ name: 'Ada' });
+    const snapshot = ctrl.snapshot();
+    await db.doc('users/bob').set({ name: 'Bob' });
+
+    ctrl.restore(snapshot);
+    await db.doc('users/cy').set({ name: 'Cy' });
+
+    const records = ctrl.database.changes();
+    expect(records.map((r) => r.path)).toEqual(['users/ada', 'users/cy']);
+    expect(records[1].version).toBe(snapshot.version + 1);
+    expect(records[1].epoch).toBe(records[0].epoch + 1);
+  });
+
+  it('keeps only the latest records within the retention', async () => {
+    ctrl.setJournalRetention({ maxRecords: 2 });
+    const streamed: string[] = [];
+    ctrl.database.watchChanges((r) => streamed.push(r.path));
+    for (const id of ['a', 'b', 'c']) {
+      await db.doc(`users/${id}`).set({ id });
+    }
+
+    expect(ctrl.database.changes().map((r) => r.path)).toEqual([
+      'users/b',
+      'users/c',
+    ]);
+    expect(streamed).toEqual(['users/a', 'users/b', 'users/c']);
+
+    ctrl.setJournalRetention({ maxRecords: 0 });
+    expect(ctrl.database.changes()).toEqual([]);
+
+    ctrl.reset();
+    await db.doc('users/d').set({ id: 'd' });
+    expect(ctrl.database.changes()).toEqual([]);
+
+    ctrl.clearJournalRetention();
+    await db.doc('users/e').set({ id: 'e' });
+    expect(ctrl.database.changes().map((r) => r.path)).toEqual(['users/e']);
+  });
+
+  it('validates options', () => {
+    expect(() => ctrl.database.changes({ sinceVersion: -1 })).toThrow(
+      'Invalid change journal options: sinceVersion must be a non-negative number.'
+    );
+    expect(() =>
+      ctrl.database.watchChanges(() => 0, { pathPattern: '' })
+    ).toThrow(
+      'Invalid change journal options: pathPattern must be a non-empty string.'
+    );
+    expect(() => ctrl.setJournalRetention({ maxRecords: 1.5 })).toThrow(
+      'Invalid journal retention options: maxRecords must be a non-negative integer or Infinity.'
+    );
+  });
+});
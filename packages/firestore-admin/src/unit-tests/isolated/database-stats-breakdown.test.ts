@@ -0,0 +1,158 @@
+import { Firestore } from 'firebase-admin/firestore';
+import {
+  FirestoreController,
+  FirestoreMock,
+  FirestoreMockGroupedStats,
+} from '../..';
+
+describe('DatabaseStats > breakdown', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+    ctrl.database.fromStructuralDatabase({
+      users: {
+        ada: {
+          data: { name: 'Ada' },
+          collections: {
+            posts: {
+              p1: { data: { tag: 'a', n: 1 } },
+              p2: { data: { tag: 'b', n: 2 } },
+            },
+          },
+        },
+        grace: {
+          data: { name: 'Grace' },
+          collections: {
+            posts: { p3: { data: { tag: 'a', n: 3 } } },
+          },
+        },
+      },
+      teams: {
+        t1: {
+          data: { name: 'Blue' },
+          collections: { posts: { p4: { data: { tag: 'a', n: 4 } } } },
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function sleep(ms: number) {
+    return new Promise<void>((r) => setTimeout(r, ms));
+  }
+
+  function noop(): void {
+    // Listeners only need to be attached
+  }
+
+  it('groups document operations by collection group and path pattern', async () => {
+    await db.doc('users/ada').get();
+    await db.getAll(db.doc('users/ada/posts/p1'), db.doc('teams/t1/posts/p4'));
+    await db.doc('users/grace/posts/p5').set({ tag: 'c' });
+    await db.doc('teams/t1/posts/p4').delete();
+
+    expect(ctrl.getStats({ groupBy: 'collectionGroup' })).toMatchObject({
+      groupBy: 'collectionGroup',
+      groups: {
+        users: { reads: 1, writes: 2, deletes: 0 },
+        posts: { reads: 2, writes: 5, deletes: 1 },
+        teams: { reads: 0, writes: 1, deletes: 0 },
+      },
+    });
+    expect(ctrl.getStats({ groupBy: 'pathPattern' }).groups).toMatchObject({
+      users: { reads: 1 },
+      'users/{*}/posts': { reads: 1, writes: 4, deletes: 0 },
+      'teams/{*}/posts': { reads: 1, writes: 1, deletes: 1 },
+    });
+  });
+
+  it('groups query work by query shape', async () => {
+    const byTag = (tag: string) =>
+      db.collectionGroup('posts').where('tag', '==', tag).orderBy('n');
+
+    await byTag('a').limit(2).get();
+    await byTag('b').limit(2).get();
+    await db.collection('users/ada/posts').count().get();
+    await db.collection('users/grace/posts').count().get();
+
+    const { groups } = ctrl.getStats({ groupBy: 'query' });
+    expect(Object.keys(groups)).toEqual([
+      'collectionGroup posts where tag == ? order by n asc limit ?',
+      'count() of users/{*}/posts',
+    ]);
+    expect(
+      groups['collectionGroup posts where tag == ? order by n asc limit ?']
+    ).toEqual({
+      reads: 4,
+      writes: 0,
+      deletes: 0,
+      indexEntriesScanned: 3,
+      documentsScanned: 3,
+      listenerUpdates: 0,
+    });
+    expect(groups['count() of users/{*}/posts']).toMatchObject({
+      indexEntriesScanned: 3,
+      documentsScanned: 0,
+    });
+  });
+
+  it('counts updates delivered to each snapshot listener', async () => {
+    const query = db.collection('users/ada/posts').where('tag', '==', 'a');
+    const unsubs = [query.onSnapshot(noop), query.onSnapshot(noop)];
+    await sleep(20);
+
+    // One initial document and one new document, each delivered to both listeners
+    await db.doc('users/ada/posts/p9').set({ tag: 'a' });
+    await sleep(20);
+    unsubs.forEach((unsub) => unsub());
+
+    const { groups } = ctrl.getStats({ groupBy: 'query' });
+    expect(groups['users/{*}/posts where tag == ?'].listenerUpdates).toBe(4);
+    expect(
+      ctrl.getStats({ groupBy: 'pathPattern' }).groups['users/{*}/posts']
+        .listenerUpdates
+    ).toBe(4);
+  });
+
+  it('is cleared by reset and rolled back by restore', async () => {
+    await db.doc('users/ada').get();
+    const snapshot = ctrl.snapshot();
+    const before = ctrl.getStats({ groupBy: 'pathPattern' }).groups;
+
+    await db.collection('teams').get();
+    expect(ctrl.getStats({ groupBy: 'pathPattern' }).groups).not.toEqual(
+      before
+    );
+
+    ctrl.restore(snapshot);
+    expect(ctrl.getStats({ groupBy: 'pathPattern' }).groups).toEqual(before);
+
+    ctrl.reset();
+    expect(ctrl.getStats({ groupBy: 'collectionGroup' }).groups).toEqual({});
+  });
+
+  it('streams the breakdown to stats watchers', async () => {
+    const seen: FirestoreMockGroupedStats[] = [];
+    const unsub = ctrl.watchStats(
+      (stats: FirestoreMockGroupedStats) => seen.push(stats),
+      { groupBy: 'collectionGroup' }
+    );
+    expect(seen).toHaveLength(1);
+
+    await db.doc('users/ada').get();
+    await Promise.resolve();
+    unsub();
+
+    expect(seen.length).toBeGreaterThan(1);
+    expect(seen[seen.length - 1].groups['users'].reads).toBe(1);
+    expect(seen[seen.length - 1].reads).toBe(1);
+  });
+});
@@ -0,0 +1,212 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { FaultRule, FirestoreController, FirestoreMock } from '../..';
+
+describe('FirestoreController fault injection', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+    ctrl.database.batchSet(
+      { path: 'users/ada', data: { n: 1 } },
+      { path: 'users/bob', data: { n: 2 } },
+      { path: 'users/cy', data: { n: 3 } }
+    );
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function sleep(ms: number) {
+    return new Promise<void>((r) => setTimeout(r, ms));
+  }
+
+  it('fails a call with a status error before it is applied', async () => {
+    ctrl.setFaults({
+      rules: [
+        {
+          name: 'flaky commit',
+          rpc: 'commit',
+          nth: 1,
+          effect: { type: 'error', code: Status.UNAVAILABLE },
+        },
+      ],
+    });
+
+    await expect(db.doc('users/dee').set({ n: 4 })).rejects.toMatchObject({
+      code: Status.UNAVAILABLE,
+    });
+    expect(ctrl.database.getDocument('users/dee').exists).toBe(false);
+
+    await db.doc('users/dee').set({ n: 4 });
+    expect(ctrl.database.getDocument('users/dee').exists).toBe(true);
+    expect(ctrl.firedFaults()).toEqual([
+      {
+        rule: 0,
+        name: 'flaky commit',
+        rpc: 'commit',
+        call: 1,
+        paths: ['users/dee'],
+        effect: 'error',
+        code: Status.UNAVAILABLE,
+      },
+    ]);
+  });
+
+  it('applies a call whose response is dropped', async () => {
+    ctrl.setFaults({
+      rules: [{ rpc: 'commit', times: 1, effect: { type: 'drop' } }],
+    });
+
+    await expect(db.doc('users/dee').set({ n: 4 })).rejects.toMatchObject({
+      code: Status.DEADLINE_EXCEEDED,
+    });
+    expect(ctrl.database.getDocument('users/dee').data).toEqual({ n: 4 });
+  });
+
+  it('matches document path patterns and transaction state', async () => {
+    ctrl.setFaults({
+      rules: [
+        {
+          rpc: 'commit',
+          path: 'orders/{id}',
+          transaction: true,
+          times: 1,
+          effect: { type: 'error', code: Status.ABORTED },
+        },
+      ],
+    });
+
+    await db.doc('orders/o1').set({ total: 1 });
+    let attempts = 0;
+    await db.runTransaction(async (tx) => {
+      attempts++;
+      const snap = await tx.get(db.doc('users/ada'));
+      tx.set(db.doc('orders/o2'), { total: snap.get('n') });
+    });
+
+    expect(attempts).toBe(2);
+    expect(ctrl.database.getDocument('orders/o2').data).toEqual({ total: 1 });
+    expect(ctrl.firedFaults()).toMatchObject([
+      { rpc: 'commit', paths: ['orders/o2'], code: Status.ABORTED },
+    ]);
+  });
+
+  it('fails streams mid-way', async () => {
+    ctrl.setFaults({
+      rules: [
+        {
+          rpc: 'runQuery',
+          effect: {
+            type: 'stream-error',
+            code: Status.PERMISSION_DENIED,
+            afterResponses: 1,
+          },
+        },
+      ],
+    });
+
+    await expect(db.collection('users').get()).rejects.toMatchObject({
+      code: Status.PERMISSION_DENIED,
+    });
+    expect(ctrl.firedFaults()).toMatchObject([
+      { rpc: 'runQuery', paths: ['users'], effect: 'stream-error' },
+    ]);
+  });
+
+  it('lets the SDK recover from retryable stream failures', async () => {
+    ctrl.setFaults({
+      rules: [
+        {
+          rpc: 'runQuery',
+          times: 1,
+          effect: {
+            type: 'stream-error',
+            code: Status.UNAVAILABLE,
+            afterResponses: 1,
+          },
+        },
+        {
+          rpc: 'listen',
+          times: 1,
+          effect: {
+            type: 'stream-error',
+            code: Status.UNAVAILABLE,
+            afterResponses: 2,
+          },
+        },
+      ],
+    });
+
+    const snap = await db.collection('users').get();
+    expect(snap.docs.map((d) => d.id)).toEqual(['ada', 'bob', 'cy']);
+
+    const seen: string[][] = [];
+    const unsubscribe = db
+      .collection('users')
+      .onSnapshot((s) => seen.push(s.docs.map((d) => d.id)));
+    await sleep(50);
+    await db.doc('users/dee').set({ n: 4 });
+    await sleep(1500);
+    unsubscribe();
+
+    expect(seen[seen.length - 1]).toEqual(['ada', 'bob', 'cy', 'dee']);
+    expect(ctrl.firedFaults().map((f) => f.rpc)).toEqual([
+      'runQuery',
+      'listen',
+    ]);
+  });
+
+  it('draws probabilistic faults deterministically from the seed', async () => {
+    const rules: FaultRule[] = [
+      {
+        rpc: 'batchWrite',
+        probability: 0.5,
+        effect: { type: 'error', code: Status.RESOURCE_EXHAUSTED },
+      },
+    ];
+    const run = async (seed: number) => {
+      ctrl.setFaults({ seed, rules });
+      for (let i = 0; i < 20; i++) {
+        const writer = db.bulkWriter();
+        writer.onWriteError(() => false);
+        writer.set(db.doc(`bulk/d${i}`), { i }).catch(() => undefined);
+        await writer.close();
+      }
+      return ctrl.firedFaults().map((f) => f.call);
+    };
+
+    const first = await run(42);
+    const again = await run(42);
+    const other = await run(7);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(first.length).toBeLessThan(20);
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('validates rules and can be cleared', async () => {
+    expect(() =>
+      ctrl.setFaults({
+        rules: [{ nth: 0, effect: { type: 'error', code: Status.ABORTED } }],
+      })
+    ).toThrow('Invalid fault rule 0: nth must be a positive integer.');
+
+    ctrl.setFaults({
+      rules: [{ effect: { type: 'error', code: Status.PERMISSION_DENIED } }],
+    });
+    await expect(db.doc('users/ada').get()).rejects.toMatchObject({
+      code: Status.PERMISSION_DENIED,
+    });
+
+    ctrl.clearFaults();
+    expect((await db.doc('users/ada').get()).get('n')).toBe(1);
+    expect(ctrl.firedFaults()).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  DocumentData,
+  FieldValue,
+  Firestore,
+  GeoPoint,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FirestoreController, FirestoreMock } from '../..';
+
+describe('DatabaseDirect Firestore export', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+  let dir!: string;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+    dir = mkdtempSync(join(tmpdir(), 'firestore-export-'));
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function roundTrip(): FirestoreController {
+    ctrl.database.toExport(dir);
+    const target = env.createDatabase({ databaseId: 'imported' });
+    target.database.fromExport(dir);
+    return target;
+  }
+
+  it('round-trips every value type', async () => {
+    const data = {
+      nil: null,
+      yes: true,
+      no: false,
+      int: 42,
+      negative: -7,
+      big: Number.MAX_SAFE_INTEGER,
+      double: 3.25,
+      nan: NaN,
+      inf: -Infinity,
+      text: 'héllo ✓',
+      empty: '',
+      bytes: Buffer.from([0, 1, 2, 254, 255]),
+      emptyBytes: Buffer.alloc(0),
+      when: new Timestamp(1_700_000_000, 123_456_000),
+      before1970: new Timestamp(-86_400, 500_000_000),
+      where: new GeoPoint(51.5, -0.12),
+      ref: db.doc('users/ada'),
+      nestedRef: db.doc('a/b/c/d'),
+      vector: FieldValue.vector([0.5, -1, 2]),
+      list: [1, 'two', { three: 3 }, null],
+      emptyList: [],
+      emptyMap: {},
+      map: { deep: { deeper: { value: 'x', list: [true, false] } } },
+    };
+    await db.doc('users/ada').set(data);
+    await db.doc('users/ada/posts/p1').set({ title: 'Hello' });
+
+    const imported = roundTrip();
+    const doc = imported.database.getDocument('users/ada');
+
+    expect(imported.database.toDocumentPaths()).toEqual([
+      'users/ada',
+      'users/ada/posts/p1',
+    ]);
+    expect(doc.exists).toBe(true);
+    const got = doc.data as typeof data;
+    const { ref, nestedRef, vector, ...plain } = data;
+    expect(got).toMatchObject({
+      ...plain,
+      ref: expect.anything(),
+      nestedRef: expect.anything(),
+      vector: expect.anything(),
+    });
+    expect(got.ref.path).toBe(ref.path);
+    expect(got.nestedRef.path).toBe(nestedRef.path);
+    expect(got.vector.isEqual(vector)).toBe(true);
+    expect(Object.is(got.nan, NaN)).toBe(true);
+  });
+
+  it('reads references back through the imported database', async () => {
+    await db.doc('users/grace').set({ name: 'Grace' });
+    await db.doc('links/l1').set({ to: db.doc('users/grace') });
+
+    const imported = roundTrip();
+    const idb = imported.firestore();
+    const link = await idb.doc('links/l1').get();
+    const target = await link.get('to').get();
+
+    expect(target.get('name')).toBe('Grace');
+  });
+
+  it('splits records larger than a log block across fragments', async () => {
+    await db.doc('big/doc').set({ payload: 'x'.repeat(100_000) });
+    await db.doc('big/after').set({ ok: true });
+
+    const imported = roundTrip();
+
+    expect(imported.database.getDocument('big/doc').data).toEqual({
+      payload: 'x'.repeat(100_000),
+    });
+    expect(imported.database.getDocument('big/after').data).toEqual({
+      ok: true,
+    });
+  });
+
+  it('writes the emulator export layout', async () => {
+    await db.doc('users/ada').set({ name: 'Ada' });
+    ctrl.database.toExport(dir);
+
+    const manifest = JSON.parse(
+      readFileSync(join(dir, 'firebase-export-metadata.json'), 'utf8')
+    );
+    expect(manifest.firestore).toMatchObject({ path: 'firestore_export' });
+    expect(
+      existsSync(
+        join(
+          dir,
+          'firestore_export',
+          'firestore_export.overall_export_metadata'
+        )
+      )
+    ).toBe(true);
+    expect(
+      existsSync(
+        join(dir, 'firestore_export', 'all_namespaces', 'all_kinds', 'output-0')
+      )
+    ).toBe(true);
+  });
+
+  it('imports a managed export from its overall metadata file', async () => {
+    await db.doc('users/ada').set({ name: 'Ada' });
+    ctrl.database.toExport(dir);
+
+    const result = ctrl.database.fromExport(
+      join(dir, 'firestore_export', 'firestore_export.overall_export_metadata')
+    );
+    expect(result.results).toHaveLength(1);
+
+    const other = env.createDatabase({ databaseId: 'managed' });
+    other.database.fromExport(join(dir, 'firestore_export'));
+    expect(other.database.toMap()).toEqual({ 'users/ada': { name: 'Ada' } });
+  });
+
+  it('decodes an export fixture not written by the mock', () => {
+    // fixtures/managed-export was assembled byte by byte from the LevelDB log
+    // format and the Datastore EntityProto definition, not by toExport(). It
+    // covers encodings the writer never emits: partitioned app ids, name
+    // spaces, numeric ids, BLOB meanings, raw (unindexed) properties and
+    // collection-filtered kind_<id> folders.
+    const result = ctrl.database.fromExport(
+      join(__dirname, 'fixtures', 'managed-export')
+    );
+    expect(result.results).toHaveLength(3);
+
+    expect(ctrl.database.toDocumentPaths()).toEqual([
+      'users/ada',
+      'users/ada/notes/__id5__',
+      'users/grace',
+    ]);
+    const ada = ctrl.database.getDocument('users/ada').data as DocumentData;
+    expect(ada).toEqual({
+      name: 'Ada Lovelace',
+      born: new Timestamp(-4_861_728_000, 250_000_000),
+      score: -36,
+      ratio: 0.5,
+      active: true,
+      nothing: null,
+      home: new GeoPoint(51.5, -0.12),
+      friend: expect.anything(),
+      tags: ['math', 'poetry'],
+      none: [],
+      address: { city: 'London', zip: 12345 },
+      photo: Buffer.from([0, 1, 2, 255]),
+      bio: 'Mathematician',
+    });
+    expect(ada.friend.path).toBe('users/grace');
+    expect(ctrl.database.toMap()).toMatchObject({
+      'users/ada/notes/__id5__': { text: 'First note' },
+      'users/grace': { name: 'Grace Hopper' },
+    });
+  });
+
+  it('merges imported documents with the requested granularity', async () => {
+    await db.doc('users/ada').set({ name: 'Ada' });
+    ctrl.database.toExport(dir);
+    await db.doc('users/ada').set({ score: 1 });
+
+    ctrl.database.fromExport(dir, 'branch');
+
+    expect(ctrl.database.getDocument('users/ada').data).toEqual({
+      name: 'Ada',
+      score: 1,
+    });
+  });
+
+  it('rejects a missing or corrupt export', async () => {
+    expect(() => ctrl.database.fromExport(join(dir, 'nope'))).toThrow(
+      'Invalid Firestore export'
+    );
+    expect(() => ctrl.database.fromExport(dir)).toThrow(
+      'Invalid Firestore export'
+    );
+
+    await db.doc('users/ada').set({ name: 'Ada' });
+    ctrl.database.toExport(dir);
+    const output = join(
+      dir,
+      'firestore_export',
+      'all_namespaces',
+      'all_kinds',
+      'output-0'
+    );
+    const bytes = readFileSync(output);
+    bytes[bytes.length - 1] ^= 0xff;
+    writeFileSync(output, bytes);
+
+    expect(() => ctrl.database.fromExport(dir)).toThrow('checksum mismatch');
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  CollectionReference,
+  Firestore,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import { FirestoreController, FirestoreMock, TriggerEventArg } from '../..';
+
+describe('FirestoreController.fork', () => {
+  const START = new Date('2030-01-01T00:00:00Z');
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock({ virtualTime: START });
+    ctrl = env.createDatabase({ location: 'eur3' });
+    db = ctrl.firestore();
+    ctrl.database.fromStructuralDatabase({
+      users: {
+        ada: {
+          data: { name: 'Ada', score: 1 },
+          collections: {
+            posts: { p1: { data: { title: 'Hello' } } },
+          },
+        },
+        grace: { data: { name: 'Grace', score: 2 } },
+      },
+    });
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  it('copies the documents into a new database', async () => {
+    const fork = ctrl.fork({ databaseId: 'what-if' });
+
+    expect(env.getDatabase(undefined, 'what-if')).toBe(fork);
+    expect(fork.location).toBe('eur3');
+    expect(fork.database.toStructuralDatabase()).toEqual(
+      ctrl.database.toStructuralDatabase()
+    );
+    const forkDb = fork.firestore();
+    const cols = await forkDb.doc('users/ada').listCollections();
+    expect(cols.map((c: CollectionReference) => c.id)).toEqual(['posts']);
+    expect(fork.getStats()).toMatchObject({
+      databaseId: 'what-if',
+      documentCount: 3,
+      writes: 0,
+    });
+  });
+
+  it('isolates writes to the fork and to the source', async () => {
+    const before = ctrl.database.toStructuralDatabase();
+    const fork = ctrl.fork({ projectId: 'branch' });
+    const forkDb = fork.firestore();
+
+    await forkDb.doc('users/ada').update({ score: 10 });
+    await forkDb.doc('users/grace').delete();
+    await forkDb.doc('teams/t1').set({ name: 'Blue' });
+    expect(ctrl.database.toStructuralDatabase()).toEqual(before);
+
+    await db.doc('users/ada/posts/p1').delete();
+    expect((await forkDb.doc('users/ada/posts/p1').get()).exists).toBe(true);
+    expect((await forkDb.doc('users/ada').get()).data()).toEqual({
+      name: 'Ada',
+      score: 10,
+    });
+    expect(ctrl.getStats().documentCount).toBe(2);
+    expect(fork.getStats().documentCount).toBe(3);
+  });
+
+  it('continues the history, version and change journal', async () => {
+    const seeded = Timestamp.fromDate(START);
+    env.systemTime.advance(10_000);
+    await db.doc('users/ada').update({ score: 5 });
+    const fork = ctrl.fork({ databaseId: 'what-if' });
+    const forkDb = fork.firestore();
+
+    expect(fork.epoch()).toBe(ctrl.epoch());
+    expect(fork.version()).toBe(ctrl.version());
+    expect(fork.database.changes()).toEqual(ctrl.database.changes());
+    await expect(
+      forkDb.runTransaction(
+        async (tx) => (await tx.get(forkDb.doc('users/ada'))).get('score'),
+        { readOnly: true, readTime: seeded }
+      )
+    ).resolves.toBe(1);
+
+    const version = fork.version();
+    await forkDb.doc('users/ada').update({ score: 6 });
+    expect(fork.version()).toBe(version + 1);
+    expect(fork.database.changes({ sinceVersion: version })).toMatchObject([
+      { path: 'users/ada', kind: 'update', after: { score: 6 } },
+    ]);
+    expect(ctrl.database.changes({ sinceVersion: version })).toEqual([]);
+  });
+
+  it('copies the registered triggers on request', async () => {
+    const fired: string[] = [];
+    ctrl.database.registerTrigger({
+      route: 'users/{uid}',
+      callback: (arg: TriggerEventArg) => fired.push(arg.params.uid),
+    });
+    const plain = ctrl.fork({ databaseId: 'plain' });
+    const withTriggers = ctrl.fork({ databaseId: 'triggers', triggers: true });
+
+    plain.database.setDocument('users/ada', { name: 'Ada' });
+    withTriggers.database.setDocument('users/grace', { name: 'Grace' });
+    await new Promise((r) => setImmediate(r));
+
+    expect(fired).toEqual(['grace']);
+  });
+
+  it('rejects an existing target and a deleted source', () => {
+    expect(() => ctrl.fork()).toThrow(/already exists/);
+    expect(env.databaseExists()).toBe(true);
+
+    ctrl.delete();
+    expect(() => ctrl.fork({ databaseId: 'late' })).toThrow(/deleted/);
+    expect(env.databaseExists(undefined, 'late')).toBe(false);
+  });
+});
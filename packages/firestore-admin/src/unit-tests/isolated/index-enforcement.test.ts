@@ -0,0 +1,363 @@
+import { FieldValue, Filter, Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import {
+  FirestoreController,
+  FirestoreIndexesConfig,
+  FirestoreMock,
+} from '../..';
+
+const INDEXES: FirestoreIndexesConfig = {
+  indexes: [
+    {
+      collectionGroup: 'items',
+      queryScope: 'COLLECTION',
+      fields: [
+        { fieldPath: 'a', order: 'ASCENDING' },
+        { fieldPath: 'c', order: 'DESCENDING' },
+      ],
+    },
+    {
+      collectionGroup: 'items',
+      queryScope: 'COLLECTION',
+      fields: [
+        { fieldPath: 'b', order: 'ASCENDING' },
+        { fieldPath: 'c', order: 'DESCENDING' },
+      ],
+    },
+    {
+      collectionGroup: 'items',
+      queryScope: 'COLLECTION',
+      fields: [
+        { fieldPath: 'tags', arrayConfig: 'CONTAINS' },
+        { fieldPath: 'n', order: 'ASCENDING' },
+      ],
+    },
+    {
+      collectionGroup: 'items',
+      queryScope: 'COLLECTION',
+      fields: [
+        { fieldPath: 'color', order: 'ASCENDING' },
+        { fieldPath: 'embedding', vectorConfig: { dimension: 2, flat: {} } },
+      ],
+    },
+  ],
+  fieldOverrides: [
+    {
+      collectionGroup: 'items',
+      fieldPath: 'n',
+      indexes: [
+        { order: 'ASCENDING', queryScope: 'COLLECTION' },
+        { order: 'ASCENDING', queryScope: 'COLLECTION_GROUP' },
+      ],
+    },
+    {
+      collectionGroup: 'items',
+      fieldPath: 'blob',
+      indexes: [],
+    },
+  ],
+};
+
+describe('Composite index enforcement', () => {
+  let env!: FirestoreMock;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function seed(ctrl: FirestoreController): void {
+    ctrl.database.setDocument('items/i1', {
+      a: 1,
+      b: 2,
+      c: 3,
+      n: 1,
+      tags: ['x'],
+      color: 'red',
+      embedding: FieldValue.vector([1, 0]),
+    });
+    ctrl.database.setDocument('items/i2', {
+      a: 1,
+      b: 2,
+      c: 4,
+      n: 2,
+      tags: ['y'],
+      color: 'red',
+      embedding: FieldValue.vector([0, 1]),
+    });
+  }
+
+  describe("mode: 'enforce'", () => {
+    let ctrl!: FirestoreController;
+    let db!: Firestore;
+
+    beforeEach(() => {
+      ctrl = env.createDatabase({
+        projectId: 'index-proj',
+        indexes: { mode: 'enforce', definitions: JSON.stringify(INDEXES) },
+      });
+      db = ctrl.firestore();
+      seed(ctrl);
+    });
+
+    const requiresIndex = {
+      code: Status.FAILED_PRECONDITION,
+      message: expect.stringMatching(
+        /The query requires an index\. You can create it here: https:\/\/console\.firebase\.google\.com\/v1\/r\/project\/index-proj\/firestore\/indexes\?create_composite=/
+      ),
+    };
+
+    it('serves equality-only queries by merging single-field indexes', async () => {
+      const snap = await db
+        .collection('items')
+        .where('a', '==', 1)
+        .where('b', '==', 2)
+        .where('tags', 'array-contains', 'x')
+        .get();
+      expect(snap.size).toBe(1);
+    });
+
+    it('serves a single-field ordering without a composite index', async () => {
+      const snap = await db.collection('items').orderBy('c', 'desc').get();
+      expect(snap.docs.map((d) => d.id)).toEqual(['i2', 'i1']);
+
+      const range = await db.collection('items').where('c', '>', 3).get();
+      expect(range.size).toBe(1);
+    });
+
+    it('rejects equality plus ordering on another field without an index', async () => {
+      await expect(
+        db.collection('items').where('a', '==', 1).orderBy('b').get()
+      ).rejects.toMatchObject(requiresIndex);
+    });
+
+    it('encodes the missing index in the create_composite link', async () => {
+      const error = await db
+        .collection('items')
+        .where('a', '==', 1)
+        .orderBy('b')
+        .get()
+        .catch((e: Error) => e);
+      const encoded = /create_composite=([A-Za-z0-9+/=]+)/.exec(
+        (error as Error).message
+      )?.[1];
+      const decoded = Buffer.from(encoded ?? '', 'base64').toString('latin1');
+      expect(decoded).toContain(
+        'projects/index-proj/databases/(default)/collectionGroups/items/indexes/_'
+      );
+      expect(decoded).toContain('__name__');
+    });
+
+    it('matches composite indexes on field order and direction', async () => {
+      const snap = await db
+        .collection('items')
+        .where('a', '==', 1)
+        .orderBy('c', 'desc')
+        .get();
+      expect(snap.docs.map((d) => d.id)).toEqual(['i2', 'i1']);
+
+      await expect(
+        db.collection('items').where('a', '==', 1).orderBy('c').get()
+      ).rejects.toMatchObject(requiresIndex);
+    });
+
+    it('merges composite indexes that share the ordering suffix', async () => {
+      const snap = await db
+        .collection('items')
+        .where('a', '==', 1)
+        .where('b', '==', 2)
+        .orderBy('c', 'desc')
+        .get();
+      expect(snap.size).toBe(2);
+    });
+
+    it('uses array-config index fields for array-contains', async () => {
+      const snap = await db
+        .collection('items')
+        .where('tags', 'array-contains', 'y')
+        .where('n', '>', 0)
+        .get();
+      expect(snap.size).toBe(1);
+    });
+
+    it('applies the implicit inequality ordering', async () => {
+      await expect(
+        db.collection('items').where('a', '==', 1).where('n', '>', 0).get()
+      ).rejects.toMatchObject(requiresIndex);
+    });
+
+    it('checks every disjunction of an OR query', async () => {
+      await expect(
+        db
+          .collection('items')
+          .where(
+            Filter.or(Filter.where('a', '==', 1), Filter.where('b', '==', 2))
+          )
+          .orderBy('c', 'desc')
+          .get()
+      ).resolves.toBeDefined();
+
+      await expect(
+        db
+          .collection('items')
+          .where(
+            Filter.or(Filter.where('a', '==', 1), Filter.where('n', '==', 2))
+          )
+          .orderBy('c', 'desc')
+          .get()
+      ).rejects.toMatchObject(requiresIndex);
+    });
+
+    it('requires field overrides for collection-group single-field indexes', async () => {
+      const snap = await db.collectionGroup('items').where('n', '==', 1).get();
+      expect(snap.size).toBe(1);
+
+      await expect(
+        db.collectionGroup('items').where('a', '==', 1).get()
+      ).rejects.toMatchObject({
+        code: Status.FAILED_PRECONDITION,
+        message: expect.stringContaining(
+          'The query requires a COLLECTION_GROUP_ASC index for collection items and field a.'
+        ),
+      });
+    });
+
+    it('honours field overrides that exempt a field', async () => {
+      await expect(
+        db.collection('items').where('blob', '==', 1).get()
+      ).rejects.toMatchObject({
+        code: Status.FAILED_PRECONDITION,
+        message: expect.stringContaining('COLLECTION_ASC index'),
+      });
+    });
+
+    it('requires a vector index for findNearest', async () => {
+      const snap = await db
+        .collection('items')
+        .where('color', '==', 'red')
+        .findNearest({
+          vectorField: 'embedding',
+          queryVector: [1, 0],
+          limit: 1,
+          distanceMeasure: 'EUCLIDEAN',
+        })
+        .get();
+      expect(snap.docs.map((d) => d.id)).toEqual(['i1']);
+
+      await expect(
+        db
+          .collection('items')
+          .findNearest({
+            vectorField: 'embedding',
+            queryVector: [1, 0],
+            limit: 1,
+            distanceMeasure: 'EUCLIDEAN',
+          })
+          .get()
+      ).rejects.toMatchObject({
+        code: Status.FAILED_PRECONDITION,
+        message: expect.stringContaining(
+          'Missing vector index configuration. Please create the required index with the following gcloud command: gcloud firestore indexes composite create --project=index-proj --collection-group=items --query-scope=COLLECTION --field-config=vector-config=\'{"dimension":"2","flat": "{}"}\',field-path=embedding'
+        ),
+      });
+    });
+
+    it('fails listen targets that need a missing index', async () => {
+      const error = await new Promise<unknown>((resolve) => {
+        db.collection('items')
+          .where('a', '==', 1)
+          .orderBy('b')
+          .onSnapshot(() => undefined, resolve);
+      });
+      expect(error).toMatchObject({ code: Status.FAILED_PRECONDITION });
+    });
+
+    it('records what enforced queries were missing', async () => {
+      await db
+        .collection('items')
+        .where('a', '==', 1)
+        .orderBy('b')
+        .get()
+        .catch(() => undefined);
+
+      expect(ctrl.missingIndexes().indexes).toEqual([
+        {
+          collectionGroup: 'items',
+          queryScope: 'COLLECTION',
+          fields: [
+            { fieldPath: 'a', order: 'ASCENDING' },
+            { fieldPath: 'b', order: 'ASCENDING' },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("mode: 'record'", () => {
+    it('runs queries and reports the index definitions they needed', async () => {
+      const ctrl = env.createDatabase({ indexes: { mode: 'record' } });
+      const db = ctrl.firestore();
+      seed(ctrl);
+
+      const snap = await db
+        .collection('items')
+        .where('tags', 'array-contains', 'x')
+        .orderBy('n', 'desc')
+        .get();
+      expect(snap.size).toBe(1);
+      await db.collectionGroup('items').orderBy('n').get();
+      await db.collection('items').where('a', '==', 1).get();
+
+      expect(ctrl.missingIndexes()).toEqual({
+        indexes: [
+          {
+            collectionGroup: 'items',
+            queryScope: 'COLLECTION',
+            fields: [
+              { fieldPath: 'tags', arrayConfig: 'CONTAINS' },
+              { fieldPath: 'n', order: 'DESCENDING' },
+            ],
+          },
+        ],
+        fieldOverrides: [
+          {
+            collectionGroup: 'items',
+            fieldPath: 'n',
+            indexes: [
+              { order: 'ASCENDING', queryScope: 'COLLECTION' },
+              { order: 'DESCENDING', queryScope: 'COLLECTION' },
+              { arrayConfig: 'CONTAINS', queryScope: 'COLLECTION' },
+              { order: 'ASCENDING', queryScope: 'COLLECTION_GROUP' },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  it('does not check indexes unless enabled', async () => {
+    const ctrl = env.createDatabase();
+    seed(ctrl);
+
+    const snap = await ctrl
+      .firestore()
+      .collection('items')
+      .where('a', '==', 1)
+      .orderBy('b')
+      .get();
+    expect(snap.size).toBe(2);
+    expect(ctrl.missingIndexes()).toEqual({ indexes: [], fieldOverrides: [] });
+  });
+
+  it('rejects malformed index definitions', () => {
+    expect(() =>
+      env.createDatabase({
+        indexes: { mode: 'enforce', definitions: '{ "indexes": {} }' },
+      })
+    ).toThrow('Invalid index definitions: "indexes" must be an array.');
+    expect(env.databaseExists()).toBe(false);
+  });
+});
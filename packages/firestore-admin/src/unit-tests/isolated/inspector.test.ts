@@ -0,0 +1,249 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { FirestoreController, FirestoreMock, MockInspector } from '../..';
+
+interface DocumentResponse {
+  updateTime: string;
+}
+
+interface ErrorResponse {
+  error: string;
+}
+
+interface ChangeResponse {
+  version: number;
+}
+
+describe('Inspector', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+  let inspector!: MockInspector;
+
+  beforeEach(async () => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase('demo-project');
+    db = ctrl.firestore();
+    inspector = await env.startInspector();
+  });
+
+  afterEach(async () => {
+    await inspector.close();
+    await db.terminate();
+    env.deleteAll();
+  });
+
+  async function call<T = unknown>(
+    path: string,
+    init?: RequestInit
+  ): Promise<{ status: number; body: T }> {
+    const res = await fetch(new URL(`api/${path}`, inspector.url), init);
+    return { status: res.status, body: (await res.json()) as T };
+  }
+
+  const database = 'databases/demo-project/(default)';
+
+  async function until(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  it('serves the page on a local port', async () => {
+    expect(inspector.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+    const res = await fetch(inspector.url);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/html');
+    expect(await res.text()).toContain('Firestore Mock Inspector');
+  });
+
+  it('lists databases, collections and documents', async () => {
+    env.createDatabase('demo-project', 'other');
+    ctrl.database.setDocument('users/ada', {
+      name: 'Ada',
+      born: Timestamp.fromMillis(0),
+    });
+    ctrl.database.setDocument('users/ada/posts/p1', { title: 'Notes' });
+    ctrl.database.setDocument('teams/t1/members/ada', { role: 'lead' });
+
+    const { body: databases } = await call('databases');
+    expect(databases).toEqual([
+      expect.objectContaining({
+        projectId: 'demo-project',
+        databaseId: '(default)',
+      }),
+      expect.objectContaining({
+        projectId: 'demo-project',
+        databaseId: 'other',
+      }),
+    ]);
+
+    expect((await call(`${database}/collections`)).body).toEqual({
+      collections: ['teams', 'users'],
+    });
+    expect((await call(`${database}/documents?collection=teams`)).body).toEqual(
+      [{ id: 't1', path: 'teams/t1', exists: false }]
+    );
+
+    const { body: doc } = await call<DocumentResponse>(
+      `${database}/document?path=users/ada`
+    );
+    expect(doc).toMatchObject({
+      path: 'users/ada',
+      exists: true,
+      data: { name: 'Ada', born: { $timestamp: '1970-01-01T00:00:00Z' } },
+      collections: ['posts'],
+    });
+    expect(typeof doc.updateTime).toBe('string');
+  });
+
+  it('edits and deletes documents', async () => {
+    const put = await call(`${database}/document?path=users/ada`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        data: { name: 'Ada', friend: { $ref: 'users/alan' } },
+      }),
+    });
+    expect(put).toMatchObject({ status: 200, body: { exists: true } });
+
+    const snap = await db.doc('users/ada').get();
+    expect(snap.get('name')).toBe('Ada');
+    expect(snap.get('friend').path).toBe('users/alan');
+
+    const del = await call(`${database}/document?path=users/ada`, {
+      method: 'DELETE',
+    });
+    expect(del).toMatchObject({ status: 200, body: { exists: false } });
+    expect((await db.doc('users/ada').get()).exists).toBe(false);
+  });
+
+  it('rejects invalid and cross-origin requests', async () => {
+    const invalid = await call<ErrorResponse>(
+      `${database}/document?path=users/ada`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ data: { born: { $timestamp: 'yesterday' } } }),
+      }
+    );
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toEqual(expect.any(String));
+
+    const crossOrigin = await call(`${database}/document?path=users/ada`, {
+      method: 'DELETE',
+      headers: { origin: 'http://example.com' },
+    });
+    expect(crossOrigin.status).toBe(403);
+
+    expect((await call('databases/demo-project/missing/stats')).status).toBe(
+      404
+    );
+    expect((await call(`${database}/documents`)).status).toBe(400);
+  });
+
+  it('reports the change journal, stats and transactions', async () => {
+    await db.doc('users/ada').set({ age: 36 });
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(db.doc('users/ada'));
+      tx.update(snap.ref, { age: snap.get('age') + 1 });
+    });
+
+    const { body: changes } = await call<ChangeResponse[]>(
+      `${database}/changes`
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: 'create',
+        path: 'users/ada',
+        after: { age: 36 },
+      }),
+      expect.objectContaining({
+        kind: 'update',
+        before: { age: 36 },
+        after: { age: 37 },
+      }),
+    ]);
+    const since = changes[0].version;
+    expect(
+      (await call(`${database}/changes?sinceVersion=${since}`)).body
+    ).toHaveLength(1);
+
+    expect((await call(`${database}/stats`)).body).toMatchObject({
+      writes: 2,
+    });
+    expect((await call(`${database}/transactions`)).body).toEqual([
+      expect.objectContaining({ status: 'committed', retries: 0 }),
+    ]);
+  });
+
+  it('reports active listen targets', async () => {
+    await db.doc('users/ada').set({ age: 36 });
+    const seen: string[] = [];
+    const unsubscribeDoc = db
+      .doc('users/ada')
+      .onSnapshot(() => seen.push('doc'));
+    const unsubscribeQuery = db
+      .collection('users')
+      .where('age', '>', 30)
+      .onSnapshot(() => seen.push('query'));
+    await until(() => seen.length === 2);
+
+    const targets = ctrl.listenTargets();
+    expect(targets).toEqual([
+      expect.objectContaining({
+        type: 'documents',
+        documents: ['users/ada'],
+        client: false,
+        documentCount: 1,
+      }),
+      expect.objectContaining({
+        type: 'query',
+        query: 'users where age > ?',
+        documentCount: 1,
+      }),
+    ]);
+    expect((await call(`${database}/listeners`)).body).toHaveLength(2);
+
+    unsubscribeDoc();
+    unsubscribeQuery();
+    await until(() => ctrl.listenTargets().length === 0);
+    expect(ctrl.listenTargets()).toEqual([]);
+  });
+
+  it('streams stats and changes as server-sent events', async () => {
+    const abort = new AbortController();
+    const res = await fetch(new URL(`api/${database}/events`, inspector.url), {
+      signal: abort.signal,
+    });
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    const read = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value);
+      }
+    };
+
+    await read('event: stats');
+    await db.doc('users/ada').set({ age: 36 });
+    await read('event: change');
+    expect(received).toContain('"path":"users/ada"');
+    abort.abort();
+  });
+
+  it('closes from the page', async () => {
+    const { body } = await call('close', { method: 'POST' });
+    expect(body).toEqual({ closed: true });
+    await inspector.closed;
+    await expect(fetch(inspector.url)).rejects.toThrow();
+  });
+
+  it('rejects an invalid port', async () => {
+    await expect(env.startInspector({ port: -1 })).rejects.toThrow(
+      'Invalid inspector options: port must be an integer from 0 to 65535.'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirestoreController, FirestoreMock, LatencyOptions } from '../..';
+
+describe('FirestoreController latency model', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(async () => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+    ctrl.database.batchSet(
+      { path: 'users/ada', data: { n: 1 } },
+      { path: 'users/bob', data: { n: 2 } }
+    );
+    // Warm up the client so that timings only cover the calls under test
+    await db.doc('users/ada').get();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function sleep(ms: number) {
+    return new Promise<void>((r) => setTimeout(r, ms));
+  }
+
+  async function elapsed(op: () => Promise<unknown>): Promise<number> {
+    const start = performance.now();
+    await op();
+    return performance.now() - start;
+  }
+
+  it('delays each RPC by its own latency', async () => {
+    ctrl.setLatency({ default: 0, rpcs: { commit: 60, runQuery: 40 } });
+
+    expect(
+      await elapsed(() => db.doc('users/cy').set({ n: 3 }))
+    ).toBeGreaterThanOrEqual(55);
+    expect(
+      await elapsed(() => db.collection('users').get())
+    ).toBeGreaterThanOrEqual(35);
+    expect(await elapsed(() => db.doc('users/ada').get())).toBeLessThan(30);
+  });
+
+  it('applies latency to failed calls', async () => {
+    ctrl.setLatency({ rpcs: { commit: 50 } });
+
+    const start = performance.now();
+    await expect(db.doc('users/ada').create({ n: 0 })).rejects.toThrow(
+      'already exists'
+    );
+    expect(performance.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it('runs faster than the built-in timing with zero latency', async () => {
+    const writes = (prefix: string) => async () => {
+      for (let i = 0; i < 20; i++) {
+        await db.doc(`${prefix}/i${i}`).set({ i });
+      }
+    };
+
+    const builtIn = await elapsed(writes('slow'));
+    ctrl.setLatency({ default: 0 });
+    const zero = await elapsed(writes('fast'));
+
+    expect(builtIn).toBeGreaterThanOrEqual(60);
+    expect(zero).toBeLessThan(builtIn);
+    expect((await db.collection('fast').get()).size).toBe(20);
+  });
+
+  it('delays listen responses without reordering them', async () => {
+    ctrl.setLatency({
+      seed: 11,
+      default: 0,
+      rpcs: { listen: { type: 'range', min: 5, max: 40 } },
+    });
+
+    const seen: number[] = [];
+    const unsubscribe = db
+      .doc('counters/c')
+      .onSnapshot((s) => seen.push(s.get('n') ?? 0));
+    await sleep(80);
+    for (let n = 1; n <= 5; n++) {
+      await db.doc('counters/c').set({ n });
+    }
+    await sleep(300);
+    unsubscribe();
+
+    expect(seen[0]).toBe(0);
+    expect(seen[seen.length - 1]).toBe(5);
+    expect([...seen].sort((a, b) => a - b)).toEqual(seen);
+  });
+
+  it('draws random latencies deterministically from the seed', async () => {
+    const order = async (seed: number) => {
+      const options: LatencyOptions = {
+        seed,
+        rpcs: { commit: { type: 'range', min: 0, max: 100 } },
+      };
+      ctrl.setLatency(options);
+      const done: number[] = [];
+      await Promise.all(
+        Array.from({ length: 6 }, (_, i) =>
+          db
+            .doc(`runs/r${i}`)
+            .set({ i })
+            .then(() => done.push(i))
+        )
+      );
+      return done;
+    };
+
+    const first = await order(5);
+    const again = await order(5);
+    const other = await order(6);
+
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('validates latencies and can be cleared', async () => {
+    expect(() =>
+      ctrl.setLatency({ rpcs: { commit: { type: 'range', min: 5, max: 1 } } })
+    ).toThrow(
+      'Invalid latency for commit: min and max must be non-negative numbers with min <= max.'
+    );
+    expect(() => ctrl.setLatency({ default: -1 })).toThrow(
+      'Invalid latency for default: must be a non-negative number of milliseconds.'
+    );
+
+    ctrl.setLatency({ default: 200 });
+    ctrl.clearLatency();
+    expect(await elapsed(() => db.doc('users/ada').get())).toBeLessThan(100);
+  });
+});
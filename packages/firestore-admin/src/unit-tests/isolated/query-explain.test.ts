@@ -0,0 +1,147 @@
+import { AggregateField, Firestore, Query } from 'firebase-admin/firestore';
+import { FirestoreController, FirestoreMock } from '../..';
+
+describe('Query Explain', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(async () => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+
+    const batch = db.batch();
+    for (let i = 0; i < 10; i++) {
+      batch.set(db.doc(`items/i${i}`), {
+        group: i % 2 === 0 ? 'even' : 'odd',
+        rank: i,
+        tags: i < 3 ? ['low'] : [],
+      });
+    }
+    await batch.commit();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  it('plans without executing unless analyze is set', async () => {
+    const before = ctrl.getStats().reads;
+    const { metrics, snapshot } = await db
+      .collection('items')
+      .where('group', '==', 'even')
+      .explain();
+
+    expect(snapshot).toBeNull();
+    expect(metrics.executionStats).toBeNull();
+    expect(metrics.planSummary.indexesUsed).toEqual([
+      { query_scope: 'Collection', properties: '(group ASC, __name__ ASC)' },
+    ]);
+    expect(ctrl.getStats().reads).toBe(before);
+  });
+
+  it('reports the indexes a query plan reads', async () => {
+    const plan = async (query: Query) =>
+      (await query.explain()).metrics.planSummary.indexesUsed;
+
+    await expect(plan(db.collection('items'))).resolves.toEqual([
+      { query_scope: 'Collection', properties: '(__name__ ASC)' },
+    ]);
+    await expect(
+      plan(db.collection('items').orderBy('rank', 'desc'))
+    ).resolves.toEqual([
+      {
+        query_scope: 'Collection',
+        properties: '(rank DESC, __name__ DESC)',
+      },
+    ]);
+    await expect(
+      plan(
+        db
+          .collection('items')
+          .where('group', '==', 'odd')
+          .where('tags', 'array-contains', 'low')
+      )
+    ).resolves.toEqual([
+      { query_scope: 'Collection', properties: '(group ASC, __name__ ASC)' },
+      {
+        query_scope: 'Collection',
+        properties: '(tags CONTAINS, __name__ ASC)',
+      },
+    ]);
+    await expect(
+      plan(
+        db.collectionGroup('items').where('group', '==', 'odd').orderBy('rank')
+      )
+    ).resolves.toEqual([
+      {
+        query_scope: 'Collection group',
+        properties: '(group ASC, rank ASC, __name__ ASC)',
+      },
+    ]);
+  });
+
+  it('derives execution stats from the evaluated query', async () => {
+    const { metrics, snapshot } = await db
+      .collection('items')
+      .where('group', '==', 'even')
+      .orderBy('rank')
+      .offset(1)
+      .limit(2)
+      .explain({ analyze: true });
+
+    expect(snapshot?.docs.map((d) => d.id)).toEqual(['i2', 'i4']);
+    expect(metrics.executionStats).toMatchObject({
+      resultsReturned: 2,
+      readOperations: 3,
+      debugStats: { index_entries_scanned: '3', documents_scanned: '3' },
+    });
+  });
+
+  it('bills at least one read when nothing matches', async () => {
+    const { metrics, snapshot } = await db
+      .collection('items')
+      .where('group', '==', 'none')
+      .explain({ analyze: true });
+
+    expect(snapshot?.empty).toBe(true);
+    expect(metrics.executionStats).toMatchObject({
+      resultsReturned: 0,
+      readOperations: 1,
+      debugStats: { index_entries_scanned: '0', documents_scanned: '0' },
+    });
+  });
+
+  it('explains aggregations', async () => {
+    const counted = await db
+      .collection('items')
+      .where('group', '==', 'odd')
+      .count()
+      .explain({ analyze: true });
+
+    expect(counted.snapshot?.data().count).toBe(5);
+    expect(counted.metrics.executionStats).toMatchObject({
+      resultsReturned: 1,
+      readOperations: 1,
+      debugStats: { index_entries_scanned: '5', documents_scanned: '0' },
+    });
+
+    const summed = await db
+      .collection('items')
+      .aggregate({ total: AggregateField.sum('rank') })
+      .explain({ analyze: true });
+
+    expect(summed.snapshot?.data().total).toBe(45);
+    expect(summed.metrics.executionStats?.debugStats).toEqual({
+      index_entries_scanned: '10',
+      documents_scanned: '10',
+    });
+
+    const planned = await db.collection('items').count().explain();
+    expect(planned.snapshot).toBeNull();
+    expect(planned.metrics.planSummary.indexesUsed).toEqual([
+      { query_scope: 'Collection', properties: '(__name__ ASC)' },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { FirestoreController, FirestoreMock } from '../..';
+
+describe('Read retention', () => {
+  const START = new Date('2030-01-01T00:00:00Z');
+  const MINUTE = 60_000;
+  const DAY = 24 * 60 * MINUTE;
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock({ virtualTime: START });
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function at(ms: number): Timestamp {
+    return Timestamp.fromMillis(START.getTime() + ms);
+  }
+
+  function readAt(readTime: Timestamp, path = 'docs/a') {
+    return db.runTransaction(
+      async (tx) => (await tx.get(db.doc(path))).data(),
+      { readOnly: true, readTime }
+    );
+  }
+
+  it('serves reads within a minute by default and rejects older ones', async () => {
+    await db.doc('docs/a').set({ v: 1 });
+    env.systemTime.advance(30_000);
+    await db.doc('docs/a').set({ v: 2 });
+
+    await expect(readAt(at(1_000))).resolves.toEqual({ v: 1 });
+
+    env.systemTime.advance(MINUTE);
+    await expect(readAt(at(1_000))).rejects.toMatchObject({
+      code: Status.FAILED_PRECONDITION,
+    });
+    await expect(readAt(at(40_000))).resolves.toEqual({ v: 2 });
+  });
+
+  it('serves whole minutes within the PITR window', async () => {
+    ctrl.setRetention({ pointInTimeRecovery: true });
+    await db.doc('docs/a').set({ v: 1 });
+    env.systemTime.advance(10 * MINUTE);
+    await db.doc('docs/a').set({ v: 2 });
+    env.systemTime.advance(2 * DAY);
+
+    await expect(readAt(at(MINUTE))).resolves.toEqual({ v: 1 });
+    await expect(readAt(at(11 * MINUTE))).resolves.toEqual({ v: 2 });
+    await expect(
+      db.runTransaction(
+        async (tx) => (await tx.get(db.collection('docs'))).docs[0].data(),
+        { readOnly: true, readTime: at(MINUTE) }
+      )
+    ).resolves.toEqual({ v: 1 });
+    await expect(readAt(at(MINUTE + 1))).rejects.toMatchObject({
+      code: Status.INVALID_ARGUMENT,
+    });
+
+    env.systemTime.advance(5 * DAY);
+    await expect(readAt(at(MINUTE))).rejects.toMatchObject({
+      code: Status.FAILED_PRECONDITION,
+    });
+    await expect(readAt(at(11 * MINUTE))).resolves.toEqual({ v: 2 });
+  });
+
+  it('honours custom windows and keeps them across a reset', async () => {
+    ctrl.setRetention({
+      versionRetentionMillis: 10 * MINUTE,
+      pointInTimeRecovery: true,
+      pitrRetentionMillis: DAY,
+    });
+    ctrl.reset();
+    await db.doc('docs/a').set({ v: 1 });
+    env.systemTime.advance(5 * MINUTE);
+
+    await expect(readAt(at(1_000))).resolves.toEqual({ v: 1 });
+
+    env.systemTime.advance(DAY);
+    await expect(readAt(at(1_000))).rejects.toMatchObject({
+      code: Status.FAILED_PRECONDITION,
+    });
+
+    ctrl.clearRetention();
+    await expect(readAt(at(DAY))).rejects.toMatchObject({
+      code: Status.FAILED_PRECONDITION,
+    });
+  });
+
+  it('validates retention options', () => {
+    expect(() => ctrl.setRetention({ versionRetentionMillis: -1 })).toThrow(
+      'Invalid retention options: versionRetentionMillis must be a non-negative number.'
+    );
+    expect(() => ctrl.setRetention({ pitrRetentionMillis: DAY })).toThrow(
+      'Invalid retention options: pitrRetentionMillis requires pointInTimeRecovery.'
+    );
+    expect(() =>
+      ctrl.setRetention({
+        versionRetentionMillis: DAY,
+        pointInTimeRecovery: true,
+        pitrRetentionMillis: MINUTE,
+      })
+    ).toThrow(
+      'Invalid retention options: pitrRetentionMillis must be a number no less than versionRetentionMillis.'
+    );
+  });
+});
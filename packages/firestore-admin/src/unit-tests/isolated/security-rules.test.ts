@@ -0,0 +1,320 @@
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { FieldValue, Firestore, Query } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { FirestoreController, FirestoreMock } from '../..';
+
+const RULES = `
+rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    function signedIn() {
+      return request.auth != null;
+    }
+    function isAdmin() {
+      return get(/databases/$(database)/documents/admins/$(request.auth.uid)).data.active == true;
+    }
+
+    match /users/{userId} {
+      allow get: if signedIn() && request.auth.uid == userId;
+      allow list: if isAdmin();
+      allow create: if request.auth.uid == userId
+        && request.resource.data.keys().hasOnly(['name', 'createdAt'])
+        && request.resource.data.createdAt == request.time;
+      allow update: if request.auth.uid == userId
+        && request.resource.data.diff(resource.data).affectedKeys().hasOnly(['name']);
+      allow delete: if isAdmin();
+    }
+
+    match /posts/{postId} {
+      allow read: if resource.data.published == true || isAdmin();
+      allow create: if signedIn()
+        && existsAfter(/databases/$(database)/documents/users/$(request.auth.uid));
+    }
+
+    match /scores/{scoreId} {
+      allow list: if resource.data.value >= 10 && resource.data.value < 100;
+    }
+  }
+}
+`;
+
+function token(uid: string): DecodedIdToken {
+  return { uid, sub: uid } as DecodedIdToken;
+}
+
+describe('Security Rules (client-identity Firestore)', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let alice!: Firestore;
+  let bob!: Firestore;
+  let anon!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    ctrl.setSecurityRules(RULES);
+    alice = ctrl.clientFirestore(token('alice'));
+    bob = ctrl.clientFirestore(token('bob'));
+    anon = ctrl.clientFirestore(null);
+
+    ctrl.database.setDocument('users/alice', { name: 'Alice' });
+    ctrl.database.setDocument('users/bob', { name: 'Bob' });
+    ctrl.database.setDocument('admins/bob', { active: true });
+    ctrl.database.setDocument('posts/p1', { published: true });
+    ctrl.database.setDocument('posts/p2', { published: false });
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  const denied = { code: Status.PERMISSION_DENIED };
+
+  describe('reads', () => {
+    it('allows a get matching request.auth and denies others', async () => {
+      const snap = await alice.doc('users/alice').get();
+      expect(snap.data()).toEqual({ name: 'Alice' });
+
+      await expect(alice.doc('users/bob').get()).rejects.toMatchObject(denied);
+      await expect(anon.doc('users/alice').get()).rejects.toMatchObject(denied);
+    });
+
+    it('evaluates get() lookups for list access', async () => {
+      await expect(alice.collection('users').get()).rejects.toMatchObject(
+        denied
+      );
+
+      const snap = await bob.collection('users').get();
+      expect(snap.size).toBe(2);
+    });
+
+    it('judges a query by its constraints, not its results (rules are not filters)', async () => {
+      await expect(alice.collection('posts').get()).rejects.toMatchObject(
+        denied
+      );
+
+      const snap = await alice
+        .collection('posts')
+        .where('published', '==', true)
+        .get();
+      expect(snap.docs.map((d) => d.id)).toEqual(['p1']);
+
+      const empty = await anon
+        .collection('posts')
+        .where('published', '==', true)
+        .where('tag', '==', 'none')
+        .get();
+      expect(empty.empty).toBe(true);
+    });
+
+    it('denies an unfiltered query even when every stored document is readable', async () => {
+      ctrl.database.deleteDocument('posts/p2');
+      expect((await anon.doc('posts/p1').get()).exists).toBe(true);
+
+      await expect(anon.collection('posts').get()).rejects.toMatchObject(
+        denied
+      );
+      await expect(
+        anon.collection('posts').where('tag', '==', 'none').get()
+      ).rejects.toMatchObject(denied);
+    });
+
+    it('requires every IN value and range bound to be allowed', async () => {
+      const scores = anon.collection('scores');
+      ctrl.database.setDocument('scores/s1', { value: 50 });
+
+      await expect(
+        scores.where('value', 'in', [10, 50]).get()
+      ).resolves.toMatchObject({ size: 1 });
+      await expect(
+        scores.where('value', 'in', [5, 50]).get()
+      ).rejects.toMatchObject(denied);
+      await expect(
+        scores.where('value', '>=', 10).where('value', '<', 100).get()
+      ).resolves.toMatchObject({ size: 1 });
+      await expect(
+        scores.where('value', '>', 10).where('value', '<=', 99).get()
+      ).resolves.toMatchObject({ size: 1 });
+      await expect(
+        scores.where('value', '>=', 5).where('value', '<', 100).get()
+      ).rejects.toMatchObject(denied);
+      await expect(
+        scores.where('value', '>=', 10).where('value', '<=', 100).get()
+      ).rejects.toMatchObject(denied);
+      await expect(scores.where('value', '>=', 10).get()).rejects.toMatchObject(
+        denied
+      );
+    });
+
+    it('authorizes a plan-only explain against the query constraints', async () => {
+      await expect(
+        anon.collection('posts').explain({ analyze: false })
+      ).rejects.toMatchObject(denied);
+      await expect(
+        anon.collection('posts').count().explain({ analyze: false })
+      ).rejects.toMatchObject(denied);
+
+      const explained = await anon
+        .collection('posts')
+        .where('published', '==', true)
+        .explain({ analyze: false });
+      expect(explained.snapshot).toBeNull();
+    });
+
+    it('denies listing collection ids', async () => {
+      await expect(alice.listCollections()).rejects.toMatchObject(denied);
+    });
+
+    it('authorizes a query listener from its constraints', async () => {
+      ctrl.database.deleteDocument('posts/p2');
+      const listen = (query: Query) =>
+        new Promise<unknown>((resolve) => {
+          const unsubscribe = query.onSnapshot(
+            (snap) => {
+              unsubscribe();
+              resolve(snap.size);
+            },
+            (err) => {
+              unsubscribe();
+              resolve(err);
+            }
+          );
+        });
+
+      await expect(listen(anon.collection('posts'))).resolves.toMatchObject(
+        denied
+      );
+      await expect(
+        listen(anon.collection('posts').where('published', '==', true))
+      ).resolves.toBe(1);
+    });
+
+    it('fails a listen target that is not readable', async () => {
+      const error = await new Promise<unknown>((resolve) => {
+        const unsubscribe = alice.doc('users/bob').onSnapshot(
+          () => undefined,
+          (err) => {
+            unsubscribe();
+            resolve(err);
+          }
+        );
+      });
+      expect(error).toMatchObject(denied);
+    });
+  });
+
+  describe('writes', () => {
+    it('maps set on a new document to create and checks request.resource', async () => {
+      ctrl.database.deleteDocument('users/alice');
+
+      await expect(
+        alice.doc('users/alice').set({ name: 'A', role: 'admin' })
+      ).rejects.toMatchObject(denied);
+
+      await alice
+        .doc('users/alice')
+        .set({ name: 'A', createdAt: FieldValue.serverTimestamp() });
+      expect(ctrl.database.getDocument('users/alice').exists).toBe(true);
+    });
+
+    it('maps writes to existing documents to update', async () => {
+      await alice.doc('users/alice').update({ name: 'Alicia' });
+      expect(ctrl.database.getDocument('users/alice').data).toEqual({
+        name: 'Alicia',
+      });
+
+      await expect(
+        alice.doc('users/alice').update({ role: 'admin' })
+      ).rejects.toMatchObject(denied);
+    });
+
+    it('checks delete separately from update', async () => {
+      await expect(alice.doc('users/alice').delete()).rejects.toMatchObject(
+        denied
+      );
+      await bob.doc('users/alice').delete();
+      expect(ctrl.database.getDocument('users/alice').exists).toBe(false);
+    });
+
+    it('resolves existsAfter() against the pending batch and rejects atomically', async () => {
+      ctrl.database.deleteDocument('users/alice');
+
+      await expect(
+        alice.doc('posts/p3').set({ published: true })
+      ).rejects.toMatchObject(denied);
+
+      const batch = alice.batch();
+      batch.set(alice.doc('users/alice'), {
+        name: 'A',
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      batch.set(alice.doc('posts/p3'), { published: true });
+      await batch.commit();
+      expect(ctrl.database.getDocument('posts/p3').exists).toBe(true);
+
+      const failing = alice.batch();
+      failing.set(alice.doc('posts/p4'), { published: true });
+      failing.update(alice.doc('users/alice'), { role: 'admin' });
+      await expect(failing.commit()).rejects.toMatchObject(denied);
+      expect(ctrl.database.getDocument('posts/p4').exists).toBe(false);
+    });
+  });
+
+  describe('identities and rulesets', () => {
+    it('bypasses rules for admin instances', async () => {
+      const admin = ctrl.firestore();
+      const snap = await admin.collection('users').get();
+      expect(snap.size).toBe(2);
+    });
+
+    it('denies client requests when no ruleset is loaded', async () => {
+      ctrl.clearSecurityRules();
+      await expect(alice.doc('users/alice').get()).rejects.toMatchObject(
+        denied
+      );
+    });
+
+    it('accepts a token provider and key', async () => {
+      const provider = {
+        token: (options: { key: string }) => token(options.key),
+      };
+      const db = ctrl.clientFirestore(provider, 'bob');
+      const snap = await db.doc('users/bob').get();
+      expect(snap.exists).toBe(true);
+    });
+
+    it('rejects rules with syntax errors', () => {
+      expect(() => ctrl.setSecurityRules('service cloud.firestore {')).toThrow(
+        /syntax error/
+      );
+    });
+  });
+
+  describe('coverage', () => {
+    it('counts evaluations per allow statement', async () => {
+      await alice.doc('users/alice').get();
+      await expect(alice.doc('users/bob').get()).rejects.toMatchObject(denied);
+
+      const coverage = ctrl.securityRulesCoverage();
+      expect(coverage.requests).toBe(2);
+      expect(coverage.deniedRequests).toBe(1);
+
+      const rule = coverage.rules.find(
+        (r) => r.match.endsWith('/users/{userId}') && r.methods[0] === 'get'
+      );
+      expect(rule).toMatchObject({
+        condition: 'signedIn() && request.auth.uid == userId',
+        evaluations: 2,
+        allowed: 1,
+        denied: 1,
+        errors: 0,
+      });
+      expect(
+        coverage.rules.filter((r) => r.evaluations === 0).length
+      ).toBeGreaterThan(0);
+
+      ctrl.resetSecurityRulesCoverage();
+      expect(ctrl.securityRulesCoverage().requests).toBe(0);
+    });
+  });
+});
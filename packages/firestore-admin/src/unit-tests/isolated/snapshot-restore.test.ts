@@ -0,0 +1,223 @@
+import { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import {
+  DatabaseLifecycleEventArg,
+  FirestoreController,
+  FirestoreMock,
+} from '../..';
+
+describe('FirestoreController snapshot & restore', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+    ctrl.database.fromStructuralDatabase({
+      users: {
+        ada: {
+          data: { name: 'Ada', score: 1 },
+          collections: {
+            posts: { p1: { data: { title: 'Hello' } } },
+          },
+        },
+        grace: { data: { name: 'Grace', score: 2 } },
+      },
+    });
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function sleep(ms: number) {
+    return new Promise<void>((r) => setTimeout(r, ms));
+  }
+
+  it('reverts updates, deletes and creates made after the snapshot', async () => {
+    const before = ctrl.database.toStructuralDatabase();
+    const snapshot = ctrl.snapshot();
+
+    await db.doc('users/ada').update({ score: 10 });
+    await db.doc('users/grace').delete();
+    await db.doc('users/ada/posts/p1').delete();
+    await db.doc('teams/t1/members/m1').set({ uid: 'ada' });
+
+    ctrl.restore(snapshot);
+
+    expect(ctrl.database.toStructuralDatabase()).toEqual(before);
+    const cols = await db.listCollections();
+    expect(cols.map((c) => c.id)).toEqual(['users']);
+    expect((await db.doc('users/ada').get()).data()).toEqual({
+      name: 'Ada',
+      score: 1,
+    });
+  });
+
+  it('restores structural and operation stats and the commit version', async () => {
+    const stats = ctrl.getStats();
+    const version = ctrl.version();
+    const snapshot = ctrl.snapshot();
+
+    await db.doc('users/ada').delete();
+    await db.doc('c/d/e/f').set({ a: 1 });
+    await db.collection('users').get();
+
+    ctrl.restore(snapshot);
+
+    expect(ctrl.getStats()).toEqual(stats);
+    expect(ctrl.version()).toBe(version);
+  });
+
+  it('can be restored repeatedly', async () => {
+    const snapshot = ctrl.snapshot();
+
+    for (let i = 0; i < 3; i++) {
+      await db.doc('users/ada').set({ name: `Ada ${i}` });
+      await db.doc(`users/new${i}`).set({ i });
+      ctrl.restore(snapshot);
+
+      const snap = await db.collection('users').get();
+      expect(snap.docs.map((d) => d.id)).toEqual(['ada', 'grace']);
+      expect(snap.docs[0].get('name')).toBe('Ada');
+    }
+  });
+
+  it('invalidates snapshots taken after the restored one', async () => {
+    const first = ctrl.snapshot();
+    await db.doc('users/ada').update({ score: 5 });
+    const second = ctrl.snapshot();
+    const sameAsSecond = ctrl.snapshot();
+
+    ctrl.restore(second);
+    ctrl.restore(sameAsSecond);
+    expect((await db.doc('users/ada').get()).get('score')).toBe(5);
+
+    ctrl.restore(first);
+    expect((await db.doc('users/ada').get()).get('score')).toBe(1);
+    expect(() => ctrl.restore(second)).toThrow(
+      'The database snapshot is not valid.'
+    );
+    ctrl.restore(first);
+  });
+
+  it('invalidates released snapshots and keeps later ones restorable', async () => {
+    const first = ctrl.snapshot();
+    await db.doc('users/ada').update({ score: 5 });
+    const second = ctrl.snapshot();
+    await db.doc('users/ada').update({ score: 6 });
+    await db.doc('users/new').set({ score: 7 });
+
+    first.release();
+    first.release();
+    expect(() => ctrl.restore(first)).toThrow(
+      'The database snapshot is not valid.'
+    );
+
+    ctrl.restore(second);
+    expect((await db.doc('users/ada').get()).get('score')).toBe(5);
+    expect((await db.doc('users/new').get()).exists).toBe(false);
+
+    await db.doc('users/ada').update({ score: 8 });
+    const third = ctrl.snapshot();
+    second.release();
+    await db.doc('users/ada').update({ score: 9 });
+    ctrl.restore(third);
+    expect((await db.doc('users/ada').get()).get('score')).toBe(8);
+  });
+
+  it('invalidates every snapshot on reset', () => {
+    const snapshot = ctrl.snapshot();
+    ctrl.reset();
+
+    expect(() => ctrl.restore(snapshot)).toThrow(
+      'The database snapshot is not valid.'
+    );
+  });
+
+  it('rejects snapshots from another database', () => {
+    const other = env.createDatabase({ databaseId: 'other' });
+
+    expect(() => other.restore(ctrl.snapshot())).toThrow(
+      'The database snapshot is not valid.'
+    );
+  });
+
+  it('increments the epoch and raises a restore lifecycle event', () => {
+    const events: DatabaseLifecycleEventArg[] = [];
+    ctrl.watchLifecycle((arg) => events.push(arg));
+    const epoch = ctrl.epoch();
+
+    ctrl.restore(ctrl.snapshot());
+
+    expect(ctrl.epoch()).toBe(epoch + 1);
+    expect(events).toEqual([
+      { type: 'restore', epoch: epoch + 1, database: ctrl },
+    ]);
+  });
+
+  it('does not fire triggers for reverted documents', async () => {
+    const paths: string[] = [];
+    const snapshot = ctrl.snapshot();
+    await db.doc('users/ada').update({ score: 3 });
+    await sleep(10);
+    ctrl.database.registerTrigger({
+      route: 'users/{uid}',
+      callback: (arg) => paths.push(arg.doc.path),
+    });
+
+    ctrl.restore(snapshot);
+    await sleep(10);
+
+    expect(paths).toEqual([]);
+  });
+
+  it('delivers reverted documents to active listeners', async () => {
+    const snapshot = ctrl.snapshot();
+    const docSnaps: DocumentSnapshot[] = [];
+    const queryIds: string[][] = [];
+
+    const unsubDoc = db
+      .doc('users/ada')
+      .onSnapshot((snap) => docSnaps.push(snap));
+    const unsubQuery = db
+      .collection('users')
+      .onSnapshot((snap) => queryIds.push(snap.docs.map((d) => d.id)));
+    await sleep(20);
+
+    await db.doc('users/ada').delete();
+    await db.doc('users/zed').set({ name: 'Zed' });
+    await sleep(20);
+    ctrl.restore(snapshot);
+    await sleep(20);
+
+    unsubDoc();
+    unsubQuery();
+
+    expect(docSnaps.map((s) => s.get('name'))).toEqual([
+      'Ada',
+      undefined,
+      'Ada',
+    ]);
+    expect(queryIds[0]).toEqual(['ada', 'grace']);
+    expect(queryIds[queryIds.length - 1]).toEqual(['ada', 'grace']);
+    expect(queryIds).toContainEqual(['grace', 'zed']);
+  });
+
+  it('rolls back active transactions', async () => {
+    const snapshot = ctrl.snapshot();
+
+    await expect(
+      db.runTransaction(
+        async (tx) => {
+          await tx.get(db.doc('users/ada'));
+          ctrl.restore(snapshot);
+          tx.update(db.doc('users/ada'), { score: 99 });
+        },
+        { maxAttempts: 1 }
+      )
+    ).rejects.toBeDefined();
+    expect((await db.doc('users/ada').get()).get('score')).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  calcDocSize,
+  FirestoreController,
+  FirestoreMock,
+  MAX_DOC_SIZE_BYTES,
+} from '../..';
+
+describe('Document storage', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+
+  const profile = { name: 'Ada', tags: ['a', 'b'], profile: { age: 3 } };
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  it('measures each document and its index entries', () => {
+    ctrl.database.setDocument('users/ada', profile);
+    const meta = ctrl.database.getDocument('users/ada');
+
+    // Each entry: name 26 + collection 6 + 32, plus field path and value
+    expect(meta.storage()).toEqual({
+      sizeBytes: calcDocSize('users/ada', profile),
+      indexEntries: 2 + 2 + 2,
+      indexBytes: 2 * (64 + 5 + 4) + 2 * (64 + 5 + 2) + 2 * (64 + 12 + 8),
+    });
+    expect(ctrl.database.getDocument('users/nobody').storage()).toBeUndefined();
+  });
+
+  it('applies field override exemptions', () => {
+    ctrl = env.createDatabase({
+      databaseId: 'exempt',
+      indexes: {
+        mode: 'record',
+        definitions: {
+          fieldOverrides: [
+            { collectionGroup: 'users', fieldPath: 'profile', indexes: [] },
+            {
+              collectionGroup: 'users',
+              fieldPath: 'tags',
+              indexes: [{ order: 'ASCENDING', queryScope: 'COLLECTION' }],
+            },
+          ],
+        },
+      },
+    });
+    ctrl.database.setDocument('users/ada', profile);
+
+    expect(ctrl.database.getDocument('users/ada').storage()).toMatchObject({
+      indexEntries: 2,
+      indexBytes: 2 * (64 + 5 + 4),
+    });
+  });
+
+  it('totals the database and lists the largest documents', () => {
+    ctrl.database.fromStructuralDatabase({
+      users: {
+        ada: { data: profile },
+        bob: { data: { name: 'Bob' } },
+        cy: { data: { bio: 'x'.repeat(500) } },
+      },
+    });
+    const docs = ctrl.database.toMetaArray().map((m) => m.storage());
+    const sum = (key: 'sizeBytes' | 'indexEntries' | 'indexBytes') =>
+      docs.reduce((total, s) => total + s[key], 0);
+
+    const storage = ctrl.getStorage({ top: 2 });
+    expect(storage).toMatchObject({
+      documentCount: 3,
+      documentBytes: sum('sizeBytes'),
+      indexEntries: sum('indexEntries'),
+      indexBytes: sum('indexBytes'),
+      totalBytes: sum('sizeBytes') + sum('indexBytes'),
+      warnings: [],
+    });
+    expect(storage.largestDocuments.map((d) => d.path)).toEqual([
+      'users/cy',
+      'users/ada',
+    ]);
+    expect(ctrl.getCost().storedBytes).toBe(storage.totalBytes);
+  });
+
+  it('warns about documents near the size and index entry limits', () => {
+    const fields: Record<string, number> = {};
+    for (let i = 0; i < 16_500; i++) fields[`f${i}`] = i;
+    ctrl.database.setDocument('blobs/big', {
+      body: 'x'.repeat(Math.ceil(MAX_DOC_SIZE_BYTES * 0.9)),
+    });
+    ctrl.database.setDocument('wide/w', fields);
+    ctrl.database.setDocument('small/s', { n: 1 });
+
+    const { warnings } = ctrl.getStorage();
+    expect(warnings.map((w) => [w.path, w.limit])).toEqual([
+      ['blobs/big', 'sizeBytes'],
+      ['wide/w', 'indexEntries'],
+    ]);
+    expect(warnings[1]).toMatchObject({ value: 33_000, max: 40_000 });
+    expect(warnings[1].message).toBe(
+      'Document "wide/w" has 33000 index entries, 82% of the limit of 40000.'
+    );
+    expect(ctrl.getStorage({ warnAt: 0.95 }).warnings).toEqual([]);
+  });
+
+  it('rejects malformed options', () => {
+    expect(() => ctrl.getStorage({ top: -1 })).toThrow(
+      'Storage option "top" must be a non-negative integer.'
+    );
+    expect(() => ctrl.getStorage({ warnAt: 2 })).toThrow(
+      'Storage option "warnAt" must be between 0 and 1.'
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import {
+  FirestoreMock,
+  parseTrafficTrace,
+  recordTraffic,
+  TrafficTrace,
+} from '../..';
+
+describe('Traffic record & replay', () => {
+  let env!: FirestoreMock;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  async function record(
+    scenario: (db: Firestore) => Promise<void>
+  ): Promise<TrafficTrace> {
+    const db = env.createDatabase({ databaseId: 'recorded' }).firestore();
+    const recorder = recordTraffic(db);
+    await scenario(db);
+    recorder.stop();
+    await db.terminate();
+    return JSON.parse(JSON.stringify(recorder.trace()));
+  }
+
+  async function scenario(db: Firestore): Promise<void> {
+    await db.doc('users/ada').set({ name: 'Ada', age: 36, tags: ['math'] });
+    await db.doc('users/alan').set({ name: 'Alan', age: 41 });
+    await db.doc('users/ada').get();
+    await db.collection('users').where('age', '>', 40).get();
+    await db.collection('users').count().get();
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(db.doc('users/ada'));
+      tx.update(snap.ref, { age: snap.get('age') + 1 });
+    });
+    await db
+      .doc('users/grace')
+      .update({ age: 1 })
+      .catch(() => undefined);
+  }
+
+  it('records requests, responses and errors', async () => {
+    const trace = await record(scenario);
+
+    expect(trace.database).toBe('projects/default-project/databases/recorded');
+    expect(trace.calls.map((c) => c.rpc)).toEqual([
+      'commit',
+      'commit',
+      'batchGetDocuments',
+      'runQuery',
+      'runAggregationQuery',
+      'batchGetDocuments',
+      'commit',
+      'commit',
+    ]);
+    expect(trace.calls[2].responses).toMatchObject([
+      {
+        found: {
+          name: `${trace.database}/documents/users/ada`,
+          fields: { name: { stringValue: 'Ada' } },
+        },
+      },
+    ]);
+    expect(trace.calls[7].error).toMatchObject({ code: Status.NOT_FOUND });
+    expect(parseTrafficTrace(JSON.stringify(trace))).toEqual(trace);
+  });
+
+  it('replays a trace against another database without differences', async () => {
+    const trace = await record(scenario);
+    const ctrl = env.createDatabase({ databaseId: 'replayed' });
+
+    const { differences, replayed } = await ctrl.replayTraffic(trace);
+
+    expect(differences).toEqual([]);
+    expect(replayed.database).toBe(
+      'projects/default-project/databases/replayed'
+    );
+    expect(replayed.calls).toHaveLength(trace.calls.length);
+    expect(ctrl.database.getDocument('users/ada').data).toEqual({
+      name: 'Ada',
+      age: 37,
+      tags: ['math'],
+    });
+  });
+
+  it('reports field-level differences', async () => {
+    const trace = await record(scenario);
+    const ctrl = env.createDatabase({ databaseId: 'replayed' });
+    ctrl.database.setDocument('users/grace', { name: 'Grace' });
+
+    const { differences } = await ctrl.replayTraffic(trace);
+
+    expect(differences).toEqual([
+      {
+        call: 4,
+        rpc: 'runAggregationQuery',
+        path: 'responses[0].result.aggregateFields.aggregate_0.integerValue',
+        recorded: '2',
+        replayed: '3',
+      },
+      {
+        call: 7,
+        rpc: 'commit',
+        path: 'error',
+        recorded: { code: Status.NOT_FOUND },
+        replayed: undefined,
+      },
+    ]);
+  });
+
+  it('compares error messages on request', async () => {
+    const trace = await record(async (db) => {
+      await db
+        .doc('users/grace')
+        .update({ age: 1 })
+        .catch(() => undefined);
+    });
+    trace.calls[0].error = {
+      code: Status.NOT_FOUND,
+      message: 'no entity to update',
+    };
+    const ctrl = env.createDatabase({ databaseId: 'replayed' });
+
+    expect((await ctrl.replayTraffic(trace)).differences).toEqual([]);
+    expect(
+      (await ctrl.replayTraffic(trace, { compareErrorMessages: true }))
+        .differences
+    ).toMatchObject([
+      { call: 0, path: 'error.message', recorded: 'no entity to update' },
+    ]);
+  });
+
+  it('rejects malformed traces', async () => {
+    expect(() => parseTrafficTrace('{"version":2}')).toThrow(
+      'Invalid traffic trace: expected version 1, got 2.'
+    );
+    expect(() =>
+      parseTrafficTrace(
+        '{"version":1,"database":"","calls":[{"rpc":"listen"}]}'
+      )
+    ).toThrow(
+      'Invalid traffic trace: expected a database and a list of calls.'
+    );
+    await expect(
+      env.createDatabase().replayTraffic({} as TrafficTrace)
+    ).rejects.toThrow(
+      'Invalid traffic trace: expected version 1, got undefined.'
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { FirestoreController, FirestoreMock } from '../..';
+
+describe('Transaction concurrency control', () => {
+  let env!: FirestoreMock;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function gate() {
+    let open!: () => void;
+    const opened = new Promise<void>((r) => (open = r));
+    return { open, opened };
+  }
+
+  function sleep(ms: number) {
+    return new Promise<void>((r) => setTimeout(r, ms));
+  }
+
+  describe('optimistic (default)', () => {
+    let ctrl!: FirestoreController;
+    let db!: Firestore;
+
+    beforeEach(() => {
+      ctrl = env.createDatabase();
+      db = ctrl.firestore();
+      ctrl.database.setDocument('counters/c', { n: 0 });
+    });
+
+    it('lets a concurrent write through and retries the reader', async () => {
+      const reading = gate();
+      const written = gate();
+      let attempts = 0;
+
+      const tx = db.runTransaction(async (t) => {
+        attempts++;
+        const snap = await t.get(db.doc('counters/c'));
+        reading.open();
+        await written.opened;
+        t.update(db.doc('counters/c'), { n: snap.get('n') + 1 });
+      });
+      await reading.opened;
+      await db.doc('counters/c').set({ n: 10 });
+      written.open();
+      await tx;
+
+      expect(attempts).toBe(2);
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 11 });
+      expect(ctrl.transactionRecords()).toMatchObject([
+        { retries: 1, status: 'committed', wounded: 0 },
+      ]);
+    });
+  });
+
+  describe('pessimistic', () => {
+    let ctrl!: FirestoreController;
+    let db!: Firestore;
+
+    beforeEach(() => {
+      ctrl = env.createDatabase({
+        concurrency: { mode: 'pessimistic', lockTimeoutMillis: 500 },
+      });
+      db = ctrl.firestore();
+      ctrl.database.setDocument('counters/c', { n: 0 });
+    });
+
+    it('blocks writes to documents read by a transaction', async () => {
+      const reading = gate();
+      const events: string[] = [];
+
+      const tx = db.runTransaction(async (t) => {
+        const snap = await t.get(db.doc('counters/c'));
+        reading.open();
+        await sleep(50);
+        t.update(db.doc('counters/c'), { n: snap.get('n') + 1 });
+      });
+      await reading.opened;
+      const write = db
+        .doc('counters/c')
+        .set({ n: 10 })
+        .then(() => events.push('write'));
+      await tx.then(() => events.push('transaction'));
+      await write;
+
+      expect(events).toEqual(['transaction', 'write']);
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 10 });
+      expect(ctrl.transactionRecords()).toMatchObject([
+        { retries: 0, status: 'committed', lockWaits: 0 },
+      ]);
+    });
+
+    it('resolves contention by wound-wait', async () => {
+      const olderRead = gate();
+      const youngerRead = gate();
+      let youngerAttempts = 0;
+
+      const older = db.runTransaction(async (t) => {
+        const snap = await t.get(db.doc('counters/c'));
+        olderRead.open();
+        await youngerRead.opened;
+        await sleep(20);
+        t.update(db.doc('counters/c'), { n: snap.get('n') + 1 });
+      });
+      await olderRead.opened;
+
+      const younger = db.runTransaction(async (t) => {
+        youngerAttempts++;
+        const snap = await t.get(db.doc('counters/c'));
+        youngerRead.open();
+        t.update(db.doc('counters/c'), { n: snap.get('n') * 10 });
+      });
+      await Promise.all([older, younger]);
+
+      expect(youngerAttempts).toBe(2);
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 10 });
+      expect(ctrl.transactionRecords()).toMatchObject([
+        { retries: 0, status: 'committed', wounded: 0 },
+        { retries: 1, status: 'committed', wounded: 1, lockWaits: 1 },
+      ]);
+    });
+
+    it('aborts writes that wait too long for a lock', async () => {
+      const reading = gate();
+      const done = gate();
+
+      const tx = db.runTransaction(async (t) => {
+        await t.get(db.doc('counters/c'));
+        reading.open();
+        await done.opened;
+      });
+      await reading.opened;
+
+      await expect(db.doc('counters/c').set({ n: 1 })).rejects.toMatchObject({
+        code: Status.ABORTED,
+      });
+      done.open();
+      await tx;
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 0 });
+    });
+
+    it('does not lock in read-only transactions', async () => {
+      const reading = gate();
+      const done = gate();
+
+      const tx = db.runTransaction(
+        async (t) => {
+          await t.get(db.doc('counters/c'));
+          reading.open();
+          await done.opened;
+        },
+        { readOnly: true }
+      );
+      await reading.opened;
+      await db.doc('counters/c').set({ n: 1 });
+      done.open();
+      await tx;
+
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 1 });
+      expect(ctrl.transactionRecords()).toEqual([]);
+    });
+  });
+
+  it('validates concurrency options', () => {
+    expect(() =>
+      env.createDatabase({
+        concurrency: { mode: 'pessimistic', lockTimeoutMillis: 0 },
+      })
+    ).toThrow(
+      'Invalid concurrency options: lockTimeoutMillis must be a positive number.'
+    );
+    expect(env.databaseExists()).toBe(false);
+  });
+});
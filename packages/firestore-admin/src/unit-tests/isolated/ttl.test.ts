@@ -0,0 +1,188 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { FirestoreController, FirestoreMock, TriggerEventArg } from '../..';
+
+describe('TTL policies', () => {
+  const START = new Date('2030-01-01T00:00:00Z');
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+
+  beforeEach(() => {
+    env = new FirestoreMock({ virtualTime: START });
+    ctrl = env.createDatabase();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function at(ms: number): Timestamp {
+    return Timestamp.fromMillis(START.getTime() + ms);
+  }
+
+  function exists(path: string): boolean {
+    return ctrl.database.getDocument(path).exists;
+  }
+
+  it('deletes expired documents in covered collection groups', async () => {
+    ctrl.database.setDocument('sessions/a', { expireAt: at(60_000) });
+    ctrl.database.setDocument('sessions/b', { expireAt: 'never' });
+    ctrl.database.setDocument('users/u/sessions/c', { expireAt: at(30_000) });
+    ctrl.database.setDocument('locks/d', { expireAt: at(0) });
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+
+    await env.scheduler.advance(29_999);
+    expect(exists('users/u/sessions/c')).toBe(true);
+
+    await env.scheduler.advance(1);
+    expect(exists('users/u/sessions/c')).toBe(false);
+    expect(exists('sessions/a')).toBe(true);
+
+    await env.scheduler.advance(30_000);
+    expect(exists('sessions/a')).toBe(false);
+    expect(exists('sessions/b')).toBe(true);
+    expect(exists('locks/d')).toBe(true);
+  });
+
+  it('trails expiry by the configured lag', async () => {
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'locks', field: 'lease.until' }],
+      lagMillis: 10_000,
+    });
+    await ctrl
+      .firestore()
+      .doc('locks/l')
+      .set({ lease: { until: at(1_000) } });
+
+    await env.scheduler.advance(10_999);
+    expect(exists('locks/l')).toBe(true);
+
+    await env.scheduler.advance(1);
+    expect(exists('locks/l')).toBe(false);
+  });
+
+  it('deletes as soon as SystemTime jumps past an expiry', async () => {
+    ctrl.database.setDocument('sessions/a', { expireAt: at(3_600_000) });
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+
+    env.systemTime.advance(3_600_000);
+    await env.scheduler.advance(0);
+    expect(exists('sessions/a')).toBe(false);
+  });
+
+  it('notifies listeners and triggers with a system principal', async () => {
+    const db = ctrl.firestore();
+    ctrl.database.setDocument('sessions/a', { expireAt: at(1_000) });
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+    const events: TriggerEventArg[] = [];
+    ctrl.database.registerTrigger({
+      route: 'sessions/{id}',
+      callback: (arg) => events.push(arg),
+    });
+    const seen: boolean[] = [];
+    let initial!: () => void;
+    let deleted!: () => void;
+    const listening = new Promise<void>((r) => (initial = r));
+    const gone = new Promise<void>((r) => (deleted = r));
+    const unsubscribe = db.doc('sessions/a').onSnapshot((snap) => {
+      seen.push(snap.exists);
+      (snap.exists ? initial : deleted)();
+    });
+    await listening;
+
+    await env.scheduler.advance(1_000);
+    await gone;
+    unsubscribe();
+
+    expect(seen).toEqual([true, false]);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      params: { id: 'a' },
+      doc: { exists: false },
+      principal: { authType: 'system' },
+    });
+  });
+
+  it('keeps documents whose expiry moved, or after the policies are cleared', async () => {
+    ctrl.database.setDocument('sessions/a', { expireAt: at(1_000) });
+    ctrl.database.setDocument('sessions/b', { expireAt: at(1_000) });
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+    await ctrl
+      .firestore()
+      .doc('sessions/a')
+      .update({ expireAt: at(5_000) });
+
+    await env.scheduler.advance(1_000);
+    expect(exists('sessions/a')).toBe(true);
+    expect(exists('sessions/b')).toBe(false);
+
+    ctrl.clearTtl();
+    await env.scheduler.advance(10_000);
+    expect(exists('sessions/a')).toBe(true);
+    expect(env.scheduler.pending).toBe(0);
+  });
+
+  it('keeps the policies across a reset', async () => {
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+    ctrl.reset();
+    await ctrl
+      .firestore()
+      .doc('sessions/a')
+      .set({ expireAt: at(1_000) });
+
+    await env.scheduler.advance(1_000);
+    expect(exists('sessions/a')).toBe(false);
+  });
+
+  it('follows expiries moved earlier, deletes and restored snapshots', async () => {
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+    const db = ctrl.firestore();
+    await db.doc('sessions/a').set({ expireAt: at(9_000) });
+    await db.doc('sessions/a').update({ expireAt: at(2_000) });
+    await db.doc('sessions/b').set({ expireAt: at(1_000) });
+    await db.doc('sessions/b').delete();
+    const snapshot = ctrl.snapshot();
+    await db.doc('sessions/a').delete();
+    ctrl.restore(snapshot);
+
+    await env.scheduler.advance(1_999);
+    expect(exists('sessions/a')).toBe(true);
+
+    await env.scheduler.advance(1);
+    expect(exists('sessions/a')).toBe(false);
+    expect(ctrl.database.toDocumentPaths()).toEqual([]);
+  });
+
+  it('validates TTL options', () => {
+    expect(() =>
+      ctrl.setTtl({ policies: [{ collectionGroup: 'a/b', field: 'x' }] })
+    ).toThrow('Invalid TTL policy: collectionGroup must be a collection ID.');
+    expect(() =>
+      ctrl.setTtl({
+        policies: [
+          { collectionGroup: 'a', field: 'x' },
+          { collectionGroup: 'a', field: 'y' },
+        ],
+      })
+    ).toThrow(
+      'Invalid TTL policy for a: a collection group has at most one TTL policy.'
+    );
+    expect(() =>
+      ctrl.setTtl({ policies: [{ collectionGroup: 'a', field: 'x..y' }] })
+    ).toThrow('Invalid TTL policy for a: field must be a valid field path.');
+    expect(() => ctrl.setTtl({ policies: [], lagMillis: -1 })).toThrow(
+      'Invalid TTL options: lagMillis must be a non-negative number.'
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  DocumentReference,
+  FieldValue,
+  Firestore,
+  GeoPoint,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import { Readable } from 'stream';
+import { FirestoreController, FirestoreMock } from '../..';
+
+describe('DatabaseDirect typed JSON & NDJSON', () => {
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock();
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function sample() {
+    return {
+      nil: null,
+      flag: true,
+      int: 42,
+      double: 0.5,
+      nan: NaN,
+      inf: Infinity,
+      negInf: -Infinity,
+      negZero: -0,
+      big: 9007199254740993n,
+      text: 'héllo',
+      when: new Timestamp(1_706_702_400, 123_456_000),
+      whole: new Timestamp(0, 0),
+      where: new GeoPoint(51.5, -0.12),
+      ref: db.doc('users/bob'),
+      bytes: Buffer.from([0, 1, 2, 255]),
+      vector: FieldValue.vector([0.25, -1]),
+      list: [1, { a: new Timestamp(1, 1_000_000) }, [] as never],
+      lookalike: { $ref: 'not a reference' },
+      nested: { deep: { $bigint: 'also a map', other: 1 } },
+    };
+  }
+
+  it('round-trips every value type through JSON text', () => {
+    const data = sample();
+    ctrl.database.setDocument('users/ada', data);
+    ctrl.database.setDocument('users/ada/posts/p1', { title: 'Hi' });
+
+    const text = JSON.stringify(ctrl.database);
+    const other = env.createDatabase({ databaseId: 'other' });
+    other.database.fromJSON(JSON.parse(text));
+
+    const got = other.database.getDocument('users/ada').data as ReturnType<
+      typeof sample
+    >;
+    const { ref, vector, ...rest } = data;
+    expect(got).toMatchObject({
+      ...rest,
+      ref: expect.any(DocumentReference),
+      vector: expect.anything(),
+    });
+    expect(got.ref.path).toBe(ref.path);
+    expect(got.ref.firestore.databaseId).toBe('other');
+    expect(got.vector.isEqual(vector)).toBe(true);
+    expect(Object.is(got.negZero, -0)).toBe(true);
+    expect(other.database.toDocumentPaths()).toEqual([
+      'users/ada',
+      'users/ada/posts/p1',
+    ]);
+  });
+
+  it('uses the documented tags', () => {
+    ctrl.database.setDocument('c/d', sample());
+
+    expect(ctrl.database.toJSON()).toEqual({
+      c: {
+        d: {
+          data: {
+            nil: null,
+            flag: true,
+            int: 42,
+            double: 0.5,
+            nan: { $double: 'NaN' },
+            inf: { $double: 'Infinity' },
+            negInf: { $double: '-Infinity' },
+            negZero: { $double: '-0' },
+            big: { $bigint: '9007199254740993' },
+            text: 'héllo',
+            when: { $timestamp: '2024-01-31T12:00:00.123456Z' },
+            whole: { $timestamp: '1970-01-01T00:00:00Z' },
+            where: { $geopoint: { latitude: 51.5, longitude: -0.12 } },
+            ref: { $ref: 'users/bob' },
+            bytes: { $bytes: 'AAEC/w==' },
+            vector: { $vector: [0.25, -1] },
+            list: [1, { a: { $timestamp: '1970-01-01T00:00:01.001Z' } }, []],
+            lookalike: { $map: { $ref: 'not a reference' } },
+            nested: { deep: { $bigint: 'also a map', other: 1 } },
+          },
+        },
+      },
+    });
+  });
+
+  it('accepts timestamps with offsets and short fractions', () => {
+    ctrl.database.fromJSON({
+      c: {
+        d: {
+          data: { t: { $timestamp: '2024-01-31T13:00:00.5+01:00' } },
+        },
+      },
+    });
+
+    expect(ctrl.database.getDocument('c/d').data?.t).toEqual(
+      new Timestamp(1_706_702_400, 500_000_000)
+    );
+  });
+
+  it('rejects malformed and unknown tags', () => {
+    expect(() =>
+      ctrl.database.fromJSON({ c: { d: { data: { t: { $timestamp: 5 } } } } })
+    ).toThrow('malformed $timestamp value at "t"');
+    expect(() =>
+      ctrl.database.fromJSON({
+        c: { d: { data: { m: { list: [{ $date: 'x' }] } } } },
+      })
+    ).toThrow('unknown tag $date at "m.list[0]"');
+  });
+
+  it('streams NDJSON export and import', async () => {
+    const data = sample();
+    ctrl.database.setDocument('users/ada', data);
+    ctrl.database.setDocument('users/bob', { name: 'Bob' });
+
+    const lines = [...ctrl.database.toNDJSON()];
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual({
+      path: 'users/bob',
+      data: { name: 'Bob' },
+    });
+
+    const other = env.createDatabase({ databaseId: 'other' });
+    const count = await other.database.fromNDJSON(
+      Readable.from(ctrl.database.toNDJSON())
+    );
+
+    expect(count).toBe(2);
+    expect(other.database.getDocument('users/bob').data).toEqual({
+      name: 'Bob',
+    });
+    expect(other.database.getDocument('users/ada').data?.big).toBe(
+      9007199254740993n
+    );
+  });
+
+  it('reassembles lines and characters split across chunks', async () => {
+    const text = Buffer.from(
+      '{"path":"c/a","data":{"s":"héllo ✓"}}\n\n{"path":"c/b","data":{}}'
+    );
+    const chunks = [...text].map((byte) => Uint8Array.of(byte));
+
+    const count = await ctrl.database.fromNDJSON(chunks);
+
+    expect(count).toBe(2);
+    expect(ctrl.database.toMap()).toEqual({
+      'c/a': { s: 'héllo ✓' },
+      'c/b': {},
+    });
+  });
+
+  it('commits large fixtures in batches', async () => {
+    async function* source() {
+      for (let i = 0; i < 1200; i++) {
+        yield `{"path":"items/i${i}","data":{"n":${i}}}\n`;
+      }
+    }
+
+    expect(await ctrl.database.fromNDJSON(source())).toBe(1200);
+    expect(ctrl.getStats().documentCount).toBe(1200);
+  });
+
+  it('reports the failing line and keeps earlier batches', async () => {
+    const lines = [];
+    for (let i = 0; i < 501; i++) {
+      lines.push(`{"path":"items/i${i}","data":{}}\n`);
+    }
+    lines.push('{"path":"items/bad","data":{"x":{"$nope":1}}}\n');
+
+    await expect(ctrl.database.fromNDJSON(lines)).rejects.toThrow(
+      'Invalid NDJSON fixture at line 502: Invalid typed JSON: unknown tag $nope at "x".'
+    );
+    expect(ctrl.database.toDocumentPaths()).toHaveLength(500);
+  });
+});
@@ -0,0 +1,177 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { FirestoreController, FirestoreMock, Scheduler } from '../..';
+
+describe('Virtual time', () => {
+  const START = new Date('2030-01-01T00:00:00Z');
+  let env!: FirestoreMock;
+
+  beforeEach(() => {
+    env = new FirestoreMock({ virtualTime: START });
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  function gate() {
+    let open!: () => void;
+    const opened = new Promise<void>((r) => (open = r));
+    return { open, opened };
+  }
+
+  function track<T>(promise: Promise<T>) {
+    const state = { settled: false };
+    promise.then(
+      () => (state.settled = true),
+      () => (state.settled = true)
+    );
+    return state;
+  }
+
+  describe('Scheduler', () => {
+    it('fires timers in order as time advances', async () => {
+      const scheduler = new Scheduler(START);
+      const fired: string[] = [];
+      scheduler.setTimeout(() => fired.push('b'), 200);
+      scheduler.setTimeout(() => fired.push('a'), 100);
+      const cancelled = scheduler.setTimeout(() => fired.push('x'), 150);
+      scheduler.clearTimeout(cancelled);
+
+      await scheduler.advance(150);
+      expect(fired).toEqual(['a']);
+      expect(scheduler.now()).toBe(START.getTime() + 150);
+
+      scheduler.setTimeout(() => {
+        fired.push('c');
+        scheduler.setTimeout(() => fired.push('d'), 1_000);
+      }, 0);
+      await scheduler.runAllPending();
+      expect(fired).toEqual(['a', 'c', 'b', 'd']);
+      expect(scheduler.now()).toBe(START.getTime() + 1_150);
+      expect(scheduler.pending).toBe(0);
+    });
+
+    it('is only advanced on virtual time', async () => {
+      const real = new Scheduler();
+      expect(real.virtual).toBe(false);
+      await expect(real.advance(1)).rejects.toThrow(
+        'The scheduler does not run on virtual time.'
+      );
+      await expect(env.scheduler.advance(-1)).rejects.toThrow(
+        'Invalid advance: ms must be a non-negative number of milliseconds.'
+      );
+    });
+  });
+
+  describe('FirestoreMock', () => {
+    let ctrl!: FirestoreController;
+    let db!: Firestore;
+
+    beforeEach(() => {
+      ctrl = env.createDatabase();
+      db = ctrl.firestore();
+      ctrl.database.setDocument('counters/c', { n: 0 });
+    });
+
+    it('stamps writes with virtual time', async () => {
+      // The seed document was committed at START
+      const first = await db.doc('counters/c').set({ n: 1 });
+      await env.scheduler.advance(60_000);
+      const second = await db.doc('counters/c').set({ n: 2 });
+
+      expect(first.writeTime.toMillis()).toBe(START.getTime() + 1);
+      expect(second.writeTime.toMillis()).toBe(START.getTime() + 60_000);
+      expect(env.systemTime.now()).toEqual(new Date(START.getTime() + 60_000));
+    });
+
+    it('delivers responses and listener updates without advancing', async () => {
+      const seen: number[] = [];
+      const initial = gate();
+      const done = gate();
+      const unsubscribe = db.doc('counters/c').onSnapshot((s) => {
+        seen.push(s.get('n'));
+        if (s.get('n') === 0) initial.open();
+        if (s.get('n') === 2) done.open();
+      });
+      await initial.opened;
+      await db.doc('counters/c').set({ n: 1 });
+      await db.doc('counters/c').set({ n: 2 });
+      await done.opened;
+      unsubscribe();
+
+      expect(seen).toEqual([0, 1, 2]);
+      expect(env.scheduler.now()).toBe(START.getTime());
+    });
+
+    it('lets latency elapse only as time advances', async () => {
+      ctrl.setLatency({ rpcs: { commit: 500 } });
+
+      const write = db.doc('counters/c').set({ n: 1 });
+      const state = track(write);
+      await env.scheduler.advance(499);
+      expect(state.settled).toBe(false);
+
+      await env.scheduler.advance(1);
+      await write;
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 1 });
+    });
+
+    it('expires idle transactions', async () => {
+      const reading = gate();
+      const resume = gate();
+      let attempts = 0;
+
+      const tx = db.runTransaction(async (t) => {
+        attempts++;
+        const snap = await t.get(db.doc('counters/c'));
+        if (attempts === 1) {
+          reading.open();
+          await resume.opened;
+        }
+        t.update(db.doc('counters/c'), { n: snap.get('n') + 1 });
+      });
+      await reading.opened;
+      await env.scheduler.advance(10 * 60_000);
+      expect(ctrl.transactionRecords()).toMatchObject([
+        { retries: 0, status: 'aborted', expired: 1 },
+      ]);
+
+      resume.open();
+      await tx;
+      expect(attempts).toBe(2);
+      expect(ctrl.transactionRecords()).toMatchObject([
+        { retries: 1, status: 'committed', expired: 1 },
+      ]);
+      expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 1 });
+    });
+
+    it('times out lock waits', async () => {
+      const locking = env.createDatabase({
+        projectId: 'locking',
+        concurrency: { mode: 'pessimistic' },
+      });
+      const ldb = locking.firestore();
+      locking.database.setDocument('counters/c', { n: 0 });
+      const reading = gate();
+      const done = gate();
+
+      const tx = ldb.runTransaction(async (t) => {
+        await t.get(ldb.doc('counters/c'));
+        reading.open();
+        await done.opened;
+      });
+      await reading.opened;
+
+      const write = ldb.doc('counters/c').set({ n: 1 });
+      const state = track(write);
+      await env.scheduler.advance(9_999);
+      expect(state.settled).toBe(false);
+
+      await env.scheduler.advance(1);
+      await expect(write).rejects.toMatchObject({ code: Status.ABORTED });
+      done.open();
+      await tx;
+    });
+  });
+});
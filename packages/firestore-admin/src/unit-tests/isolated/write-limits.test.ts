@@ -0,0 +1,168 @@
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import { Status } from 'google-gax';
+import { FirestoreController, FirestoreMock, WriteLimitWarning } from '../..';
+
+describe('Production write limits', () => {
+  const START = new Date('2030-01-01T00:00:00Z');
+  let env!: FirestoreMock;
+  let ctrl!: FirestoreController;
+  let db!: Firestore;
+
+  beforeEach(() => {
+    env = new FirestoreMock({ virtualTime: START });
+    ctrl = env.createDatabase();
+    db = ctrl.firestore();
+  });
+
+  afterEach(() => {
+    env.deleteAll();
+  });
+
+  const throttled = { code: Status.RESOURCE_EXHAUSTED };
+
+  it('throttles sustained writes to a single document', async () => {
+    ctrl.setWriteLimits({ documentWritesPerSecond: 2 });
+    const ref = db.doc('counters/c');
+
+    await ref.set({ n: 1 });
+    await ref.update({ n: 2 });
+    await expect(ref.update({ n: 3 })).rejects.toMatchObject(throttled);
+    await expect(ref.update({ n: 3 })).rejects.toThrow(
+      'Too much contention on document "counters/c": 3 writes within one second exceed the sustained rate of 2 per second.'
+    );
+
+    await env.scheduler.advance(1_000);
+    await ref.update({ n: 3 });
+    expect(ctrl.database.getDocument('counters/c').data).toEqual({ n: 3 });
+
+    // Direct access is not limited
+    for (let n = 4; n < 8; n++) ctrl.database.setDocument('counters/c', { n });
+  });
+
+  it('ramps up the write rate of new collections', async () => {
+    ctrl.database.setDocument('users/ada', { name: 'Ada' });
+    ctrl.setWriteLimits({
+      rampUp: { initialWritesPerSecond: 3, intervalMillis: 60_000 },
+    });
+
+    const batch = (collection: string, count: number, from = 0) => {
+      const b = db.batch();
+      for (let i = from; i < from + count; i++) {
+        b.set(db.collection(collection).doc(`d${i}`), { i });
+      }
+      return b.commit();
+    };
+
+    await expect(batch('orders', 4)).rejects.toMatchObject(throttled);
+    await batch('orders', 3);
+    await expect(batch('orders', 1, 3)).rejects.toThrow(
+      'Collection "orders" received 4 writes within one second, over the 3 per second its traffic has ramped up to.'
+    );
+    await batch('users', 10);
+
+    await env.scheduler.advance(61_000);
+    await batch('orders', 4, 3); // 3 × 1.5
+    await expect(batch('orders', 1, 7)).rejects.toMatchObject(throttled);
+  });
+
+  it('reports throttled writes per write to a BulkWriter', async () => {
+    ctrl.setWriteLimits({ rampUp: { initialWritesPerSecond: 2 } });
+    const failed: string[] = [];
+    const writer = db.bulkWriter();
+    writer.onWriteError((error) => {
+      failed.push(`${error.documentRef.path}: ${error.code}`);
+      return false;
+    });
+
+    for (const id of ['b', 'c', 'a']) {
+      writer.create(db.doc(`jobs/${id}`), { id }).catch(() => undefined);
+    }
+    await writer.close();
+
+    expect(failed).toEqual([`jobs/a: ${Status.RESOURCE_EXHAUSTED}`]);
+    expect(ctrl.database.getDocument('jobs/a').exists).toBe(false);
+    expect(ctrl.getCost().writes).toBe(2);
+  });
+
+  it('warns once per run of sequential document IDs', async () => {
+    const reported: WriteLimitWarning[] = [];
+    ctrl.setWriteLimits({
+      mode: 'warn',
+      sequentialRun: 3,
+      onWarning: (w) => reported.push(w),
+    });
+
+    for (const id of ['0001', '0002', '0003', '0004', '0000', '0005']) {
+      await db.doc(`logs/${id}`).set({ id });
+    }
+
+    const warnings = ctrl.writeLimitWarnings();
+    expect(warnings).toEqual(reported);
+    expect(warnings).toMatchObject([
+      {
+        limit: 'sequential-ids',
+        path: 'logs/0003',
+        message:
+          'Documents in "logs" were created with 3 monotonically increasing IDs, up to "0003"; sequential IDs cause hotspots.',
+      },
+    ]);
+    expect(ctrl.database.getDocument('logs/0004').exists).toBe(true);
+  });
+
+  it('throttles sequential values of indexed timestamp fields', async () => {
+    ctrl.setWriteLimits({ sequentialRun: 3 });
+    const create = (id: string) =>
+      db.doc(`events/${id}`).set({ at: FieldValue.serverTimestamp() });
+
+    await create('c');
+    await create('b');
+    await expect(create('a')).rejects.toThrow(
+      'Field "at" of documents in "events" was written with 3 monotonically increasing timestamps; an indexed sequential field causes hotspots.'
+    );
+
+    ctrl = env.createDatabase({
+      databaseId: 'exempt',
+      indexes: {
+        mode: 'record',
+        definitions: {
+          fieldOverrides: [
+            { collectionGroup: 'events', fieldPath: 'at', indexes: [] },
+          ],
+        },
+      },
+    });
+    ctrl.setWriteLimits({ sequentialRun: 3 });
+    db = ctrl.firestore();
+    for (const id of ['c', 'b', 'a']) await create(id);
+  });
+
+  it('forgets traffic on reset and can be turned off', async () => {
+    ctrl.setWriteLimits({ mode: 'warn' });
+    await db.doc('counters/c').set({ n: 1 });
+    await db.doc('counters/c').set({ n: 2 });
+    expect(ctrl.writeLimitWarnings()).toMatchObject([
+      { limit: 'document-rate', path: 'counters/c' },
+    ]);
+
+    ctrl.reset();
+    expect(ctrl.writeLimitWarnings()).toEqual([]);
+    await db.doc('counters/c').set({ n: 1 });
+    expect(ctrl.writeLimitWarnings()).toEqual([]);
+
+    ctrl.clearWriteLimits();
+    await db.doc('counters/c').set({ n: 2 });
+    expect(ctrl.writeLimitWarnings()).toEqual([]);
+  });
+
+  it('rejects malformed options', () => {
+    expect(() => ctrl.setWriteLimits({ mode: 'fail' as never })).toThrow(
+      'Invalid write limits: mode must be "throttle" or "warn".'
+    );
+    expect(() => ctrl.setWriteLimits({ documentWritesPerSecond: 0 })).toThrow(
+      'Invalid write limits: documentWritesPerSecond must be a positive number.'
+    );
+    expect(() => ctrl.setWriteLimits({ sequentialRun: 1 })).toThrow(
+      'Invalid write limits: sequentialRun must be an integer of at least 2.'
+    );
+  });
+});
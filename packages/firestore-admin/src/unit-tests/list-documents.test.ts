@@ -0,0 +1,4 @@
+import { listDocumentsSuite } from 'firestore-bridge-test-suites';
+import { testContext } from './common/index.js';
+
+listDocumentsSuite(testContext());
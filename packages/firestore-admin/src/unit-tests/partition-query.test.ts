@@ -0,0 +1,4 @@
+import { partitionQuerySuite } from 'firestore-bridge-test-suites';
+import { testContext } from './common/index.js';
+
+partitionQuerySuite(testContext());
@@ -300,7 +300,13 @@ export type V2CloudEventData =
   | firestoreV2.DocumentSnapshot
   | firestoreV2.QueryDocumentSnapshot;
 
-export type V2CloudEvent = firestoreV2.FirestoreEvent<V2CloudEventData>;
+export type V2CloudEvent = firestoreV2.FirestoreEvent<V2CloudEventData> &
+  Partial<
+    Pick<
+      firestoreV2.FirestoreAuthEvent<V2CloudEventData>,
+      'authType' | 'authId'
+    >
+  >;
 
 export type GenericTriggerEventData = firestoreV2.FirestoreEvent<unknown>;
 
@@ -319,6 +325,7 @@ export type GenericTriggerEventData = firestoreV2.FirestoreEvent<unknown>;
  * - `subject`: the document path (e.g., `"cities/LA"`)
  * - `source`: `"projects/{projectId}/databases/{databaseId|(default)}"`
  * - `params`: an object for route parameters (filled by caller)
+ * - `authType` / `authId`: only for changes made by the database itself (e.g. TTL deletes)
  *
  * @param ctrl - The controller providing project/database identifiers.
  * @param emitKind - The kind to emit (`'create' | 'update' | 'delete' | 'write'`).
@@ -380,6 +387,12 @@ export function buildCloudEvent(
     namespace: ctrl.namespace,
     specversion: '1.0',
   };
+  if (arg.principal) {
+    event.authType = arg.principal.authType;
+    if (arg.principal.authId !== undefined) {
+      event.authId = arg.principal.authId;
+    }
+  }
 
   return event;
 }
@@ -1,5 +1,7 @@
 import {
   FirestoreController,
+  Scheduler,
+  TimerHandle,
   TriggerEventArg,
 } from '@firebase-bridge/firestore-admin';
 import { CloudFunction as CloudFunctionV1 } from 'firebase-functions/v1';
@@ -252,13 +254,13 @@ interface TriggerStub<TKey extends TriggerKey> {
 
 /**
  * Single-use waiter that resolves when a predicate matches, or rejects on
- * timeout/cancel. Instances are serviced by a short **internal interval** (5ms)
- * that checks expiration. When no waiters remain, the interval is cleared.
+ * timeout/cancel. The timeout runs on the mock environment's
+ * {@link Scheduler}, so it elapses instantly when virtual time is advanced.
  *
  * @internal
  */
 class WaitHandle<TKey extends TriggerKey, TArg> {
-  private _expires: number;
+  private readonly _timer: TimerHandle;
   private _resolve!: (arg: TArg) => void;
   private _reject!: (reason: Error) => void;
 
@@ -270,15 +272,22 @@ class WaitHandle<TKey extends TriggerKey, TArg> {
   /**
    * @param set - The internal set to which this waiter belongs (auto-removed on settle).
    * @param predicate - Predicate evaluated against each completed event.
+   * @param scheduler - The clock on which the timeout elapses.
    * @param options - Timeout and cancellation behavior (defaults: `timeout=3000`, `cancelOnError=false`).
    */
   constructor(
     private readonly set: WaitHandle<TKey, TArg>[],
     private readonly predicate: (arg: TArg) => boolean,
+    private readonly scheduler: Scheduler,
     options?: WaitOptions
   ) {
     const DEFAULT_TIMEOUT = 3000;
-    this._expires = Date.now() + (options?.timeout ?? DEFAULT_TIMEOUT);
+    this._timer = scheduler
+      .setTimeout(
+        () => this.reject('timed-out.'),
+        options?.timeout ?? DEFAULT_TIMEOUT
+      )
+      .unref();
     this.cancelOnError = options?.cancelOnError === true;
     this.promise = new Promise<TArg>(
       (resolve: (arg: TArg) => void, reject: (reason: Error) => void) => {
@@ -301,13 +310,6 @@ class WaitHandle<TKey extends TriggerKey, TArg> {
     }
   }
 
-  /** Tick the timer; rejects if now >= timeout. */
-  tick(evalTime: number): void {
-    if (evalTime >= this._expires) {
-      this.reject('timed-out.');
-    }
-  }
-
   /** Cancel the waiter with an optional cause. */
   cancel(cause?: unknown): void {
     this.reject('cancelled', cause);
@@ -319,6 +321,7 @@ class WaitHandle<TKey extends TriggerKey, TArg> {
   }
 
   private remove(): void {
+    this.scheduler.clearTimeout(this._timer);
     const idx = this.set.indexOf(this);
     if (idx >= 0) {
       this.set.splice(idx, 1);
@@ -385,7 +388,7 @@ type HandlerResolver<TKey extends TriggerKey> = (
 export class TriggerOrchestrator<TKey extends TriggerKey> {
   private _epoch = 0;
   private _suspended = false;
-  private _interrupt: ReturnType<typeof setInterval> | undefined;
+  private readonly _scheduler: Scheduler;
   private _stubs = new Map<TKey, TriggerStub<TKey>>();
   private _errorWatchers = new Map<symbol, TriggerErrorWatcher<TKey>>();
   private _unsub: (() => void) | undefined;
@@ -408,9 +411,11 @@ export class TriggerOrchestrator<TKey extends TriggerKey> {
     ctrl: FirestoreController,
     register: (registrar: TriggerRegistrar<TKey>) => void
   ) {
+    this._scheduler = ctrl.mock.scheduler;
     this._unsub = ctrl.watchLifecycle((arg) => {
       switch (arg.type) {
         case 'reset':
+        case 'restore':
           this._epoch = arg.epoch;
           break;
 
@@ -512,8 +517,8 @@ export class TriggerOrchestrator<TKey extends TriggerKey> {
    * of late async work from earlier runs.
    *
    * @remarks
-   * - The epoch increments **only** when the underlying in-memory database is reset.
-   * - This orchestrator **re-binds** and recaptures the current epoch **automatically** whenever the bound database is reset.
+   * - The epoch increments **only** when the underlying in-memory database is reset or restored to a snapshot.
+   * - This orchestrator **re-binds** and recaptures the current epoch **automatically** whenever the bound database is reset or restored.
    */
   get epoch(): number {
     return this._epoch;
@@ -828,8 +833,8 @@ export class TriggerOrchestrator<TKey extends TriggerKey> {
    * - Use {@link waitOne} for a simpler “next invocation” await with no predicate.
    * - If `options.cancelOnError === true`, the waiter rejects if a matching
    *   run fails before the predicate can be satisfied.
-   * - Waiters are serviced by a lightweight internal interval (5ms) that is
-   *   **auto-stopped** when no waiters remain.
+   * - The timeout runs on the environment's {@link Scheduler}; on virtual time
+   *   it only elapses as the scheduler is advanced.
    *
    * @param key - Trigger key to wait on.
    * @param predicate - Match function evaluated on each **successful** completed event.
@@ -955,7 +960,6 @@ export class TriggerOrchestrator<TKey extends TriggerKey> {
         wh.cancel();
       }
     }
-    this.clearInterrupt();
     this._stubs.forEach((stub) => {
       stub.observers.length = 0;
       stub.unsub();
@@ -981,56 +985,11 @@ export class TriggerOrchestrator<TKey extends TriggerKey> {
 
     const set = setResolver(stub);
 
-    const wh = new WaitHandle(set, predicate, options);
-    this.ensureInterrupt();
+    const wh = new WaitHandle(set, predicate, this._scheduler, options);
 
     return wh.promise;
   }
 
-  /**
-   * Starts (if necessary) the interval that services waiter timeouts.
-   * The interval is cleared automatically when no waiters remain.
-   *
-   * @internal
-   */
-  private ensureInterrupt(): void {
-    function tick<T>(now: number, set: WaitHandle<TKey, T>[]): void {
-      for (const wh of [...set]) {
-        wh.tick(now);
-      }
-    }
-
-    const INTERVAL = 5;
-    if (!this._interrupt) {
-      const t = setInterval(() => {
-        const now = Date.now();
-        this._stubs.forEach((stub) => {
-          tick(now, stub.waitHandles);
-          tick(now, stub.errorWaitHandles);
-        });
-        // Clear interval if no wait handles remain
-        let count = 0;
-        this._stubs.forEach((stub) => {
-          count += stub.waitHandles.length;
-          count += stub.errorWaitHandles.length;
-        });
-        if (count === 0) {
-          this.clearInterrupt();
-        }
-      }, INTERVAL);
-      t.unref?.();
-      this._interrupt = t;
-    }
-  }
-
-  /** Clears the waiter timeout interval (if running). @internal */
-  private clearInterrupt(): void {
-    if (this._interrupt) {
-      clearInterval(this._interrupt);
-      this._interrupt = undefined;
-    }
-  }
-
   /** Internal hook invoked before the wrapped trigger handler executes. @internal */
   private _onBefore(stub: TriggerStub<TKey>, arg: TriggerEventArg): void {
     stub.stats.initiatedCount += 1;
@@ -463,23 +463,20 @@ export function orchestratorTestSuite(
       expect(r2.completedCount).toBeGreaterThanOrEqual(2);
     });
 
-    it('G28: interval lifecycle starts with first waiter and stops when none remain', async () => {
-      const setSpy = jest.spyOn(global, 'setInterval');
-      const clearSpy = jest.spyOn(global, 'clearInterval' as any);
+    it('G28: timeout timer starts with a waiter and is cleared when it settles', async () => {
+      const setSpy = jest.spyOn(ctx.env.scheduler, 'setTimeout');
+      const clearSpy = jest.spyOn(ctx.env.scheduler, 'clearTimeout');
 
       const w = ctx.orch.wait(
         AppTrigger.OnUserWrite,
         (e) => e.completedCount >= 1,
         { timeout: 1000 }
       );
-      expect(setSpy).toHaveBeenCalled(); // interval ensured
+      expect(setSpy).toHaveBeenCalledWith(expect.any(Function), 1000);
 
       await writeUser(ctx.db, 'u21', { ok: true });
       await w;
-
-      // give a tick for cleanup
-      await sleep(5);
-      expect(clearSpy).toHaveBeenCalled();
+      expect(clearSpy).toHaveBeenCalledWith(setSpy.mock.results[0].value);
 
       setSpy.mockRestore();
       clearSpy.mockRestore();
@@ -0,0 +1,41 @@
+import { FirestoreMock } from '@firebase-bridge/firestore-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import * as v2 from 'firebase-functions/v2';
+import { registerTrigger } from '../lib/v2/register-trigger.js';
+
+describe('TTL deletes', () => {
+  const START = new Date('2030-01-01T00:00:00Z');
+  const env = new FirestoreMock({ virtualTime: START });
+  const ctrl = env.createDatabase();
+
+  afterAll(() => {
+    ctrl.delete();
+  });
+
+  it('reach auth-context triggers with a system principal', async () => {
+    let received!: (event: v2.firestore.FirestoreAuthEvent<unknown>) => void;
+    const deleted = new Promise<v2.firestore.FirestoreAuthEvent<unknown>>(
+      (r) => (received = r)
+    );
+    const unsub = registerTrigger(
+      ctrl,
+      v2.firestore.onDocumentDeletedWithAuthContext('sessions/{id}', (e) =>
+        received(e)
+      )
+    );
+    ctrl.database.setDocument('sessions/s1', {
+      expireAt: Timestamp.fromMillis(START.getTime() + 1_000),
+    });
+    ctrl.setTtl({
+      policies: [{ collectionGroup: 'sessions', field: 'expireAt' }],
+    });
+
+    await env.scheduler.advance(1_000);
+    const event = await deleted;
+    unsub();
+
+    expect(event.authType).toBe('system');
+    expect(event.authId).toBeUndefined();
+    expect(event.params).toEqual({ id: 's1' });
+  });
+});
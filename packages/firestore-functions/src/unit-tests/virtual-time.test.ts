@@ -0,0 +1,43 @@
+import { FirestoreMock } from '@firebase-bridge/firestore-admin';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { TriggerOrchestrator } from '../lib/trigger-orchestrator.js';
+
+enum Trigger {
+  OnUserWrite = 'onUserWrite',
+}
+
+describe('TriggerOrchestrator on virtual time', () => {
+  const env = new FirestoreMock({ virtualTime: true });
+  const ctrl = env.createDatabase();
+  const firestore = ctrl.firestore();
+  const orch = new TriggerOrchestrator<Trigger>(ctrl, (r) => {
+    r.v2(
+      Trigger.OnUserWrite,
+      onDocumentWritten('users/{uid}', () => undefined)
+    );
+  });
+
+  afterAll(() => {
+    ctrl.delete();
+  });
+
+  it('times out waits as virtual time advances', async () => {
+    let settled = false;
+    const wait = orch.waitOne(Trigger.OnUserWrite, { timeout: 60_000 });
+    const rejection = expect(
+      wait.finally(() => (settled = true))
+    ).rejects.toThrow(/timed-out/);
+
+    await env.scheduler.advance(59_999);
+    expect(settled).toBe(false);
+    await env.scheduler.advance(1);
+    await rejection;
+  });
+
+  it('runs triggers without advancing', async () => {
+    const wait = orch.waitOne(Trigger.OnUserWrite);
+    await firestore.doc('users/ada').set({ name: 'Ada' });
+
+    await expect(wait).resolves.toMatchObject({ key: Trigger.OnUserWrite });
+  });
+});